@@ -6,6 +6,7 @@ import { BookingForm } from '@/components/booking-form'
 import { DeleteBookingButton } from '@/components/delete-booking-button'
 import { Edit, ArrowLeft } from 'lucide-react'
 import Link from 'next/link'
+import { formatPlatformName } from '@/lib/fees/marketplace-fees'
 
 export const dynamic = 'force-dynamic'
 
@@ -24,6 +25,7 @@ export default async function BookingDetailPage({
       client:clients(*),
       product:products(*),
       service:services(*),
+      promotion:promotions(name),
       booking_products(
         id,
         product_id,
@@ -57,6 +59,7 @@ export default async function BookingDetailPage({
   const bookingAny = booking as any
   const client = Array.isArray(bookingAny.client) ? bookingAny.client[0] : bookingAny.client
   const service = Array.isArray(bookingAny.service) ? bookingAny.service[0] : bookingAny.service
+  const promotion = Array.isArray(bookingAny.promotion) ? bookingAny.promotion[0] : bookingAny.promotion
   const earring = Array.isArray(bookingAny.earring) ? bookingAny.earring[0] : bookingAny.earring
   
   // Use bookingAny for all booking property access
@@ -169,12 +172,12 @@ export default async function BookingDetailPage({
               <p className="font-medium">${bookingData.travel_fee.toFixed(2)}</p>
             </div>
             <div>
-              <p className="text-sm text-muted-foreground">Booksy Fee</p>
+              <p className="text-sm text-muted-foreground">{formatPlatformName(bookingData.fee_platform ?? 'booksy')} Fee</p>
               <p className="font-medium">${bookingData.booksy_fee.toFixed(2)}</p>
             </div>
             {bookingData.custom_discount > 0 && (
               <div>
-                <p className="text-sm text-muted-foreground">Custom Discount</p>
+                <p className="text-sm text-muted-foreground">{promotion?.name ? `Discount (${promotion.name})` : 'Custom Discount'}</p>
                 <p className="font-medium">${bookingData.custom_discount.toFixed(2)}</p>
               </div>
             )}
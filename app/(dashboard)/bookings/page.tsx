@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/server'
 import { fetchAllBookings } from '@/lib/bookings/fetch-bookings'
+import { fetchWorkingSchedule } from '@/lib/scheduling/fetch-schedule'
 import { BookingCalendar } from '@/components/booking-calendar'
 import { BookingForm } from '@/components/booking-form'
 import { Button } from '@/components/ui/button'
@@ -10,6 +11,25 @@ export const dynamic = 'force-dynamic'
 export default async function BookingsPage() {
   const supabase = await createClient()
   const bookings = await fetchAllBookings(supabase)
+  const schedule = await fetchWorkingSchedule(supabase)
+
+  // Get user's timezone (default to Europe/Warsaw)
+  let timezone = 'Europe/Warsaw'
+  const { data: { user } } = await supabase.auth.getUser()
+  if (user) {
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('timezone')
+      .eq('user_id', user.id)
+      .single()
+
+    if (profile && typeof profile === 'object' && 'timezone' in profile) {
+      const profileTimezone = (profile as { timezone?: string }).timezone
+      if (typeof profileTimezone === 'string') {
+        timezone = profileTimezone
+      }
+    }
+  }
 
   // Cast to any[] to handle Supabase's dynamic typing
   const bookingsAny = (bookings as any[]) || []
@@ -28,7 +48,7 @@ export default async function BookingsPage() {
           </Button>
         </BookingForm>
       </div>
-      <BookingCalendar bookings={bookingsAny} />
+      <BookingCalendar bookings={bookingsAny} schedule={schedule} timezone={timezone} />
     </div>
   )
 }
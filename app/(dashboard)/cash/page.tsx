@@ -0,0 +1,206 @@
+import Link from 'next/link'
+import { format, parseISO } from 'date-fns'
+import { createClient } from '@/lib/supabase/server'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { CashCloseForm } from '@/components/cash-close-form'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { addDaysToCalendarDate, getTodayInTimezone } from '@/lib/date-utils'
+import { formatPln } from '@/lib/currency/format-currency'
+import { fetchCashClose, getCashDaySummary, hasCashDiscrepancy } from '@/lib/cash/cash-close'
+import type { CashClose } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+const HISTORY_LIMIT = 60
+
+interface CashPageProps {
+  searchParams: Promise<{ date?: string }>
+}
+
+export default async function CashPage({ searchParams }: CashPageProps) {
+  const params = await searchParams
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('timezone')
+    .eq('user_id', user?.id ?? '')
+    .maybeSingle()
+  const timezone = (profile as { timezone?: string } | null)?.timezone ?? 'Europe/Warsaw'
+  const today = getTodayInTimezone(timezone)
+  const date = params.date && /^\d{4}-\d{2}-\d{2}$/.test(params.date) && params.date <= today ? params.date : today
+
+  const [summary, close, historyRes] = await Promise.all([
+    getCashDaySummary(supabase, date, timezone),
+    fetchCashClose(supabase, date),
+    supabase
+      .from('cash_closes')
+      .select('*')
+      .order('close_date', { ascending: false })
+      .limit(HISTORY_LIMIT),
+  ])
+  const history = (historyRes.data as CashClose[] | null) || []
+  const discrepancyCount = history.filter(hasCashDiscrepancy).length
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl sm:text-4xl font-bold tracking-tight" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+          Cash Drawer
+        </h1>
+        <p className="text-muted-foreground mt-2 text-base">
+          Count the drawer at the end of the day and record any difference
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <Link href={`/cash?date=${addDaysToCalendarDate(date, -1)}`}>
+          <Button variant="ghost" size="sm">
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </Button>
+        </Link>
+        <p className="text-lg font-semibold">
+          {date === today ? 'Today' : format(parseISO(date), 'EEEE, MMM d, yyyy')}
+        </p>
+        {date < today ? (
+          <Link href={`/cash?date=${addDaysToCalendarDate(date, 1)}`}>
+            <Button variant="ghost" size="sm">
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </Link>
+        ) : (
+          <span className="w-20" />
+        )}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card className="hover:shadow-md transition-shadow">
+          <CardHeader>
+            <CardTitle className="text-xl" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+              Expected Cash
+            </CardTitle>
+            <CardDescription className="text-base">
+              Cash taken for bookings (net of refunds) minus costs paid from the drawer
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">
+                Cash bookings ({summary.cashBookingCount})
+              </span>
+              <span className="font-medium">{formatPln(summary.cashBookingsTotal)}</span>
+            </div>
+            {summary.cashVoucherSalesTotal > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Gift vouchers sold</span>
+                <span className="font-medium">{formatPln(summary.cashVoucherSalesTotal)}</span>
+              </div>
+            )}
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Cash costs</span>
+              <span className="font-medium">−{formatPln(summary.cashCostsTotal)}</span>
+            </div>
+            <div className="flex justify-between border-t pt-2">
+              <span className="font-semibold">Expected in drawer</span>
+              <span className="text-xl font-bold">{formatPln(summary.expectedCash)}</span>
+            </div>
+            {close && Math.abs(Number(close.expected_cash) - summary.expectedCash) >= 0.005 && (
+              <p className="text-sm text-muted-foreground">
+                Bookings or costs changed after the close, which expected {formatPln(Number(close.expected_cash))}.
+                Save the close again to update it.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="hover:shadow-md transition-shadow">
+          <CardHeader>
+            <CardTitle className="text-xl" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+              {close ? 'Day Closed' : 'Close the Day'}
+            </CardTitle>
+            {close && (
+              <CardDescription className="text-base">
+                Closed at {new Date(close.closed_at).toLocaleTimeString('en-GB', { timeZone: timezone, hour: '2-digit', minute: '2-digit' })}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            <CashCloseForm
+              key={`${date}-${close?.closed_at ?? 'open'}`}
+              date={date}
+              timezone={timezone}
+              expectedCash={summary.expectedCash}
+              existingClose={close}
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="hover:shadow-md transition-shadow">
+        <CardHeader>
+          <CardTitle className="text-xl" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+            History
+          </CardTitle>
+          <CardDescription className="text-base">
+            {discrepancyCount === 0
+              ? 'No discrepancies in recent closes'
+              : `${discrepancyCount} close${discrepancyCount === 1 ? '' : 's'} with a discrepancy`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No closes yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead className="text-right">Counted</TableHead>
+                  <TableHead className="text-right">Difference</TableHead>
+                  <TableHead>Notes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map((row) => (
+                  <TableRow key={row.id}>
+                    <TableCell className="whitespace-nowrap">
+                      <Link href={`/cash?date=${row.close_date}`} className="hover:underline">
+                        {format(parseISO(row.close_date), 'MMM d, yyyy')}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-right">{formatPln(Number(row.expected_cash))}</TableCell>
+                    <TableCell className="text-right">{formatPln(Number(row.counted_cash))}</TableCell>
+                    <TableCell className="text-right">
+                      {hasCashDiscrepancy(row) ? (
+                        <Badge variant="destructive">
+                          {Number(row.difference) > 0 ? '+' : ''}{formatPln(Number(row.difference))}
+                        </Badge>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{row.notes || ''}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
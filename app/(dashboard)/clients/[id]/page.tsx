@@ -5,8 +5,14 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Button } from '@/components/ui/button'
 import { ClientForm } from '@/components/client-form'
 import { DeleteClientButton } from '@/components/delete-client-button'
+import { BookingStatusBadge } from '@/components/booking-status-actions'
+import { ProductThumbnail } from '@/components/product-thumbnail'
 import { Edit } from 'lucide-react'
 import Link from 'next/link'
+import { calculateClientStats, fetchClientBookings, getBookingValue } from '@/lib/clients/client-stats'
+import { isCompletedBooking } from '@/lib/bookings/booking-status'
+import { getAgeOnDate } from '@/lib/clients/age'
+import { formatPln } from '@/lib/currency/format-currency'
 
 export const dynamic = 'force-dynamic'
 
@@ -31,21 +37,9 @@ export default async function ClientDetailPage({
   // Cast to any to handle Supabase's dynamic typing
   const clientData = client as any
 
-  const { data: bookings } = await supabase
-    .from('bookings')
-    .select(`
-      *,
-      earring:earrings(*),
-      service:services(*)
-    `)
-    .eq('client_id', id)
-    .order('start_time', { ascending: false })
-
-  // Cast to any to handle Supabase's dynamic typing
-  const bookingsAny = bookings as any[]
-  const totalBookings = bookingsAny?.length || 0
-  const totalRevenue = bookingsAny?.reduce((sum, b: any) => sum + (b.total_paid || 0), 0) || 0
-  const totalProfit = bookingsAny?.reduce((sum, b: any) => sum + (b.profit || 0), 0) || 0
+  const bookings = await fetchClientBookings(supabase, id)
+  const stats = calculateClientStats(id, bookings)
+  const history = [...bookings].reverse()
 
   return (
     <div>
@@ -67,21 +61,21 @@ export default async function ClientDetailPage({
         </div>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-3 mb-6">
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4 mb-6">
         <Card>
           <CardHeader>
-            <CardTitle className="text-sm font-medium">Total Bookings</CardTitle>
+            <CardTitle className="text-sm font-medium">Visits</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{totalBookings}</div>
+            <div className="text-2xl font-bold">{stats.visits}</div>
           </CardContent>
         </Card>
         <Card>
           <CardHeader>
-            <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
+            <CardTitle className="text-sm font-medium">Lifetime Value</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${totalRevenue.toFixed(2)}</div>
+            <div className="text-2xl font-bold">{formatPln(stats.lifetimeValue)}</div>
           </CardContent>
         </Card>
         <Card>
@@ -89,7 +83,17 @@ export default async function ClientDetailPage({
             <CardTitle className="text-sm font-medium">Total Profit</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${totalProfit.toFixed(2)}</div>
+            <div className="text-2xl font-bold">{formatPln(stats.totalProfit)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium">Avg. Days Between Visits</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {stats.avgDaysBetweenVisits !== null ? Math.round(stats.avgDaysBetweenVisits) : '-'}
+            </div>
           </CardContent>
         </Card>
       </div>
@@ -104,10 +108,60 @@ export default async function ClientDetailPage({
               <p className="text-sm text-muted-foreground">Phone</p>
               <p className="font-medium">{clientData.phone || '-'}</p>
             </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Instagram</p>
+              <p className="font-medium">{clientData.instagram ? `@${clientData.instagram}` : '-'}</p>
+            </div>
             <div>
               <p className="text-sm text-muted-foreground">Source</p>
               <p className="font-medium">{clientData.source || '-'}</p>
             </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Date of Birth</p>
+              <p className="font-medium">
+                {clientData.date_of_birth
+                  ? `${new Date(clientData.date_of_birth).toLocaleDateString()} (age ${getAgeOnDate(clientData.date_of_birth, new Date())})`
+                  : '-'}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Guardian</p>
+              <p className="font-medium">
+                {clientData.guardian_name
+                  ? `${clientData.guardian_name}${clientData.guardian_phone ? ` (${clientData.guardian_phone})` : ''}`
+                  : '-'}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">First Visit</p>
+              <p className="font-medium">
+                {stats.firstVisit ? new Date(stats.firstVisit).toLocaleDateString() : '-'}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Last Visit</p>
+              <p className="font-medium">
+                {stats.lastVisit ? new Date(stats.lastVisit).toLocaleDateString() : '-'}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Next Visit Due</p>
+              <p className="font-medium">
+                {stats.hasUpcoming
+                  ? 'Booked'
+                  : stats.nextVisitDue
+                    ? new Date(stats.nextVisitDue).toLocaleDateString()
+                    : '-'}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Preferred Services</p>
+              <p className="font-medium">
+                {stats.preferredServices.length > 0
+                  ? stats.preferredServices.map((service) => `${service.name} (${service.count})`).join(', ')
+                  : '-'}
+              </p>
+            </div>
             {clientData.notes && (
               <div className="md:col-span-2">
                 <p className="text-sm text-muted-foreground">Notes</p>
@@ -123,32 +177,55 @@ export default async function ClientDetailPage({
           <CardTitle>Booking History</CardTitle>
         </CardHeader>
         <CardContent>
-          {bookingsAny && bookingsAny.length > 0 ? (
+          {history.length > 0 ? (
             <Table>
               <TableHeader>
                 <TableRow>
                   <TableHead>Date</TableHead>
-                  <TableHead>Service</TableHead>
-                  <TableHead>Earring</TableHead>
-                  <TableHead>Total Paid</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Services</TableHead>
+                  <TableHead>Products</TableHead>
+                  <TableHead>Value</TableHead>
                   <TableHead>Profit</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {bookingsAny.map((booking: any) => {
-                  // Handle relations that may be arrays
-                  const service = Array.isArray(booking.service) ? booking.service[0] : booking.service
-                  const earring = Array.isArray(booking.earring) ? booking.earring[0] : booking.earring
+                {history.map((booking) => {
+                  const serviceNames = booking.booking_services?.length
+                    ? booking.booking_services.map((item) => {
+                        const service = Array.isArray(item.service) ? item.service[0] : item.service
+                        return service?.name
+                      })
+                    : [Array.isArray(booking.service) ? booking.service[0]?.name : booking.service?.name]
+                  const products = (booking.booking_products || [])
+                    .map((item) => (Array.isArray(item.product) ? item.product[0] : item.product))
+                    .filter((product): product is NonNullable<typeof product> => !!product)
+                  const completed = isCompletedBooking(booking)
                   return (
                     <TableRow key={booking.id}>
                       <TableCell>
                         {new Date(booking.start_time).toLocaleDateString()}
                       </TableCell>
-                      <TableCell>{service?.name || '-'}</TableCell>
-                      <TableCell>{earring?.name || '-'}</TableCell>
-                      <TableCell>${booking.total_paid?.toFixed(2) || '0.00'}</TableCell>
-                      <TableCell>${booking.profit?.toFixed(2) || '0.00'}</TableCell>
+                      <TableCell>
+                        <BookingStatusBadge status={booking.status || 'completed'} />
+                      </TableCell>
+                      <TableCell>{serviceNames.filter(Boolean).join(', ') || '-'}</TableCell>
+                      <TableCell>
+                        {products.length > 0 ? (
+                          <div className="flex flex-wrap gap-1">
+                            {products.map((product, index) => (
+                              <div key={`${product.id}-${index}`} title={product.name}>
+                                <ProductThumbnail product={product} className="h-8 w-8" />
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          '-'
+                        )}
+                      </TableCell>
+                      <TableCell>{completed ? formatPln(getBookingValue(booking)) : '-'}</TableCell>
+                      <TableCell>{completed ? formatPln(booking.profit || 0) : '-'}</TableCell>
                       <TableCell className="text-right">
                         <Link href={`/bookings/${booking.id}`}>
                           <Button variant="ghost" size="sm">View</Button>
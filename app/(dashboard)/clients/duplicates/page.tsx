@@ -0,0 +1,49 @@
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft } from 'lucide-react'
+import { ClientDuplicates } from '@/components/client-duplicates'
+import { findDuplicateGroups } from '@/lib/clients/duplicates'
+import type { Client } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+export default async function ClientDuplicatesPage() {
+  const supabase = await createClient()
+  const [clientsRes, bookingsRes] = await Promise.all([
+    supabase.from('clients').select('*').order('created_at', { ascending: true }),
+    supabase.from('bookings').select('client_id').not('client_id', 'is', null),
+  ])
+
+  const clients = (clientsRes.data as Client[] | null) || []
+  const bookingCounts: Record<string, number> = {}
+  for (const booking of (bookingsRes.data as Array<{ client_id: string }> | null) || []) {
+    bookingCounts[booking.client_id] = (bookingCounts[booking.client_id] ?? 0) + 1
+  }
+
+  const groups = findDuplicateGroups(clients)
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-6 mb-8">
+        <h1 className="text-3xl sm:text-4xl font-bold tracking-tight" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+          Duplicate Clients
+        </h1>
+        <Link href="/clients">
+          <Button variant="outline" className="w-full sm:w-auto">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Clients
+          </Button>
+        </Link>
+      </div>
+
+      {groups.length > 0 ? (
+        <ClientDuplicates groups={groups} bookingCounts={bookingCounts} />
+      ) : (
+        <div className="text-center py-8 text-muted-foreground">
+          No duplicate clients found.
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,9 +1,12 @@
+import Link from 'next/link'
 import { createClient } from '@/lib/supabase/server'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Plus } from 'lucide-react'
+import { Plus, Users } from 'lucide-react'
 import { ClientForm } from '@/components/client-form'
 import { SortableClientsTable } from '@/components/sortable-clients-table'
+import { OverdueClientsCard } from '@/components/overdue-clients-card'
+import { fetchClientBookings, getOverdueClients } from '@/lib/clients/client-stats'
 
 export const dynamic = 'force-dynamic'
 
@@ -16,6 +19,7 @@ export default async function ClientsPage() {
 
   // Cast to any[] to handle Supabase's dynamic typing
   const clientsData = (clients as any[]) || []
+  const overdue = getOverdueClients(await fetchClientBookings(supabase))
 
   return (
     <div>
@@ -23,14 +27,24 @@ export default async function ClientsPage() {
         <h1 className="text-3xl sm:text-4xl font-bold tracking-tight" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
           Clients
         </h1>
-        <ClientForm>
-          <Button className="w-full sm:w-auto shadow-sm">
-            <Plus className="h-4 w-4 mr-2" />
-            Add Client
-          </Button>
-        </ClientForm>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Link href="/clients/duplicates">
+            <Button variant="outline" className="w-full sm:w-auto">
+              <Users className="h-4 w-4 mr-2" />
+              Find Duplicates
+            </Button>
+          </Link>
+          <ClientForm>
+            <Button className="w-full sm:w-auto shadow-sm">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Client
+            </Button>
+          </ClientForm>
+        </div>
       </div>
 
+      <OverdueClientsCard overdue={overdue} clients={clientsData} />
+
       <Card className="hover:shadow-md transition-shadow">
         <CardHeader>
           <CardTitle className="text-xl" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
@@ -1,7 +1,7 @@
 import { createClient } from '@/lib/supabase/server'
 import { cookies } from 'next/headers'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Calendar, Gem, DollarSign, TrendingUp, TrendingDown, Package, Briefcase, Car, CreditCard, AlertTriangle, Receipt } from 'lucide-react'
+import { Calendar, Gem, DollarSign, TrendingUp, TrendingDown, Package, Briefcase, Car, CreditCard, AlertTriangle, Receipt, Tag } from 'lucide-react'
 import { DashboardDateRangePicker } from '@/components/dashboard-date-range-picker'
 import { createBookingDateFilter, createAdditionalCostDateFilter } from '@/lib/date-utils'
 import { RELATIVE_DASHBOARD_PRESETS, resolveDatesForPreset } from '@/lib/analytics/date-presets'
@@ -20,6 +20,7 @@ import { RevenueChart } from '@/components/revenue-chart'
 import { CurrencyAmount } from '@/components/currency-amount'
 import { getPlnExchangeRates } from '@/lib/currency/exchange-rates'
 import { formatPln } from '@/lib/currency/format-currency'
+import { buildPromotionReport } from '@/lib/promotions/promotions'
 
 export const dynamic = 'force-dynamic'
 
@@ -114,6 +115,12 @@ export default async function Dashboard({ searchParams }: DashboardPageProps) {
   const additionalCostsResult = await additionalCostsQuery
   const additionalCostsData = (additionalCostsResult.data as DashboardAdditionalCostRow[]) || []
 
+  const { data: promotionsData } = await supabase.from('promotions').select('id, name')
+  const promotionReport = buildPromotionReport(
+    bookingsData,
+    (promotionsData as Array<{ id: string; name: string }> | null) || []
+  )
+
   const rates = await getPlnExchangeRates()
 
   const {
@@ -238,7 +245,7 @@ export default async function Dashboard({ searchParams }: DashboardPageProps) {
                 <div className="p-2 bg-secondary/40 rounded-lg">
                   <CreditCard className="h-4 w-4 text-secondary-foreground" />
                 </div>
-                <span className="text-sm font-medium">Booksy Fees</span>
+                <span className="text-sm font-medium">Marketplace Fees</span>
               </div>
               <span className="text-sm font-bold tracking-tight">{formatPln(totalBooksyFees)}</span>
             </div>
@@ -290,6 +297,46 @@ export default async function Dashboard({ searchParams }: DashboardPageProps) {
         </CardContent>
       </Card>
 
+      {/* Discounts per Promotion */}
+      {promotionReport.length > 0 && (
+        <Card className="hover:shadow-md transition-shadow">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-3 text-xl" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+              <div className="p-2 bg-primary/10 rounded-lg">
+                <Tag className="h-5 w-5 text-primary" />
+              </div>
+              Promotions
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="font-semibold">Promotion</TableHead>
+                  <TableHead className="text-right font-semibold">Bookings</TableHead>
+                  <TableHead className="text-right font-semibold">Discount Cost</TableHead>
+                  <TableHead className="text-right font-semibold">Revenue</TableHead>
+                  <TableHead className="text-right font-semibold">Profit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promotionReport.map((row) => (
+                  <TableRow key={row.promotionId ?? 'manual'} className="hover:bg-muted/30 transition-colors">
+                    <TableCell className="font-medium">{row.name}</TableCell>
+                    <TableCell className="text-right">{row.bookingCount}</TableCell>
+                    <TableCell className="text-right">{formatPln(row.discountTotal)}</TableCell>
+                    <TableCell className="text-right">{formatPln(row.revenue)}</TableCell>
+                    <TableCell className={`text-right font-semibold ${row.profit < 0 ? 'text-red-600' : ''}`}>
+                      {formatPln(row.profit)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Averages per Booking */}
       <div className="grid gap-5 md:grid-cols-3">
         <Card className="hover:shadow-md transition-shadow">
@@ -12,7 +12,7 @@ export default async function ProductsPage() {
   const supabase = await createClient()
   const { data: products } = await supabase
     .from('products')
-    .select('*')
+    .select('*, product_images(*)')
     .order('created_at', { ascending: false })
 
   // Cast to any[] to handle Supabase's dynamic typing
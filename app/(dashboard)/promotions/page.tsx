@@ -0,0 +1,158 @@
+import { format, parseISO } from 'date-fns'
+import { createClient } from '@/lib/supabase/server'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { PromotionForm } from '@/components/promotion-form'
+import { DeletePromotionButton } from '@/components/delete-promotion-button'
+import { Edit, Plus } from 'lucide-react'
+import { getTodayInTimezone } from '@/lib/date-utils'
+import {
+  PROMOTION_SCOPE_LABELS,
+  fetchPromotionUsage,
+  fetchPromotions,
+  formatPromotionDiscount,
+  getPromotionUnavailableReason,
+} from '@/lib/promotions/promotions'
+import type { Service } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+export default async function PromotionsPage() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('timezone')
+    .eq('user_id', user?.id ?? '')
+    .maybeSingle()
+  const timezone = (profile as { timezone?: string } | null)?.timezone ?? 'Europe/Warsaw'
+  const today = getTodayInTimezone(timezone)
+
+  const [promotions, usage, servicesRes, productsRes] = await Promise.all([
+    fetchPromotions(supabase),
+    fetchPromotionUsage(supabase),
+    supabase.from('services').select('id, name').order('name'),
+    supabase.from('products').select('category').not('category', 'is', null),
+  ])
+  const services = (servicesRes.data as Array<Pick<Service, 'id' | 'name'>> | null) || []
+  const serviceNames = new Map(services.map((service) => [service.id, service.name]))
+  const productCategories = Array.from(new Set(
+    ((productsRes.data as Array<{ category: string | null }> | null) || [])
+      .map((product) => product.category)
+      .filter((category): category is string => !!category)
+  )).sort()
+
+  const describeScope = (promotion: (typeof promotions)[number]) => {
+    const filters = [
+      ...promotion.service_ids.map((id) => serviceNames.get(id) ?? 'Removed service'),
+      ...promotion.product_categories,
+    ]
+    return filters.length > 0 ? filters.join(', ') : PROMOTION_SCOPE_LABELS[promotion.applies_to]
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-6 mb-8">
+        <div>
+          <h1 className="text-3xl sm:text-4xl font-bold tracking-tight" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+            Promotions
+          </h1>
+          <p className="text-muted-foreground mt-2 text-base">
+            Discount cost per promotion is on the dashboard
+          </p>
+        </div>
+        <PromotionForm services={services} productCategories={productCategories} today={today}>
+          <Button className="w-full sm:w-auto shadow-sm">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Promotion
+          </Button>
+        </PromotionForm>
+      </div>
+
+      <Card className="hover:shadow-md transition-shadow">
+        <CardHeader>
+          <CardTitle className="text-xl" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+            All Promotions
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {promotions.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No promotions yet. Add your first promotion to get started.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Discount</TableHead>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead className="text-right">Used</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promotions.map((promotion) => {
+                  const used = usage[promotion.id] || 0
+                  const unavailable = getPromotionUnavailableReason(promotion, today, used)
+                  return (
+                    <TableRow key={promotion.id}>
+                      <TableCell>
+                        <div className="font-medium">{promotion.name}</div>
+                        {promotion.code && (
+                          <div className="text-xs font-mono text-muted-foreground">{promotion.code}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatPromotionDiscount(promotion)}</TableCell>
+                      <TableCell className="text-sm capitalize">{describeScope(promotion)}</TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {format(parseISO(promotion.starts_on), 'MMM d, yyyy')}
+                        {' – '}
+                        {promotion.ends_on ? format(parseISO(promotion.ends_on), 'MMM d, yyyy') : 'no end'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {used}{promotion.usage_limit !== null ? ` / ${promotion.usage_limit}` : ''}
+                      </TableCell>
+                      <TableCell>
+                        {unavailable ? (
+                          <Badge variant="outline">{unavailable}</Badge>
+                        ) : (
+                          <Badge>Running</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <PromotionForm
+                          promotion={promotion}
+                          services={services}
+                          productCategories={productCategories}
+                          today={today}
+                        >
+                          <Button variant="ghost" size="sm">
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        </PromotionForm>
+                        {used === 0 && <DeletePromotionButton promotion={promotion} />}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
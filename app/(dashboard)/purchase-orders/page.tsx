@@ -0,0 +1,69 @@
+import { createClient } from '@/lib/supabase/server'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Plus } from 'lucide-react'
+import { PurchaseOrderForm } from '@/components/purchase-order-form'
+import { PurchaseOrdersTable } from '@/components/purchase-orders-table'
+import type { CostMethod, Product, PurchaseOrderWithItems } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+export default async function PurchaseOrdersPage() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const [{ data: orders }, { data: products }, { data: profile }] = await Promise.all([
+    supabase
+      .from('purchase_orders')
+      .select('*, purchase_order_items(*)')
+      .order('order_date', { ascending: false }),
+    supabase
+      .from('products')
+      .select('*')
+      .eq('active', true)
+      .order('name', { ascending: true }),
+    supabase
+      .from('user_profiles')
+      .select('cost_method')
+      .eq('user_id', user?.id ?? '')
+      .maybeSingle(),
+  ])
+
+  const ordersData = (orders as PurchaseOrderWithItems[] | null) || []
+  const productsData = (products as Product[] | null) || []
+  const costMethod: CostMethod =
+    (profile as { cost_method?: CostMethod } | null)?.cost_method ?? 'weighted_average'
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-6 mb-8">
+        <h1 className="text-3xl sm:text-4xl font-bold tracking-tight" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+          Purchase Orders
+        </h1>
+        <PurchaseOrderForm products={productsData}>
+          <Button className="w-full sm:w-auto shadow-sm">
+            <Plus className="h-4 w-4 mr-2" />
+            New Order
+          </Button>
+        </PurchaseOrderForm>
+      </div>
+
+      <Card className="hover:shadow-md transition-shadow">
+        <CardHeader>
+          <CardTitle className="text-xl" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+            All Purchase Orders
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {ordersData.length > 0 ? (
+            <PurchaseOrdersTable orders={ordersData} products={productsData} costMethod={costMethod} />
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              No purchase orders yet. Create your first order to get started.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+import { createClient } from '@/lib/supabase/server'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { RemindersList } from '@/components/reminders-list'
+import { addDaysToCalendarDate, getTodayInTimezone } from '@/lib/date-utils'
+import type { FollowUpReminder } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+const UPCOMING_DAYS = 7
+
+export default async function RemindersPage() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('timezone')
+    .eq('user_id', user?.id ?? '')
+    .maybeSingle()
+  const timezone = (profile as { timezone?: string } | null)?.timezone ?? 'Europe/Warsaw'
+  const today = getTodayInTimezone(timezone)
+
+  const { data: reminders } = await supabase
+    .from('follow_up_reminders')
+    .select('*, client:clients(*)')
+    .eq('status', 'pending')
+    .lte('due_date', addDaysToCalendarDate(today, UPCOMING_DAYS))
+    .order('due_date', { ascending: true })
+
+  const remindersData = (reminders as FollowUpReminder[] | null) || []
+  const due = remindersData.filter((reminder) => reminder.due_date <= today)
+  const upcoming = remindersData.filter((reminder) => reminder.due_date > today)
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-6 mb-8">
+        <h1 className="text-3xl sm:text-4xl font-bold tracking-tight" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+          Reminders
+        </h1>
+      </div>
+
+      <Card className="hover:shadow-md transition-shadow mb-6">
+        <CardHeader>
+          <CardTitle className="text-xl" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+            Due Today
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {due.length > 0 ? (
+            <RemindersList reminders={due} today={today} />
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              Nothing due today.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="hover:shadow-md transition-shadow">
+        <CardHeader>
+          <CardTitle className="text-xl" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+            Next {UPCOMING_DAYS} Days
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {upcoming.length > 0 ? (
+            <RemindersList reminders={upcoming} today={today} />
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              No upcoming follow-ups.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,7 +1,16 @@
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
 import { SettingsForm } from '@/components/settings-form'
+import { WorkingHoursForm } from '@/components/working-hours-form'
+import { ConsentTemplatesForm } from '@/components/consent-templates-form'
+import { TaxRulesForm } from '@/components/tax-rules-form'
+import { MarketplaceFeesForm } from '@/components/marketplace-fees-form'
+import { fetchWorkingSchedule } from '@/lib/scheduling/fetch-schedule'
+import { fetchTaxRules } from '@/lib/tax/tax-rules'
+import { fetchMarketplaceFeeRules } from '@/lib/fees/marketplace-fees'
+import { getTodayInTimezone } from '@/lib/date-utils'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import type { ConsentTemplate, CostMethod } from '@/lib/types'
 
 export const dynamic = 'force-dynamic'
 
@@ -17,7 +26,7 @@ export default async function SettingsPage() {
   // Get user profile
   const { data: profile, error: profileError } = await supabase
     .from('user_profiles')
-    .select('timezone')
+    .select('timezone, cost_method')
     .eq('user_id', user.id)
     .single()
 
@@ -29,6 +38,23 @@ export default async function SettingsPage() {
     }
   }
 
+  let costMethod: CostMethod = 'weighted_average'
+  if (profile && typeof profile === 'object' && 'cost_method' in profile) {
+    const profileCostMethod = (profile as { cost_method?: CostMethod }).cost_method
+    if (profileCostMethod === 'weighted_average' || profileCostMethod === 'fifo') {
+      costMethod = profileCostMethod
+    }
+  }
+
+  const schedule = await fetchWorkingSchedule(supabase)
+  const taxRules = await fetchTaxRules(supabase)
+  const feeRules = await fetchMarketplaceFeeRules(supabase)
+
+  const { data: consentTemplates } = await supabase
+    .from('consent_templates')
+    .select('*')
+    .order('name', { ascending: true })
+
   return (
     <div className="space-y-8">
       <div>
@@ -43,7 +69,7 @@ export default async function SettingsPage() {
       <Card className="hover:shadow-md transition-shadow">
         <CardHeader>
           <CardTitle className="text-xl" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
-            Timezone
+            Preferences
           </CardTitle>
           <CardDescription className="text-base">
             Set your timezone to ensure dates and times are displayed correctly. 
@@ -51,7 +77,66 @@ export default async function SettingsPage() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <SettingsForm initialTimezone={timezone} />
+          <SettingsForm initialTimezone={timezone} initialCostMethod={costMethod} />
+        </CardContent>
+      </Card>
+
+      <Card className="hover:shadow-md transition-shadow">
+        <CardHeader>
+          <CardTitle className="text-xl" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+            Working Hours
+          </CardTitle>
+          <CardDescription className="text-base">
+            Opening hours, breaks and days off in your timezone. Used for free slots,
+            overlap warnings and closed time in the calendar.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <WorkingHoursForm initialSchedule={schedule} />
+        </CardContent>
+      </Card>
+
+      <Card className="hover:shadow-md transition-shadow">
+        <CardHeader>
+          <CardTitle className="text-xl" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+            Tax Rules
+          </CardTitle>
+          <CardDescription className="text-base">
+            Tax rate and the payment methods it applies to. A booking uses the rule in effect
+            on its date, so past bookings keep their rate when you add a new one.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TaxRulesForm rules={taxRules} today={getTodayInTimezone(timezone)} />
+        </CardContent>
+      </Card>
+
+      <Card className="hover:shadow-md transition-shadow">
+        <CardHeader>
+          <CardTitle className="text-xl" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+            Marketplace Fees
+          </CardTitle>
+          <CardDescription className="text-base">
+            Commission charged by booking platforms such as Booksy. Clients whose source matches
+            a platform get its fee automatically; past bookings keep the fee they were saved with.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <MarketplaceFeesForm rules={feeRules} today={getTodayInTimezone(timezone)} />
+        </CardContent>
+      </Card>
+
+      <Card className="hover:shadow-md transition-shadow">
+        <CardHeader>
+          <CardTitle className="text-xl" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+            Consent Templates
+          </CardTitle>
+          <CardDescription className="text-base">
+            Consent text and health questions clients read and sign before a procedure.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ConsentTemplatesForm templates={(consentTemplates as ConsentTemplate[] | null) || []} />
         </CardContent>
       </Card>
     </div>
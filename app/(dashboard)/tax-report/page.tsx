@@ -0,0 +1,120 @@
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { TaxReportTables } from '@/components/tax-report-tables'
+import { ChevronLeft, ChevronRight, Download, Printer } from 'lucide-react'
+import { formatPln } from '@/lib/currency/format-currency'
+import {
+  fetchTaxReport,
+  formatReportMonth,
+  isTaxReportReconciled,
+  resolveReportMonth,
+  shiftReportMonth,
+} from '@/lib/analytics/tax-report'
+
+export const dynamic = 'force-dynamic'
+
+interface TaxReportPageProps {
+  searchParams: Promise<{ month?: string }>
+}
+
+export default async function TaxReportPage({ searchParams }: TaxReportPageProps) {
+  const params = await searchParams
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('timezone')
+    .eq('user_id', user?.id ?? '')
+    .maybeSingle()
+  const timezone = (profile as { timezone?: string } | null)?.timezone ?? 'Europe/Warsaw'
+  const month = resolveReportMonth(params.month, timezone)
+  const report = await fetchTaxReport(supabase, month, timezone)
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-6">
+        <div>
+          <h1 className="text-3xl sm:text-4xl font-bold tracking-tight" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+            Tax Report
+          </h1>
+          <p className="text-muted-foreground mt-2 text-base">
+            Monthly revenue and costs for the ryczałt declaration
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" asChild>
+            <a href={`/api/tax-report?month=${month}`} download>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </a>
+          </Button>
+          <Link href={`/tax-report/print?month=${month}`} target="_blank">
+            <Button variant="outline">
+              <Printer className="h-4 w-4 mr-2" />
+              PDF
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <Link href={`/tax-report?month=${shiftReportMonth(month, -1)}`}>
+          <Button variant="ghost" size="sm">
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </Button>
+        </Link>
+        <p className="text-lg font-semibold">{formatReportMonth(month)}</p>
+        <Link href={`/tax-report?month=${shiftReportMonth(month, 1)}`}>
+          <Button variant="ghost" size="sm">
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </Link>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Card className="hover:shadow-md transition-shadow">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Taxable revenue</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{formatPln(report.totals.taxableRevenue)}</p>
+            <p className="text-xs text-muted-foreground">of {formatPln(report.totals.revenue)} total</p>
+          </CardContent>
+        </Card>
+        <Card className="hover:shadow-md transition-shadow">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Tax</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{formatPln(report.totals.tax)}</p>
+          </CardContent>
+        </Card>
+        <Card className="hover:shadow-md transition-shadow">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Deductible costs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{formatPln(report.totals.deductibleCosts)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {!isTaxReportReconciled(report) && (
+        <p className="text-sm text-destructive">
+          Some totals do not match the dashboard for this month. Check the reconciliation table below.
+        </p>
+      )}
+
+      <Card className="hover:shadow-md transition-shadow">
+        <CardContent className="pt-6">
+          <TaxReportTables report={report} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,198 @@
+import { format, parseISO } from 'date-fns'
+import { createClient } from '@/lib/supabase/server'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { GiftVoucherForm } from '@/components/gift-voucher-form'
+import { DeleteGiftVoucherButton } from '@/components/delete-gift-voucher-button'
+import { Plus } from 'lucide-react'
+import { getTodayInTimezone } from '@/lib/date-utils'
+import { formatPln } from '@/lib/currency/format-currency'
+import {
+  GIFT_VOUCHER_STATUS_LABELS,
+  buildVoucherLiabilityReport,
+  fetchGiftVouchers,
+  getVoucherStatus,
+} from '@/lib/vouchers/gift-vouchers'
+import type { GiftVoucherStatus } from '@/lib/vouchers/gift-vouchers'
+
+export const dynamic = 'force-dynamic'
+
+const STATUS_BADGE_VARIANTS: Record<GiftVoucherStatus, 'default' | 'secondary' | 'outline'> = {
+  active: 'default',
+  redeemed: 'secondary',
+  expired: 'outline',
+}
+
+export default async function VouchersPage() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('timezone')
+    .eq('user_id', user?.id ?? '')
+    .maybeSingle()
+  const timezone = (profile as { timezone?: string } | null)?.timezone ?? 'Europe/Warsaw'
+  const today = getTodayInTimezone(timezone)
+
+  const vouchers = await fetchGiftVouchers(supabase)
+  const report = buildVoucherLiabilityReport(vouchers, today)
+  const outstanding = vouchers
+    .filter((voucher) => getVoucherStatus(voucher, today) === 'active')
+    .sort((a, b) => (a.expires_on ?? '9999-12-31').localeCompare(b.expires_on ?? '9999-12-31'))
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-6">
+        <div>
+          <h1 className="text-3xl sm:text-4xl font-bold tracking-tight" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+            Gift Vouchers
+          </h1>
+          <p className="text-muted-foreground mt-2 text-base">
+            Sold vouchers are owed to clients until they are redeemed on a booking
+          </p>
+        </div>
+        <GiftVoucherForm today={today}>
+          <Button className="w-full sm:w-auto shadow-sm">
+            <Plus className="h-4 w-4 mr-2" />
+            Sell Voucher
+          </Button>
+        </GiftVoucherForm>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Card className="hover:shadow-md transition-shadow">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Outstanding liability</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{formatPln(report.outstandingTotal)}</p>
+            <p className="text-xs text-muted-foreground">
+              on {report.outstandingCount} active voucher{report.outstandingCount === 1 ? '' : 's'}
+            </p>
+          </CardContent>
+        </Card>
+        <Card className="hover:shadow-md transition-shadow">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Redeemed</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{formatPln(report.redeemedTotal)}</p>
+            <p className="text-xs text-muted-foreground">of {formatPln(report.soldTotal)} sold</p>
+          </CardContent>
+        </Card>
+        <Card className="hover:shadow-md transition-shadow">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Expired unused</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{formatPln(report.expiredTotal)}</p>
+            <p className="text-xs text-muted-foreground">
+              on {report.expiredCount} voucher{report.expiredCount === 1 ? '' : 's'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="hover:shadow-md transition-shadow">
+        <CardHeader>
+          <CardTitle className="text-xl" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+            Outstanding Liabilities
+          </CardTitle>
+          <CardDescription className="text-base">
+            Active vouchers with a balance, soonest to expire first
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {outstanding.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No outstanding vouchers.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>For</TableHead>
+                  <TableHead>Valid Until</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {outstanding.map((voucher) => (
+                  <TableRow key={voucher.id}>
+                    <TableCell className="font-mono">{voucher.code}</TableCell>
+                    <TableCell>{voucher.recipient_name || voucher.purchaser_name || '—'}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {voucher.expires_on ? format(parseISO(voucher.expires_on), 'MMM d, yyyy') : 'No expiry'}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{formatPln(voucher.balance)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="hover:shadow-md transition-shadow">
+        <CardHeader>
+          <CardTitle className="text-xl" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+            All Vouchers
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {vouchers.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No gift vouchers yet. Sell your first voucher to get started.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Sold</TableHead>
+                  <TableHead>Bought By</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {vouchers.map((voucher) => {
+                  const status = getVoucherStatus(voucher, today)
+                  return (
+                    <TableRow key={voucher.id}>
+                      <TableCell className="font-mono">{voucher.code}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(voucher.sold_at).toLocaleDateString('en-GB', { timeZone: timezone, day: 'numeric', month: 'short', year: 'numeric' })}
+                        <span className="text-muted-foreground capitalize"> · {voucher.sale_method}</span>
+                      </TableCell>
+                      <TableCell>{voucher.purchaser_name || '—'}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_BADGE_VARIANTS[status]}>{GIFT_VOUCHER_STATUS_LABELS[status]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{formatPln(voucher.value)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatPln(voucher.balance)}</TableCell>
+                      <TableCell className="text-right">
+                        {voucher.balance === voucher.value && <DeleteGiftVoucherButton voucher={voucher} />}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
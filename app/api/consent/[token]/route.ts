@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { signConsentForm } from '@/lib/consent/sign-consent'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const signConsentSchema = z.object({
+  signer_name: z.string().trim().min(2).max(100),
+  signed_by_guardian: z.boolean(),
+  guardian_name: z.string().trim().max(100).nullable().optional(),
+  answers: z
+    .array(
+      z.object({
+        question_id: z.string().max(20),
+        answer: z.boolean(),
+        details: z.string().max(500).nullable().optional(),
+      })
+    )
+    .max(100),
+  signature: z.string(),
+})
+
+/** POST /api/consent/<token> → signs the consent form behind a public link. */
+export async function POST(request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  if (!z.string().uuid().safeParse(token).success) {
+    return NextResponse.json({ error: 'Consent form not found' }, { status: 404 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+  }
+
+  const parsed = signConsentSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Please check the form and try again' }, { status: 400 })
+  }
+
+  try {
+    const result = await signConsentForm(token, {
+      signerName: parsed.data.signer_name,
+      signedByGuardian: parsed.data.signed_by_guardian,
+      guardianName: parsed.data.guardian_name,
+      answers: parsed.data.answers,
+      signature: parsed.data.signature,
+    })
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    console.error('Failed to sign consent form:', error)
+    return NextResponse.json({ error: 'Failed to save consent form' }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { getPlnExchangeRateForDate } from '@/lib/currency/exchange-rates'
+import { createClient } from '@/lib/supabase/server'
+
+export const dynamic = 'force-dynamic'
+
+/** GET /api/exchange-rates?currency=USD&date=YYYY-MM-DD → NBP mid rate for that date. */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const currency = request.nextUrl.searchParams.get('currency')
+  const date = request.nextUrl.searchParams.get('date')
+
+  if ((currency !== 'USD' && currency !== 'EUR') || !date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return NextResponse.json({ error: 'Expected currency=USD|EUR and date=YYYY-MM-DD' }, { status: 400 })
+  }
+
+  try {
+    const rate = await getPlnExchangeRateForDate(currency, date)
+    return NextResponse.json(rate)
+  } catch (error) {
+    console.error('Failed to fetch NBP rate:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch exchange rate' },
+      { status: 502 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isLocalProductImageStorage, readLocalProductImage } from '@/lib/products/image-storage'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+}
+
+/** GET /api/product-images/<path> → a product photo from local storage (development only). */
+export async function GET(_request: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  if (!isLocalProductImageStorage()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  const { path } = await params
+  if (!user) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  // Files are stored under <user_id>/; the resolved path is checked against
+  // that folder so "<user_id>/../<other_id>/..." cannot reach someone else's
+  const filePath = path.join('/')
+  const file = await readLocalProductImage(filePath, user.id)
+  const contentType = CONTENT_TYPES[filePath.split('.').pop() ?? '']
+  if (!file || !contentType) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  return new NextResponse(new Uint8Array(file), {
+    headers: {
+      'Content-Type': contentType,
+      'Cache-Control': 'private, max-age=31536000, immutable',
+    },
+  })
+}
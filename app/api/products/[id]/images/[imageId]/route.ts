@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getProductImageStorage } from '@/lib/products/image-storage'
+import type { ProductImage } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/** DELETE /api/products/<id>/images/<imageId> → removes a product photo and its files. */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string; imageId: string }> }
+) {
+  const { id, imageId } = await params
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { data } = await supabase
+    .from('product_images')
+    .select('*')
+    .eq('id', imageId)
+    .eq('product_id', id)
+    .maybeSingle()
+  const image = data as ProductImage | null
+  if (!image) {
+    return NextResponse.json({ error: 'Photo not found' }, { status: 404 })
+  }
+
+  try {
+    const { error } = await supabase.from('product_images').delete().eq('id', image.id)
+    if (error) throw error
+    await getProductImageStorage(supabase).remove([image.storage_path, image.thumbnail_path])
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    console.error('Failed to delete product image:', error)
+    return NextResponse.json({ error: 'Failed to delete photo' }, { status: 500 })
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import { getProductImageStorage } from '@/lib/products/image-storage'
+import { PRODUCT_IMAGE_MAX_BYTES, PRODUCT_IMAGE_TYPES } from '@/lib/products/images'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+}
+
+/** POST /api/products/<id>/images (multipart: image, thumbnail) → stores a product photo. */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+  if (!z.string().uuid().safeParse(id).success) {
+    return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+  }
+
+  // RLS limits this to the user's own products
+  const [{ data: product }, { data: existing }] = await Promise.all([
+    supabase.from('products').select('id').eq('id', id).maybeSingle(),
+    supabase.from('product_images').select('position').eq('product_id', id),
+  ])
+  if (!product) {
+    return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+  }
+
+  let form: FormData
+  try {
+    form = await request.formData()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+  }
+  const image = form.get('image')
+  const thumbnail = form.get('thumbnail')
+  if (!(image instanceof File) || !(thumbnail instanceof File)) {
+    return NextResponse.json({ error: 'Expected an image and a thumbnail' }, { status: 400 })
+  }
+  if (!PRODUCT_IMAGE_TYPES.includes(image.type) || thumbnail.type !== 'image/webp') {
+    return NextResponse.json({ error: 'Use a JPEG, PNG or WebP photo' }, { status: 400 })
+  }
+  if (image.size > PRODUCT_IMAGE_MAX_BYTES) {
+    return NextResponse.json({ error: 'Photo is larger than 5 MB' }, { status: 400 })
+  }
+
+  const storage = getProductImageStorage(supabase)
+  const baseName = `${user.id}/${id}/${crypto.randomUUID()}`
+  const storagePath = `${baseName}.${EXTENSIONS[image.type]}`
+  const thumbnailPath = `${baseName}-thumb.webp`
+  const positions = ((existing as Array<{ position: number }> | null) || []).map((row) => row.position)
+
+  try {
+    const [url, thumbnailUrl] = await Promise.all([
+      storage.put(storagePath, await image.arrayBuffer(), image.type),
+      storage.put(thumbnailPath, await thumbnail.arrayBuffer(), thumbnail.type),
+    ])
+
+    const { data, error } = await supabase
+      .from('product_images')
+      .insert({
+        user_id: user.id,
+        product_id: id,
+        storage_path: storagePath,
+        thumbnail_path: thumbnailPath,
+        url,
+        thumbnail_url: thumbnailUrl,
+        position: positions.length > 0 ? Math.max(...positions) + 1 : 0,
+      } as never)
+      .select()
+      .single()
+    if (error) {
+      await storage.remove([storagePath, thumbnailPath])
+      throw error
+    }
+    return NextResponse.json(data)
+  } catch (error) {
+    console.error('Failed to store product image:', error)
+    return NextResponse.json({ error: 'Failed to upload photo' }, { status: 500 })
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { normalizePhone } from '@/lib/clients/phone'
+import { createPublicBooking, loadPublicBookingContext } from '@/lib/public-booking/public-booking'
+import {
+  attachBookingToRequest,
+  getRequestIp,
+  hashIp,
+  isRateLimited,
+  logBookingRequest,
+} from '@/lib/public-booking/rate-limit'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const publicBookingSchema = z.object({
+  service_ids: z.array(z.string().uuid()).min(1).max(10),
+  start_time: z.string().datetime(),
+  name: z.string().trim().min(2).max(100),
+  phone: z.string().trim().min(7).max(30),
+  notes: z.string().trim().max(500).optional(),
+  // Honeypot: hidden from people, filled in by bots
+  website: z.string().optional(),
+})
+
+/** POST /api/public-booking → scheduled booking for the studio. */
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+  }
+
+  const parsed = publicBookingSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Please check the form and try again' }, { status: 400 })
+  }
+  const input = parsed.data
+
+  // Pretend it worked so the bot does not adapt
+  if (input.website) {
+    return NextResponse.json({ ok: true })
+  }
+
+  const phone = normalizePhone(input.phone)
+  if (!phone) {
+    return NextResponse.json({ error: 'Please enter a valid phone number' }, { status: 400 })
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const context = await loadPublicBookingContext()
+    const ipHash = hashIp(getRequestIp(request))
+
+    if (await isRateLimited(supabase, ipHash, phone)) {
+      return NextResponse.json(
+        { error: 'Too many booking attempts. Please try again later or contact us directly.' },
+        { status: 429 }
+      )
+    }
+
+    const requestId = await logBookingRequest(supabase, { userId: context.userId, ipHash, phone })
+
+    const result = await createPublicBooking(context, {
+      serviceIds: input.service_ids,
+      startTime: new Date(input.start_time),
+      name: input.name,
+      phone: input.phone,
+      notes: input.notes || undefined,
+    })
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 409 })
+    }
+
+    await attachBookingToRequest(supabase, requestId, result.bookingId)
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    console.error('Failed to create public booking:', error)
+    return NextResponse.json({ error: 'Failed to create booking' }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { getPublicSlots, loadPublicBookingContext } from '@/lib/public-booking/public-booking'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/** GET /api/public-booking/slots?date=YYYY-MM-DD&services=id,id → free start times. */
+export async function GET(request: NextRequest) {
+  const date = request.nextUrl.searchParams.get('date')
+  const serviceIds = (request.nextUrl.searchParams.get('services') ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+
+  if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date) || serviceIds.length === 0) {
+    return NextResponse.json({ error: 'Expected date=YYYY-MM-DD and services=id,id' }, { status: 400 })
+  }
+
+  try {
+    const context = await loadPublicBookingContext()
+    const slots = await getPublicSlots(context, serviceIds, date)
+    return NextResponse.json({ slots: slots.map((slot) => slot.toISOString()) })
+  } catch (error) {
+    console.error('Failed to load public booking slots:', error)
+    return NextResponse.json({ error: 'Failed to load free slots' }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { fetchTaxReport, resolveReportMonth, taxReportToCsv } from '@/lib/analytics/tax-report'
+
+export const dynamic = 'force-dynamic'
+
+/** GET /api/tax-report?month=YYYY-MM → monthly tax report as a CSV download. */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('timezone')
+    .eq('user_id', user.id)
+    .maybeSingle()
+  const timezone = (profile as { timezone?: string } | null)?.timezone ?? 'Europe/Warsaw'
+  const month = resolveReportMonth(request.nextUrl.searchParams.get('month'), timezone)
+
+  try {
+    const report = await fetchTaxReport(supabase, month, timezone)
+    return new NextResponse(taxReportToCsv(report), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="tax-report-${month}.csv"`,
+      },
+    })
+  } catch (error) {
+    console.error('Failed to build tax report:', error)
+    return NextResponse.json({ error: 'Failed to build tax report' }, { status: 500 })
+  }
+}
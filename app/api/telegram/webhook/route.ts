@@ -1,10 +1,20 @@
 import { NextResponse } from 'next/server'
+import { parseExpenseMessage, isExpenseMessage } from '@/lib/agent/parse-expense'
 import { parseSaleMessage } from '@/lib/agent/parse-message'
 import {
-  formatFinancialSummary,
+  getAnalyticsReport,
   getFinancialSummary,
 } from '@/lib/analytics/financial-summary'
-import type { AnalyticsPeriod } from '@/lib/analytics/date-presets'
+import {
+  type CalendarRange,
+  isDashboardPreset,
+  parseCustomRange,
+  periodLabel,
+  resolveCalendarRangeForPreset,
+} from '@/lib/analytics/date-presets'
+import { fetchCashClose, getCashDaySummary, saveCashClose } from '@/lib/cash/cash-close'
+import { getTodayInTimezone } from '@/lib/date-utils'
+import { createAdminClient } from '@/lib/supabase/admin'
 import {
   getCrmUserId,
   isAllowedUpdate,
@@ -15,22 +25,75 @@ import {
   analyticsPeriodKeyboard,
   answerCallbackQuery,
   confirmCancelKeyboard,
+  deleteBookingKeyboard,
   editMessageText,
+  recentBookingsKeyboard,
   sendLongMessage,
   sendMessage,
+  undoKeyboard,
   type TelegramReplyTarget,
 } from '@/lib/telegram/bot'
 import { loadCatalog } from '@/lib/telegram/catalog'
 import {
+  cancelPriceInputKeyboard,
+  changeProductQty,
+  clientKeyboard,
+  createDraftClient,
+  draftEditKeyboard,
+  draftLineKeyboard,
+  draftLineLabel,
+  hasDraftLine,
+  parseDraftCallback,
+  paymentMethodKeyboard,
+  pickClientCandidate,
+  pickProductCandidate,
+  removeDraftClient,
+  removeDraftLine,
+  setDraftLinePrice,
+  setPaymentMethod,
+  type DraftEditAction,
+  type PendingDraft,
+} from '@/lib/telegram/draft-editor'
+import {
+  expenseCategoryKeyboard,
+  expenseConfirmKeyboard,
+  isPendingExpenses,
+  loadCostCategories,
+  saveExpenses,
+  setExpenseCategory,
+  type PendingExpenses,
+} from '@/lib/telegram/expenses'
+import {
+  formatCashCloseSummary,
   formatConfirmationSummary,
+  formatDeleteBookingPrompt,
+  formatAnalyticsReport,
+  formatCalendarRange,
+  formatExpenseSummary,
+  formatRecentBotBookings,
+  formatSavedExpenses,
   formatSavedSummary,
   canConfirm,
   hasConfirmationWarnings,
 } from '@/lib/telegram/format-summary'
 import { HELP_TEXT, registerBotMenu } from '@/lib/telegram/menu'
+import { escapeTelegramHtml } from '@/lib/telegram/message-limits'
+import {
+  DEFAULT_RECENT_BOOKINGS,
+  MAX_RECENT_BOOKINGS,
+  UNDO_WINDOW_MS,
+  botBookingToDraft,
+  canEditInBot,
+  deleteBotBookings,
+  fetchBotBooking,
+  fetchRecentBotBookings,
+  saveUndoBatch,
+  undoSavedBatch,
+} from '@/lib/telegram/saved-bookings'
 import {
   createSessionToken,
   deletePendingSession,
+  loadAwaitingPriceSession,
   loadPendingSession,
   savePendingSession,
 } from '@/lib/telegram/sessions'
@@ -58,6 +121,17 @@ interface TelegramUpdate {
   }
 }
 
+/** Confirmation summary with the warning about lines that will not be saved */
+function draftSummary(draft: PendingDraft, timezone: string): string {
+  const warning = hasConfirmationWarnings(draft)
+    ? '\n\n⚠️ Часть строк не сохранится (нет в каталоге). Подтвердите, чтобы сохранить сопоставленное.'
+    : ''
+  const heading = draft.replaces_booking_ids?.length
+    ? '✏️ <b>Изменение сохранённой записи</b>\n'
+    : ''
+  return heading + formatConfirmationSummary(draft, timezone) + warning
+}
+
 function replyTarget(
   chatId: number,
   messageThreadId?: number
@@ -134,16 +208,32 @@ async function handleMessage(message: TelegramMessage) {
       return
     }
     if (command === '/analytics') {
-      await sendMessage(target, 'Выберите период:', {
-        reply_markup: analyticsPeriodKeyboard(),
-      })
+      await handleAnalyticsCommand(target, text.slice(command.length).trim())
+      return
+    }
+    if (command === '/close') {
+      await handleCloseCommand(target, text.slice(command.length).trim())
+      return
+    }
+    if (command === '/last') {
+      await handleLastCommand(target, text.slice(command.length).trim())
       return
     }
   }
 
+  const awaiting = await loadAwaitingPriceSession(chatId, threadId)
+  if (awaiting && (await handlePriceInput(target, awaiting.token, awaiting.draft, text))) {
+    return
+  }
+
   const userId = await getCrmUserId()
   const catalog = await loadCatalog(userId)
 
+  if (isExpenseMessage(text)) {
+    await handleExpenseMessage(target, userId, text, catalog.timezone)
+    return
+  }
+
   await sendMessage(target, '⏳ Разбираю сообщение…')
 
   const messageSentAt = new Date(message.date * 1000)
@@ -153,14 +243,14 @@ async function handleMessage(message: TelegramMessage) {
     {
       services: catalog.services,
       products: catalog.products,
+      clients: catalog.clients,
       timezone: catalog.timezone,
     },
     messageSentAt
   )
 
-  const summary = formatConfirmationSummary(parsed, catalog.timezone)
-
   if (!canConfirm(parsed)) {
+    const summary = formatConfirmationSummary(parsed, catalog.timezone)
     await sendLongMessage(
       target,
       `${summary}\n\n⚠️ Не удалось сопоставить позиции с каталогом. Исправьте сообщение или добавьте в CRM.`
@@ -171,15 +261,137 @@ async function handleMessage(message: TelegramMessage) {
   const token = createSessionToken()
   await savePendingSession(chatId, threadId, userId, token, parsed)
 
-  const warning = hasConfirmationWarnings(parsed)
-    ? '\n\n⚠️ Часть строк не сохранится (нет в каталоге). Подтвердите, чтобы сохранить сопоставленное.'
-    : ''
-
-  await sendLongMessage(target, summary + warning, {
+  await sendLongMessage(target, draftSummary(parsed, catalog.timezone), {
     reply_markup: confirmCancelKeyboard(token),
   })
 }
 
+/** "-120 аренда" or "расход 45 такси" — one additional cost per line, confirmed like a sale. */
+async function handleExpenseMessage(
+  target: TelegramReplyTarget,
+  userId: string,
+  text: string,
+  timezone: string
+) {
+  const categories = await loadCostCategories(userId)
+  const expenses = parseExpenseMessage(text, categories, timezone)
+  if (!expenses) {
+    await sendMessage(
+      target,
+      'Не удалось разобрать расход. Пример: -120 аренда или расход 45 такси наличные 12.05'
+    )
+    return
+  }
+
+  const pending: PendingExpenses = {
+    kind: 'expenses',
+    expenses,
+    categories,
+    raw_message: text,
+  }
+  const token = createSessionToken()
+  const threadId = normalizeThreadId(target.messageThreadId)
+  await savePendingSession(target.chatId, threadId, userId, token, pending)
+
+  await sendMessage(target, formatExpenseSummary(pending), {
+    reply_markup: expenseConfirmKeyboard(token, pending),
+  })
+}
+
+/** A number sent after «Цена» in the draft editor; anything else is parsed as a new sale. */
+async function handlePriceInput(
+  target: TelegramReplyTarget,
+  token: string,
+  pending: PendingDraft,
+  text: string
+): Promise<boolean> {
+  const price = Number(text.replace(/\s/g, '').replace(',', '.'))
+  if (!pending.awaiting_price || Number.isNaN(price) || price < 0) return false
+
+  const { awaiting_price: { ref, message_id }, ...draft } = pending
+  const updated = setDraftLinePrice(draft, ref, price)
+
+  const userId = await getCrmUserId()
+  const catalog = await loadCatalog(userId)
+  const threadId = normalizeThreadId(target.messageThreadId)
+  await savePendingSession(target.chatId, threadId, userId, token, updated)
+
+  await editMessageText(target, message_id, draftSummary(updated, catalog.timezone), {
+    reply_markup: draftEditKeyboard(token, updated),
+  })
+  return true
+}
+
+/** /analytics offers the dashboard presets; /analytics 01.05-15.05 answers for that range. */
+async function handleAnalyticsCommand(target: TelegramReplyTarget, argument: string) {
+  if (!argument) {
+    await sendMessage(target, 'Выберите период или отправьте даты: /analytics 01.05-15.05', {
+      reply_markup: analyticsPeriodKeyboard(),
+    })
+    return
+  }
+
+  const userId = await getCrmUserId()
+  const catalog = await loadCatalog(userId)
+  const range = parseCustomRange(argument, catalog.timezone)
+  if (!range) {
+    await sendMessage(target, 'Не удалось разобрать период. Пример: /analytics 01.05-15.05 или /analytics 12.05')
+    return
+  }
+  await sendAnalyticsReport(target, userId, formatCalendarRange(range), range, catalog.timezone)
+}
+
+async function sendAnalyticsReport(
+  target: TelegramReplyTarget,
+  userId: string,
+  label: string,
+  range: CalendarRange,
+  timezone: string
+) {
+  const report = await getAnalyticsReport(userId, label, range, timezone)
+  await sendMessage(target, formatAnalyticsReport(report))
+}
+
+/** /close shows today's cash summary; /close 850 also records the counted amount. */
+async function handleCloseCommand(target: TelegramReplyTarget, argument: string) {
+  const counted = argument ? Number(argument.replace(/\s/g, '').replace(',', '.')) : null
+  if (counted !== null && (Number.isNaN(counted) || counted < 0)) {
+    await sendMessage(target, 'Укажите сумму в кассе, например: /close 850')
+    return
+  }
+
+  const userId = await getCrmUserId()
+  const catalog = await loadCatalog(userId)
+  const supabase = createAdminClient()
+  const today = getTodayInTimezone(catalog.timezone)
+  const summary = await getCashDaySummary(supabase, today, catalog.timezone, userId)
+
+  const close = counted !== null
+    ? await saveCashClose(supabase, { userId, summary, countedCash: counted })
+    : await fetchCashClose(supabase, today, userId)
+
+  await sendMessage(target, formatCashCloseSummary(summary, close))
+}
+
+/** /last lists the latest bookings saved by the bot; /last 10 shows more. */
+async function handleLastCommand(target: TelegramReplyTarget, argument: string) {
+  const requested = argument ? Number(argument) : DEFAULT_RECENT_BOOKINGS
+  if (!Number.isInteger(requested) || requested < 1) {
+    await sendMessage(target, 'Укажите количество записей, например: /last 5')
+    return
+  }
+
+  const userId = await getCrmUserId()
+  const catalog = await loadCatalog(userId)
+  const bookings = await fetchRecentBotBookings(userId, Math.min(requested, MAX_RECENT_BOOKINGS))
+
+  await sendMessage(target, formatRecentBotBookings(bookings, catalog.timezone), {
+    reply_markup: recentBookingsKeyboard(
+      bookings.map((b) => ({ id: b.id, editable: canEditInBot(b) }))
+    ),
+  })
+}
+
 async function handleCallbackQuery(
   query: {
     id: string
@@ -197,17 +409,21 @@ async function handleCallbackQuery(
   const userId = await getCrmUserId()
 
   if (query.data.startsWith('analytics:')) {
-    const period = query.data.replace('analytics:', '') as AnalyticsPeriod
-    if (!['today', 'thisWeek', 'thisMonth'].includes(period)) return
+    const period = query.data.replace('analytics:', '')
+    if (!isDashboardPreset(period)) return
 
     const catalog = await loadCatalog(userId)
-    const summary = await getFinancialSummary(
-      userId,
-      period,
-      catalog.timezone
-    )
+    const range = resolveCalendarRangeForPreset(period, catalog.timezone)
+    if (!range) return
+
     await answerCallbackQuery(query.id)
-    await sendMessage(target, formatFinancialSummary(summary))
+    await sendAnalyticsReport(target, userId, periodLabel(period), range, catalog.timezone)
+    return
+  }
+
+  const draftEdit = parseDraftCallback(query.data)
+  if (draftEdit) {
+    await handleDraftEdit(query.id, target, messageId, userId, draftEdit.token, draftEdit.edit)
     return
   }
 
@@ -225,6 +441,14 @@ async function handleCallbackQuery(
       return
     }
 
+    if (isPendingExpenses(pending)) {
+      await saveExpenses(userId, pending.expenses)
+      await deletePendingSession(chatId, threadId)
+      await answerCallbackQuery(query.id, 'Сохранено')
+      await editMessageText(target, messageId, formatSavedExpenses(pending.expenses))
+      return
+    }
+
     if (!canConfirm(pending)) {
       await answerCallbackQuery(query.id, 'Нет позиций для сохранения')
       return
@@ -242,6 +466,10 @@ async function handleCallbackQuery(
       catalog.productCostMap,
       sentAt
     )
+    // An edited booking is replaced only once the new one is saved
+    if (pending.replaces_booking_ids) {
+      await deleteBotBookings(userId, pending.replaces_booking_ids)
+    }
     const today = await getFinancialSummary(
       userId,
       'today',
@@ -252,7 +480,39 @@ async function handleCallbackQuery(
 
     const text = formatSavedSummary(pending, ids.length, today)
 
-    await editMessageText(target, messageId, text)
+    if (pending.replaces_booking_ids || ids.length === 0) {
+      await editMessageText(target, messageId, text)
+      return
+    }
+
+    const undoToken = await saveUndoBatch(chatId, threadId, userId, ids)
+    await editMessageText(
+      target,
+      messageId,
+      `${text}\n\n<i>Отменить можно в течение ${UNDO_WINDOW_MS / 60000} минут.</i>`,
+      { reply_markup: undoKeyboard(undoToken) }
+    )
+    return
+  }
+
+  if (query.data.startsWith('undo:')) {
+    const deleted = await undoSavedBatch(chatId, threadId, query.data.slice('undo:'.length))
+    if (deleted === null) {
+      await answerCallbackQuery(query.id, 'Время для отмены истекло')
+      return
+    }
+    await answerCallbackQuery(query.id, 'Отменено')
+    await editMessageText(target, messageId, `↩️ Отменено — удалено записей: ${deleted}`)
+    return
+  }
+
+  if (query.data.startsWith('exp:')) {
+    await handleExpenseEdit(query.id, target, messageId, userId, query.data)
+    return
+  }
+
+  if (query.data.startsWith('last:')) {
+    await handleRecentBookingAction(query.id, target, messageId, userId, query.data)
     return
   }
 
@@ -266,3 +526,208 @@ async function handleCallbackQuery(
     await editMessageText(target, messageId, '❌ Отменено')
   }
 }
+
+/** Inline editing of the pending draft; every step re-renders the summary in place. */
+async function handleDraftEdit(
+  queryId: string,
+  target: TelegramReplyTarget,
+  messageId: number,
+  userId: string,
+  token: string,
+  edit: DraftEditAction
+) {
+  const threadId = normalizeThreadId(target.messageThreadId)
+  const pending = await loadPendingSession(target.chatId, threadId, token)
+
+  if (!pending || isPendingExpenses(pending)) {
+    await answerCallbackQuery(queryId, 'Сессия истекла')
+    await editMessageText(
+      target,
+      messageId,
+      'Сессия истекла. Отправьте сообщение снова.'
+    )
+    return
+  }
+
+  // Any button press ends a pending price input
+  const draft: PendingDraft = { ...pending, awaiting_price: undefined }
+
+  if ('ref' in edit && !hasDraftLine(draft, edit.ref)) {
+    edit = { action: 'menu' }
+  }
+
+  let updated: PendingDraft = draft
+  let footer = ''
+  let replyMarkup = draftEditKeyboard(token, draft)
+
+  switch (edit.action) {
+    case 'back':
+      replyMarkup = confirmCancelKeyboard(token)
+      break
+    case 'menu':
+      break
+    case 'line':
+    case 'pick':
+    case 'qty':
+      if (edit.action === 'pick') {
+        updated = pickProductCandidate(draft, edit.ref, edit.candidate)
+      } else if (edit.action === 'qty') {
+        updated = changeProductQty(draft, edit.ref, edit.delta)
+      }
+      footer = `\n\n<b>Строка:</b> ${escapeTelegramHtml(draftLineLabel(updated, edit.ref))}`
+      replyMarkup = draftLineKeyboard(token, updated, edit.ref)
+      break
+    case 'price':
+      updated = { ...draft, awaiting_price: { ref: edit.ref, message_id: messageId } }
+      footer = `\n\n✏️ Отправьте новую цену для «${escapeTelegramHtml(draftLineLabel(draft, edit.ref))}» числом, например 150.`
+      replyMarkup = cancelPriceInputKeyboard(token)
+      break
+    case 'drop':
+      updated = removeDraftLine(draft, edit.ref)
+      replyMarkup = draftEditKeyboard(token, updated)
+      break
+    case 'pay':
+      replyMarkup = paymentMethodKeyboard(token, draft, edit.booking)
+      break
+    case 'method':
+      updated = setPaymentMethod(draft, edit.booking, edit.method)
+      replyMarkup = draftEditKeyboard(token, updated)
+      break
+    case 'client':
+      replyMarkup = clientKeyboard(token, draft, edit.booking)
+      break
+    case 'cpick':
+      updated = pickClientCandidate(draft, edit.booking, edit.candidate)
+      replyMarkup = draftEditKeyboard(token, updated)
+      break
+    case 'cnew':
+      updated = createDraftClient(draft, edit.booking)
+      replyMarkup = draftEditKeyboard(token, updated)
+      break
+    case 'cnone':
+      updated = removeDraftClient(draft, edit.booking)
+      replyMarkup = draftEditKeyboard(token, updated)
+      break
+  }
+
+  const catalog = await loadCatalog(userId)
+  await savePendingSession(target.chatId, threadId, userId, token, updated)
+  await answerCallbackQuery(queryId)
+  await editMessageText(
+    target,
+    messageId,
+    draftSummary(updated, catalog.timezone) + footer,
+    { reply_markup: replyMarkup }
+  )
+}
+
+/** Buttons under the /last list: last:list, last:del:<id>, last:delok:<id>, last:edit:<id> */
+async function handleRecentBookingAction(
+  queryId: string,
+  target: TelegramReplyTarget,
+  messageId: number,
+  userId: string,
+  data: string
+) {
+  const [, action, bookingId] = data.split(':')
+  const catalog = await loadCatalog(userId)
+
+  const showList = async () => {
+    const bookings = await fetchRecentBotBookings(userId, DEFAULT_RECENT_BOOKINGS)
+    await editMessageText(target, messageId, formatRecentBotBookings(bookings, catalog.timezone), {
+      reply_markup: recentBookingsKeyboard(
+        bookings.map((b) => ({ id: b.id, editable: canEditInBot(b) }))
+      ),
+    })
+  }
+
+  if (action === 'list') {
+    await answerCallbackQuery(queryId)
+    await showList()
+    return
+  }
+
+  const booking = bookingId ? await fetchBotBooking(userId, bookingId) : null
+  if (!booking) {
+    await answerCallbackQuery(queryId, 'Запись не найдена')
+    await showList()
+    return
+  }
+
+  if (action === 'del') {
+    await answerCallbackQuery(queryId)
+    await editMessageText(target, messageId, formatDeleteBookingPrompt(booking, catalog.timezone), {
+      reply_markup: deleteBookingKeyboard(booking.id),
+    })
+    return
+  }
+
+  if (action === 'delok') {
+    await deleteBotBookings(userId, [booking.id])
+    await answerCallbackQuery(queryId, 'Удалено')
+    await showList()
+    return
+  }
+
+  if (action === 'edit') {
+    if (!canEditInBot(booking)) {
+      await answerCallbackQuery(queryId, 'Эту запись можно изменить только в CRM')
+      return
+    }
+    const draft: PendingDraft = {
+      bookings: [botBookingToDraft(booking)],
+      unmatched_lines: [],
+      raw_message: '',
+      message_sent_at: booking.start_time,
+      replaces_booking_ids: [booking.id],
+    }
+    const threadId = normalizeThreadId(target.messageThreadId)
+    const token = createSessionToken()
+    await savePendingSession(target.chatId, threadId, userId, token, draft)
+    await answerCallbackQuery(queryId)
+    await sendLongMessage(target, draftSummary(draft, catalog.timezone), {
+      reply_markup: confirmCancelKeyboard(token),
+    })
+  }
+}
+
+/** Category buttons under an expense summary: exp:<token>:cat:<i>[:<page>], exp:<token>:set:<i>:<c>, exp:<token>:back */
+async function handleExpenseEdit(
+  queryId: string,
+  target: TelegramReplyTarget,
+  messageId: number,
+  userId: string,
+  data: string
+) {
+  // The last part is the category index for «set» and the page for «cat»
+  const [, token, action, index, category] = data.split(':')
+  const threadId = normalizeThreadId(target.messageThreadId)
+  const pending = await loadPendingSession(target.chatId, threadId, token)
+
+  if (!pending || !isPendingExpenses(pending)) {
+    await answerCallbackQuery(queryId, 'Сессия истекла')
+    await editMessageText(
+      target,
+      messageId,
+      'Сессия истекла. Отправьте сообщение снова.'
+    )
+    return
+  }
+
+  await answerCallbackQuery(queryId)
+
+  if (action === 'cat') {
+    await editMessageText(target, messageId, formatExpenseSummary(pending), {
+      reply_markup: expenseCategoryKeyboard(token, pending, Number(index), Number(category) || 0),
+    })
+    return
+  }
+
+  const updated = action === 'set'
+    ? setExpenseCategory(pending, Number(index), Number(category))
+    : pending
+  await savePendingSession(target.chatId, threadId, userId, token, updated)
+  await editMessageText(target, messageId, formatExpenseSummary(updated), {
+    reply_markup: expenseConfirmKeyboard(token, updated),
+  })
+}
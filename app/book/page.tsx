@@ -0,0 +1,50 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { PublicBookingForm } from '@/components/public-booking-form'
+import { addDaysToCalendarDate, getTodayInTimezone } from '@/lib/date-utils'
+import {
+  PUBLIC_BOOKING_DAYS_AHEAD,
+  loadPublicBookingContext,
+  type PublicBookingContext,
+} from '@/lib/public-booking/public-booking'
+
+export const dynamic = 'force-dynamic'
+
+export default async function BookPage() {
+  let context: PublicBookingContext | null = null
+  try {
+    context = await loadPublicBookingContext()
+  } catch (error) {
+    console.error('Failed to load public booking page:', error)
+  }
+
+  const today = context ? getTodayInTimezone(context.timezone) : null
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <CardTitle className="text-2xl">Book an appointment</CardTitle>
+          <CardDescription>Gentle Piercing — choose services and a free time</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {context && today ? (
+            context.services.length > 0 ? (
+              <PublicBookingForm
+                services={context.services}
+                timezone={context.timezone}
+                minDate={today}
+                maxDate={addDaysToCalendarDate(today, PUBLIC_BOOKING_DAYS_AHEAD)}
+              />
+            ) : (
+              <p className="text-sm text-muted-foreground">Online booking is not available right now.</p>
+            )
+          ) : (
+            <p className="text-sm text-destructive">
+              Online booking is temporarily unavailable. Please contact us directly.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
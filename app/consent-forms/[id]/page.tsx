@@ -0,0 +1,97 @@
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { PrintButton } from '@/components/print-button'
+import type { Client, ConsentForm } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+export default async function ConsentFormPrintPage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data } = await supabase
+    .from('consent_forms')
+    .select('*, client:clients(*), booking:bookings(start_time)')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (!data) {
+    notFound()
+  }
+
+  const form = data as ConsentForm & {
+    client: Client | null
+    booking: { start_time: string } | null
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl p-8 print:p-0 space-y-6 bg-white text-black min-h-screen">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{form.template_name}</h1>
+          <p className="text-sm text-gray-600">
+            Gentle Piercing
+            {form.booking && ` • Appointment ${new Date(form.booking.start_time).toLocaleString()}`}
+          </p>
+        </div>
+        <PrintButton />
+      </div>
+
+      <section className="text-sm whitespace-pre-wrap">{form.body}</section>
+
+      {form.answers && form.answers.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold">Health questionnaire</h2>
+          <table className="w-full text-sm border-collapse">
+            <tbody>
+              {form.answers.map((answer) => (
+                <tr key={answer.question_id} className="border-b align-top">
+                  <td className="py-1 pr-4">{answer.label}</td>
+                  <td className="py-1 pr-4 font-medium whitespace-nowrap">{answer.answer ? 'Yes' : 'No'}</td>
+                  <td className="py-1">{answer.details || ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      <section className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <p className="text-gray-600">Client</p>
+          <p className="font-medium">{form.signer_name || form.client?.name || '-'}</p>
+        </div>
+        {form.client?.phone && (
+          <div>
+            <p className="text-gray-600">Phone</p>
+            <p className="font-medium">{form.client.phone}</p>
+          </div>
+        )}
+        {form.signed_by_guardian && (
+          <div>
+            <p className="text-gray-600">Signed by parent / guardian</p>
+            <p className="font-medium">{form.guardian_name}</p>
+          </div>
+        )}
+        <div>
+          <p className="text-gray-600">Signed</p>
+          <p className="font-medium">
+            {form.signed_at ? new Date(form.signed_at).toLocaleString() : 'Not signed yet'}
+          </p>
+        </div>
+      </section>
+
+      {form.signature && (
+        <section>
+          <p className="text-sm text-gray-600 mb-1">Signature</p>
+          {/* eslint-disable-next-line @next/next/no-img-element -- data URL, nothing to optimize */}
+          <img src={form.signature} alt="Signature" className="h-32 border-b border-gray-400" />
+        </section>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+import { notFound } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ConsentSignForm } from '@/components/consent-sign-form'
+import { loadConsentFormByToken } from '@/lib/consent/sign-consent'
+
+export const dynamic = 'force-dynamic'
+
+export default async function ConsentPage({
+  params,
+}: {
+  params: Promise<{ token: string }>
+}) {
+  const { token } = await params
+  if (!/^[0-9a-f-]{36}$/i.test(token)) {
+    notFound()
+  }
+
+  const form = await loadConsentFormByToken(token)
+  if (!form) {
+    notFound()
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-2xl">
+        <CardHeader>
+          <CardTitle className="text-2xl">{form.template_name}</CardTitle>
+          <CardDescription>Gentle Piercing — please read, answer and sign</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {form.signed_at ? (
+            <p className="text-sm text-muted-foreground">
+              This form was signed on {new Date(form.signed_at).toLocaleString()}. Thank you!
+            </p>
+          ) : (
+            <ConsentSignForm token={form.token} body={form.body} questions={form.questions} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
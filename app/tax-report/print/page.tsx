@@ -0,0 +1,45 @@
+import { createClient } from '@/lib/supabase/server'
+import { PrintButton } from '@/components/print-button'
+import { TaxReportTables } from '@/components/tax-report-tables'
+import { fetchTaxReport, formatReportMonth, resolveReportMonth } from '@/lib/analytics/tax-report'
+
+export const dynamic = 'force-dynamic'
+
+export default async function TaxReportPrintPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ month?: string }>
+}) {
+  const params = await searchParams
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('timezone')
+    .eq('user_id', user?.id ?? '')
+    .maybeSingle()
+  const timezone = (profile as { timezone?: string } | null)?.timezone ?? 'Europe/Warsaw'
+  const month = resolveReportMonth(params.month, timezone)
+  const report = await fetchTaxReport(supabase, month, timezone)
+
+  return (
+    <div className="mx-auto max-w-4xl p-8 print:p-0 space-y-6 bg-white text-black min-h-screen">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Tax report: {formatReportMonth(month)}</h1>
+          <p className="text-sm text-gray-600">
+            Gentle Piercing • {report.from} – {report.to} ({report.timezone})
+          </p>
+        </div>
+        <PrintButton />
+      </div>
+
+      <TaxReportTables report={report} />
+
+      <p className="text-xs text-gray-600">
+        Generated {new Date().toLocaleString('en-GB', { timeZone: timezone })}. Amounts in PLN.
+      </p>
+    </div>
+  )
+}
@@ -27,6 +27,13 @@ import {
 } from '@/components/ui/form'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { Loader } from '@/components/ui/loader'
 import { Calendar } from '@/components/ui/calendar'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
@@ -34,12 +41,14 @@ import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, Command
 import { CalendarIcon, Check, ChevronsUpDown } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { createClient } from '@/lib/supabase/client'
+import { DEFAULT_COST_CATEGORIES, mergeCostCategories } from '@/lib/costs/categories'
 
 const additionalCostSchema = z.object({
   type: z.string().min(1, 'Category is required'),
   amount: z.number().min(0.01, 'Amount must be greater than 0'),
   date: z.date(),
   description: z.string().optional(),
+  payment_method: z.enum(['cash', 'blik', 'card']).nullable().optional(),
 })
 
 type AdditionalCostFormValues = z.infer<typeof additionalCostSchema>
@@ -50,6 +59,7 @@ interface AdditionalCost {
   amount: number
   date: string
   description: string | null
+  payment_method?: 'cash' | 'blik' | 'card' | null
 }
 
 interface AdditionalCostFormProps {
@@ -58,9 +68,6 @@ interface AdditionalCostFormProps {
   onSuccess?: () => void | Promise<void>
 }
 
-// Default categories for suggestions
-const defaultCategories = ['rent', 'ads', 'print', 'consumables', 'other']
-
 export function AdditionalCostForm({ cost, children, onSuccess }: AdditionalCostFormProps) {
   const [open, setOpen] = useState(false)
   const [loading, setLoading] = useState(false)
@@ -103,16 +110,11 @@ export function AdditionalCostForm({ cost, children, onSuccess }: AdditionalCost
         .eq('user_id', user.id)
       
       if (data) {
-        // Get unique categories, combine with defaults, and sort
-        const uniqueCategories = Array.from(new Set([
-          ...defaultCategories,
-          ...(data as Array<{ type: string }>).map(c => c.type).filter(Boolean)
-        ])).sort()
-        setExistingCategories(uniqueCategories)
+        setExistingCategories(mergeCostCategories((data as Array<{ type: string }>).map(c => c.type)))
       }
     } catch (error) {
       console.error('Error loading categories:', error)
-      setExistingCategories(defaultCategories)
+      setExistingCategories(DEFAULT_COST_CATEGORIES)
     }
   }
 
@@ -123,6 +125,7 @@ export function AdditionalCostForm({ cost, children, onSuccess }: AdditionalCost
       amount: cost?.amount || 0,
       date: cost?.date ? parseDateString(cost.date) : new Date(),
       description: cost?.description || '',
+      payment_method: cost?.payment_method ?? null,
     },
   })
 
@@ -141,6 +144,7 @@ export function AdditionalCostForm({ cost, children, onSuccess }: AdditionalCost
         amount: values.amount,
         date: formatDateForDatabase(values.date),
         description: values.description || null,
+        payment_method: values.payment_method ?? null,
         user_id: user.id,
       }
 
@@ -167,6 +171,7 @@ export function AdditionalCostForm({ cost, children, onSuccess }: AdditionalCost
           amount: 0,
           date: new Date(),
           description: '',
+          payment_method: null,
         })
         router.refresh()
         onSuccess?.()
@@ -339,6 +344,33 @@ export function AdditionalCostForm({ cost, children, onSuccess }: AdditionalCost
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="payment_method"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Paid With</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === 'none' ? null : value)}
+                    value={field.value || 'none'}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select payment method" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Not recorded</SelectItem>
+                      <SelectItem value="cash">Cash from the drawer</SelectItem>
+                      <SelectItem value="blik">BLIK</SelectItem>
+                      <SelectItem value="card">Card</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="description"
@@ -8,6 +8,8 @@ import { BookingDetailsDrawer } from './booking-details-popover'
 import { Button } from './ui/button'
 import { ChevronLeft, ChevronRight, User, Brush, MapPin } from 'lucide-react'
 import type { BookingWithRelations } from '@/lib/types'
+import { BOOKING_STATUS_LABELS, isUpcomingStatus } from '@/lib/bookings/booking-status'
+import { getOpenIntervals, isWithinWorkingHours, type WorkingSchedule } from '@/lib/scheduling/availability'
 
 const localizer = momentLocalizer(moment)
 
@@ -89,6 +91,8 @@ function CustomToolbar({ label, onNavigate, onView, view }: ToolbarProps) {
 
 interface BookingCalendarProps {
   bookings: BookingWithRelations[]
+  schedule?: WorkingSchedule
+  timezone?: string
 }
 
 const DEFAULT_EVENT_DURATION_MINUTES = 30
@@ -118,7 +122,7 @@ function getEventEnd(booking: BookingWithRelations, start: Date): Date {
   return new Date(start.getTime() + durationMinutes * 60 * 1000)
 }
 
-export function BookingCalendar({ bookings }: BookingCalendarProps) {
+export function BookingCalendar({ bookings, schedule, timezone = 'Europe/Warsaw' }: BookingCalendarProps) {
   const router = useRouter()
   const [view, setView] = useState<View>('month')
   const [date, setDate] = useState(new Date())
@@ -162,12 +166,16 @@ export function BookingCalendar({ bookings }: BookingCalendarProps) {
       parts.push(serviceNames.join(', '))
     }
     
-    // Add payment info if available
-    if (booking.payment_method) {
-      parts.push(booking.payment_method.toUpperCase())
-    }
-    if (booking.total_paid) {
-      parts.push(`${booking.total_paid.toFixed(2)} PLN`)
+    // Add payment info for sales, the status for everything else
+    if (booking.status !== 'completed') {
+      parts.push(BOOKING_STATUS_LABELS[booking.status])
+    } else {
+      if (booking.payment_method) {
+        parts.push(booking.payment_method.toUpperCase())
+      }
+      if (booking.total_paid) {
+        parts.push(`${booking.total_paid.toFixed(2)} PLN`)
+      }
     }
     
     const title = parts.length > 0 ? parts.join(' • ') : 'Booking'
@@ -195,6 +203,31 @@ export function BookingCalendar({ bookings }: BookingCalendarProps) {
         backgroundColor = '#e67e22'
       }
       // Regular bookings keep the default blue
+
+      // Cancelled and no-show appointments stay visible but muted
+      if (booking.status === 'cancelled' || booking.status === 'no_show') {
+        return {
+          style: {
+            backgroundColor: '#e5e7eb',
+            border: `1px solid ${borderColor}`,
+            borderRadius: '4px',
+            color: '#6b7280',
+            textDecoration: 'line-through',
+          },
+        }
+      }
+
+      // Upcoming appointments are outlined in the booking colour until completed
+      if (isUpcomingStatus(booking.status)) {
+        return {
+          style: {
+            backgroundColor: 'white',
+            border: `2px ${booking.status === 'scheduled' ? 'dashed' : 'solid'} ${backgroundColor}`,
+            borderRadius: '4px',
+            color: backgroundColor,
+          },
+        }
+      }
     }
     
     return {
@@ -207,6 +240,21 @@ export function BookingCalendar({ bookings }: BookingCalendarProps) {
     }
   }
 
+  // Grey out closed time once working hours are set up
+  const hasWorkingHours = Boolean(schedule && schedule.hours.length > 0)
+
+  const slotPropGetter = (slotDate: Date) => {
+    if (!schedule || !hasWorkingHours) return {}
+    const slotEnd = new Date(slotDate.getTime() + 60 * 1000)
+    return isWithinWorkingHours(schedule, slotDate, slotEnd, timezone) ? {} : { className: 'bg-muted' }
+  }
+
+  const dayPropGetter = (day: Date) => {
+    if (!schedule || !hasWorkingHours || view !== 'month') return {}
+    const dateStr = moment(day).format('YYYY-MM-DD')
+    return getOpenIntervals(schedule, dateStr, timezone).length > 0 ? {} : { className: 'bg-muted' }
+  }
+
   const handleSelectSlot = ({ start }: { start: Date }) => {
     setSelectedSlot(start)
   }
@@ -267,6 +315,8 @@ export function BookingCalendar({ bookings }: BookingCalendarProps) {
             eventTimeRangeEndFormat: () => '',
           }}
           eventPropGetter={eventStyleGetter}
+          slotPropGetter={slotPropGetter}
+          dayPropGetter={dayPropGetter}
           dayLayoutAlgorithm="no-overlap"
           min={view !== 'month' ? new Date(2000, 0, 1, 8, 0) : undefined}
           scrollToTime={view !== 'month' ? new Date(2000, 0, 1, 8, 0) : undefined}
@@ -0,0 +1,184 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader } from '@/components/ui/loader'
+import { Copy, ExternalLink, FileSignature, Printer, RefreshCw } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import { createConsentForm, getConsentLink } from '@/lib/consent/consent-forms'
+import type { BookingWithRelations, ConsentForm, ConsentTemplate } from '@/lib/types'
+
+interface BookingConsentCardProps {
+  booking: BookingWithRelations
+  onFormsChange?: (forms: Array<Pick<ConsentForm, 'id' | 'signed_at'>>) => void
+}
+
+export function BookingConsentCard({ booking, onFormsChange }: BookingConsentCardProps) {
+  const [forms, setForms] = useState<ConsentForm[]>([])
+  const [templates, setTemplates] = useState<ConsentTemplate[]>([])
+  const [templateId, setTemplateId] = useState<string>('')
+  const [loading, setLoading] = useState(true)
+  const [creating, setCreating] = useState(false)
+  const supabase = createClient()
+
+  const loadForms = useCallback(async () => {
+    setLoading(true)
+    const [formsRes, templatesRes] = await Promise.all([
+      supabase
+        .from('consent_forms')
+        .select('*')
+        .eq('booking_id', booking.id)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('consent_templates')
+        .select('*')
+        .eq('active', true)
+        .order('name'),
+    ])
+    if (formsRes.error) console.error('Error loading consent forms:', formsRes.error)
+    if (templatesRes.error) console.error('Error loading consent templates:', templatesRes.error)
+
+    const loadedForms = (formsRes.data as ConsentForm[] | null) || []
+    const loadedTemplates = (templatesRes.data as ConsentTemplate[] | null) || []
+    setForms(loadedForms)
+    setTemplates(loadedTemplates)
+    setTemplateId((current) => current || loadedTemplates[0]?.id || '')
+    setLoading(false)
+    onFormsChange?.(loadedForms.map((form) => ({ id: form.id, signed_at: form.signed_at })))
+  }, [booking.id, supabase, onFormsChange])
+
+  useEffect(() => {
+    loadForms()
+  }, [loadForms])
+
+  const handleCreate = async () => {
+    const template = templates.find((t) => t.id === templateId)
+    if (!template) return
+
+    setCreating(true)
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        throw new Error('You must be logged in to create a consent form')
+      }
+      await createConsentForm(supabase, {
+        userId: user.id,
+        bookingId: booking.id,
+        clientId: booking.client_id,
+        template,
+      })
+      await loadForms()
+    } catch (error) {
+      console.error('Error creating consent form:', error)
+      alert('Failed to create consent form')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleCopy = async (form: ConsentForm) => {
+    try {
+      await navigator.clipboard.writeText(getConsentLink(form.token, window.location.origin))
+    } catch (error) {
+      console.error('Error copying consent link:', error)
+      alert('Failed to copy link')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <FileSignature className="h-4 w-4" />
+          Consent
+        </CardTitle>
+        <Button variant="ghost" size="icon" onClick={loadForms} disabled={loading}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <div className="flex justify-center py-2">
+            <Loader size="sm" />
+          </div>
+        ) : (
+          <>
+            {forms.map((form) => (
+              <div key={form.id} className="flex flex-wrap items-center justify-between gap-2 p-2 border rounded-lg">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-sm font-medium truncate">{form.template_name}</span>
+                  {form.signed_at ? (
+                    <Badge variant="secondary">Signed</Badge>
+                  ) : (
+                    <Badge variant="outline">Awaiting signature</Badge>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  {form.signed_at ? (
+                    <Link href={`/consent-forms/${form.id}`} target="_blank">
+                      <Button variant="ghost" size="sm">
+                        <Printer className="h-4 w-4 mr-1" />
+                        PDF
+                      </Button>
+                    </Link>
+                  ) : (
+                    <>
+                      <Button variant="ghost" size="sm" onClick={() => handleCopy(form)}>
+                        <Copy className="h-4 w-4 mr-1" />
+                        Link
+                      </Button>
+                      <Link href={`/consent/${form.token}`} target="_blank">
+                        <Button variant="ghost" size="sm">
+                          <ExternalLink className="h-4 w-4 mr-1" />
+                          Open
+                        </Button>
+                      </Link>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            {templates.length > 0 ? (
+              <div className="flex items-center gap-2">
+                <Select value={templateId} onValueChange={setTemplateId}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Choose template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button size="sm" onClick={handleCreate} disabled={creating || !templateId}>
+                  {creating ? <Loader size="sm" /> : 'New Form'}
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Add a consent template in{' '}
+                <Link href="/settings" className="text-primary hover:underline">
+                  Settings
+                </Link>{' '}
+                to collect signatures.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
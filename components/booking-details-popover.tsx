@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { format } from 'date-fns'
 import {
   Drawer,
@@ -13,8 +13,15 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { BookingForm } from './booking-form'
 import { DeleteBookingButton } from './delete-booking-button'
+import { BookingStatusActions, BookingStatusBadge } from './booking-status-actions'
+import { BookingConsentCard } from './booking-consent-card'
+import { BookingPaymentsCard } from './booking-payments-card'
+import { Badge } from '@/components/ui/badge'
+import { isConsentMissing } from '@/lib/consent/consent-forms'
+import { formatPlatformName } from '@/lib/fees/marketplace-fees'
+import { formatProductVariant } from '@/lib/products/variants'
 import { Edit } from 'lucide-react'
-import type { BookingWithRelations } from '@/lib/types'
+import type { BookingWithRelations, ConsentForm } from '@/lib/types'
 import { Clock, User, Scissors, CreditCard } from 'lucide-react'
 
 interface BookingDetailsDrawerProps {
@@ -31,6 +38,10 @@ export function BookingDetailsDrawer({ booking, open, onOpenChange, onBookingUpd
     setCurrentBooking(booking)
   }, [booking])
 
+  const handleConsentFormsChange = useCallback((forms: Array<Pick<ConsentForm, 'id' | 'signed_at'>>) => {
+    setCurrentBooking((prev) => ({ ...prev, consent_forms: forms }))
+  }, [])
+
   const handleBookingUpdate = (updatedBooking: BookingWithRelations) => {
     setCurrentBooking(updatedBooking)
     onBookingUpdate?.(updatedBooking)
@@ -41,7 +52,13 @@ export function BookingDetailsDrawer({ booking, open, onOpenChange, onBookingUpd
       <DrawerContent className="h-screen w-full sm:max-w-2xl flex flex-col">
         <DrawerHeader className="border-b flex-shrink-0">
           <div className="flex items-center justify-between">
-            <DrawerTitle>Booking Details</DrawerTitle>
+            <div className="flex items-center gap-2">
+              <DrawerTitle>Booking Details</DrawerTitle>
+              <BookingStatusBadge status={currentBooking.status} />
+              {isConsentMissing(currentBooking) && (
+                <Badge variant="destructive">No consent</Badge>
+              )}
+            </div>
             <div className="flex gap-2">
               <BookingForm booking={currentBooking}>
                 <Button variant="outline" size="icon">
@@ -54,6 +71,10 @@ export function BookingDetailsDrawer({ booking, open, onOpenChange, onBookingUpd
               />
             </div>
           </div>
+          <BookingStatusActions
+            booking={currentBooking}
+            onStatusChange={(status) => handleBookingUpdate({ ...currentBooking, status })}
+          />
         </DrawerHeader>
         <div className="p-6 space-y-4 overflow-y-auto flex-1 min-h-0">
             {/* Date & Time */}
@@ -78,6 +99,8 @@ export function BookingDetailsDrawer({ booking, open, onOpenChange, onBookingUpd
               </CardContent>
             </Card>
 
+            <BookingConsentCard booking={currentBooking} onFormsChange={handleConsentFormsChange} />
+
             {/* Client */}
             <Card>
               <CardHeader>
@@ -196,6 +219,9 @@ export function BookingDetailsDrawer({ booking, open, onOpenChange, onBookingUpd
                             <div>
                               <p className="text-xs text-muted-foreground">Product Name</p>
                               <p className="font-medium text-sm">{product.name}</p>
+                              {formatProductVariant(product) && (
+                                <p className="text-xs text-muted-foreground">{formatProductVariant(product)}</p>
+                              )}
                             </div>
                             <div className="grid grid-cols-2 gap-2">
                               <div>
@@ -297,6 +323,9 @@ export function BookingDetailsDrawer({ booking, open, onOpenChange, onBookingUpd
                             <div>
                               <p className="text-xs text-muted-foreground">Product Name</p>
                               <p className="font-medium text-sm">{product.name}</p>
+                              {formatProductVariant(product) && (
+                                <p className="text-xs text-muted-foreground">{formatProductVariant(product)}</p>
+                              )}
                             </div>
                             <div className="grid grid-cols-2 gap-2">
                               <div>
@@ -384,6 +413,12 @@ export function BookingDetailsDrawer({ booking, open, onOpenChange, onBookingUpd
                         <p className="font-medium">${currentBooking.travel_fee.toFixed(2)}</p>
                       </div>
                     )}
+                    {currentBooking.custom_discount > 0 && (
+                      <div className="flex justify-between">
+                        <p className="text-sm text-muted-foreground">{currentBooking.promotion_id ? 'Promotion' : 'Discount'}</p>
+                        <p className="font-medium">−${currentBooking.custom_discount.toFixed(2)}</p>
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -408,7 +443,7 @@ export function BookingDetailsDrawer({ booking, open, onOpenChange, onBookingUpd
                     })()}
                     {currentBooking.booksy_fee > 0 && (
                       <div className="flex justify-between">
-                        <p className="text-sm text-muted-foreground">Booksy Fee (43.05%)</p>
+                        <p className="text-sm text-muted-foreground">{formatPlatformName(currentBooking.fee_platform ?? 'booksy')} Fee</p>
                         <p className="font-medium">${currentBooking.booksy_fee.toFixed(2)}</p>
                       </div>
                     )}
@@ -430,7 +465,7 @@ export function BookingDetailsDrawer({ booking, open, onOpenChange, onBookingUpd
                     })()}
                     {currentBooking.tax_enabled && currentBooking.tax_amount > 0 && (
                       <div className="flex justify-between">
-                        <p className="text-sm text-muted-foreground">Tax (8.5%)</p>
+                        <p className="text-sm text-muted-foreground">Tax ({Number(currentBooking.tax_rate)}%)</p>
                         <p className="font-medium">${currentBooking.tax_amount.toFixed(2)}</p>
                       </div>
                     )}
@@ -449,7 +484,7 @@ export function BookingDetailsDrawer({ booking, open, onOpenChange, onBookingUpd
                       return sum + (unitPrice * be.qty)
                     }, 0) || currentBooking.earring_revenue || 0
                     const travelFee = currentBooking.travel_fee || 0
-                    const revenue = totalServiceRevenue + totalProductRevenue + travelFee
+                    const revenue = totalServiceRevenue + totalProductRevenue + travelFee - (currentBooking.custom_discount || 0)
                     
                     // Calculate costs
                     const totalProductCost = currentBooking.booking_products?.reduce((sum, be) => {
@@ -515,6 +550,11 @@ export function BookingDetailsDrawer({ booking, open, onOpenChange, onBookingUpd
               </CardContent>
             </Card>
 
+            <BookingPaymentsCard
+              booking={currentBooking}
+              onTotalsChange={(totals) => handleBookingUpdate({ ...currentBooking, ...totals })}
+            />
+
             {/* Notes */}
             {currentBooking.notes && (
               <Card>
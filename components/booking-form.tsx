@@ -38,12 +38,44 @@ import { Calendar } from '@/components/ui/calendar'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command'
 import { createClient } from '@/lib/supabase/client'
-import type { Booking, BookingWithRelations, Client, Product, Service } from '@/lib/types'
-import { CalendarIcon, Plus, Clock, Scissors, CreditCard, Check, ChevronsUpDown, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, X } from 'lucide-react'
+import type { Booking, BookingPayment, BookingStatus, BookingWithRelations, Client, GiftVoucher, MarketplaceFeeRule, Product, Promotion, Service, TaxRule } from '@/lib/types'
+import { BOOKING_STATUSES, BOOKING_STATUS_LABELS } from '@/lib/bookings/booking-status'
+import { DEFAULT_BOOKING_MINUTES, findOverlappingBookings, getBookingInterval, isWithinWorkingHours, type BusyBooking, type WorkingSchedule } from '@/lib/scheduling/availability'
+import { fetchBusyBookings, fetchWorkingSchedule } from '@/lib/scheduling/fetch-schedule'
+import { extractCalendarDateInTimezone, getTodayInTimezone } from '@/lib/date-utils'
+import { syncBookingFollowUps } from '@/lib/follow-ups/reminders'
+import {
+  BOOKING_PAYMENT_TYPE_LABELS,
+  fetchBookingPayments,
+  getDefaultPaidAt,
+  getNetPaid,
+  settleBookingPayments,
+} from '@/lib/bookings/payments'
+import { fetchVouchersWithBalance, isVoucherRedeemable } from '@/lib/vouchers/gift-vouchers'
+import {
+  calculatePromotionDiscount,
+  fetchPromotionUsage,
+  fetchPromotions,
+  formatPromotionDiscount,
+  getPromotionUnavailableReason,
+} from '@/lib/promotions/promotions'
+import { checkServiceAges } from '@/lib/clients/age'
+import { calculateTaxAmount, fetchTaxRules, getTaxRuleAt, isTaxedPaymentMethod } from '@/lib/tax/tax-rules'
+import {
+  MARKETPLACE_FEE_BASE_LABELS,
+  calculateMarketplaceFee,
+  fetchMarketplaceFeeRules,
+  formatPlatformName,
+  getFeeBaseAmount,
+  getFeePlatforms,
+  getFeeRuleAt,
+} from '@/lib/fees/marketplace-fees'
+import { CalendarIcon, Plus, Clock, Scissors, CreditCard, Check, ChevronsUpDown, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, X, AlertTriangle } from 'lucide-react'
 import { Loader } from '@/components/ui/loader'
 import { Badge } from '@/components/ui/badge'
 import { cn } from '@/lib/utils'
 import { ProductForm } from './product-form'
+import { ProductThumbnail } from './product-thumbnail'
 
 // Helper function to get next half hour
 function getNextHalfHour(): Date {
@@ -82,8 +114,11 @@ const bookingSchema = z.object({
   client_id: z.string().nullable().optional(), // Can be "new", UUID, or null
   client_name: z.string().optional(),
   client_phone: z.string().optional(),
-  client_source: z.enum(['booksy', 'instagram', 'referral', 'walk-in']).nullable().optional(),
+  client_source: z.enum(['booksy', 'instagram', 'referral', 'walk-in', 'online']).nullable().optional(),
   client_notes: z.string().optional(),
+  client_date_of_birth: z.string().optional(),
+  client_guardian_name: z.string().optional(),
+  client_guardian_phone: z.string().optional(),
   product_items: z.array(z.object({
     id: z.string().optional(),
     product_id: z.union([z.string().uuid(), z.literal('')]),
@@ -124,16 +159,21 @@ const bookingSchema = z.object({
   })).optional(),
   calculated_total: z.number().min(0).nullable().optional(),
   total_paid: z.number().min(0).nullable().optional(),
-  payment_method: z.enum(['cash', 'blik', 'card']),
+  promotion_id: z.string().nullable().optional(),
+  custom_discount: z.number().min(0).nullable().optional(),
+  payment_method: z.enum(['cash', 'blik', 'card', 'voucher']),
+  voucher_id: z.string().nullable().optional(),
   tax_enabled: z.boolean(),
   tax_rate: z.number().min(0).max(100).nullable().optional(),
   tax_amount: z.number().min(0).nullable().optional(),
   booksy_fee_enabled: z.boolean(),
+  fee_platform: z.string().nullable().optional(),
   booksy_fee_base: z.number().min(0).nullable().optional(),
   booksy_fee: z.number().min(0).nullable().optional(),
   notes: z.string().optional(),
   start_time: z.date(),
   end_time: z.date().nullable().optional(),
+  status: z.enum(['scheduled', 'confirmed', 'completed', 'cancelled', 'no_show']),
 })
 
 type BookingFormValues = z.infer<typeof bookingSchema>
@@ -141,10 +181,17 @@ type BookingFormValues = z.infer<typeof bookingSchema>
 interface BookingFormProps {
   booking?: BookingWithRelations
   defaultStartTime?: Date
+  // Open an appointment as a sale: planned services/products are kept, status becomes completed
+  convertToSale?: boolean
   children: React.ReactNode
 }
 
-export function BookingForm({ booking, defaultStartTime, children }: BookingFormProps) {
+// New bookings in the future are appointments, past ones are sales being recorded
+function getDefaultStatus(startTime: Date): BookingStatus {
+  return startTime.getTime() > Date.now() ? 'scheduled' : 'completed'
+}
+
+export function BookingForm({ booking, defaultStartTime, convertToSale = false, children }: BookingFormProps) {
   const [open, setOpen] = useState(false)
   const [loading, setLoading] = useState(false)
   const [dataLoading, setDataLoading] = useState(false)
@@ -157,6 +204,18 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
   const [timeClientExpanded, setTimeClientExpanded] = useState(false)
   const [paymentExpanded, setPaymentExpanded] = useState(false)
   const [totalPaidManuallyEdited, setTotalPaidManuallyEdited] = useState(false)
+  const [statusManuallyEdited, setStatusManuallyEdited] = useState(false)
+  const [taxManuallyEdited, setTaxManuallyEdited] = useState(false)
+  const [taxRules, setTaxRules] = useState<TaxRule[]>([])
+  const [feeRules, setFeeRules] = useState<MarketplaceFeeRule[]>([])
+  const [feeBaseManuallyEdited, setFeeBaseManuallyEdited] = useState(false)
+  const [existingPayments, setExistingPayments] = useState<BookingPayment[]>([])
+  const [vouchers, setVouchers] = useState<GiftVoucher[]>([])
+  const [promotions, setPromotions] = useState<Promotion[]>([])
+  const [promotionUsage, setPromotionUsage] = useState<Record<string, number>>({})
+  const [schedule, setSchedule] = useState<WorkingSchedule | null>(null)
+  const [timezone, setTimezone] = useState('Europe/Warsaw')
+  const [overlappingBookings, setOverlappingBookings] = useState<BusyBooking[]>([])
   const [productSearchQuery, setProductSearchQuery] = useState('')
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('')
   const router = useRouter()
@@ -185,9 +244,14 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
       loadData()
       // Reset to step 1 when dialog opens
       setCurrentStep(1)
+      setStatusManuallyEdited(false)
+      setTaxManuallyEdited(false)
+      setFeeBaseManuallyEdited(false)
       // Auto-set time to next half hour for new bookings
       if (!booking) {
-        form.setValue('start_time', defaultStartTime || getNextHalfHour())
+        const initialStartTime = defaultStartTime || getNextHalfHour()
+        form.setValue('start_time', initialStartTime)
+        form.setValue('status', getDefaultStatus(initialStartTime))
       }
     }
   }, [open])
@@ -196,12 +260,53 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
   const loadData = async () => {
     setDataLoading(true)
     try {
-      const [clientsRes, productsRes, starredProductsRes, servicesRes] = await Promise.all([
+      const [clientsRes, productsRes, starredProductsRes, servicesRes, profileRes, workingSchedule, userTaxRules, userFeeRules, bookingPayments, vouchersWithBalance, userPromotions, usageByPromotion] = await Promise.all([
         supabase.from('clients').select('*').order('name'),
-        supabase.from('products').select('*').eq('active', true).order('sold_qty', { ascending: false }),
-        supabase.from('products').select('*').eq('active', true).eq('starred', true).order('sold_qty', { ascending: false }),
+        supabase.from('products').select('*, product_images(*)').eq('active', true).order('sold_qty', { ascending: false }),
+        supabase.from('products').select('*, product_images(*)').eq('active', true).eq('starred', true).order('sold_qty', { ascending: false }),
         supabase.from('services').select('*').eq('active', true).order('name'),
+        supabase.from('user_profiles').select('timezone').maybeSingle(),
+        fetchWorkingSchedule(supabase).catch((error) => {
+          console.error('Error loading working hours:', error)
+          return null
+        }),
+        fetchTaxRules(supabase).catch((error) => {
+          console.error('Error loading tax rules:', error)
+          return [] as TaxRule[]
+        }),
+        fetchMarketplaceFeeRules(supabase).catch((error) => {
+          console.error('Error loading marketplace fee rules:', error)
+          return [] as MarketplaceFeeRule[]
+        }),
+        booking
+          ? fetchBookingPayments(supabase, booking.id).catch((error) => {
+              console.error('Error loading booking payments:', error)
+              return [] as BookingPayment[]
+            })
+          : Promise.resolve([] as BookingPayment[]),
+        fetchVouchersWithBalance(supabase).catch((error) => {
+          console.error('Error loading gift vouchers:', error)
+          return [] as GiftVoucher[]
+        }),
+        fetchPromotions(supabase).catch((error) => {
+          console.error('Error loading promotions:', error)
+          return [] as Promotion[]
+        }),
+        // The booking being edited does not count against its own promotion's limit
+        fetchPromotionUsage(supabase, booking?.id).catch((error) => {
+          console.error('Error loading promotion usage:', error)
+          return {} as Record<string, number>
+        }),
       ])
+      const profileTimezone = (profileRes.data as { timezone?: string } | null)?.timezone
+      if (profileTimezone) setTimezone(profileTimezone)
+      setSchedule(workingSchedule)
+      setTaxRules(userTaxRules)
+      setFeeRules(userFeeRules)
+      setExistingPayments(bookingPayments)
+      setVouchers(vouchersWithBalance)
+      setPromotions(userPromotions)
+      setPromotionUsage(usageByPromotion)
       if (clientsRes.data) setClients(clientsRes.data)
       if (productsRes.data) {
         setProducts(productsRes.data)
@@ -266,6 +371,9 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
     client_phone: booking?.client?.phone || '',
     client_source: booking?.client?.source || null,
     client_notes: booking?.client?.notes || '',
+    client_date_of_birth: booking?.client?.date_of_birth || '',
+    client_guardian_name: booking?.client?.guardian_name || '',
+    client_guardian_phone: booking?.client?.guardian_phone || '',
     product_items: initialProductItems,
     service_items: initialServiceItems,
     is_model: booking?.is_model || false,
@@ -276,17 +384,23 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
     broken_product_loss: booking?.broken_earring_loss ?? null,
     broken_product_items: initialBrokenProductItems,
     calculated_total: null,
-    total_paid: booking?.total_paid ?? null,
-    payment_method: (booking?.payment_method || 'cash') as 'cash' | 'blik' | 'card',
+    // Appointments store 0 until paid; leave empty so it is calculated from the prices
+    total_paid: convertToSale || (booking && booking.status !== 'completed') ? null : (booking?.total_paid ?? null),
+    promotion_id: booking?.promotion_id ?? null,
+    custom_discount: booking?.custom_discount ?? 0,
+    payment_method: booking?.payment_method || 'cash',
+    voucher_id: null,
     tax_enabled: booking?.tax_enabled ?? false,
-    tax_rate: 8.5, // Always 8.5%
+    tax_rate: booking?.tax_rate ?? null,
     tax_amount: booking?.tax_amount ?? null,
     booksy_fee_enabled: booking?.client?.source === 'booksy' ? (booking.booksy_fee ? booking.booksy_fee > 0 : true) : (booking?.booksy_fee ? booking.booksy_fee > 0 : false),
-    booksy_fee_base: null, // Will be auto-set from first service price, can be customized
+    fee_platform: booking?.fee_platform ?? (booking?.booksy_fee ? 'booksy' : null),
+    booksy_fee_base: null, // Will be auto-set from the platform's fee rule, can be customized
     booksy_fee: booking?.booksy_fee ?? null,
     notes: booking?.notes || '',
     start_time: booking?.start_time ? new Date(booking.start_time) : (defaultStartTime || getNextHalfHour()),
     end_time: booking?.end_time ? new Date(booking.end_time) : null,
+    status: (convertToSale ? 'completed' : booking?.status || getDefaultStatus(defaultStartTime || getNextHalfHour())) as BookingStatus,
   })
 
   const form = useForm<BookingFormValues>({
@@ -359,7 +473,77 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
   const booksyFeeEnabled = useWatch({ control: form.control, name: 'booksy_fee_enabled' })
   const booksyFeeBase = useWatch({ control: form.control, name: 'booksy_fee_base' })
   const booksyFee = useWatch({ control: form.control, name: 'booksy_fee' })
+  const feePlatform = useWatch({ control: form.control, name: 'fee_platform' })
   const startTime = useWatch({ control: form.control, name: 'start_time' })
+  const status = useWatch({ control: form.control, name: 'status' })
+  const endTime = useWatch({ control: form.control, name: 'end_time' })
+  const isSale = status === 'completed'
+  const blocksCalendar = status !== 'cancelled' && status !== 'no_show'
+  const appointmentEnd = startTime
+    ? (endTime && endTime > startTime ? endTime : new Date(startTime.getTime() + DEFAULT_BOOKING_MINUTES * 60 * 1000))
+    : null
+  const outsideWorkingHours = Boolean(
+    blocksCalendar &&
+    schedule &&
+    schedule.hours.length > 0 &&
+    startTime &&
+    appointmentEnd &&
+    !isWithinWorkingHours(schedule, startTime, appointmentEnd, timezone)
+  )
+  const paymentMethod = useWatch({ control: form.control, name: 'payment_method' })
+  const taxRule = startTime ? getTaxRuleAt(taxRules, startTime, timezone) : null
+  const promotionId = useWatch({ control: form.control, name: 'promotion_id' })
+  const selectedPromotion = promotions.find((promotion) => promotion.id === promotionId) ?? null
+  const bookingDate = startTime ? extractCalendarDateInTimezone(startTime, timezone) : getTodayInTimezone(timezone)
+  // The promotion already on the booking stays selectable even if it has since ended
+  const availablePromotions = promotions.filter((promotion) =>
+    promotion.id === booking?.promotion_id ||
+    !getPromotionUnavailableReason(promotion, bookingDate, promotionUsage[promotion.id] || 0)
+  )
+  const redeemableVouchers = vouchers.filter((voucher) => isVoucherRedeemable(voucher, getTodayInTimezone(timezone)))
+  const feePlatforms = getFeePlatforms(feeRules)
+  const feeRule = startTime && feePlatform ? getFeeRuleAt(feeRules, feePlatform, startTime, timezone) : null
+  const clientDateOfBirth = useWatch({ control: form.control, name: 'client_date_of_birth' })
+  const clientGuardianName = useWatch({ control: form.control, name: 'client_guardian_name' })
+  const ageCheck = checkServiceAges(
+    clientId && clientId !== 'none'
+      ? { date_of_birth: clientDateOfBirth || null, guardian_name: clientGuardianName || null }
+      : null,
+    serviceItems
+      .map((item) => services.find((s) => s.id === item.service_id))
+      .filter((s): s is Service => Boolean(s)),
+    startTime ?? new Date()
+  )
+  const ageBlocked = blocksCalendar && ageCheck.blocked.length > 0
+
+  // Warn about other bookings in the same time range
+  useEffect(() => {
+    if (!open || !startTime || !appointmentEnd || !blocksCalendar) {
+      setOverlappingBookings([])
+      return
+    }
+    let cancelled = false
+    // Look back a day so long bookings that started earlier are caught too
+    const from = new Date(startTime.getTime() - 24 * 60 * 60 * 1000)
+    fetchBusyBookings(supabase, from, appointmentEnd)
+      .then((busy) => {
+        if (!cancelled) {
+          setOverlappingBookings(findOverlappingBookings(busy, startTime, appointmentEnd, booking?.id))
+        }
+      })
+      .catch((error) => console.error('Error checking overlapping bookings:', error))
+    return () => {
+      cancelled = true
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, startTime?.getTime(), appointmentEnd?.getTime(), blocksCalendar, booking?.id])
+
+  // Follow the chosen time on new bookings until a status is picked by hand
+  useEffect(() => {
+    if (!booking && !statusManuallyEdited && startTime) {
+      form.setValue('status', getDefaultStatus(startTime))
+    }
+  }, [booking, statusManuallyEdited, startTime, form])
 
   // Auto-fill client fields when existing client is selected
   useEffect(() => {
@@ -370,6 +554,9 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
         form.setValue('client_phone', selectedClient.phone || '')
         form.setValue('client_source', selectedClient.source)
         form.setValue('client_notes', selectedClient.notes || '')
+        form.setValue('client_date_of_birth', selectedClient.date_of_birth || '')
+        form.setValue('client_guardian_name', selectedClient.guardian_name || '')
+        form.setValue('client_guardian_phone', selectedClient.guardian_phone || '')
       }
     } else if (clientId === 'new') {
       // Clear fields when "new" is selected
@@ -377,18 +564,31 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
       form.setValue('client_phone', '')
       form.setValue('client_source', null)
       form.setValue('client_notes', '')
+      form.setValue('client_date_of_birth', '')
+      form.setValue('client_guardian_name', '')
+      form.setValue('client_guardian_phone', '')
     }
   }, [clientId, clients, form])
 
-  // Auto-enable booksy fee when client source is booksy
+  // Auto-enable the marketplace fee when the client came from a platform with fee rules
   useEffect(() => {
     if (clientId && clientId !== 'new' && clientId !== 'none') {
       const selectedClient = clients.find(c => c.id === clientId)
-      if (selectedClient?.source === 'booksy') {
+      if (selectedClient?.source && feePlatforms.includes(selectedClient.source)) {
         form.setValue('booksy_fee_enabled', true)
+        form.setValue('fee_platform', selectedClient.source)
       }
     }
-  }, [clientId, clients, form])
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clientId, clients, feeRules, form])
+
+  // Default to the first platform when the fee is turned on without one
+  useEffect(() => {
+    if (booksyFeeEnabled && !feePlatform && feePlatforms.length > 0) {
+      form.setValue('fee_platform', feePlatforms[0])
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [booksyFeeEnabled, feePlatform, feeRules, form])
 
 
   // Calculate product totals from all product items
@@ -482,12 +682,28 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
   // Get totals for calculations
   const productRevenue = form.watch('earring_revenue') || 0 // Keep field name for DB compatibility
   const totalServicePrice = serviceItems.reduce((sum, item) => sum + (Number(item.price) || 0), 0)
+  // A promotion's discount follows the eligible services and products; otherwise keep the stored amount
+  const storedDiscount = Number(useWatch({ control: form.control, name: 'custom_discount' }) || 0)
+  const customDiscount = selectedPromotion
+    ? calculatePromotionDiscount(selectedPromotion, {
+        services: serviceItems
+          .filter((item) => item.service_id)
+          .map((item) => ({ service_id: item.service_id, price: Number(item.price) || 0 })),
+        products: productItems
+          .filter((item) => item.product_id)
+          .map((item) => {
+            const product = products.find((p) => p.id === item.product_id)
+            const unitPrice = item.price !== null && item.price !== undefined ? item.price : (product?.sale_price || 0)
+            return { category: product?.category ?? null, amount: unitPrice * item.qty }
+          }),
+      })
+    : storedDiscount
 
-  // Auto-calculate total (service_price + product_revenue)
+  // Auto-calculate total (service_price + product_revenue - discount)
   useEffect(() => {
     const sp = Number(totalServicePrice) || 0
     const er = Number(productRevenue) || 0
-    const calculated = sp + er
+    const calculated = Math.max(sp + er - customDiscount, 0)
     if (calculated > 0) {
       form.setValue('calculated_total', calculated)
       // Auto-update total_paid if not manually edited
@@ -500,7 +716,7 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
         form.setValue('total_paid', null)
       }
     }
-  }, [totalServicePrice, productRevenue, form, totalPaidManuallyEdited])
+  }, [totalServicePrice, productRevenue, customDiscount, form, totalPaidManuallyEdited])
 
   // Auto-calculate end_time from sum of all service durations
   useEffect(() => {
@@ -520,37 +736,40 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
   }, [serviceItems, startTime, services])
 
 
-  // Auto-calculate tax (always 8.5%)
+  // Default tax on for the payment methods the rule taxes, until toggled by hand
   useEffect(() => {
+    if (taxManuallyEdited || !taxRule) return
+    if (booking && paymentMethod === booking.payment_method) return
+    form.setValue('tax_enabled', isTaxedPaymentMethod(taxRule, paymentMethod))
+  }, [taxManuallyEdited, taxRule, paymentMethod, booking, form])
+
+  // Auto-calculate tax with the rule in effect on the booking date
+  useEffect(() => {
+    form.setValue('tax_rate', taxRule?.rate ?? 0)
     if (taxEnabled && totalPaid && totalPaid > 0) {
-      const taxAmount = (totalPaid * 8.5) / 100
-      form.setValue('tax_amount', taxAmount)
-      form.setValue('tax_rate', 8.5) // Always ensure it's 8.5
+      form.setValue('tax_amount', calculateTaxAmount(totalPaid, taxRule))
     } else {
       form.setValue('tax_amount', null)
     }
-  }, [taxEnabled, totalPaid, form])
+  }, [taxEnabled, totalPaid, taxRule, form])
 
-  // Auto-set booksy fee base from first service price
+  // Auto-set the fee base from the platform's rule until it is edited by hand
   useEffect(() => {
-    if (serviceItems.length > 0 && serviceItems[0].service_id && serviceItems[0].price !== null && serviceItems[0].price !== undefined) {
-      const firstServicePrice = serviceItems[0].price || 0
-      // Only set base if it's not already set or if it's null
-      if (booksyFeeBase === null || booksyFeeBase === undefined) {
-        form.setValue('booksy_fee_base', firstServicePrice)
-      }
-    }
-  }, [serviceItems, form])
-
-  // Auto-calculate booksy fee (43.05% of base amount)
+    if (feeBaseManuallyEdited) return
+    const servicePrices = serviceItems
+      .filter((item) => item.service_id)
+      .map((item) => Number(item.price) || 0)
+    form.setValue('booksy_fee_base', getFeeBaseAmount(feeRule, servicePrices, Number(totalPaid) || 0))
+  }, [feeBaseManuallyEdited, feeRule, serviceItems, totalPaid, form])
+
+  // Auto-calculate the marketplace fee from the rule in effect on the booking date
   useEffect(() => {
     if (booksyFeeEnabled && booksyFeeBase !== null && booksyFeeBase !== undefined) {
-      const calculatedFee = booksyFeeBase * 0.4305
-      form.setValue('booksy_fee', calculatedFee)
+      form.setValue('booksy_fee', calculateMarketplaceFee(booksyFeeBase, feeRule))
     } else if (!booksyFeeEnabled) {
       form.setValue('booksy_fee', null)
     }
-  }, [booksyFeeEnabled, booksyFeeBase, form])
+  }, [booksyFeeEnabled, booksyFeeBase, feeRule, form])
 
   // Calculate profit (revenue - costs)
   // Revenue includes: Service Revenue + Product Revenue
@@ -560,8 +779,8 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
   const bFee = booksyFeeEnabled ? (Number(booksyFee) || 0) : 0
   const bLoss = brokenProductEnabled ? (Number(brokenProductLoss) || 0) : 0
   // Calculate revenue on-the-fly for display (don't rely on calculatedTotal which might be null)
-  // Revenue = Service Revenue + Product Revenue
-  const revenue = (Number(totalServicePrice) || 0) + (Number(productRevenue) || 0)
+  // Revenue = Service Revenue + Product Revenue - Discount
+  const revenue = Math.max((Number(totalServicePrice) || 0) + (Number(productRevenue) || 0) - customDiscount, 0)
   const totalPaidAmount = Number(totalPaid) || 0
   const totalCosts = productCost + bFee + bLoss + taxAmount
   const projectedProfit = revenue - totalCosts
@@ -625,7 +844,7 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
     // Reload products to get the new one
     const { data } = await supabase
       .from('products')
-      .select('*')
+      .select('*, product_images(*)')
       .eq('active', true)
       .order('sold_qty', { ascending: false })
     if (data) {
@@ -634,7 +853,7 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
     // Reload starred products
     const { data: starredData } = await supabase
       .from('products')
-      .select('*')
+      .select('*, product_images(*)')
       .eq('active', true)
       .eq('starred', true)
       .order('sold_qty', { ascending: false })
@@ -720,6 +939,10 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
 
   const onSubmit = async (values: BookingFormValues) => {
     console.log('onSubmit called with values:', values)
+    if (ageBlocked) {
+      alert(ageCheck.blocked.join('\n'))
+      return
+    }
     setLoading(true)
     try {
       console.log('Step 1: Getting current user...')
@@ -734,6 +957,43 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
       }
       console.log('Step 2: User authenticated:', user.id)
 
+      // Totals are derived from the payment ledger; re-read it so the difference is exact
+      const currentPayments = booking ? await fetchBookingPayments(supabase, booking.id) : []
+      // Deposits stay on appointments; a completed sale settles to the entered total
+      const targetTotalPaid = values.status === 'completed' && values.total_paid !== null && values.total_paid !== undefined
+        ? Number(values.total_paid)
+        : getNetPaid(currentPayments)
+
+      if (values.promotion_id && values.promotion_id !== booking?.promotion_id) {
+        const promotion = promotions.find((p) => p.id === values.promotion_id)
+        const reason = promotion
+          ? getPromotionUnavailableReason(
+              promotion,
+              extractCalendarDateInTimezone(values.start_time, timezone),
+              promotionUsage[promotion.id] || 0
+            )
+          : 'Not found'
+        if (reason) {
+          throw new Error(`Promotion cannot be applied: ${reason}`)
+        }
+      }
+
+      // Refunds go back on the voucher that paid; check the balance before anything is saved
+      const voucherId = values.voucher_id || currentPayments.filter((p) => p.voucher_id).at(-1)?.voucher_id || null
+      const amountDue = targetTotalPaid - getNetPaid(currentPayments)
+      if (values.payment_method === 'voucher' && Math.abs(amountDue) >= 0.005) {
+        const voucher = vouchers.find((v) => v.id === voucherId)
+        if (!voucherId || (amountDue > 0 && !voucher)) {
+          throw new Error('Choose the gift voucher being redeemed')
+        }
+        if (voucher && amountDue > voucher.balance + 0.005) {
+          throw new Error(
+            `Voucher ${voucher.code} has only $${voucher.balance.toFixed(2)} left. ` +
+            'Record the rest as a separate payment in the booking details.'
+          )
+        }
+      }
+
       // Calculate aggregated totals
       console.log('Step 3: Calculating totals...')
       const totalServicePrice = values.service_items.reduce((sum, item) => sum + (Number(item.price) || 0), 0)
@@ -753,6 +1013,9 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
               phone: values.client_phone || null,
               source: values.client_source,
               notes: values.client_notes || null,
+              date_of_birth: values.client_date_of_birth || null,
+              guardian_name: values.client_guardian_name?.trim() || null,
+              guardian_phone: values.client_guardian_phone?.trim() || null,
               user_id: user.id,
             }])
             .select()
@@ -786,19 +1049,23 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
         travel_fee: 0,
         location: values.location || null,
         booksy_fee: values.booksy_fee_enabled ? (values.booksy_fee ?? 0) : 0,
+        fee_platform: values.booksy_fee_enabled ? (values.fee_platform ?? null) : null,
         broken_earring_loss: values.broken_product_enabled ? (values.broken_product_loss ?? 0) : 0,
-        total_paid: values.total_paid !== null && values.total_paid !== undefined ? Number(values.total_paid) : 0,
+        total_paid: targetTotalPaid,
+        custom_discount: customDiscount,
+        promotion_id: values.promotion_id || null,
         payment_method: values.payment_method,
         tax_enabled: values.tax_enabled,
-        tax_rate: 8.5, // Always 8.5%
-        tax_amount: values.tax_amount ?? 0,
+        tax_rate: taxRule?.rate ?? 0,
+        tax_amount: values.status === 'completed' ? (values.tax_amount ?? 0) : 0,
         notes: values.notes,
         start_time: values.start_time.toISOString(),
         end_time: values.end_time?.toISOString() || null,
+        status: values.status,
         // Calculate real profit: Total Paid - Costs
         // Real Profit = what was actually paid - costs
         // Costs = Product Cost + Booksy Fee + Broken Product Loss + Tax
-        profit: (values.total_paid ?? 0) - ((values.earring_cost ?? 0) + (values.booksy_fee_enabled ? (values.booksy_fee ?? 0) : 0) + (values.broken_product_enabled ? (values.broken_product_loss ?? 0) : 0) + (values.tax_amount ?? 0)),
+        profit: values.status !== 'completed' ? null : (values.total_paid ?? 0) - ((values.earring_cost ?? 0) + (values.booksy_fee_enabled ? (values.booksy_fee ?? 0) : 0) + (values.broken_product_enabled ? (values.broken_product_loss ?? 0) : 0) + (values.tax_amount ?? 0)),
       }
       console.log('Booking data prepared:', bookingData)
 
@@ -920,6 +1187,24 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
           }
         }
       }
+      await settleBookingPayments(supabase, {
+        userId: user.id,
+        bookingId,
+        targetTotal: targetTotalPaid,
+        method: values.payment_method,
+        voucherId,
+        // A top-up or refund on an existing booking happens now; dating it to the
+        // appointment would change the cash total of a day that may be closed
+        paidAt: booking ? new Date() : getDefaultPaidAt(values.start_time),
+        existingPayments: currentPayments,
+      })
+
+      try {
+        await syncBookingFollowUps(supabase, bookingId)
+      } catch (followUpError) {
+        // The booking itself is saved; reminders can be regenerated by saving again
+        console.error('Error generating follow-up reminders:', followUpError)
+      }
       console.log('Step 10: Booking saved successfully!')
       setOpen(false)
       form.reset(getDefaultValues())
@@ -982,7 +1267,7 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
         )}
         <DialogHeader className="px-4 sm:px-6 pt-4 pb-3 border-b pr-12 sm:pr-14">
           <div className="flex items-center justify-between mb-3">
-            <DialogTitle className="text-xl sm:text-2xl">{booking ? 'Edit Booking' : 'New Booking'}</DialogTitle>
+            <DialogTitle className="text-xl sm:text-2xl">{convertToSale ? 'Convert to Sale' : booking ? 'Edit Booking' : 'New Booking'}</DialogTitle>
             {revenue > 0 && (
               <div className="text-right">
                 <p className="text-xs text-muted-foreground">Total</p>
@@ -1215,6 +1500,7 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
                                     onClick={() => addProductByChip(product.id)}
                                   >
                                     <div className="flex items-center gap-2 w-full min-w-0">
+                                      <ProductThumbnail product={product} className="h-7 w-7 -ml-1" />
                                       <span className="truncate flex-1 min-w-0">{product.name}</span>
                                       {product.sku && (
                                         <span className="text-xs opacity-60">({product.sku})</span>
@@ -1247,12 +1533,13 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
                                   {filteredProducts.map((product) => (
                                     <div
                                       key={product.id}
-                                      className="p-2 hover:bg-accent cursor-pointer flex items-center justify-between"
+                                      className="p-2 hover:bg-accent cursor-pointer flex items-center justify-between gap-2"
                                       onClick={() => {
                                         addProductByChip(product.id)
                                         setProductSearchQuery('')
                                       }}
                                     >
+                                      <ProductThumbnail product={product} />
                                       <div className="flex-1 min-w-0">
                                         <p className="text-sm font-medium truncate">{product.name}</p>
                                         {product.sku && (
@@ -1284,18 +1571,21 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
                               return (
                                 <div key={item.id || index} className="p-2 border rounded-lg space-y-2">
                                   <div className="flex items-center justify-between">
-                                    <div>
-                                      <p className="font-medium text-sm">{selectedProduct?.name}</p>
-                                      {selectedProduct && (
-                                        <>
-                                          {selectedProduct.sku && (
-                                            <p className="text-xs text-muted-foreground">SKU: {selectedProduct.sku}</p>
-                                          )}
-                                          <p className="text-xs text-muted-foreground">
-                                            ${selectedProduct.sale_price.toFixed(2)} each
-                                          </p>
-                                        </>
-                                      )}
+                                    <div className="flex items-center gap-2">
+                                      {selectedProduct && <ProductThumbnail product={selectedProduct} />}
+                                      <div>
+                                        <p className="font-medium text-sm">{selectedProduct?.name}</p>
+                                        {selectedProduct && (
+                                          <>
+                                            {selectedProduct.sku && (
+                                              <p className="text-xs text-muted-foreground">SKU: {selectedProduct.sku}</p>
+                                            )}
+                                            <p className="text-xs text-muted-foreground">
+                                              ${selectedProduct.sale_price.toFixed(2)} each
+                                            </p>
+                                          </>
+                                        )}
+                                      </div>
                                     </div>
                                     <Button
                                       type="button"
@@ -1452,60 +1742,183 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
 
                   {/* Totals Section */}
                   <div className="pt-3 border-t space-y-3">
-                    {revenue > 0 && (
-                      <div className="flex justify-between items-center">
-                        <FormLabel className="text-sm font-semibold">To Pay</FormLabel>
-                        <p className="text-xl font-bold">${revenue.toFixed(2)}</p>
-                      </div>
-                    )}
                     <FormField
                       control={form.control}
-                      name="total_paid"
+                      name="status"
                       render={({ field }) => (
                         <FormItem>
                           <div className="flex justify-between items-center">
-                            <FormLabel className="text-sm font-semibold">Total Paid</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="number"
-                                step="0.01"
-                                value={field.value === null || field.value === undefined ? '' : field.value}
-                                onChange={(e) => {
-                                  setTotalPaidManuallyEdited(true)
-                                  const value = e.target.value
-                                  if (value === '') {
-                                    field.onChange(null)
-                                  } else {
-                                    const numValue = parseFloat(value)
-                                    field.onChange(isNaN(numValue) ? null : numValue)
-                                  }
-                                }}
-                                onBlur={(e) => {
-                                  const value = e.target.value
-                                  field.onBlur()
-                                  if (value === '') {
-                                    field.onChange(null)
-                                  } else {
-                                    const numValue = parseFloat(value)
-                                    field.onChange(isNaN(numValue) ? null : numValue)
-                                  }
-                                }}
-                                onFocus={(e) => {
-                                  setTotalPaidManuallyEdited(true)
-                                  e.target.select()
-                                }}
-                                placeholder="0.00"
-                                className="text-lg font-bold h-10 w-32 text-right"
-                                name={field.name}
-                                ref={field.ref}
-                              />
-                            </FormControl>
+                            <FormLabel className="text-sm font-semibold">Status</FormLabel>
+                            <Select
+                              value={field.value}
+                              onValueChange={(value) => {
+                                setStatusManuallyEdited(true)
+                                field.onChange(value)
+                              }}
+                            >
+                              <FormControl>
+                                <SelectTrigger className="h-10 w-40">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {BOOKING_STATUSES.map((value) => (
+                                  <SelectItem key={value} value={value}>
+                                    {BOOKING_STATUS_LABELS[value]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
                           </div>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                    {(totalPaidAmount > 0 || revenue > 0) && (
+                    {(availablePromotions.length > 0 || promotionId) && (
+                      <FormField
+                        control={form.control}
+                        name="promotion_id"
+                        render={({ field }) => (
+                          <FormItem>
+                            <div className="flex justify-between items-center gap-2">
+                              <FormLabel className="text-sm font-semibold">Promotion</FormLabel>
+                              <Select
+                                value={field.value ?? 'none'}
+                                onValueChange={(value) => {
+                                  field.onChange(value === 'none' ? null : value)
+                                  if (value === 'none') form.setValue('custom_discount', 0)
+                                }}
+                              >
+                                <FormControl>
+                                  <SelectTrigger className="h-10 w-56">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="none">No promotion</SelectItem>
+                                  {availablePromotions.map((promotion) => (
+                                    <SelectItem key={promotion.id} value={promotion.id}>
+                                      {promotion.name} ({formatPromotionDiscount(promotion)})
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            {customDiscount > 0 && (
+                              <p className="text-xs text-muted-foreground text-right">
+                                −${customDiscount.toFixed(2)} off the list prices
+                              </p>
+                            )}
+                            {selectedPromotion && customDiscount === 0 && (
+                              <p className="text-xs text-muted-foreground text-right">
+                                Nothing in this booking is eligible for this promotion
+                              </p>
+                            )}
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    {revenue > 0 && (
+                      <div className="flex justify-between items-center">
+                        <FormLabel className="text-sm font-semibold">To Pay</FormLabel>
+                        <p className="text-xl font-bold">${revenue.toFixed(2)}</p>
+                      </div>
+                    )}
+                    {blocksCalendar && (ageCheck.blocked.length > 0 || ageCheck.warnings.length > 0) && (
+                      <div className="flex gap-2 p-2 border border-destructive/40 rounded-lg bg-destructive/5 text-sm">
+                        <AlertTriangle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
+                        <div className="space-y-1">
+                          {ageCheck.blocked.map((message) => (
+                            <p key={message} className="font-medium text-destructive">{message}</p>
+                          ))}
+                          {ageCheck.warnings.map((message) => (
+                            <p key={message}>{message}</p>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    {(overlappingBookings.length > 0 || outsideWorkingHours) && (
+                      <div className="flex gap-2 p-2 border border-destructive/40 rounded-lg bg-destructive/5 text-sm">
+                        <AlertTriangle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
+                        <div className="space-y-1">
+                          {overlappingBookings.length > 0 && (
+                            <p>
+                              Overlaps with{' '}
+                              {overlappingBookings
+                                .map((b) => {
+                                  const interval = getBookingInterval(b)
+                                  return `${format(interval.start, 'HH:mm')}–${format(interval.end, 'HH:mm')}`
+                                })
+                                .join(', ')}
+                            </p>
+                          )}
+                          {outsideWorkingHours && <p>Outside working hours</p>}
+                        </div>
+                      </div>
+                    )}
+                    {!isSale && (
+                      <p className="text-xs text-muted-foreground">
+                        Payment and profit are recorded when the appointment is completed.
+                      </p>
+                    )}
+                    {isSale && (
+                      <FormField
+                        control={form.control}
+                        name="total_paid"
+                        render={({ field }) => (
+                          <FormItem>
+                            <div className="flex justify-between items-center">
+                              <FormLabel className="text-sm font-semibold">Total Paid</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  value={field.value === null || field.value === undefined ? '' : field.value}
+                                  onChange={(e) => {
+                                    setTotalPaidManuallyEdited(true)
+                                    const value = e.target.value
+                                    if (value === '') {
+                                      field.onChange(null)
+                                    } else {
+                                      const numValue = parseFloat(value)
+                                      field.onChange(isNaN(numValue) ? null : numValue)
+                                    }
+                                  }}
+                                  onBlur={(e) => {
+                                    const value = e.target.value
+                                    field.onBlur()
+                                    if (value === '') {
+                                      field.onChange(null)
+                                    } else {
+                                      const numValue = parseFloat(value)
+                                      field.onChange(isNaN(numValue) ? null : numValue)
+                                    }
+                                  }}
+                                  onFocus={(e) => {
+                                    setTotalPaidManuallyEdited(true)
+                                    e.target.select()
+                                  }}
+                                  placeholder="0.00"
+                                  className="text-lg font-bold h-10 w-32 text-right"
+                                  name={field.name}
+                                  ref={field.ref}
+                                />
+                              </FormControl>
+                            </div>
+                            {existingPayments.length > 0 && (
+                              <p className="text-xs text-muted-foreground text-right">
+                                ${getNetPaid(existingPayments).toFixed(2)} already recorded
+                                ({existingPayments.map((p) => BOOKING_PAYMENT_TYPE_LABELS[p.type].toLowerCase()).join(', ')}).
+                                The difference is saved as a payment or refund.
+                              </p>
+                            )}
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    {isSale && (totalPaidAmount > 0 || revenue > 0) && (
                       <>
                         {profitsAreEqual ? (
                           <div className="flex justify-between items-center">
@@ -1744,6 +2157,57 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
                                     </FormItem>
                                   )}
                                 />
+                                <FormField
+                                  control={form.control}
+                                  name="client_date_of_birth"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel className="text-sm">Date of Birth</FormLabel>
+                                      <FormControl>
+                                        <Input
+                                          {...field}
+                                          type="date"
+                                          className="h-10 text-sm"
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                                <FormField
+                                  control={form.control}
+                                  name="client_guardian_name"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel className="text-sm">Guardian Name</FormLabel>
+                                      <FormControl>
+                                        <Input
+                                          {...field}
+                                          placeholder="For clients under 18"
+                                          className="h-10 text-sm"
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                                <FormField
+                                  control={form.control}
+                                  name="client_guardian_phone"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel className="text-sm">Guardian Phone</FormLabel>
+                                      <FormControl>
+                                        <Input
+                                          {...field}
+                                          placeholder="For clients under 18"
+                                          className="h-10 text-sm"
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
                                 <FormField
                                   control={form.control}
                                   name="client_source"
@@ -1765,6 +2229,7 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
                                           <SelectItem value="instagram">Instagram</SelectItem>
                                           <SelectItem value="referral">Referral</SelectItem>
                                           <SelectItem value="walk-in">Walk-in</SelectItem>
+                                          <SelectItem value="online">Online booking</SelectItem>
                                         </SelectContent>
                                       </Select>
                                       <FormMessage />
@@ -1821,7 +2286,7 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
                             <FormItem>
                               <FormLabel className="text-sm mb-2 block">Payment Method</FormLabel>
                               <FormControl>
-                                <div className="grid grid-cols-3 gap-2">
+                                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
                                   <Button
                                     type="button"
                                     variant={field.value === 'cash' ? 'default' : 'outline'}
@@ -1846,6 +2311,14 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
                                   >
                                     Card
                                   </Button>
+                                  <Button
+                                    type="button"
+                                    variant={field.value === 'voucher' ? 'default' : 'outline'}
+                                    className="h-10 text-sm"
+                                    onClick={() => field.onChange('voucher')}
+                                  >
+                                    Gift Voucher
+                                  </Button>
                                 </div>
                               </FormControl>
                               <FormMessage />
@@ -1853,6 +2326,34 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
                           )}
                         />
 
+                        {paymentMethod === 'voucher' && (
+                          <FormField
+                            control={form.control}
+                            name="voucher_id"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel className="text-sm">Voucher</FormLabel>
+                                <Select onValueChange={field.onChange} value={field.value ?? ''}>
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue placeholder={redeemableVouchers.length > 0 ? 'Choose voucher' : 'No active vouchers'} />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {redeemableVouchers.map((voucher) => (
+                                      <SelectItem key={voucher.id} value={voucher.id}>
+                                        {voucher.code} — ${voucher.balance.toFixed(2)} left
+                                        {voucher.recipient_name ? ` (${voucher.recipient_name})` : ''}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
+
                         {/* Tax Settings */}
                         <FormField
                           control={form.control}
@@ -1860,20 +2361,23 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
                           render={({ field }) => (
                             <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
                               <div className="space-y-0.5">
-                                <FormLabel className="text-sm">Tax (8.5%)</FormLabel>
+                                <FormLabel className="text-sm">Tax ({taxRule?.rate ?? 0}%)</FormLabel>
                                 <p className="text-xs text-muted-foreground">Apply tax to payment</p>
                               </div>
                               <FormControl>
                                 <Switch
                                   checked={field.value}
-                                  onCheckedChange={field.onChange}
+                                  onCheckedChange={(checked) => {
+                                    setTaxManuallyEdited(true)
+                                    field.onChange(checked)
+                                  }}
                                 />
                               </FormControl>
                             </FormItem>
                           )}
                         />
 
-                        {/* Booksy Fee */}
+                        {/* Marketplace Fee */}
                         <FormField
                           control={form.control}
                           name="booksy_fee_enabled"
@@ -1881,8 +2385,14 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
                             <FormItem className="space-y-2">
                               <div className="flex flex-row items-center justify-between rounded-lg border p-3">
                                 <div className="space-y-0.5">
-                                  <FormLabel className="text-sm">Booksy Fee</FormLabel>
-                                  <p className="text-xs text-muted-foreground">43.05% of base amount</p>
+                                  <FormLabel className="text-sm">
+                                    {feePlatform ? `${formatPlatformName(feePlatform)} Fee` : 'Marketplace Fee'}
+                                  </FormLabel>
+                                  <p className="text-xs text-muted-foreground">
+                                    {feeRule
+                                      ? `${feeRule.rate}% of ${MARKETPLACE_FEE_BASE_LABELS[feeRule.fee_base]}${feeRule.min_fee > 0 ? `, min $${feeRule.min_fee.toFixed(2)}` : ''}`
+                                      : 'No fee rule for this date'}
+                                  </p>
                                 </div>
                                 <FormControl>
                                   <Switch
@@ -1891,6 +2401,37 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
                                   />
                                 </FormControl>
                               </div>
+                              {field.value && feePlatforms.length > 1 && (
+                                <FormField
+                                  control={form.control}
+                                  name="fee_platform"
+                                  render={({ field: platformField }) => (
+                                    <FormItem>
+                                      <FormLabel className="text-xs">Platform</FormLabel>
+                                      <Select
+                                        onValueChange={(value) => {
+                                          setFeeBaseManuallyEdited(false)
+                                          platformField.onChange(value)
+                                        }}
+                                        value={platformField.value ?? undefined}
+                                      >
+                                        <FormControl>
+                                          <SelectTrigger className="h-9">
+                                            <SelectValue placeholder="Select platform" />
+                                          </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                          {feePlatforms.map((platform) => (
+                                            <SelectItem key={platform} value={platform}>
+                                              {formatPlatformName(platform)}
+                                            </SelectItem>
+                                          ))}
+                                        </SelectContent>
+                                      </Select>
+                                    </FormItem>
+                                  )}
+                                />
+                              )}
                               {field.value && (
                                 <FormField
                                   control={form.control}
@@ -1905,6 +2446,7 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
                                           value={baseField.value === null || baseField.value === undefined ? '' : baseField.value}
                                           onChange={(e) => {
                                             const value = e.target.value
+                                            setFeeBaseManuallyEdited(true)
                                             baseField.onChange(value === '' ? null : (value === '' ? '' : value))
                                           }}
                                           onBlur={(e) => {
@@ -2041,8 +2583,12 @@ export function BookingForm({ booking, defaultStartTime, children }: BookingForm
                     <Loader size="sm" className="mr-2" />
                     Saving...
                   </>
+                ) : convertToSale ? (
+                  'Complete Sale'
                 ) : booking ? (
                   'Update Booking'
+                ) : !isSale ? (
+                  'Schedule Appointment'
                 ) : (
                   'Create Booking'
                 )}
@@ -0,0 +1,260 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { format } from 'date-fns'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader } from '@/components/ui/loader'
+import { RefreshCw, Trash2, Wallet } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import {
+  BOOKING_PAYMENT_TYPE_LABELS,
+  addBookingPayment,
+  deleteBookingPayment,
+  fetchBookingPayments,
+  getNetPaid,
+} from '@/lib/bookings/payments'
+import { fetchVouchersWithBalance, isVoucherRedeemable } from '@/lib/vouchers/gift-vouchers'
+import { getTodayInTimezone } from '@/lib/date-utils'
+import type { Booking, BookingPayment, BookingPaymentType, BookingWithRelations, GiftVoucher, PaymentMethod } from '@/lib/types'
+
+type BookingPaymentTotals = Pick<Booking, 'total_paid' | 'tax_amount' | 'profit' | 'payment_method'>
+
+const TYPE_BADGE_VARIANTS: Record<BookingPaymentType, 'default' | 'secondary' | 'destructive'> = {
+  deposit: 'secondary',
+  payment: 'default',
+  refund: 'destructive',
+}
+
+interface BookingPaymentsCardProps {
+  booking: BookingWithRelations
+  onTotalsChange?: (totals: BookingPaymentTotals) => void
+}
+
+export function BookingPaymentsCard({ booking, onTotalsChange }: BookingPaymentsCardProps) {
+  const [payments, setPayments] = useState<BookingPayment[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [type, setType] = useState<BookingPaymentType>(booking.status === 'completed' ? 'payment' : 'deposit')
+  const [method, setMethod] = useState<PaymentMethod>('cash')
+  const [amount, setAmount] = useState('')
+  const [vouchers, setVouchers] = useState<GiftVoucher[] | null>(null)
+  const [voucherId, setVoucherId] = useState('')
+  const router = useRouter()
+  const supabase = createClient()
+
+  const loadPayments = useCallback(async () => {
+    setLoading(true)
+    try {
+      setPayments(await fetchBookingPayments(supabase, booking.id))
+    } catch (error) {
+      console.error('Error loading booking payments:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [booking.id, supabase])
+
+  useEffect(() => {
+    loadPayments()
+  }, [loadPayments])
+
+  // Vouchers are only needed once someone picks the voucher method
+  useEffect(() => {
+    if (method !== 'voucher' || vouchers !== null) return
+    const loadVouchers = async () => {
+      try {
+        const [withBalance, profileRes] = await Promise.all([
+          fetchVouchersWithBalance(supabase),
+          supabase.from('user_profiles').select('timezone').maybeSingle(),
+        ])
+        const timezone = (profileRes.data as { timezone?: string } | null)?.timezone ?? 'Europe/Warsaw'
+        setVouchers(withBalance.filter((voucher) => isVoucherRedeemable(voucher, getTodayInTimezone(timezone))))
+      } catch (error) {
+        console.error('Error loading gift vouchers:', error)
+        setVouchers([])
+      }
+    }
+    loadVouchers()
+  }, [method, vouchers, supabase])
+
+  // The ledger trigger recalculates these on the booking
+  const refreshTotals = async () => {
+    await loadPayments()
+    const { data, error } = await supabase
+      .from('bookings')
+      .select('total_paid, tax_amount, profit, payment_method')
+      .eq('id', booking.id)
+      .single()
+    if (error) {
+      console.error('Error reloading booking totals:', error)
+      return
+    }
+    onTotalsChange?.(data as BookingPaymentTotals)
+    router.refresh()
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const value = Number(amount.replace(',', '.'))
+    if (!value || Number.isNaN(value) || value <= 0) {
+      alert('Enter an amount greater than zero')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        throw new Error('You must be logged in to record a payment')
+      }
+      await addBookingPayment(supabase, {
+        userId: user.id,
+        bookingId: booking.id,
+        type,
+        amount: value,
+        method,
+        voucherId,
+      })
+      setAmount('')
+      if (method === 'voucher') setVouchers(null)
+      await refreshTotals()
+    } catch (error) {
+      console.error('Error recording payment:', error)
+      alert(error instanceof Error ? error.message : 'Failed to record payment')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (payment: BookingPayment) => {
+    if (!confirm(`Delete this ${BOOKING_PAYMENT_TYPE_LABELS[payment.type].toLowerCase()}?`)) return
+
+    setSaving(true)
+    try {
+      await deleteBookingPayment(supabase, payment.id)
+      await refreshTotals()
+    } catch (error) {
+      console.error('Error deleting payment:', error)
+      alert('Failed to delete payment')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Wallet className="h-4 w-4" />
+          Payments
+        </CardTitle>
+        <Button variant="ghost" size="icon" onClick={loadPayments} disabled={loading}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <div className="flex justify-center py-2">
+            <Loader size="sm" />
+          </div>
+        ) : (
+          <>
+            {payments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No payments recorded</p>
+            ) : (
+              <div className="space-y-2">
+                {payments.map((payment) => (
+                  <div key={payment.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge variant={TYPE_BADGE_VARIANTS[payment.type]}>
+                        {BOOKING_PAYMENT_TYPE_LABELS[payment.type]}
+                      </Badge>
+                      <span className="text-sm capitalize">{payment.method}</span>
+                      <span className="text-sm text-muted-foreground truncate">
+                        {format(new Date(payment.paid_at), 'PP HH:mm')}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <span className={`font-medium ${payment.type === 'refund' ? 'text-red-600' : ''}`}>
+                        {payment.type === 'refund' ? '−' : ''}${payment.amount.toFixed(2)}
+                      </span>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(payment)} disabled={saving}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <div className="flex justify-between border-t pt-2">
+                  <p className="text-sm font-semibold">Net Paid</p>
+                  <p className="font-bold">${getNetPaid(payments).toFixed(2)}</p>
+                </div>
+              </div>
+            )}
+
+            <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2">
+              <Select value={type} onValueChange={(value) => setType(value as BookingPaymentType)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BOOKING_PAYMENT_TYPE_LABELS) as BookingPaymentType[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {BOOKING_PAYMENT_TYPE_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                <SelectTrigger className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cash">Cash</SelectItem>
+                  <SelectItem value="blik">BLIK</SelectItem>
+                  <SelectItem value="card">Card</SelectItem>
+                  <SelectItem value="voucher">Voucher</SelectItem>
+                </SelectContent>
+              </Select>
+              {method === 'voucher' && (
+                <Select value={voucherId} onValueChange={setVoucherId}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder={vouchers && vouchers.length === 0 ? 'No active vouchers' : 'Choose voucher'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(vouchers ?? []).map((voucher) => (
+                      <SelectItem key={voucher.id} value={voucher.id}>
+                        {voucher.code} — ${voucher.balance.toFixed(2)} left
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+                className="flex-1 min-w-24"
+              />
+              <Button type="submit" size="sm" disabled={saving}>
+                {saving ? <Loader size="sm" /> : 'Add'}
+              </Button>
+            </form>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { BookingForm } from './booking-form'
+import { Check, CalendarClock, Receipt, UserX, X } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import { BOOKING_STATUS_LABELS, isUpcomingStatus } from '@/lib/bookings/booking-status'
+import { syncBookingFollowUps } from '@/lib/follow-ups/reminders'
+import type { BookingStatus, BookingWithRelations } from '@/lib/types'
+
+const STATUS_BADGE_VARIANTS: Record<BookingStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  scheduled: 'outline',
+  confirmed: 'secondary',
+  completed: 'default',
+  cancelled: 'outline',
+  no_show: 'destructive',
+}
+
+export function BookingStatusBadge({ status }: { status: BookingStatus }) {
+  return (
+    <Badge variant={STATUS_BADGE_VARIANTS[status]}>
+      {BOOKING_STATUS_LABELS[status]}
+    </Badge>
+  )
+}
+
+interface BookingStatusActionsProps {
+  booking: BookingWithRelations
+  onStatusChange?: (status: BookingStatus) => void
+}
+
+export function BookingStatusActions({ booking, onStatusChange }: BookingStatusActionsProps) {
+  const [loading, setLoading] = useState(false)
+  const router = useRouter()
+  const supabase = createClient()
+
+  const updateStatus = async (status: BookingStatus) => {
+    setLoading(true)
+    try {
+      const { error } = await supabase
+        .from('bookings')
+        // @ts-expect-error - Supabase types issue
+        .update({ status })
+        .eq('id', booking.id)
+
+      if (error) throw error
+
+      try {
+        await syncBookingFollowUps(supabase, booking.id)
+      } catch (followUpError) {
+        console.error('Error updating follow-up reminders:', followUpError)
+      }
+
+      onStatusChange?.(status)
+      router.refresh()
+    } catch (error) {
+      console.error('Error updating booking status:', error)
+      alert('Failed to update booking status')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (booking.status === 'completed') {
+    return null
+  }
+
+  if (!isUpcomingStatus(booking.status)) {
+    return (
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" disabled={loading} onClick={() => updateStatus('scheduled')}>
+          <CalendarClock className="h-4 w-4 mr-2" />
+          Restore Appointment
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <BookingForm booking={booking} convertToSale>
+        <Button size="sm" disabled={loading}>
+          <Receipt className="h-4 w-4 mr-2" />
+          Convert to Sale
+        </Button>
+      </BookingForm>
+      {booking.status === 'scheduled' && (
+        <Button variant="outline" size="sm" disabled={loading} onClick={() => updateStatus('confirmed')}>
+          <Check className="h-4 w-4 mr-2" />
+          Confirm
+        </Button>
+      )}
+      <Button variant="outline" size="sm" disabled={loading} onClick={() => updateStatus('no_show')}>
+        <UserX className="h-4 w-4 mr-2" />
+        No-show
+      </Button>
+      <Button variant="outline" size="sm" disabled={loading} onClick={() => updateStatus('cancelled')}>
+        <X className="h-4 w-4 mr-2" />
+        Cancel
+      </Button>
+    </div>
+  )
+}
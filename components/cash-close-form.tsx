@@ -0,0 +1,104 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader } from '@/components/ui/loader'
+import { createClient } from '@/lib/supabase/client'
+import { formatPln } from '@/lib/currency/format-currency'
+import { getCashDaySummary, saveCashClose } from '@/lib/cash/cash-close'
+import type { CashClose } from '@/lib/types'
+
+interface CashCloseFormProps {
+  date: string
+  timezone: string
+  expectedCash: number
+  existingClose: CashClose | null
+}
+
+export function CashCloseForm({ date, timezone, expectedCash, existingClose }: CashCloseFormProps) {
+  const [counted, setCounted] = useState(existingClose ? String(existingClose.counted_cash) : '')
+  const [notes, setNotes] = useState(existingClose?.notes ?? '')
+  const [saving, setSaving] = useState(false)
+  const router = useRouter()
+  const supabase = createClient()
+
+  const countedAmount = counted === '' ? null : Number(counted.replace(',', '.'))
+  const difference = countedAmount !== null && !Number.isNaN(countedAmount) ? countedAmount - expectedCash : null
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (countedAmount === null || Number.isNaN(countedAmount) || countedAmount < 0) {
+      alert('Enter the counted cash amount')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        throw new Error('You must be logged in to close the cash drawer')
+      }
+      // Recalculate so bookings saved since the page loaded are included
+      const summary = await getCashDaySummary(supabase, date, timezone)
+      await saveCashClose(supabase, { userId: user.id, summary, countedCash: countedAmount, notes })
+      router.refresh()
+    } catch (error) {
+      console.error('Error saving cash close:', error)
+      alert('Failed to save cash close')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="cash-counted">Counted cash</Label>
+        <Input
+          id="cash-counted"
+          type="number"
+          step="0.01"
+          min="0"
+          value={counted}
+          onChange={(e) => setCounted(e.target.value)}
+          placeholder="0.00"
+          required
+        />
+        {difference !== null && (
+          <p className={Math.abs(difference) < 0.005 ? 'text-sm text-muted-foreground' : 'text-sm text-destructive font-medium'}>
+            {Math.abs(difference) < 0.005
+              ? 'Matches the expected amount'
+              : difference < 0
+                ? `${formatPln(-difference)} short`
+                : `${formatPln(difference)} over`}
+          </p>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="cash-notes">Notes</Label>
+        <Textarea
+          id="cash-notes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="e.g., change given from personal wallet"
+        />
+      </div>
+      <Button type="submit" disabled={saving}>
+        {saving ? (
+          <>
+            <Loader size="sm" className="mr-2" />
+            Saving...
+          </>
+        ) : existingClose ? (
+          'Update Close'
+        ) : (
+          'Close Day'
+        )}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,152 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { createClient } from '@/lib/supabase/client'
+import { mergeClients } from '@/lib/clients/merge-clients'
+import type { DuplicateGroup, DuplicateReason } from '@/lib/clients/duplicates'
+import type { Client } from '@/lib/types'
+import { Merge } from 'lucide-react'
+import { format } from 'date-fns'
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  phone: 'Same phone',
+  name: 'Similar name',
+}
+
+interface ClientDuplicatesProps {
+  groups: DuplicateGroup[]
+  bookingCounts: Record<string, number>
+}
+
+export function ClientDuplicates({ groups, bookingCounts }: ClientDuplicatesProps) {
+  return (
+    <div className="space-y-4">
+      {groups.map((group) => (
+        <DuplicateGroupCard
+          key={group.clients.map((client) => client.id).join('-')}
+          group={group}
+          bookingCounts={bookingCounts}
+        />
+      ))}
+    </div>
+  )
+}
+
+interface DuplicateGroupCardProps {
+  group: DuplicateGroup
+  bookingCounts: Record<string, number>
+}
+
+function DuplicateGroupCard({ group, bookingCounts }: DuplicateGroupCardProps) {
+  // Default to the client with the most bookings; ties go to the oldest record
+  const [keepId, setKeepId] = useState(() =>
+    group.clients.reduce((best, client) =>
+      (bookingCounts[client.id] ?? 0) > (bookingCounts[best.id] ?? 0) ? client : best
+    ).id
+  )
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const router = useRouter()
+  const supabase = createClient()
+
+  const keep = group.clients.find((client) => client.id === keepId) as Client
+  const duplicates = group.clients.filter((client) => client.id !== keepId)
+  const movedBookings = duplicates.reduce((sum, client) => sum + (bookingCounts[client.id] ?? 0), 0)
+
+  const handleMerge = async () => {
+    setLoading(true)
+    try {
+      await mergeClients(supabase, keep, duplicates)
+      setOpen(false)
+      router.refresh()
+    } catch (error) {
+      console.error('Error merging clients:', error)
+      alert('Failed to merge clients')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card className="hover:shadow-md transition-shadow">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <div className="flex flex-wrap items-center gap-2">
+          <CardTitle className="text-lg">{keep.name}</CardTitle>
+          {group.reasons.map((reason) => (
+            <Badge key={reason} variant="secondary">
+              {REASON_LABELS[reason]}
+            </Badge>
+          ))}
+        </div>
+        <AlertDialog open={open} onOpenChange={setOpen}>
+          <AlertDialogTrigger asChild>
+            <Button size="sm">
+              <Merge className="h-4 w-4 mr-2" />
+              Merge
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Merge Clients</AlertDialogTitle>
+              <AlertDialogDescription>
+                {movedBookings} booking{movedBookings === 1 ? '' : 's'} will be moved to &quot;{keep.name}&quot; and{' '}
+                {duplicates.map((client) => `"${client.name}"`).join(', ')} will be deleted. Notes are combined.
+                This action cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={loading}>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleMerge} disabled={loading}>
+                {loading ? 'Merging...' : 'Merge'}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardHeader>
+      <CardContent>
+        <RadioGroup value={keepId} onValueChange={setKeepId} className="gap-2">
+          {group.clients.map((client) => (
+            <label
+              key={client.id}
+              className="flex items-start gap-3 p-3 border rounded-lg cursor-pointer hover:bg-muted/50"
+            >
+              <RadioGroupItem value={client.id} className="mt-1" />
+              <div className="flex-1 min-w-0 space-y-1 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Link href={`/clients/${client.id}`} className="font-medium hover:underline">
+                    {client.name}
+                  </Link>
+                  {client.id === keepId && <Badge variant="outline">Keep</Badge>}
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground">
+                  <span>{client.phone || 'No phone'}</span>
+                  <span>{client.source || '-'}</span>
+                  <span>{bookingCounts[client.id] ?? 0} bookings</span>
+                  <span>Added {format(new Date(client.created_at), 'MMM d, yyyy')}</span>
+                </div>
+                {client.notes && <p className="text-muted-foreground whitespace-pre-wrap">{client.notes}</p>}
+              </div>
+            </label>
+          ))}
+        </RadioGroup>
+      </CardContent>
+    </Card>
+  )
+}
@@ -34,13 +34,21 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { createClient } from '@/lib/supabase/client'
+import { normalizeInstagramHandle } from '@/lib/clients/instagram'
 import type { Client } from '@/lib/types'
 
 const clientSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   phone: z.string().optional(),
-  source: z.enum(['booksy', 'instagram', 'referral', 'walk-in']).optional().nullable(),
+  instagram: z
+    .string()
+    .optional()
+    .refine((value) => !value?.trim() || normalizeInstagramHandle(value) !== null, 'Enter a valid Instagram handle'),
+  source: z.enum(['booksy', 'instagram', 'referral', 'walk-in', 'online']).optional().nullable(),
   notes: z.string().optional(),
+  date_of_birth: z.string().optional(),
+  guardian_name: z.string().optional(),
+  guardian_phone: z.string().optional(),
 })
 
 type ClientFormValues = z.infer<typeof clientSchema>
@@ -65,8 +73,12 @@ export function ClientForm({ client, children, onSuccess }: ClientFormProps) {
     defaultValues: {
       name: client?.name || '',
       phone: client?.phone || '',
+      instagram: client?.instagram ? `@${client.instagram}` : '',
       source: client?.source || null,
       notes: client?.notes || '',
+      date_of_birth: client?.date_of_birth || '',
+      guardian_name: client?.guardian_name || '',
+      guardian_phone: client?.guardian_phone || '',
     },
   })
 
@@ -82,11 +94,19 @@ export function ClientForm({ client, children, onSuccess }: ClientFormProps) {
         throw new Error('You must be logged in to create a client')
       }
 
+      const clientValues = {
+        ...values,
+        instagram: normalizeInstagramHandle(values.instagram),
+        date_of_birth: values.date_of_birth || null,
+        guardian_name: values.guardian_name?.trim() || null,
+        guardian_phone: values.guardian_phone?.trim() || null,
+      }
+
       if (client) {
         const { error } = await supabase
           .from('clients')
           // @ts-expect-error - Supabase types issue
-          .update(values)
+          .update(clientValues)
           .eq('id', client.id)
         if (error) throw error
         setOpen(false)
@@ -97,7 +117,7 @@ export function ClientForm({ client, children, onSuccess }: ClientFormProps) {
         const { data, error } = await supabase
           .from('clients')
           // @ts-expect-error - Supabase types issue
-          .insert([{ ...values, user_id: user.id }])
+          .insert([{ ...clientValues, user_id: user.id }])
           .select()
           .single()
         if (error) throw error
@@ -158,6 +178,19 @@ export function ClientForm({ client, children, onSuccess }: ClientFormProps) {
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="instagram"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Instagram</FormLabel>
+                  <FormControl>
+                    <Input placeholder="@handle" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             <FormField
               control={form.control}
               name="source"
@@ -179,12 +212,54 @@ export function ClientForm({ client, children, onSuccess }: ClientFormProps) {
                       <SelectItem value="instagram">Instagram</SelectItem>
                       <SelectItem value="referral">Referral</SelectItem>
                       <SelectItem value="walk-in">Walk-in</SelectItem>
+                      <SelectItem value="online">Online booking</SelectItem>
                     </SelectContent>
                   </Select>
                   <FormMessage />
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="date_of_birth"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date of Birth</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="guardian_name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Guardian Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="For clients under 18" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="guardian_phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Guardian Phone</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
             <FormField
               control={form.control}
               name="notes"
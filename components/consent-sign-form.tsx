@@ -0,0 +1,196 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Loader } from '@/components/ui/loader'
+import { SignaturePad } from '@/components/signature-pad'
+import { CheckCircle2 } from 'lucide-react'
+import type { ConsentQuestion } from '@/lib/types'
+
+interface AnswerState {
+  answer: boolean | null
+  details: string
+}
+
+interface ConsentSignFormProps {
+  token: string
+  body: string
+  questions: ConsentQuestion[]
+}
+
+export function ConsentSignForm({ token, body, questions }: ConsentSignFormProps) {
+  const [answers, setAnswers] = useState<Record<string, AnswerState>>(() =>
+    Object.fromEntries(questions.map((question) => [question.id, { answer: null, details: '' }]))
+  )
+  const [signerName, setSignerName] = useState('')
+  const [signedByGuardian, setSignedByGuardian] = useState(false)
+  const [guardianName, setGuardianName] = useState('')
+  const [agreed, setAgreed] = useState(false)
+  const [signature, setSignature] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [signed, setSigned] = useState(false)
+
+  const allAnswered = questions.every((question) => answers[question.id]?.answer !== null)
+  const canSubmit =
+    allAnswered &&
+    agreed &&
+    signature !== null &&
+    signerName.trim().length >= 2 &&
+    (!signedByGuardian || guardianName.trim().length >= 2)
+
+  const updateAnswer = (questionId: string, patch: Partial<AnswerState>) => {
+    setAnswers((prev) => ({ ...prev, [questionId]: { ...prev[questionId], ...patch } }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canSubmit || !signature) return
+
+    setSubmitting(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/consent/${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          signer_name: signerName,
+          signed_by_guardian: signedByGuardian,
+          guardian_name: signedByGuardian ? guardianName : null,
+          answers: questions.map((question) => ({
+            question_id: question.id,
+            answer: answers[question.id].answer === true,
+            details: answers[question.id].details || null,
+          })),
+          signature,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save consent form')
+      }
+      setSigned(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save consent form')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (signed) {
+    return (
+      <div className="text-center space-y-3 py-6">
+        <CheckCircle2 className="h-10 w-10 mx-auto text-primary" />
+        <p className="text-lg font-semibold">Thank you, the form is signed.</p>
+        <p className="text-sm text-muted-foreground">You can hand the device back to the piercer.</p>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="text-sm whitespace-pre-wrap border rounded-lg p-4 bg-muted/30 max-h-72 overflow-y-auto">
+        {body}
+      </div>
+
+      {questions.length > 0 && (
+        <div className="space-y-4">
+          <Label className="text-base">Health questionnaire</Label>
+          {questions.map((question) => {
+            const state = answers[question.id]
+            return (
+              <div key={question.id} className="space-y-2 border-b pb-3">
+                <p className="text-sm font-medium">{question.label}</p>
+                <RadioGroup
+                  className="flex gap-6"
+                  value={state.answer === null ? '' : state.answer ? 'yes' : 'no'}
+                  onValueChange={(value) => updateAnswer(question.id, { answer: value === 'yes' })}
+                >
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <RadioGroupItem value="yes" />
+                    Yes
+                  </label>
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <RadioGroupItem value="no" />
+                    No
+                  </label>
+                </RadioGroup>
+                {state.answer === true && (
+                  <Input
+                    placeholder="Please give details"
+                    value={state.details}
+                    maxLength={500}
+                    onChange={(e) => updateAnswer(question.id, { details: e.target.value })}
+                  />
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="consent-signer">Client full name</Label>
+        <Input
+          id="consent-signer"
+          value={signerName}
+          onChange={(e) => setSignerName(e.target.value)}
+          required
+          minLength={2}
+        />
+      </div>
+
+      <label className="flex items-start gap-3 cursor-pointer">
+        <Checkbox
+          checked={signedByGuardian}
+          onCheckedChange={(checked) => setSignedByGuardian(checked === true)}
+        />
+        <span className="text-sm">
+          The client is under 18 and I sign as their parent or legal guardian
+        </span>
+      </label>
+
+      {signedByGuardian && (
+        <div className="space-y-2">
+          <Label htmlFor="consent-guardian">Parent / guardian full name</Label>
+          <Input
+            id="consent-guardian"
+            value={guardianName}
+            onChange={(e) => setGuardianName(e.target.value)}
+            required
+            minLength={2}
+          />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>Signature{signedByGuardian ? ' of parent / guardian' : ''}</Label>
+        <SignaturePad onChange={setSignature} disabled={submitting} />
+      </div>
+
+      <label className="flex items-start gap-3 cursor-pointer">
+        <Checkbox checked={agreed} onCheckedChange={(checked) => setAgreed(checked === true)} />
+        <span className="text-sm">
+          I have read the information above, my answers are true and I consent to the procedure
+        </span>
+      </label>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Button type="submit" className="w-full" disabled={submitting || !canSubmit}>
+        {submitting ? (
+          <>
+            <Loader size="sm" className="mr-2" />
+            Signing...
+          </>
+        ) : (
+          'Sign'
+        )}
+      </Button>
+    </form>
+  )
+}
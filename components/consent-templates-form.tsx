@@ -0,0 +1,221 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader } from '@/components/ui/loader'
+import { Edit, Plus, Trash2 } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import { consentQuestionsToText, parseConsentQuestions } from '@/lib/consent/consent-forms'
+import type { ConsentTemplate } from '@/lib/types'
+
+interface ConsentTemplatesFormProps {
+  templates: ConsentTemplate[]
+}
+
+export function ConsentTemplatesForm({ templates }: ConsentTemplatesFormProps) {
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const router = useRouter()
+  const supabase = createClient()
+
+  const handleDelete = async (template: ConsentTemplate) => {
+    if (!confirm(`Delete template "${template.name}"? Signed forms are kept.`)) return
+    setDeletingId(template.id)
+    try {
+      const { error } = await supabase.from('consent_templates').delete().eq('id', template.id)
+      if (error) throw error
+      router.refresh()
+    } catch (error) {
+      console.error('Error deleting consent template:', error)
+      alert('Failed to delete consent template')
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {templates.length === 0 && (
+        <p className="text-sm text-muted-foreground">No consent templates yet.</p>
+      )}
+      {templates.map((template) => (
+        <div key={template.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="font-medium truncate">{template.name}</span>
+            <span className="text-sm text-muted-foreground">
+              {template.questions.length} question{template.questions.length === 1 ? '' : 's'}
+            </span>
+            {!template.active && <Badge variant="outline">Inactive</Badge>}
+          </div>
+          <div className="flex items-center gap-1">
+            <ConsentTemplateDialog template={template}>
+              <Button variant="ghost" size="sm">
+                <Edit className="h-4 w-4" />
+              </Button>
+            </ConsentTemplateDialog>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={deletingId === template.id}
+              onClick={() => handleDelete(template)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      <ConsentTemplateDialog>
+        <Button variant="outline" size="sm">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Template
+        </Button>
+      </ConsentTemplateDialog>
+    </div>
+  )
+}
+
+interface ConsentTemplateDialogProps {
+  template?: ConsentTemplate
+  children: React.ReactNode
+}
+
+function ConsentTemplateDialog({ template, children }: ConsentTemplateDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [name, setName] = useState(template?.name ?? '')
+  const [body, setBody] = useState(template?.body ?? '')
+  const [questionsText, setQuestionsText] = useState(
+    template ? consentQuestionsToText(template.questions) : ''
+  )
+  const [active, setActive] = useState(template?.active ?? true)
+  const router = useRouter()
+  const supabase = createClient()
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        throw new Error('You must be logged in to save a consent template')
+      }
+
+      const values = {
+        name: name.trim(),
+        body: body.trim(),
+        questions: parseConsentQuestions(questionsText),
+        active,
+      }
+
+      if (template) {
+        const { error } = await supabase
+          .from('consent_templates')
+          // @ts-expect-error - Supabase types issue
+          .update(values)
+          .eq('id', template.id)
+        if (error) throw error
+      } else {
+        const { error } = await supabase
+          .from('consent_templates')
+          // @ts-expect-error - Supabase types issue
+          .insert([{ ...values, user_id: user.id }])
+        if (error) throw error
+      }
+
+      setOpen(false)
+      if (!template) {
+        setName('')
+        setBody('')
+        setQuestionsText('')
+        setActive(true)
+      }
+      router.refresh()
+    } catch (error) {
+      console.error('Error saving consent template:', error)
+      alert('Failed to save consent template')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? 'Edit Consent Template' : 'Add Consent Template'}</DialogTitle>
+          <DialogDescription>
+            Changes apply to new forms only; signed forms keep the text they were signed with.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="consent-template-name">Name</Label>
+            <Input
+              id="consent-template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Piercing consent"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="consent-template-body">Consent text</Label>
+            <Textarea
+              id="consent-template-body"
+              rows={8}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="consent-template-questions">Health questions (one per line, answered yes/no)</Label>
+            <Textarea
+              id="consent-template-questions"
+              rows={6}
+              value={questionsText}
+              onChange={(e) => setQuestionsText(e.target.value)}
+              placeholder={'Do you have diabetes?\nAre you pregnant or breastfeeding?\nAre you allergic to any metals?'}
+            />
+          </div>
+          <div className="flex items-center gap-3">
+            <Switch id="consent-template-active" checked={active} onCheckedChange={setActive} />
+            <Label htmlFor="consent-template-active">Active</Label>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !name.trim() || !body.trim()}>
+              {loading ? (
+                <>
+                  <Loader size="sm" className="mr-2" />
+                  Saving...
+                </>
+              ) : template ? (
+                'Update'
+              ) : (
+                'Create'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,74 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Trash2 } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import { deleteGiftVoucher } from '@/lib/vouchers/gift-vouchers'
+import type { GiftVoucher } from '@/lib/types'
+
+interface DeleteGiftVoucherButtonProps {
+  voucher: Pick<GiftVoucher, 'id' | 'code'>
+}
+
+export function DeleteGiftVoucherButton({ voucher }: DeleteGiftVoucherButtonProps) {
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const router = useRouter()
+  const supabase = createClient()
+
+  const handleDelete = async () => {
+    setLoading(true)
+    try {
+      await deleteGiftVoucher(supabase, voucher.id)
+      setOpen(false)
+      router.refresh()
+    } catch (error) {
+      console.error('Error deleting gift voucher:', error)
+      alert(error instanceof Error ? error.message : 'Failed to delete gift voucher')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This will permanently delete gift voucher {voucher.code}. Only vouchers sold by mistake should be deleted.
+            This action cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={loading}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleDelete}
+            disabled={loading}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {loading ? 'Deleting...' : 'Delete'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
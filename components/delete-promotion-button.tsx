@@ -0,0 +1,90 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Trash2 } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import type { Promotion } from '@/lib/types'
+
+interface DeletePromotionButtonProps {
+  promotion: Pick<Promotion, 'id' | 'name'>
+}
+
+export function DeletePromotionButton({ promotion }: DeletePromotionButtonProps) {
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const router = useRouter()
+  const supabase = createClient()
+
+  const handleDelete = async () => {
+    setLoading(true)
+    try {
+      const { error } = await supabase
+        .from('promotions')
+        .delete()
+        .eq('id', promotion.id)
+
+      // Bookings keep their promotion (even cancelled ones), so it can only be deactivated
+      if (error?.code === '23503') {
+        const { error: deactivateError } = await supabase
+          .from('promotions')
+          // @ts-expect-error - Supabase types issue
+          .update({ active: false })
+          .eq('id', promotion.id)
+        if (deactivateError) throw deactivateError
+        alert('This promotion is linked to bookings, so it was deactivated instead of deleted.')
+      } else if (error) {
+        throw error
+      }
+
+      setOpen(false)
+      router.refresh()
+    } catch (error) {
+      console.error('Error deleting promotion:', error)
+      alert('Failed to delete promotion')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This will permanently delete the promotion &quot;{promotion.name}&quot;.
+            This action cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={loading}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleDelete}
+            disabled={loading}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {loading ? 'Deleting...' : 'Delete'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,279 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import * as z from 'zod'
+import { addMonths, format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader } from '@/components/ui/loader'
+import { RefreshCw } from 'lucide-react'
+import { parseDateString } from '@/lib/date-utils'
+import { createClient } from '@/lib/supabase/client'
+import { createGiftVoucher, generateVoucherCode } from '@/lib/vouchers/gift-vouchers'
+
+const giftVoucherSchema = z.object({
+  code: z.string().trim().min(4, 'Code must be at least 4 characters'),
+  value: z.number().min(0.01, 'Value must be greater than 0'),
+  sale_method: z.enum(['cash', 'blik', 'card']),
+  expires_on: z.string().optional(),
+  purchaser_name: z.string().optional(),
+  recipient_name: z.string().optional(),
+  notes: z.string().optional(),
+})
+
+type GiftVoucherFormValues = z.infer<typeof giftVoucherSchema>
+
+// Vouchers are valid for a year unless changed
+const DEFAULT_VALIDITY_MONTHS = 12
+
+interface GiftVoucherFormProps {
+  today: string // YYYY-MM-DD in the user's timezone
+  children: React.ReactNode
+}
+
+export function GiftVoucherForm({ today, children }: GiftVoucherFormProps) {
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const router = useRouter()
+  const supabase = createClient()
+
+  const getDefaultValues = (): GiftVoucherFormValues => ({
+    code: generateVoucherCode(),
+    value: 0,
+    sale_method: 'cash',
+    expires_on: format(addMonths(parseDateString(today), DEFAULT_VALIDITY_MONTHS), 'yyyy-MM-dd'),
+    purchaser_name: '',
+    recipient_name: '',
+    notes: '',
+  })
+
+  const form = useForm<GiftVoucherFormValues>({
+    resolver: zodResolver(giftVoucherSchema),
+    defaultValues: getDefaultValues(),
+  })
+
+  const onSubmit = async (values: GiftVoucherFormValues) => {
+    setLoading(true)
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        throw new Error('You must be logged in to sell a gift voucher')
+      }
+
+      await createGiftVoucher(supabase, {
+        userId: user.id,
+        code: values.code,
+        value: values.value,
+        saleMethod: values.sale_method,
+        expiresOn: values.expires_on || null,
+        purchaserName: values.purchaser_name,
+        recipientName: values.recipient_name,
+        notes: values.notes,
+      })
+      setOpen(false)
+      form.reset(getDefaultValues())
+      router.refresh()
+    } catch (error) {
+      console.error('Error saving gift voucher:', error)
+      alert(error instanceof Error ? error.message : 'Failed to save gift voucher')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-h-[calc(100dvh-2rem)] max-w-md overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sell Gift Voucher</DialogTitle>
+          <DialogDescription>
+            The value is owed to the client until the voucher is redeemed on a booking.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Code</FormLabel>
+                  <div className="flex gap-2">
+                    <FormControl>
+                      <Input {...field} className="font-mono uppercase" />
+                    </FormControl>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={() => form.setValue('code', generateVoucherCode())}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="value"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Value</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      placeholder="0.00"
+                      value={field.value === 0 ? '' : field.value}
+                      onChange={(e) => {
+                        const value = e.target.value
+                        field.onChange(value === '' ? 0 : parseFloat(value))
+                      }}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="sale_method"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Paid With</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="cash">Cash into the drawer</SelectItem>
+                      <SelectItem value="blik">BLIK</SelectItem>
+                      <SelectItem value="card">Card</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="expires_on"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Valid Until</FormLabel>
+                  <FormControl>
+                    <Input type="date" min={today} {...field} />
+                  </FormControl>
+                  <FormDescription>Leave empty for a voucher that never expires.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="purchaser_name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Bought By</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Optional" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="recipient_name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>For</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Optional" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setOpen(false)}
+                disabled={loading}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? (
+                  <>
+                    <Loader size="sm" className="mr-2" />
+                    Saving...
+                  </>
+                ) : (
+                  'Sell Voucher'
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
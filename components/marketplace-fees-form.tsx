@@ -0,0 +1,230 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { format, parseISO } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Loader } from '@/components/ui/loader'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, Trash2 } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import { formatPln } from '@/lib/currency/format-currency'
+import {
+  MARKETPLACE_FEE_BASE_LABELS,
+  formatPlatformName,
+  getFeePlatforms,
+  getFeeRuleForDate,
+} from '@/lib/fees/marketplace-fees'
+import type { MarketplaceFeeBase, MarketplaceFeeRule } from '@/lib/types'
+
+interface MarketplaceFeesFormProps {
+  rules: MarketplaceFeeRule[]
+  today: string
+}
+
+export function MarketplaceFeesForm({ rules, today }: MarketplaceFeesFormProps) {
+  const [platform, setPlatform] = useState('booksy')
+  const [effectiveFrom, setEffectiveFrom] = useState(today)
+  const [rate, setRate] = useState('')
+  const [feeBase, setFeeBase] = useState<MarketplaceFeeBase>('first_service')
+  const [minFee, setMinFee] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const router = useRouter()
+  const supabase = createClient()
+
+  const platforms = getFeePlatforms(rules)
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const platformKey = platform.trim().toLowerCase()
+    const parsedRate = Number(rate.replace(',', '.'))
+    const parsedMinFee = minFee === '' ? 0 : Number(minFee.replace(',', '.'))
+    if (!platformKey || !effectiveFrom) {
+      alert('Enter a platform and an effective date')
+      return
+    }
+    if (rate === '' || Number.isNaN(parsedRate) || parsedRate < 0 || parsedRate > 100) {
+      alert('Enter a commission between 0 and 100')
+      return
+    }
+    if (Number.isNaN(parsedMinFee) || parsedMinFee < 0) {
+      alert('Minimum fee cannot be negative')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        throw new Error('You must be logged in to save a fee rule')
+      }
+
+      const { error } = await supabase
+        .from('marketplace_fee_rules')
+        // @ts-expect-error - Supabase types issue
+        .upsert(
+          [{
+            user_id: user.id,
+            platform: platformKey,
+            rate: parsedRate,
+            fee_base: feeBase,
+            min_fee: parsedMinFee,
+            effective_from: effectiveFrom,
+          }],
+          { onConflict: 'user_id,platform,effective_from' }
+        )
+      if (error) throw error
+
+      setRate('')
+      setMinFee('')
+      router.refresh()
+    } catch (error) {
+      console.error('Error saving marketplace fee rule:', error)
+      alert('Failed to save fee rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (rule: MarketplaceFeeRule) => {
+    if (!confirm(`Delete the ${formatPlatformName(rule.platform)} rule from ${rule.effective_from}? Existing bookings keep their fee.`)) return
+    setDeletingId(rule.id)
+    try {
+      const { error } = await supabase.from('marketplace_fee_rules').delete().eq('id', rule.id)
+      if (error) throw error
+      router.refresh()
+    } catch (error) {
+      console.error('Error deleting marketplace fee rule:', error)
+      alert('Failed to delete fee rule')
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {platforms.length === 0 && (
+        <p className="text-sm text-muted-foreground">No platforms yet. Bookings carry no marketplace fee.</p>
+      )}
+      {platforms.map((platformKey) => {
+        const currentRule = getFeeRuleForDate(rules, platformKey, today)
+        const platformRules = rules.filter((rule) => rule.platform === platformKey).reverse()
+        return (
+          <div key={platformKey} className="space-y-2">
+            <p className="text-sm font-semibold">{formatPlatformName(platformKey)}</p>
+            {platformRules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                <div className="flex flex-wrap items-center gap-2 min-w-0">
+                  <span className="font-medium">{rule.rate}%</span>
+                  <span className="text-sm text-muted-foreground">
+                    of {MARKETPLACE_FEE_BASE_LABELS[rule.fee_base]}
+                    {rule.min_fee > 0 && `, min ${formatPln(rule.min_fee)}`}
+                  </span>
+                  <span className="text-sm text-muted-foreground">
+                    · from {format(parseISO(rule.effective_from), 'MMM d, yyyy')}
+                  </span>
+                  {rule.id === currentRule?.id && <Badge variant="secondary">Current</Badge>}
+                  {rule.effective_from > today && <Badge variant="outline">Scheduled</Badge>}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={deletingId === rule.id}
+                  onClick={() => handleDelete(rule)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )
+      })}
+
+      <form onSubmit={handleAdd} className="space-y-3 border-t pt-4">
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="fee-rule-platform">Platform</Label>
+            <Input
+              id="fee-rule-platform"
+              list="fee-rule-platforms"
+              value={platform}
+              onChange={(e) => setPlatform(e.target.value)}
+              placeholder="e.g., booksy"
+              required
+            />
+            <datalist id="fee-rule-platforms">
+              {platforms.map((platformKey) => (
+                <option key={platformKey} value={platformKey} />
+              ))}
+            </datalist>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fee-rule-from">Effective from</Label>
+            <Input
+              id="fee-rule-from"
+              type="date"
+              value={effectiveFrom}
+              onChange={(e) => setEffectiveFrom(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fee-rule-rate">Commission (%)</Label>
+            <Input
+              id="fee-rule-rate"
+              type="number"
+              step="0.001"
+              min="0"
+              max="100"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              placeholder="e.g., 43.05"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fee-rule-min">Minimum fee</Label>
+            <Input
+              id="fee-rule-min"
+              type="number"
+              step="0.01"
+              min="0"
+              value={minFee}
+              onChange={(e) => setMinFee(e.target.value)}
+              placeholder="0.00"
+            />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label>Charged on</Label>
+            <Select value={feeBase} onValueChange={(value) => setFeeBase(value as MarketplaceFeeBase)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(MARKETPLACE_FEE_BASE_LABELS) as MarketplaceFeeBase[]).map((base) => (
+                  <SelectItem key={base} value={base}>
+                    {MARKETPLACE_FEE_BASE_LABELS[base].charAt(0).toUpperCase() + MARKETPLACE_FEE_BASE_LABELS[base].slice(1)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button type="submit" variant="outline" size="sm" disabled={saving}>
+          {saving ? <Loader size="sm" className="mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+          Add Rule
+        </Button>
+      </form>
+    </div>
+  )
+}
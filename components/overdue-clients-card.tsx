@@ -0,0 +1,69 @@
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { getDaysOverdue, type ClientStats } from '@/lib/clients/client-stats'
+import { formatPln } from '@/lib/currency/format-currency'
+import type { Client } from '@/lib/types'
+
+const OVERDUE_LIST_LIMIT = 20
+
+interface OverdueClientsCardProps {
+  overdue: ClientStats[]
+  clients: Client[]
+}
+
+export function OverdueClientsCard({ overdue, clients }: OverdueClientsCardProps) {
+  if (overdue.length === 0) return null
+
+  const clientsById = new Map(clients.map((client) => [client.id, client]))
+  const rows = overdue.slice(0, OVERDUE_LIST_LIMIT)
+
+  return (
+    <Card className="hover:shadow-md transition-shadow mb-6">
+      <CardHeader>
+        <CardTitle className="text-xl" style={{ fontFamily: 'var(--font-heading, var(--font-geist-sans))' }}>
+          Overdue for a Visit
+        </CardTitle>
+        <CardDescription>
+          Past their usual visit interval with nothing booked, ranked by lifetime value
+          {overdue.length > rows.length && ` (top ${rows.length} of ${overdue.length})`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Client</TableHead>
+              <TableHead>Phone</TableHead>
+              <TableHead>Last Visit</TableHead>
+              <TableHead>Overdue</TableHead>
+              <TableHead>Visits</TableHead>
+              <TableHead className="text-right">Lifetime Value</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((stats) => {
+              const client = clientsById.get(stats.clientId)
+              return (
+                <TableRow key={stats.clientId}>
+                  <TableCell>
+                    <Link href={`/clients/${stats.clientId}`} className="font-medium hover:underline">
+                      {client?.name || 'Unknown'}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{client?.phone || '-'}</TableCell>
+                  <TableCell>
+                    {stats.lastVisit ? new Date(stats.lastVisit).toLocaleDateString() : '-'}
+                  </TableCell>
+                  <TableCell>{getDaysOverdue(stats)} days</TableCell>
+                  <TableCell>{stats.visits}</TableCell>
+                  <TableCell className="text-right">{formatPln(stats.lifetimeValue)}</TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,14 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Printer } from 'lucide-react'
+
+/** Opens the browser print dialog, where "Save as PDF" produces the PDF. */
+export function PrintButton({ label = 'Print / Save as PDF' }: { label?: string }) {
+  return (
+    <Button onClick={() => window.print()} className="print:hidden">
+      <Printer className="h-4 w-4 mr-2" />
+      {label}
+    </Button>
+  )
+}
@@ -25,9 +25,28 @@ import {
 } from '@/components/ui/form'
 import { Input } from '@/components/ui/input'
 import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { Loader } from '@/components/ui/loader'
+import { ProductImageGallery } from '@/components/product-image-gallery'
 import { createClient } from '@/lib/supabase/client'
-import type { Product } from '@/lib/types'
+import { JEWELLERY_MATERIAL_LABELS } from '@/lib/products/attributes'
+import { PRODUCT_SOLD_AS_LABELS } from '@/lib/products/variants'
+import type { JewelleryMaterial, Product, ProductSoldAs } from '@/lib/types'
+
+type ParentOption = Pick<Product, 'id' | 'name' | 'sku' | 'parent_id'>
+
+const optionalText = z.string().optional().nullable().transform((v) => v?.trim() || null)
+
+const optionalMillimetres = z.preprocess(
+  (val) => val === '' || val === null || val === undefined ? null : Number(val),
+  z.number().positive('Must be greater than 0').nullable()
+)
 
 const productSchema = z.object({
   name: z.string().min(1, 'Name is required'),
@@ -45,7 +64,17 @@ const productSchema = z.object({
     (val) => val === '' || val === null || val === undefined ? undefined : Number(val),
     z.number().int().min(0)
   ),
+  reorder_point: z.preprocess(
+    (val) => val === '' || val === null || val === undefined ? null : Number(val),
+    z.number().int().min(0).optional().nullable()
+  ),
   active: z.boolean(),
+  parent_id: z.string().nullable(),
+  sold_as: z.enum(['single', 'pair']).nullable(),
+  material: z.enum(['titanium_f136', 'gold_14k', 'gold_18k', 'surgical_steel', 'niobium', 'bioplast']).nullable(),
+  gauge: optionalMillimetres,
+  length: optionalMillimetres,
+  colour: optionalText,
 })
 
 type ProductFormValues = z.infer<typeof productSchema>
@@ -59,6 +88,7 @@ interface ProductFormProps {
 export function ProductForm({ product, children, onSuccess }: ProductFormProps) {
   const [open, setOpen] = useState(false)
   const [loading, setLoading] = useState(false)
+  const [catalog, setCatalog] = useState<ParentOption[]>([])
   const router = useRouter()
   const supabase = createClient()
 
@@ -72,7 +102,14 @@ export function ProductForm({ product, children, onSuccess }: ProductFormProps)
     cost: productData?.cost ?? null,
     sale_price: productData?.sale_price || 0,
     sold_qty: productData?.sold_qty || 0,
+    reorder_point: productData?.reorder_point ?? null,
     active: productData?.active ?? true,
+    parent_id: productData?.parent_id ?? null,
+    sold_as: productData?.sold_as ?? null,
+    material: productData?.material ?? null,
+    gauge: productData?.gauge ?? null,
+    length: productData?.length ?? null,
+    colour: productData?.colour ?? '',
   })
 
   const form = useForm<ProductFormValues>({
@@ -89,6 +126,26 @@ export function ProductForm({ product, children, onSuccess }: ProductFormProps)
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [open, productData?.id])
 
+  useEffect(() => {
+    if (!open) return
+    const loadCatalog = async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, name, sku, parent_id')
+        .order('name')
+      if (error) {
+        console.error('Error loading products:', error)
+        return
+      }
+      setCatalog((data as ParentOption[] | null) || [])
+    }
+    loadCatalog()
+  }, [open, supabase])
+
+  // Groups are one level deep: a parent with variants cannot become a variant
+  const hasVariants = !!productData && catalog.some((option) => option.parent_id === productData.id)
+  const parentOptions = catalog.filter((option) => !option.parent_id && option.id !== productData?.id)
+
   const onSubmit = async (values: ProductFormValues) => {
     setLoading(true)
     try {
@@ -252,6 +309,40 @@ export function ProductForm({ product, children, onSuccess }: ProductFormProps)
                   </FormItem>
                 )}
               />
+              <FormField
+                // @ts-expect-error - react-hook-form type inference issue with zod
+                control={form.control}
+                name="reorder_point"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reorder Point</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        placeholder="No threshold"
+                        value={field.value === null || field.value === undefined ? '' : field.value}
+                        onChange={(e) => {
+                          const value = e.target.value
+                          field.onChange(value === '' ? null : value)
+                        }}
+                        onBlur={(e) => {
+                          const value = e.target.value
+                          field.onBlur()
+                          if (value === '') {
+                            field.onChange(null)
+                          } else {
+                            const numValue = parseInt(value, 10)
+                            field.onChange(isNaN(numValue) ? null : numValue)
+                          }
+                        }}
+                        name={field.name}
+                        ref={field.ref}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
             {/* @ts-ignore - react-hook-form type inference issue */}
             <FormField
@@ -287,6 +378,145 @@ export function ProductForm({ product, children, onSuccess }: ProductFormProps)
                 </FormItem>
               )}
             />
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                // @ts-expect-error - react-hook-form type inference issue with zod
+                control={form.control}
+                name="parent_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Variant Of</FormLabel>
+                    <Select
+                      value={field.value ?? 'none'}
+                      onValueChange={(value) => field.onChange(value === 'none' ? null : value)}
+                      disabled={hasVariants}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">
+                          {hasVariants ? 'Parent of its variants' : 'None (standalone or parent)'}
+                        </SelectItem>
+                        {parentOptions.map((option) => (
+                          <SelectItem key={option.id} value={option.id}>
+                            {option.name}{option.sku ? ` [${option.sku}]` : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                // @ts-expect-error - react-hook-form type inference issue with zod
+                control={form.control}
+                name="sold_as"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sold As</FormLabel>
+                    <Select
+                      value={field.value ?? 'none'}
+                      onValueChange={(value) => field.onChange(value === 'none' ? null : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Not set</SelectItem>
+                        {(Object.keys(PRODUCT_SOLD_AS_LABELS) as ProductSoldAs[]).map((key) => (
+                          <SelectItem key={key} value={key}>
+                            {PRODUCT_SOLD_AS_LABELS[key]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                // @ts-expect-error - react-hook-form type inference issue with zod
+                control={form.control}
+                name="material"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Material</FormLabel>
+                    <Select
+                      value={field.value ?? 'none'}
+                      onValueChange={(value) => field.onChange(value === 'none' ? null : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Not set</SelectItem>
+                        {(Object.keys(JEWELLERY_MATERIAL_LABELS) as JewelleryMaterial[]).map((key) => (
+                          <SelectItem key={key} value={key}>
+                            {JEWELLERY_MATERIAL_LABELS[key]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                // @ts-expect-error - react-hook-form type inference issue with zod
+                control={form.control}
+                name="colour"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Colour</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value || ''} placeholder="Gold" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid gap-4 grid-cols-2">
+              {([
+                ['gauge', 'Gauge (mm)', '1.2'],
+                ['length', 'Length (mm)', '8'],
+              ] as const).map(([name, label, placeholder]) => (
+                <FormField
+                  key={name}
+                  // @ts-expect-error - react-hook-form type inference issue with zod
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.1"
+                          min="0"
+                          placeholder={placeholder}
+                          value={field.value === null || field.value === undefined ? '' : field.value}
+                          onChange={(e) => field.onChange(e.target.value === '' ? null : e.target.value)}
+                          name={field.name}
+                          ref={field.ref}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
             {/* @ts-ignore - react-hook-form type inference issue */}
             <FormField
               // @ts-ignore
@@ -306,6 +536,11 @@ export function ProductForm({ product, children, onSuccess }: ProductFormProps)
                 </FormItem>
               )}
             />
+            {productData ? (
+              <ProductImageGallery productId={productData.id} images={productData.product_images || []} />
+            ) : (
+              <p className="text-sm text-muted-foreground">Photos can be added after the product is created</p>
+            )}
             <DialogFooter>
               <Button
                 type="button"
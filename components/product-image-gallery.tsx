@@ -0,0 +1,145 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Loader } from '@/components/ui/loader'
+import { ImagePlus, Star, Trash2 } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import {
+  PRODUCT_IMAGE_TYPES,
+  deleteProductImage,
+  setProductImageCover,
+  sortProductImages,
+  uploadProductImage,
+} from '@/lib/products/images'
+import type { ProductImage } from '@/lib/types'
+
+interface ProductImageGalleryProps {
+  productId: string
+  images: ProductImage[]
+}
+
+export function ProductImageGallery({ productId, images: initialImages }: ProductImageGalleryProps) {
+  const [images, setImages] = useState(() => sortProductImages(initialImages))
+  const [busy, setBusy] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const router = useRouter()
+  const supabase = createClient()
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ''
+    if (files.length === 0) return
+
+    setBusy(true)
+    try {
+      for (const file of files) {
+        const image = await uploadProductImage(productId, file)
+        setImages((current) => sortProductImages([...current, image]))
+      }
+      router.refresh()
+    } catch (error) {
+      console.error('Error uploading product photo:', error)
+      alert(error instanceof Error ? error.message : 'Failed to upload photo')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDelete = async (image: ProductImage) => {
+    if (!confirm('Delete this photo?')) return
+
+    setBusy(true)
+    try {
+      await deleteProductImage(productId, image.id)
+      setImages((current) => current.filter((item) => item.id !== image.id))
+      router.refresh()
+    } catch (error) {
+      console.error('Error deleting product photo:', error)
+      alert(error instanceof Error ? error.message : 'Failed to delete photo')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleSetCover = async (image: ProductImage) => {
+    setBusy(true)
+    try {
+      const position = await setProductImageCover(supabase, images, image.id)
+      setImages((current) =>
+        sortProductImages(current.map((item) => (item.id === image.id ? { ...item, position } : item)))
+      )
+      router.refresh()
+    } catch (error) {
+      console.error('Error setting cover photo:', error)
+      alert('Failed to set cover photo')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Photos</p>
+        <Button type="button" variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={busy}>
+          {busy ? <Loader size="sm" className="mr-2" /> : <ImagePlus className="h-4 w-4 mr-2" />}
+          Add Photos
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={PRODUCT_IMAGE_TYPES.join(',')}
+          multiple
+          className="hidden"
+          onChange={handleUpload}
+        />
+      </div>
+      {images.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No photos yet</p>
+      ) : (
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+          {images.map((image, index) => (
+            <div key={image.id} className="relative aspect-square overflow-hidden rounded-md border bg-muted">
+              <a href={image.url} target="_blank" rel="noreferrer">
+                {/* eslint-disable-next-line @next/next/no-img-element -- already a small thumbnail, nothing to optimize */}
+                <img src={image.thumbnail_url} alt="Product photo" className="h-full w-full object-cover" />
+              </a>
+              {index === 0 && (
+                <Badge className="absolute left-1 top-1 text-[10px] px-1.5 py-0">Cover</Badge>
+              )}
+              <div className="absolute right-1 top-1 flex gap-1">
+                {index > 0 && (
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => handleSetCover(image)}
+                    disabled={busy}
+                    title="Make cover"
+                  >
+                    <Star className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => handleDelete(image)}
+                  disabled={busy}
+                  title="Delete photo"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
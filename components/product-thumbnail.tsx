@@ -0,0 +1,29 @@
+import { ImageIcon } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { getProductCover } from '@/lib/products/images'
+import type { ProductImage } from '@/lib/types'
+
+interface ProductThumbnailProps {
+  product: {
+    name: string
+    product_images?: Array<Pick<ProductImage, 'thumbnail_url' | 'position'>> | null
+  }
+  className?: string
+}
+
+/** Cover photo thumbnail, or a placeholder when the product has no photos. */
+export function ProductThumbnail({ product, className }: ProductThumbnailProps) {
+  const cover = getProductCover(product.product_images)
+  return (
+    <div className={cn('h-10 w-10 shrink-0 overflow-hidden rounded-md border bg-muted', className)}>
+      {cover ? (
+        // eslint-disable-next-line @next/next/no-img-element -- already a small thumbnail, nothing to optimize
+        <img src={cover.thumbnail_url} alt={product.name} className="h-full w-full object-cover" loading="lazy" />
+      ) : (
+        <div className="flex h-full w-full items-center justify-center text-muted-foreground">
+          <ImageIcon className="h-1/2 w-1/2" />
+        </div>
+      )}
+    </div>
+  )
+}
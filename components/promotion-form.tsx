@@ -0,0 +1,420 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useForm, useWatch } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import * as z from 'zod'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader } from '@/components/ui/loader'
+import { createClient } from '@/lib/supabase/client'
+import {
+  PROMOTION_DISCOUNT_TYPE_LABELS,
+  PROMOTION_SCOPE_LABELS,
+  normalizePromotionCode,
+} from '@/lib/promotions/promotions'
+import type { Promotion, PromotionDiscountType, PromotionScope, Service } from '@/lib/types'
+
+const promotionSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  code: z.string().optional(),
+  discount_type: z.enum(['percentage', 'fixed']),
+  discount_value: z.number().min(0.01, 'Discount must be greater than 0'),
+  applies_to: z.enum(['all', 'services', 'products']),
+  service_ids: z.array(z.string()),
+  product_categories: z.array(z.string()),
+  starts_on: z.string().min(1, 'Start date is required'),
+  ends_on: z.string().optional(),
+  usage_limit: z.number().int().min(1).nullable(),
+  active: z.boolean(),
+}).refine((values) => values.discount_type !== 'percentage' || values.discount_value <= 100, {
+  message: 'A percentage cannot exceed 100',
+  path: ['discount_value'],
+}).refine((values) => !values.ends_on || values.ends_on >= values.starts_on, {
+  message: 'End date must be after the start date',
+  path: ['ends_on'],
+})
+
+type PromotionFormValues = z.infer<typeof promotionSchema>
+
+interface PromotionFormProps {
+  promotion?: Promotion
+  services: Array<Pick<Service, 'id' | 'name'>>
+  productCategories: string[]
+  today: string // YYYY-MM-DD in the user's timezone
+  children: React.ReactNode
+}
+
+export function PromotionForm({ promotion, services, productCategories, today, children }: PromotionFormProps) {
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const router = useRouter()
+  const supabase = createClient()
+
+  const getDefaultValues = (): PromotionFormValues => ({
+    name: promotion?.name ?? '',
+    code: promotion?.code ?? '',
+    discount_type: promotion?.discount_type ?? 'percentage',
+    discount_value: promotion?.discount_value ?? 0,
+    applies_to: promotion?.applies_to ?? 'all',
+    service_ids: promotion?.service_ids ?? [],
+    product_categories: promotion?.product_categories ?? [],
+    starts_on: promotion?.starts_on ?? today,
+    ends_on: promotion?.ends_on ?? '',
+    usage_limit: promotion?.usage_limit ?? null,
+    active: promotion?.active ?? true,
+  })
+
+  const form = useForm<PromotionFormValues>({
+    resolver: zodResolver(promotionSchema),
+    defaultValues: getDefaultValues(),
+  })
+  const appliesTo = useWatch({ control: form.control, name: 'applies_to' })
+  const discountType = useWatch({ control: form.control, name: 'discount_type' })
+
+  const onSubmit = async (values: PromotionFormValues) => {
+    setLoading(true)
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        throw new Error('You must be logged in to save a promotion')
+      }
+
+      const promotionData = {
+        user_id: user.id,
+        name: values.name.trim(),
+        code: values.code ? normalizePromotionCode(values.code) : null,
+        discount_type: values.discount_type,
+        discount_value: values.discount_value,
+        applies_to: values.applies_to,
+        // Filters outside the scope would never match; do not keep them around
+        service_ids: values.applies_to === 'products' ? [] : values.service_ids,
+        product_categories: values.applies_to === 'services' ? [] : values.product_categories,
+        starts_on: values.starts_on,
+        ends_on: values.ends_on || null,
+        usage_limit: values.usage_limit,
+        active: values.active,
+      }
+
+      let error
+      if (promotion) {
+        ({ error } = await supabase
+          .from('promotions')
+          // @ts-expect-error - Supabase types issue
+          .update(promotionData)
+          .eq('id', promotion.id))
+      } else {
+        ({ error } = await supabase
+          .from('promotions')
+          // @ts-expect-error - Supabase types issue
+          .insert([promotionData]))
+      }
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error(`Code ${promotionData.code} is already used by another promotion`)
+        }
+        throw error
+      }
+
+      setOpen(false)
+      if (!promotion) form.reset(getDefaultValues())
+      router.refresh()
+    } catch (error) {
+      console.error('Error saving promotion:', error)
+      alert(error instanceof Error ? error.message : 'Failed to save promotion')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleValue = (values: string[], value: string, checked: boolean) =>
+    checked ? [...values, value] : values.filter((v) => v !== value)
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-h-[calc(100dvh-2rem)] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{promotion ? 'Edit Promotion' : 'Add Promotion'}</DialogTitle>
+          <DialogDescription>
+            Promotions can be applied to bookings while they are active and under their usage limit.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Spring helix week" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Code (Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="SPRING10" className="font-mono uppercase" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="discount_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Discount</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(PROMOTION_DISCOUNT_TYPE_LABELS) as PromotionDiscountType[]).map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {PROMOTION_DISCOUNT_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="discount_value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{discountType === 'percentage' ? 'Percent' : 'Amount'}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0.01"
+                        max={discountType === 'percentage' ? 100 : undefined}
+                        placeholder={discountType === 'percentage' ? '10' : '0.00'}
+                        value={field.value === 0 ? '' : field.value}
+                        onChange={(e) => {
+                          const value = e.target.value
+                          field.onChange(value === '' ? 0 : parseFloat(value))
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="applies_to"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Applies To</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {(Object.keys(PROMOTION_SCOPE_LABELS) as PromotionScope[]).map((scope) => (
+                        <SelectItem key={scope} value={scope}>
+                          {PROMOTION_SCOPE_LABELS[scope]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {appliesTo !== 'products' && services.length > 0 && (
+              <FormField
+                control={form.control}
+                name="service_ids"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Services</FormLabel>
+                    <FormDescription>Leave all unticked for every service.</FormDescription>
+                    <div className="grid grid-cols-2 gap-2">
+                      {services.map((service) => (
+                        <label key={service.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(service.id)}
+                            onCheckedChange={(checked) => field.onChange(toggleValue(field.value, service.id, checked === true))}
+                          />
+                          {service.name}
+                        </label>
+                      ))}
+                    </div>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {appliesTo !== 'services' && productCategories.length > 0 && (
+              <FormField
+                control={form.control}
+                name="product_categories"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Product Categories</FormLabel>
+                    <FormDescription>Leave all unticked for every product.</FormDescription>
+                    <div className="grid grid-cols-2 gap-2">
+                      {productCategories.map((category) => (
+                        <label key={category} className="flex items-center gap-2 text-sm capitalize">
+                          <Checkbox
+                            checked={field.value.includes(category)}
+                            onCheckedChange={(checked) => field.onChange(toggleValue(field.value, category, checked === true))}
+                          />
+                          {category}
+                        </label>
+                      ))}
+                    </div>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="starts_on"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Starts</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="ends_on"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ends (Optional)</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="usage_limit"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Usage Limit (Optional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="1"
+                      min="1"
+                      placeholder="Unlimited"
+                      value={field.value ?? ''}
+                      onChange={(e) => {
+                        const value = e.target.value
+                        field.onChange(value === '' ? null : parseInt(value, 10))
+                      }}
+                    />
+                  </FormControl>
+                  <FormDescription>Cancelled and no-show bookings do not count.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                  <FormLabel>Active</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setOpen(false)}
+                disabled={loading}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? (
+                  <>
+                    <Loader size="sm" className="mr-2" />
+                    Saving...
+                  </>
+                ) : promotion ? (
+                  'Update Promotion'
+                ) : (
+                  'Add Promotion'
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
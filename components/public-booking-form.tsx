@@ -0,0 +1,236 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader } from '@/components/ui/loader'
+import { CalendarCheck } from 'lucide-react'
+import { formatPln } from '@/lib/currency/format-currency'
+import type { PublicService } from '@/lib/public-booking/public-booking'
+
+interface PublicBookingFormProps {
+  services: PublicService[]
+  timezone: string
+  minDate: string
+  maxDate: string
+}
+
+export function PublicBookingForm({ services, timezone, minDate, maxDate }: PublicBookingFormProps) {
+  const [serviceIds, setServiceIds] = useState<string[]>([])
+  const [date, setDate] = useState(minDate)
+  const [slots, setSlots] = useState<string[] | null>(null)
+  const [slotsLoading, setSlotsLoading] = useState(false)
+  const [startTime, setStartTime] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [phone, setPhone] = useState('')
+  const [notes, setNotes] = useState('')
+  const [website, setWebsite] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [booked, setBooked] = useState(false)
+
+  const timeFormatter = new Intl.DateTimeFormat('pl-PL', { timeZone: timezone, hour: '2-digit', minute: '2-digit' })
+  const selectedServices = services.filter((s) => serviceIds.includes(s.id))
+  const totalDuration = selectedServices.reduce((sum, s) => sum + s.duration_minutes, 0)
+  const totalPrice = selectedServices.reduce((sum, s) => sum + s.base_price, 0)
+
+  useEffect(() => {
+    setStartTime(null)
+    if (serviceIds.length === 0 || !date) {
+      setSlots(null)
+      return
+    }
+
+    let cancelled = false
+    setSlotsLoading(true)
+    const params = new URLSearchParams({ date, services: serviceIds.join(',') })
+    fetch(`/api/public-booking/slots?${params}`)
+      .then(async (res) => {
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Failed to load free slots')
+        if (!cancelled) setSlots(data.slots as string[])
+      })
+      .catch((err) => {
+        console.error('Error loading slots:', err)
+        if (!cancelled) setSlots([])
+      })
+      .finally(() => {
+        if (!cancelled) setSlotsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [serviceIds, date])
+
+  const toggleService = (id: string, checked: boolean) => {
+    setServiceIds((prev) => (checked ? [...prev, id] : prev.filter((s) => s !== id)))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!startTime) return
+
+    setSubmitting(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/public-booking', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          service_ids: serviceIds,
+          start_time: startTime,
+          name,
+          phone,
+          notes: notes.trim() || undefined,
+          website,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to create booking')
+      }
+      setBooked(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create booking')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (booked && startTime) {
+    return (
+      <div className="text-center space-y-3 py-6">
+        <CalendarCheck className="h-10 w-10 mx-auto text-primary" />
+        <p className="text-lg font-semibold">You are booked!</p>
+        <p className="text-sm text-muted-foreground">
+          {date} at {timeFormatter.format(new Date(startTime))}. We will contact you to confirm.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="space-y-2">
+        <Label>Services</Label>
+        <div className="space-y-2">
+          {services.map((service) => (
+            <label
+              key={service.id}
+              className="flex items-center gap-3 p-3 border rounded-lg cursor-pointer hover:bg-muted/50"
+            >
+              <Checkbox
+                checked={serviceIds.includes(service.id)}
+                onCheckedChange={(checked) => toggleService(service.id, checked === true)}
+              />
+              <span className="flex-1 text-sm font-medium">{service.name}</span>
+              <span className="text-xs text-muted-foreground">{service.duration_minutes} min</span>
+              <span className="text-sm">{formatPln(service.base_price)}</span>
+            </label>
+          ))}
+        </div>
+        {selectedServices.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {totalDuration} min · {formatPln(totalPrice)}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="booking-date">Date</Label>
+        <Input
+          id="booking-date"
+          type="date"
+          min={minDate}
+          max={maxDate}
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          className="w-48"
+        />
+      </div>
+
+      {serviceIds.length > 0 && (
+        <div className="space-y-2">
+          <Label>Time</Label>
+          {slotsLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader size="sm" />
+              Loading free times...
+            </div>
+          ) : slots && slots.length > 0 ? (
+            <div className="grid grid-cols-4 gap-2">
+              {slots.map((slot) => (
+                <Button
+                  key={slot}
+                  type="button"
+                  size="sm"
+                  variant={slot === startTime ? 'default' : 'outline'}
+                  onClick={() => setStartTime(slot)}
+                >
+                  {timeFormatter.format(new Date(slot))}
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No free times on this day, please pick another date.</p>
+          )}
+        </div>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="booking-name">Name</Label>
+          <Input id="booking-name" value={name} onChange={(e) => setName(e.target.value)} required minLength={2} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="booking-phone">Phone</Label>
+          <Input
+            id="booking-phone"
+            type="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            placeholder="+48 600 000 000"
+            required
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="booking-notes">Comment</Label>
+        <Textarea id="booking-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+      </div>
+
+      {/* Honeypot: off-screen for people, bots fill every field */}
+      <div className="absolute -left-[9999px]" aria-hidden="true">
+        <label htmlFor="booking-website">Website</label>
+        <input
+          id="booking-website"
+          tabIndex={-1}
+          autoComplete="off"
+          value={website}
+          onChange={(e) => setWebsite(e.target.value)}
+        />
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={submitting || !startTime || name.trim().length < 2 || phone.trim().length < 7}
+      >
+        {submitting ? (
+          <>
+            <Loader size="sm" className="mr-2" />
+            Booking...
+          </>
+        ) : (
+          'Book Appointment'
+        )}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,430 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader } from '@/components/ui/loader'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Check, ChevronsUpDown, Plus, Trash2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { createClient } from '@/lib/supabase/client'
+import { formatDateForDatabase } from '@/lib/date-utils'
+import { formatPln } from '@/lib/currency/format-currency'
+import { getOrderTotalPln } from '@/lib/purchasing/landed-cost'
+import type { Product, PurchaseCurrency, PurchaseOrderWithItems } from '@/lib/types'
+
+interface OrderLine {
+  key: string
+  product_id: string
+  qty: string
+  unit_price: string
+}
+
+interface PurchaseOrderFormProps {
+  order?: PurchaseOrderWithItems
+  products: Product[]
+  children: React.ReactNode
+}
+
+function emptyLine(): OrderLine {
+  return { key: crypto.randomUUID(), product_id: '', qty: '1', unit_price: '' }
+}
+
+function ProductPicker({
+  products,
+  value,
+  onChange,
+}: {
+  products: Product[]
+  value: string
+  onChange: (productId: string) => void
+}) {
+  const [open, setOpen] = useState(false)
+  const selected = products.find((p) => p.id === value)
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" className="w-full justify-between font-normal">
+          <span className="truncate">
+            {selected ? `${selected.sku ? `${selected.sku} · ` : ''}${selected.name}` : 'Select product'}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[320px] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search by name or SKU..." />
+          <CommandList className="max-h-[300px]">
+            <CommandEmpty>No product found.</CommandEmpty>
+            <CommandGroup>
+              {products.map((product) => (
+                <CommandItem
+                  key={product.id}
+                  value={`${product.sku || ''} ${product.name}`}
+                  onSelect={() => {
+                    onChange(product.id)
+                    setOpen(false)
+                  }}
+                >
+                  <Check className={cn('mr-2 h-4 w-4', value === product.id ? 'opacity-100' : 'opacity-0')} />
+                  <span className="truncate">
+                    {product.sku ? `${product.sku} · ` : ''}{product.name}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export function PurchaseOrderForm({ order, products, children }: PurchaseOrderFormProps) {
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [rateLoading, setRateLoading] = useState(false)
+  const [rateNote, setRateNote] = useState<string | null>(null)
+  const [supplier, setSupplier] = useState('')
+  const [currency, setCurrency] = useState<PurchaseCurrency>('PLN')
+  const [orderDate, setOrderDate] = useState(formatDateForDatabase(new Date()))
+  const [exchangeRate, setExchangeRate] = useState('1')
+  const [shipping, setShipping] = useState('0')
+  const [customs, setCustoms] = useState('0')
+  const [notes, setNotes] = useState('')
+  const [lines, setLines] = useState<OrderLine[]>([emptyLine()])
+  const router = useRouter()
+  const supabase = createClient()
+
+  // Reset fields when the dialog opens
+  useEffect(() => {
+    if (!open) return
+    setSupplier(order?.supplier || '')
+    setCurrency(order?.currency || 'PLN')
+    setOrderDate(order?.order_date || formatDateForDatabase(new Date()))
+    setExchangeRate(String(order?.exchange_rate ?? 1))
+    setShipping(String(order?.shipping ?? 0))
+    setCustoms(String(order?.customs_pln ?? 0))
+    setNotes(order?.notes || '')
+    setRateNote(null)
+    setLines(
+      order?.purchase_order_items?.length
+        ? order.purchase_order_items.map((item) => ({
+            key: item.id,
+            product_id: item.product_id,
+            qty: String(item.qty),
+            unit_price: String(item.unit_price),
+          }))
+        : [emptyLine()]
+    )
+  }, [open, order])
+
+  const fetchRate = async (nextCurrency: PurchaseCurrency, nextDate: string) => {
+    if (nextCurrency === 'PLN') {
+      setExchangeRate('1')
+      setRateNote(null)
+      return
+    }
+    setRateLoading(true)
+    try {
+      const response = await fetch(`/api/exchange-rates?currency=${nextCurrency}&date=${nextDate}`)
+      const body = await response.json()
+      if (!response.ok) throw new Error(body.error || 'Failed to fetch exchange rate')
+      setExchangeRate(String(body.rate))
+      setRateNote(`NBP table of ${body.effectiveDate}`)
+    } catch (error) {
+      console.error('Error fetching exchange rate:', error)
+      setRateNote('Could not fetch the NBP rate, enter it manually')
+    } finally {
+      setRateLoading(false)
+    }
+  }
+
+  const updateLine = (key: string, patch: Partial<OrderLine>) => {
+    setLines((prev) => prev.map((line) => (line.key === key ? { ...line, ...patch } : line)))
+  }
+
+  const parsedLines = lines
+    .filter((line) => line.product_id)
+    .map((line) => ({
+      id: line.key,
+      product_id: line.product_id,
+      qty: parseInt(line.qty, 10) || 0,
+      unit_price: parseFloat(line.unit_price) || 0,
+    }))
+  const rate = parseFloat(exchangeRate) || 0
+  const totalPln = getOrderTotalPln(
+    { exchange_rate: rate, shipping: parseFloat(shipping) || 0, customs_pln: parseFloat(customs) || 0 },
+    parsedLines
+  )
+  const isValid = supplier.trim() !== '' && rate > 0 && parsedLines.length > 0 && parsedLines.every((line) => line.qty > 0)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isValid) return
+
+    setLoading(true)
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        throw new Error('You must be logged in to save a purchase order')
+      }
+
+      const orderData = {
+        supplier: supplier.trim(),
+        currency,
+        order_date: orderDate,
+        exchange_rate: currency === 'PLN' ? 1 : rate,
+        shipping: parseFloat(shipping) || 0,
+        customs_pln: parseFloat(customs) || 0,
+        notes: notes.trim() || null,
+        user_id: user.id,
+      }
+
+      let orderId = order?.id
+      if (orderId) {
+        const { error } = await supabase
+          .from('purchase_orders')
+          // @ts-expect-error - Supabase types issue
+          .update(orderData)
+          .eq('id', orderId)
+        if (error) throw error
+      } else {
+        const { data, error } = await supabase
+          .from('purchase_orders')
+          // @ts-expect-error - Supabase types issue
+          .insert([orderData])
+          .select('id')
+          .single()
+        if (error) throw error
+        orderId = (data as { id: string }).id
+      }
+
+      // New lines carry their client-side key as id, so a retried save updates
+      // them instead of adding them twice
+      const { error: itemsError } = await supabase
+        .from('purchase_order_items')
+        // @ts-expect-error - Supabase types issue
+        .upsert(parsedLines.map((line) => ({
+          id: line.id,
+          user_id: user.id,
+          purchase_order_id: orderId,
+          product_id: line.product_id,
+          qty: line.qty,
+          unit_price: line.unit_price,
+        })), { onConflict: 'id' })
+      if (itemsError) throw itemsError
+
+      // Removed lines go last, once the kept ones are saved
+      const { error: deleteError } = await supabase
+        .from('purchase_order_items')
+        .delete()
+        .eq('purchase_order_id', orderId)
+        .not('id', 'in', `(${parsedLines.map((line) => line.id).join(',')})`)
+      if (deleteError) throw deleteError
+
+      setOpen(false)
+      router.refresh()
+    } catch (error) {
+      console.error('Error saving purchase order:', error)
+      alert(error instanceof Error ? error.message : 'Failed to save purchase order')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90dvh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{order ? 'Edit Purchase Order' : 'New Purchase Order'}</DialogTitle>
+          <DialogDescription>
+            Prices are in the order currency and converted to PLN at the NBP rate for the order date.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="po-supplier">Supplier</Label>
+              <Input
+                id="po-supplier"
+                value={supplier}
+                onChange={(e) => setSupplier(e.target.value)}
+                placeholder="e.g., Inverness"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="po-date">Order date</Label>
+              <Input
+                id="po-date"
+                type="date"
+                value={orderDate}
+                onChange={(e) => {
+                  setOrderDate(e.target.value)
+                  if (e.target.value) fetchRate(currency, e.target.value)
+                }}
+              />
+            </div>
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="po-currency">Currency</Label>
+              <Select
+                value={currency}
+                onValueChange={(value: PurchaseCurrency) => {
+                  setCurrency(value)
+                  fetchRate(value, orderDate)
+                }}
+              >
+                <SelectTrigger id="po-currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="PLN">PLN</SelectItem>
+                  <SelectItem value="USD">USD</SelectItem>
+                  <SelectItem value="EUR">EUR</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="po-rate">Exchange rate (PLN per 1 {currency})</Label>
+              <Input
+                id="po-rate"
+                type="number"
+                step="0.0001"
+                min={0}
+                value={exchangeRate}
+                disabled={currency === 'PLN' || rateLoading}
+                onChange={(e) => setExchangeRate(e.target.value)}
+              />
+              {rateNote && <p className="text-xs text-muted-foreground">{rateNote}</p>}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Lines</Label>
+            {lines.map((line) => (
+              <div key={line.key} className="grid grid-cols-[1fr_5rem_7rem_auto] gap-2 items-center">
+                <ProductPicker
+                  products={products}
+                  value={line.product_id}
+                  onChange={(productId) => updateLine(line.key, { product_id: productId })}
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  aria-label="Quantity"
+                  value={line.qty}
+                  onChange={(e) => updateLine(line.key, { qty: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  aria-label={`Unit price (${currency})`}
+                  placeholder={`Price ${currency}`}
+                  value={line.unit_price}
+                  onChange={(e) => updateLine(line.key, { unit_price: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive hover:text-destructive"
+                  disabled={lines.length === 1}
+                  onClick={() => setLines((prev) => prev.filter((l) => l.key !== line.key))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={() => setLines((prev) => [...prev, emptyLine()])}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Line
+            </Button>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="po-shipping">Shipping ({currency})</Label>
+              <Input
+                id="po-shipping"
+                type="number"
+                step="0.01"
+                min={0}
+                value={shipping}
+                onChange={(e) => setShipping(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="po-customs">Customs (PLN)</Label>
+              <Input
+                id="po-customs"
+                type="number"
+                step="0.01"
+                min={0}
+                value={customs}
+                onChange={(e) => setCustoms(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="po-notes">Notes</Label>
+            <Textarea id="po-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+
+          <div className="flex justify-between rounded-lg border bg-muted/50 p-3 text-sm">
+            <span className="text-muted-foreground">Landed total</span>
+            <span className="font-semibold">{formatPln(totalPln)}</span>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !isValid}>
+              {loading ? (
+                <>
+                  <Loader size="sm" className="mr-2" />
+                  Saving...
+                </>
+              ) : order ? (
+                'Update'
+              ) : (
+                'Create'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,238 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { PackageCheck, Trash2 } from 'lucide-react'
+import { PurchaseOrderForm } from '@/components/purchase-order-form'
+import { createClient } from '@/lib/supabase/client'
+import { parseDateString } from '@/lib/date-utils'
+import { formatPln } from '@/lib/currency/format-currency'
+import { getOrderTotalPln } from '@/lib/purchasing/landed-cost'
+import { receivePurchaseOrder } from '@/lib/purchasing/receive-order'
+import type { CostMethod, Product, PurchaseOrderWithItems } from '@/lib/types'
+
+interface PurchaseOrdersTableProps {
+  orders: PurchaseOrderWithItems[]
+  products: Product[]
+  costMethod: CostMethod
+}
+
+function formatOrderAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat('pl-PL', { style: 'currency', currency }).format(amount)
+}
+
+export function PurchaseOrdersTable({ orders, products, costMethod }: PurchaseOrdersTableProps) {
+  const [receiveTarget, setReceiveTarget] = useState<PurchaseOrderWithItems | null>(null)
+  const [deleteTarget, setDeleteTarget] = useState<PurchaseOrderWithItems | null>(null)
+  const [actionLoading, setActionLoading] = useState(false)
+  const router = useRouter()
+  const supabase = createClient()
+
+  const handleReceive = async () => {
+    if (!receiveTarget) return
+    setActionLoading(true)
+    try {
+      await receivePurchaseOrder(supabase, receiveTarget.id, costMethod)
+      setReceiveTarget(null)
+      router.refresh()
+    } catch (error) {
+      console.error('Error receiving purchase order:', error)
+      alert(error instanceof Error ? error.message : 'Failed to receive purchase order')
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return
+    setActionLoading(true)
+    try {
+      const { error } = await supabase
+        .from('purchase_orders')
+        .delete()
+        .eq('id', deleteTarget.id)
+      if (error) throw error
+      setDeleteTarget(null)
+      router.refresh()
+    } catch (error) {
+      console.error('Error deleting purchase order:', error)
+      alert('Failed to delete purchase order')
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  const rows = orders.map((order) => {
+    const items = order.purchase_order_items ?? []
+    const goods = items.reduce((sum, item) => sum + item.qty * item.unit_price, 0)
+    return {
+      order,
+      units: items.reduce((sum, item) => sum + item.qty, 0),
+      goods,
+      totalPln: getOrderTotalPln(order, items),
+    }
+  })
+
+  const renderActions = (order: PurchaseOrderWithItems) => (
+    <>
+      {order.status === 'draft' && (
+        <>
+          <Button variant="outline" size="sm" onClick={() => setReceiveTarget(order)}>
+            <PackageCheck className="h-4 w-4 mr-2" />
+            Receive
+          </Button>
+          <PurchaseOrderForm order={order} products={products}>
+            <Button variant="ghost" size="sm">Edit</Button>
+          </PurchaseOrderForm>
+        </>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-destructive hover:text-destructive"
+        onClick={() => setDeleteTarget(order)}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </>
+  )
+
+  return (
+    <>
+      {/* Mobile Card View */}
+      <div className="md:hidden space-y-4">
+        {rows.map(({ order, units, goods, totalPln }) => (
+          <Card key={order.id}>
+            <CardContent className="pt-4">
+              <div className="space-y-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h3 className="font-semibold text-lg">{order.supplier}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {parseDateString(order.order_date).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Badge variant={order.status === 'received' ? 'default' : 'secondary'}>
+                    {order.status === 'received' ? 'Received' : 'Draft'}
+                  </Badge>
+                </div>
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Units:</span>
+                    <span>{units}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Goods:</span>
+                    <span>{formatOrderAmount(goods, order.currency)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Landed (PLN):</span>
+                    <span className="font-medium">{formatPln(totalPln)}</span>
+                  </div>
+                </div>
+                <div className="flex gap-2 pt-2">{renderActions(order)}</div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Desktop Table View */}
+      <div className="hidden md:block">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Supplier</TableHead>
+              <TableHead>Units</TableHead>
+              <TableHead>Goods</TableHead>
+              <TableHead>Rate</TableHead>
+              <TableHead>Landed (PLN)</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(({ order, units, goods, totalPln }) => (
+              <TableRow key={order.id}>
+                <TableCell>{parseDateString(order.order_date).toLocaleDateString()}</TableCell>
+                <TableCell className="font-medium">{order.supplier}</TableCell>
+                <TableCell>{units}</TableCell>
+                <TableCell>{formatOrderAmount(goods, order.currency)}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {order.currency === 'PLN' ? '-' : order.exchange_rate}
+                </TableCell>
+                <TableCell className="font-medium">{formatPln(totalPln)}</TableCell>
+                <TableCell>
+                  <Badge variant={order.status === 'received' ? 'default' : 'secondary'}>
+                    {order.status === 'received' ? 'Received' : 'Draft'}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex items-center justify-end gap-2">{renderActions(order)}</div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Receive Confirmation Dialog */}
+      <AlertDialog open={receiveTarget !== null} onOpenChange={(open) => !open && setReceiveTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Receive Purchase Order</AlertDialogTitle>
+            <AlertDialogDescription>
+              This adds the ordered quantities to stock and updates product costs using the{' '}
+              {costMethod === 'fifo' ? 'FIFO' : 'weighted average'} method. Received orders can no longer be edited.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={actionLoading}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReceive} disabled={actionLoading}>
+              {actionLoading ? 'Receiving...' : 'Receive'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Purchase Order</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget?.status === 'received'
+                ? 'Stock receipts already posted from this order stay in the ledger, and product costs are not reverted.'
+                : 'This action cannot be undone.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={actionLoading}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={actionLoading}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {actionLoading ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
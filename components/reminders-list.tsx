@@ -0,0 +1,91 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Check, Clock } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import { markReminderDone, snoozeReminder } from '@/lib/follow-ups/reminders'
+import type { FollowUpReminder } from '@/lib/types'
+
+interface RemindersListProps {
+  reminders: FollowUpReminder[]
+  today: string
+}
+
+export function RemindersList({ reminders, today }: RemindersListProps) {
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const router = useRouter()
+  const supabase = createClient()
+
+  const runAction = async (reminder: FollowUpReminder, action: () => Promise<void>) => {
+    setBusyId(reminder.id)
+    try {
+      await action()
+      router.refresh()
+    } catch (error) {
+      console.error('Error updating reminder:', error)
+      alert('Failed to update reminder')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {reminders.map((reminder) => {
+        const overdue = reminder.due_date < today
+        const busy = busyId === reminder.id
+        return (
+          <div
+            key={reminder.id}
+            className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 border rounded-lg"
+          >
+            <div className="space-y-1 min-w-0">
+              <div className="flex flex-wrap items-center gap-2">
+                <Link href={`/clients/${reminder.client_id}`} className="font-medium hover:underline">
+                  {reminder.client?.name || 'Client'}
+                </Link>
+                {reminder.client?.phone && (
+                  <span className="text-sm text-muted-foreground">{reminder.client.phone}</span>
+                )}
+                <Badge variant={overdue ? 'destructive' : 'secondary'}>{reminder.due_date}</Badge>
+              </div>
+              <p className="text-sm">{reminder.message}</p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={busy}
+                onClick={() => runAction(reminder, () => snoozeReminder(supabase, reminder, 1, today))}
+              >
+                <Clock className="h-4 w-4 mr-1" />
+                1 day
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={busy}
+                onClick={() => runAction(reminder, () => snoozeReminder(supabase, reminder, 7, today))}
+              >
+                <Clock className="h-4 w-4 mr-1" />
+                1 week
+              </Button>
+              <Button
+                size="sm"
+                disabled={busy}
+                onClick={() => runAction(reminder, () => markReminderDone(supabase, reminder.id))}
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Done
+              </Button>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
@@ -18,6 +18,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -25,9 +26,18 @@ import {
 } from '@/components/ui/form'
 import { Input } from '@/components/ui/input'
 import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
 import { Loader } from '@/components/ui/loader'
+import { Plus, X } from 'lucide-react'
 import { createClient } from '@/lib/supabase/client'
-import type { Service } from '@/lib/types'
+import { saveServiceFollowUpRules } from '@/lib/follow-ups/reminders'
+import type { Service, ServiceFollowUpRule } from '@/lib/types'
+
+interface FollowUpRuleRow {
+  id?: string
+  offset_days: string
+  message: string
+}
 
 const serviceSchema = z.object({
   name: z.string().min(1, 'Name is required'),
@@ -40,6 +50,10 @@ const serviceSchema = z.object({
     z.number().min(0, 'Price must be non-negative')
   ),
   active: z.boolean(),
+  min_age: z.preprocess(
+    (val) => val === '' || val === null || val === undefined ? null : Number(val),
+    z.number().int().min(0).max(120).nullable()
+  ),
 })
 
 type ServiceFormValues = z.infer<typeof serviceSchema>
@@ -52,6 +66,7 @@ interface ServiceFormProps {
 export function ServiceForm({ service, children }: ServiceFormProps) {
   const [open, setOpen] = useState(false)
   const [loading, setLoading] = useState(false)
+  const [followUps, setFollowUps] = useState<FollowUpRuleRow[]>([])
   const router = useRouter()
   const supabase = createClient()
 
@@ -66,9 +81,40 @@ export function ServiceForm({ service, children }: ServiceFormProps) {
       duration_minutes: serviceData?.duration_minutes || 30,
       base_price: serviceData?.base_price || 0,
       active: serviceData?.active ?? true,
+      min_age: serviceData?.min_age ?? null,
     },
   })
 
+  useEffect(() => {
+    if (!open) return
+    if (!service) {
+      setFollowUps([])
+      return
+    }
+    supabase
+      .from('service_follow_up_rules')
+      .select('*')
+      .eq('service_id', service.id)
+      .order('offset_days')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading follow-up rules:', error)
+          return
+        }
+        setFollowUps(
+          ((data as ServiceFollowUpRule[] | null) || []).map((rule) => ({
+            id: rule.id,
+            offset_days: String(rule.offset_days),
+            message: rule.message,
+          }))
+        )
+      })
+  }, [open, service, supabase])
+
+  const updateFollowUp = (index: number, patch: Partial<FollowUpRuleRow>) => {
+    setFollowUps((rows) => rows.map((row, i) => (i === index ? { ...row, ...patch } : row)))
+  }
+
   const onSubmit = async (values: ServiceFormValues) => {
     setLoading(true)
     try {
@@ -78,6 +124,15 @@ export function ServiceForm({ service, children }: ServiceFormProps) {
         throw new Error('You must be logged in to create a service')
       }
 
+      const rules = followUps
+        .filter((row) => row.offset_days !== '' || row.message.trim())
+        .map((row) => ({ id: row.id, offset_days: parseInt(row.offset_days, 10), message: row.message.trim() }))
+      if (rules.some((rule) => isNaN(rule.offset_days) || rule.offset_days < 1 || !rule.message)) {
+        alert('Each follow-up needs a number of days (1 or more) and a message')
+        return
+      }
+
+      let serviceId: string
       if (serviceData) {
         const { error } = await supabase
           .from('services')
@@ -85,15 +140,22 @@ export function ServiceForm({ service, children }: ServiceFormProps) {
           .update(values)
           .eq('id', serviceData.id)
         if (error) throw error
+        serviceId = serviceData.id
       } else {
-        const { error } = await supabase
+        const { data: newService, error } = await supabase
           .from('services')
           // @ts-expect-error - Supabase types issue
           .insert([{ ...values, user_id: user.id }])
+          .select('id')
+          .single()
         if (error) throw error
+        serviceId = (newService as { id: string }).id
       }
+
+      await saveServiceFollowUpRules(supabase, user.id, serviceId, rules)
       setOpen(false)
       form.reset()
+      setFollowUps([])
       router.refresh()
     } catch (error) {
       console.error('Error saving service:', error)
@@ -200,6 +262,32 @@ export function ServiceForm({ service, children }: ServiceFormProps) {
                 </FormItem>
               )}
             />
+            <FormField
+              // @ts-expect-error - react-hook-form type inference issue with zod preprocess
+              control={form.control}
+              name="min_age"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Minimum Age</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="No limit"
+                      value={field.value === null || field.value === undefined ? '' : field.value}
+                      onChange={(e) => field.onChange(e.target.value)}
+                      onBlur={field.onBlur}
+                      name={field.name}
+                      ref={field.ref}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Younger clients can only book this with a guardian on file.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             {/* @ts-ignore - react-hook-form type inference issue */}
             <FormField
               // @ts-ignore
@@ -219,6 +307,55 @@ export function ServiceForm({ service, children }: ServiceFormProps) {
                 </FormItem>
               )}
             />
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Aftercare Follow-ups</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFollowUps((rows) => [...rows, { offset_days: '', message: '' }])}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+              {followUps.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  No follow-ups. Add one to remind you about e.g. a downsize after 6 weeks.
+                </p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Use {'{client}'} and {'{service}'} in the message.
+                </p>
+              )}
+              {followUps.map((row, index) => (
+                <div key={row.id ?? `new-${index}`} className="flex items-start gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-20"
+                    placeholder="Days"
+                    value={row.offset_days}
+                    onChange={(e) => updateFollowUp(index, { offset_days: e.target.value })}
+                  />
+                  <Input
+                    className="flex-1"
+                    placeholder="Downsize check for {client}"
+                    value={row.message}
+                    onChange={(e) => updateFollowUp(index, { message: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setFollowUps((rows) => rows.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
             <DialogFooter>
               <Button
                 type="button"
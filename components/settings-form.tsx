@@ -24,9 +24,11 @@ import {
 } from '@/components/ui/select'
 import { Loader } from '@/components/ui/loader'
 import { createClient } from '@/lib/supabase/client'
+import type { CostMethod } from '@/lib/types'
 
 const settingsSchema = z.object({
   timezone: z.string().min(1, 'Timezone is required'),
+  cost_method: z.enum(['weighted_average', 'fifo']),
 })
 
 type SettingsFormValues = z.infer<typeof settingsSchema>
@@ -258,9 +260,10 @@ const timezones = getAllTimezones()
 
 interface SettingsFormProps {
   initialTimezone: string
+  initialCostMethod: CostMethod
 }
 
-export function SettingsForm({ initialTimezone }: SettingsFormProps) {
+export function SettingsForm({ initialTimezone, initialCostMethod }: SettingsFormProps) {
   const [loading, setLoading] = useState(false)
   const router = useRouter()
   const supabase = createClient()
@@ -269,6 +272,7 @@ export function SettingsForm({ initialTimezone }: SettingsFormProps) {
     resolver: zodResolver(settingsSchema),
     defaultValues: {
       timezone: initialTimezone,
+      cost_method: initialCostMethod,
     },
   })
 
@@ -288,6 +292,7 @@ export function SettingsForm({ initialTimezone }: SettingsFormProps) {
         .upsert({
           user_id: user.id,
           timezone: values.timezone,
+          cost_method: values.cost_method,
           updated_at: new Date().toISOString(),
         }, {
           onConflict: 'user_id',
@@ -336,6 +341,31 @@ export function SettingsForm({ initialTimezone }: SettingsFormProps) {
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="cost_method"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Product costing</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger className="w-full sm:w-[400px]">
+                    <SelectValue placeholder="Select costing method" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="weighted_average">Weighted average</SelectItem>
+                  <SelectItem value="fifo">FIFO (first in, first out)</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                How product costs are updated when a purchase order is received.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <Button type="submit" disabled={loading}>
           {loading ? (
             <>
@@ -6,14 +6,20 @@ import { usePathname } from 'next/navigation'
 import { cn } from '@/lib/utils'
 import { 
   Users, 
+  Bell,
   Calendar, 
+  FileText,
   Gem, 
+  Gift,
   Scissors, 
   LayoutDashboard,
   Menu,
   Plus,
   Receipt,
-  Settings
+  Settings,
+  Tag,
+  Truck,
+  Wallet
 } from 'lucide-react'
 import { createClient } from '@/lib/supabase/client'
 import { LogoutButton } from '@/components/auth/logout-button'
@@ -26,9 +32,15 @@ const navigation = [
   { name: 'Dashboard', href: '/', icon: LayoutDashboard },
   { name: 'Clients', href: '/clients', icon: Users },
   { name: 'Bookings', href: '/bookings', icon: Calendar },
+  { name: 'Reminders', href: '/reminders', icon: Bell },
   { name: 'Products', href: '/products', icon: Gem },
+  { name: 'Purchase Orders', href: '/purchase-orders', icon: Truck },
   { name: 'Services', href: '/services', icon: Scissors },
+  { name: 'Promotions', href: '/promotions', icon: Tag },
   { name: 'Additional Costs', href: '/additional-costs', icon: Receipt },
+  { name: 'Cash Drawer', href: '/cash', icon: Wallet },
+  { name: 'Gift Vouchers', href: '/vouchers', icon: Gift },
+  { name: 'Tax Report', href: '/tax-report', icon: FileText },
   { name: 'Settings', href: '/settings', icon: Settings },
 ]
 
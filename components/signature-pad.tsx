@@ -0,0 +1,102 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Eraser } from 'lucide-react'
+
+interface SignaturePadProps {
+  /** PNG data URL after each stroke, null once cleared. */
+  onChange: (signature: string | null) => void
+  disabled?: boolean
+}
+
+export function SignaturePad({ onChange, disabled }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const drawingRef = useRef(false)
+  const hasInkRef = useRef(false)
+
+  // Match the backing store to the rendered size so strokes are not blurry
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const ratio = window.devicePixelRatio || 1
+    const rect = canvas.getBoundingClientRect()
+    canvas.width = rect.width * ratio
+    canvas.height = rect.height * ratio
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+    ctx.scale(ratio, ratio)
+    ctx.lineWidth = 2
+    ctx.lineCap = 'round'
+    ctx.lineJoin = 'round'
+    ctx.strokeStyle = '#111827'
+  }, [])
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return
+    const ctx = e.currentTarget.getContext('2d')
+    if (!ctx) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    drawingRef.current = true
+    const { x, y } = getPoint(e)
+    ctx.beginPath()
+    ctx.moveTo(x, y)
+    // A single tap still leaves a dot
+    ctx.lineTo(x + 0.1, y + 0.1)
+    ctx.stroke()
+    hasInkRef.current = true
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return
+    const ctx = e.currentTarget.getContext('2d')
+    if (!ctx) return
+    const { x, y } = getPoint(e)
+    ctx.lineTo(x, y)
+    ctx.stroke()
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return
+    drawingRef.current = false
+    if (hasInkRef.current) {
+      onChange(e.currentTarget.toDataURL('image/png'))
+    }
+  }
+
+  const handleClear = () => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx) return
+    ctx.save()
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+    ctx.restore()
+    hasInkRef.current = false
+    onChange(null)
+  }
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        className="w-full h-40 border rounded-lg bg-white touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+      <div className="flex justify-end">
+        <Button type="button" variant="ghost" size="sm" onClick={handleClear} disabled={disabled}>
+          <Eraser className="h-4 w-4 mr-1" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -10,6 +10,8 @@ import { Checkbox } from '@/components/ui/checkbox'
 import { SortableTableHeader, SortDirection } from '@/components/sortable-table-header'
 import { ProductForm } from '@/components/product-form'
 import { DeleteProductButton } from '@/components/delete-product-button'
+import { StockMovementForm } from '@/components/stock-movement-form'
+import { ProductThumbnail } from '@/components/product-thumbnail'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -21,7 +23,10 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
 import { createClient } from '@/lib/supabase/client'
-import type { Product } from '@/lib/types'
+import { getOnHandQty, isLowStock } from '@/lib/products/stock'
+import { formatProductVariant } from '@/lib/products/variants'
+import { JEWELLERY_MATERIAL_LABELS, formatMillimetres } from '@/lib/products/attributes'
+import type { JewelleryMaterial, Product } from '@/lib/types'
 import { Trash2, ToggleLeft, ToggleRight, Search, X, Star } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Input } from '@/components/ui/input'
@@ -47,6 +52,10 @@ export function SortableProductsTable({ products }: SortableProductsTableProps)
   const [searchQuery, setSearchQuery] = useState('')
   const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'inactive'>('active')
   const [categoryFilter, setCategoryFilter] = useState<string>('all')
+  const [stockFilter, setStockFilter] = useState<'all' | 'low'>('all')
+  const [materialFilter, setMaterialFilter] = useState<JewelleryMaterial | 'all'>('all')
+  const [gaugeFilter, setGaugeFilter] = useState<string>('all')
+  const [lengthFilter, setLengthFilter] = useState<string>('all')
   const router = useRouter()
   const supabase = createClient()
 
@@ -59,15 +68,27 @@ export function SortableProductsTable({ products }: SortableProductsTableProps)
     return Array.from(cats).sort()
   }, [products])
 
+  // Sizes in stock, smallest first
+  const { gauges, lengths } = useMemo(() => {
+    const distinct = (values: Array<number | null | undefined>) =>
+      Array.from(new Set(values.filter((v): v is number => v !== null && v !== undefined).map(Number)))
+        .sort((a, b) => a - b)
+    return {
+      gauges: distinct(products.map(p => p.gauge)),
+      lengths: distinct(products.map(p => p.length)),
+    }
+  }, [products])
+
   // Filter products
   const filteredProducts = useMemo(() => {
     return products.filter(product => {
-      // Search filter (name or SKU)
+      // Search filter (name, SKU or category)
       if (searchQuery.trim()) {
         const query = searchQuery.toLowerCase()
         const matchesName = product.name.toLowerCase().includes(query)
         const matchesSku = product.sku?.toLowerCase().includes(query) || false
-        if (!matchesName && !matchesSku) return false
+        const matchesCategory = product.category?.toLowerCase().includes(query) || false
+        if (!matchesName && !matchesSku && !matchesCategory) return false
       }
 
       // Status filter
@@ -79,9 +100,17 @@ export function SortableProductsTable({ products }: SortableProductsTableProps)
         if (product.category !== categoryFilter) return false
       }
 
+      // Stock filter
+      if (stockFilter === 'low' && !isLowStock(product)) return false
+
+      // Jewellery attribute filters
+      if (materialFilter !== 'all' && product.material !== materialFilter) return false
+      if (gaugeFilter !== 'all' && Number(product.gauge) !== Number(gaugeFilter)) return false
+      if (lengthFilter !== 'all' && Number(product.length) !== Number(lengthFilter)) return false
+
       return true
     })
-  }, [products, searchQuery, statusFilter, categoryFilter])
+  }, [products, searchQuery, statusFilter, categoryFilter, stockFilter, materialFilter, gaugeFilter, lengthFilter])
 
   const handleSort = (key: string) => {
     if (sortKey === key) {
@@ -125,12 +154,23 @@ export function SortableProductsTable({ products }: SortableProductsTableProps)
     })
   }, [filteredProducts, sortKey, sortDirection])
 
-  const hasActiveFilters = searchQuery.trim() !== '' || statusFilter !== 'active' || categoryFilter !== 'all'
+  const hasActiveFilters =
+    searchQuery.trim() !== '' ||
+    statusFilter !== 'active' ||
+    categoryFilter !== 'all' ||
+    stockFilter !== 'all' ||
+    materialFilter !== 'all' ||
+    gaugeFilter !== 'all' ||
+    lengthFilter !== 'all'
 
   const clearFilters = () => {
     setSearchQuery('')
     setStatusFilter('active')
     setCategoryFilter('all')
+    setStockFilter('all')
+    setMaterialFilter('all')
+    setGaugeFilter('all')
+    setLengthFilter('all')
   }
 
   const handleSelectAll = (checked: boolean) => {
@@ -233,7 +273,7 @@ export function SortableProductsTable({ products }: SortableProductsTableProps)
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
                 id="search"
-                placeholder="Search by name or SKU..."
+                placeholder="Search by name, SKU or category..."
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="pl-9"
@@ -284,6 +324,77 @@ export function SortableProductsTable({ products }: SortableProductsTableProps)
             </Select>
           </div>
 
+          {/* Stock Filter */}
+          <div className="w-full sm:w-48">
+            <Label htmlFor="stock-filter" className="sr-only">Stock</Label>
+            <Select value={stockFilter} onValueChange={(value: 'all' | 'low') => setStockFilter(value)}>
+              <SelectTrigger id="stock-filter">
+                <SelectValue placeholder="Stock" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Stock</SelectItem>
+                <SelectItem value="low">Low Stock</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4">
+          {/* Material Filter */}
+          <div className="w-full sm:w-56">
+            <Label htmlFor="material-filter" className="sr-only">Material</Label>
+            <Select value={materialFilter} onValueChange={(value: JewelleryMaterial | 'all') => setMaterialFilter(value)}>
+              <SelectTrigger id="material-filter">
+                <SelectValue placeholder="Material" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Materials</SelectItem>
+                {(Object.keys(JEWELLERY_MATERIAL_LABELS) as JewelleryMaterial[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {JEWELLERY_MATERIAL_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Gauge Filter */}
+          <div className="w-full sm:w-40">
+            <Label htmlFor="gauge-filter" className="sr-only">Gauge</Label>
+            <Select value={gaugeFilter} onValueChange={setGaugeFilter}>
+              <SelectTrigger id="gauge-filter">
+                <SelectValue placeholder="Gauge" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Gauges</SelectItem>
+                {gauges.map((gauge) => (
+                  <SelectItem key={gauge} value={String(gauge)}>
+                    {formatMillimetres(gauge)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Length Filter */}
+          <div className="w-full sm:w-40">
+            <Label htmlFor="length-filter" className="sr-only">Length</Label>
+            <Select value={lengthFilter} onValueChange={setLengthFilter}>
+              <SelectTrigger id="length-filter">
+                <SelectValue placeholder="Length" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Lengths</SelectItem>
+                {lengths.map((length) => (
+                  <SelectItem key={length} value={String(length)}>
+                    {formatMillimetres(length)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Clear Filters */}
           {hasActiveFilters && (
             <Button
@@ -354,8 +465,12 @@ export function SortableProductsTable({ products }: SortableProductsTableProps)
               <CardContent className="pt-4">
                 <div className="space-y-3">
                   <div className="flex items-start justify-between">
+                    <ProductThumbnail product={product} className="h-14 w-14 mr-3" />
                     <div className="flex-1">
                       <h3 className="font-semibold text-lg">{product.name}</h3>
+                      {formatProductVariant(product) && (
+                        <p className="text-sm text-muted-foreground">{formatProductVariant(product)}</p>
+                      )}
                       {product.sku && (
                         <p className="text-sm text-muted-foreground">SKU: {product.sku}</p>
                       )}
@@ -392,6 +507,15 @@ export function SortableProductsTable({ products }: SortableProductsTableProps)
                       <span className="text-muted-foreground">Sale Price:</span>
                       <span>${product.sale_price.toFixed(2)}</span>
                     </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">On Hand:</span>
+                      <span className={cn(isLowStock(product) && "font-medium text-destructive")}>
+                        {getOnHandQty(product)}
+                        {product.reorder_point !== null && product.reorder_point !== undefined && (
+                          <span className="text-muted-foreground font-normal"> / {product.reorder_point}</span>
+                        )}
+                      </span>
+                    </div>
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Sold:</span>
                       <span>{product.sold_qty}</span>
@@ -404,6 +528,9 @@ export function SortableProductsTable({ products }: SortableProductsTableProps)
                     </div>
                   </div>
                   <div className="flex gap-2 pt-2">
+                    <StockMovementForm product={product}>
+                      <Button variant="outline" size="sm" className="flex-1">Stock</Button>
+                    </StockMovementForm>
                     <ProductForm product={product}>
                       <Button variant="outline" size="sm" className="flex-1">Edit</Button>
                     </ProductForm>
@@ -467,6 +594,14 @@ export function SortableProductsTable({ products }: SortableProductsTableProps)
               >
                 Sale Price
               </SortableTableHeader>
+              <SortableTableHeader
+                sortKey="on_hand_qty"
+                currentSortKey={sortKey}
+                sortDirection={sortDirection}
+                onSort={handleSort}
+              >
+                On Hand
+              </SortableTableHeader>
               <SortableTableHeader
                 sortKey="sold_qty"
                 currentSortKey={sortKey}
@@ -514,10 +649,30 @@ export function SortableProductsTable({ products }: SortableProductsTableProps)
                     </Button>
                   </TableCell>
                   <TableCell>{product.sku || '-'}</TableCell>
-                  <TableCell className="font-medium">{product.name}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-3">
+                      <ProductThumbnail product={product} />
+                      <div>
+                        <div className="font-medium">{product.name}</div>
+                        {formatProductVariant(product) && (
+                          <div className="text-xs text-muted-foreground">{formatProductVariant(product)}</div>
+                        )}
+                      </div>
+                    </div>
+                  </TableCell>
                   <TableCell>{product.category || '-'}</TableCell>
                   <TableCell className="text-sm">{costDisplay}</TableCell>
                   <TableCell>${product.sale_price.toFixed(2)}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className={cn(isLowStock(product) && "font-medium text-destructive")}>
+                        {getOnHandQty(product)}
+                      </span>
+                      {isLowStock(product) && (
+                        <Badge variant="destructive">Low</Badge>
+                      )}
+                    </div>
+                  </TableCell>
                   <TableCell>{product.sold_qty}</TableCell>
                   <TableCell>
                     <Badge variant={product.active ? 'default' : 'secondary'}>
@@ -526,6 +681,9 @@ export function SortableProductsTable({ products }: SortableProductsTableProps)
                   </TableCell>
                   <TableCell className="text-right">
                     <div className="flex items-center justify-end gap-2">
+                      <StockMovementForm product={product}>
+                        <Button variant="ghost" size="sm">Stock</Button>
+                      </StockMovementForm>
                       <ProductForm product={product}>
                         <Button variant="ghost" size="sm">Edit</Button>
                       </ProductForm>
@@ -0,0 +1,194 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader } from '@/components/ui/loader'
+import { createClient } from '@/lib/supabase/client'
+import { adjustmentQtyForCount, getOnHandQty } from '@/lib/products/stock'
+import { cn } from '@/lib/utils'
+import type { Product } from '@/lib/types'
+
+type StockEntryMode = 'receipt' | 'adjustment'
+
+interface StockMovementFormProps {
+  product: Product
+  children: React.ReactNode
+}
+
+export function StockMovementForm({ product, children }: StockMovementFormProps) {
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [mode, setMode] = useState<StockEntryMode>('receipt')
+  const [qty, setQty] = useState('')
+  const [unitCost, setUnitCost] = useState('')
+  const [note, setNote] = useState('')
+  const router = useRouter()
+  const supabase = createClient()
+
+  const onHand = getOnHandQty(product)
+
+  useEffect(() => {
+    if (open) {
+      setMode('receipt')
+      setQty('')
+      setUnitCost(product.cost !== null && product.cost !== undefined ? String(product.cost) : '')
+      setNote('')
+    }
+  }, [open, product.cost])
+
+  const parsedQty = parseInt(qty, 10)
+  // Receipts add the entered qty; a stock count stores the difference to the ledger
+  const movementQty = isNaN(parsedQty)
+    ? 0
+    : mode === 'receipt'
+      ? parsedQty
+      : adjustmentQtyForCount(product, parsedQty)
+  const isValid = !isNaN(parsedQty) && (mode === 'receipt' ? parsedQty > 0 : parsedQty >= 0 && movementQty !== 0)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isValid) return
+
+    setLoading(true)
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        throw new Error('You must be logged in to record stock')
+      }
+
+      const parsedCost = parseFloat(unitCost)
+      const { error } = await supabase
+        .from('stock_movements')
+        // @ts-expect-error - Supabase types issue
+        .insert([{
+          user_id: user.id,
+          product_id: product.id,
+          type: mode,
+          qty: movementQty,
+          unit_cost: mode === 'receipt' && !isNaN(parsedCost) ? parsedCost : null,
+          note: note.trim() || null,
+        }])
+      if (error) throw error
+
+      setOpen(false)
+      router.refresh()
+    } catch (error) {
+      console.error('Error recording stock movement:', error)
+      alert(error instanceof Error ? error.message : 'Failed to record stock movement')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Update Stock</DialogTitle>
+          <DialogDescription>
+            {product.name}{product.sku ? ` (${product.sku})` : ''} — {onHand} on hand
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              type="button"
+              variant={mode === 'receipt' ? 'default' : 'outline'}
+              onClick={() => setMode('receipt')}
+            >
+              Receipt
+            </Button>
+            <Button
+              type="button"
+              variant={mode === 'adjustment' ? 'default' : 'outline'}
+              onClick={() => setMode('adjustment')}
+            >
+              Stock Count
+            </Button>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="stock-qty">
+              {mode === 'receipt' ? 'Quantity received' : 'Counted quantity'}
+            </Label>
+            <Input
+              id="stock-qty"
+              type="number"
+              min={mode === 'receipt' ? 1 : 0}
+              value={qty}
+              onChange={(e) => setQty(e.target.value)}
+            />
+            {mode === 'adjustment' && !isNaN(parsedQty) && (
+              <p
+                className={cn(
+                  'text-sm',
+                  movementQty < 0 ? 'text-destructive' : 'text-muted-foreground'
+                )}
+              >
+                {movementQty === 0
+                  ? 'Matches the ledger, nothing to adjust'
+                  : `Adjustment: ${movementQty > 0 ? '+' : ''}${movementQty}`}
+              </p>
+            )}
+          </div>
+          {mode === 'receipt' && (
+            <div className="space-y-2">
+              <Label htmlFor="stock-unit-cost">Unit cost</Label>
+              <Input
+                id="stock-unit-cost"
+                type="number"
+                step="0.01"
+                min={0}
+                value={unitCost}
+                onChange={(e) => setUnitCost(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="stock-note">Note</Label>
+            <Textarea
+              id="stock-note"
+              rows={2}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={mode === 'receipt' ? 'Supplier, invoice…' : 'Reason for the correction'}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !isValid}>
+              {loading ? (
+                <>
+                  <Loader size="sm" className="mr-2" />
+                  Saving...
+                </>
+              ) : (
+                'Save'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,129 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatPln } from '@/lib/currency/format-currency'
+import { TAX_REPORT_METHOD_LABELS, isReconciled, type TaxReport } from '@/lib/analytics/tax-report'
+
+/** Report tables shared by the tax report page and its print view. */
+export function TaxReportTables({ report }: { report: TaxReport }) {
+  return (
+    <div className="space-y-8">
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold">Revenue by payment method</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Payment method</TableHead>
+              <TableHead className="text-right">Bookings</TableHead>
+              <TableHead className="text-right">Revenue</TableHead>
+              <TableHead className="text-right">Taxable revenue</TableHead>
+              <TableHead className="text-right">Tax</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.byPaymentMethod.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No completed bookings this month
+                </TableCell>
+              </TableRow>
+            )}
+            {report.byPaymentMethod.map((row) => (
+              <TableRow key={row.method}>
+                <TableCell>{TAX_REPORT_METHOD_LABELS[row.method]}</TableCell>
+                <TableCell className="text-right">{row.bookingCount}</TableCell>
+                <TableCell className="text-right">{formatPln(row.revenue)}</TableCell>
+                <TableCell className="text-right">{formatPln(row.taxableRevenue)}</TableCell>
+                <TableCell className="text-right">{formatPln(row.tax)}</TableCell>
+              </TableRow>
+            ))}
+            <TableRow className="font-semibold">
+              <TableCell>Total</TableCell>
+              <TableCell className="text-right">{report.totals.bookingCount}</TableCell>
+              <TableCell className="text-right">{formatPln(report.totals.revenue)}</TableCell>
+              <TableCell className="text-right">{formatPln(report.totals.taxableRevenue)}</TableCell>
+              <TableCell className="text-right">{formatPln(report.totals.tax)}</TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+        {report.taxRates.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Tax rate{report.taxRates.length === 1 ? '' : 's'} applied: {report.taxRates.map((rate) => `${rate}%`).join(', ')}
+          </p>
+        )}
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold">Deductible costs</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.costs.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">
+                  No additional costs this month
+                </TableCell>
+              </TableRow>
+            )}
+            {report.costs.map((cost, index) => (
+              <TableRow key={`${cost.date}-${index}`}>
+                <TableCell className="whitespace-nowrap">{cost.date}</TableCell>
+                <TableCell className="capitalize">{cost.type || 'other'}</TableCell>
+                <TableCell>{cost.description || ''}</TableCell>
+                <TableCell className="text-right">{formatPln(Number(cost.amount) || 0)}</TableCell>
+              </TableRow>
+            ))}
+            {report.costsByCategory.map((row) => (
+              <TableRow key={row.category} className="text-muted-foreground">
+                <TableCell colSpan={3} className="capitalize">Subtotal: {row.category}</TableCell>
+                <TableCell className="text-right">{formatPln(row.amount)}</TableCell>
+              </TableRow>
+            ))}
+            <TableRow className="font-semibold">
+              <TableCell colSpan={3}>Total deductible costs</TableCell>
+              <TableCell className="text-right">{formatPln(report.totals.deductibleCosts)}</TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold">Reconciliation with dashboard</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Figure</TableHead>
+              <TableHead className="text-right">Report</TableHead>
+              <TableHead className="text-right">Dashboard</TableHead>
+              <TableHead className="text-right">Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.reconciliation.map((row) => (
+              <TableRow key={row.label}>
+                <TableCell>{row.label}</TableCell>
+                <TableCell className="text-right">{row.isCount ? row.report : formatPln(row.report)}</TableCell>
+                <TableCell className="text-right">{row.isCount ? row.dashboard : formatPln(row.dashboard)}</TableCell>
+                <TableCell className={isReconciled(row) ? 'text-right' : 'text-right text-destructive font-medium'}>
+                  {isReconciled(row) ? 'OK' : 'Mismatch'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </section>
+    </div>
+  )
+}
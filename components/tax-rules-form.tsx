@@ -0,0 +1,177 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { format, parseISO } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Loader } from '@/components/ui/loader'
+import { Plus, Trash2 } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import type { PaymentMethod, TaxRule } from '@/lib/types'
+
+const PAYMENT_METHODS: Array<{ value: PaymentMethod; label: string }> = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'blik', label: 'BLIK' },
+  { value: 'card', label: 'Card' },
+  { value: 'voucher', label: 'Gift voucher' },
+]
+
+interface TaxRulesFormProps {
+  rules: TaxRule[]
+  today: string
+}
+
+export function TaxRulesForm({ rules, today }: TaxRulesFormProps) {
+  const [effectiveFrom, setEffectiveFrom] = useState(today)
+  const [rate, setRate] = useState('')
+  const [methods, setMethods] = useState<PaymentMethod[]>(['blik', 'card'])
+  const [saving, setSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const router = useRouter()
+  const supabase = createClient()
+
+  // Latest rule that has already started; later ones are scheduled
+  const currentRule = rules
+    .filter((rule) => rule.effective_from <= today)
+    .reduce<TaxRule | null>((latest, rule) => (!latest || rule.effective_from > latest.effective_from ? rule : latest), null)
+
+  const toggleMethod = (method: PaymentMethod, checked: boolean) => {
+    setMethods((prev) => (checked ? [...prev, method] : prev.filter((m) => m !== method)))
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const parsedRate = Number(rate.replace(',', '.'))
+    if (!effectiveFrom || rate === '' || Number.isNaN(parsedRate) || parsedRate < 0 || parsedRate > 100) {
+      alert('Enter a tax rate between 0 and 100')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        throw new Error('You must be logged in to save a tax rule')
+      }
+
+      const { error } = await supabase
+        .from('tax_rules')
+        // @ts-expect-error - Supabase types issue
+        .upsert(
+          [{ user_id: user.id, rate: parsedRate, payment_methods: methods, effective_from: effectiveFrom }],
+          { onConflict: 'user_id,effective_from' }
+        )
+      if (error) throw error
+
+      setRate('')
+      router.refresh()
+    } catch (error) {
+      console.error('Error saving tax rule:', error)
+      alert('Failed to save tax rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (rule: TaxRule) => {
+    if (!confirm(`Delete the ${rule.rate}% rule from ${rule.effective_from}? Existing bookings keep their rate.`)) return
+    setDeletingId(rule.id)
+    try {
+      const { error } = await supabase.from('tax_rules').delete().eq('id', rule.id)
+      if (error) throw error
+      router.refresh()
+    } catch (error) {
+      console.error('Error deleting tax rule:', error)
+      alert('Failed to delete tax rule')
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {rules.length === 0 && (
+          <p className="text-sm text-muted-foreground">No tax rules yet. Bookings are not taxed.</p>
+        )}
+        {[...rules].reverse().map((rule) => (
+          <div key={rule.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+            <div className="flex flex-wrap items-center gap-2 min-w-0">
+              <span className="font-medium">{rule.rate}%</span>
+              <span className="text-sm text-muted-foreground">
+                from {format(parseISO(rule.effective_from), 'MMM d, yyyy')}
+              </span>
+              <span className="text-sm text-muted-foreground">
+                ·{' '}
+                {rule.payment_methods.length > 0
+                  ? PAYMENT_METHODS.filter((m) => rule.payment_methods.includes(m.value)).map((m) => m.label).join(', ')
+                  : 'manual only'}
+              </span>
+              {rule.id === currentRule?.id && <Badge variant="secondary">Current</Badge>}
+              {rule.effective_from > today && <Badge variant="outline">Scheduled</Badge>}
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={deletingId === rule.id}
+              onClick={() => handleDelete(rule)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAdd} className="space-y-3 border-t pt-4">
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="tax-rule-from">Effective from</Label>
+            <Input
+              id="tax-rule-from"
+              type="date"
+              value={effectiveFrom}
+              onChange={(e) => setEffectiveFrom(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tax-rule-rate">Rate (%)</Label>
+            <Input
+              id="tax-rule-rate"
+              type="number"
+              step="0.01"
+              min="0"
+              max="100"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              placeholder="e.g., 8.5"
+              required
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Taxed by default for</Label>
+          <div className="flex flex-wrap gap-4">
+            {PAYMENT_METHODS.map((method) => (
+              <label key={method.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={methods.includes(method.value)}
+                  onCheckedChange={(checked) => toggleMethod(method.value, checked === true)}
+                />
+                {method.label}
+              </label>
+            ))}
+          </div>
+        </div>
+        <Button type="submit" variant="outline" size="sm" disabled={saving}>
+          {saving ? <Loader size="sm" className="mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+          Add Rule
+        </Button>
+      </form>
+    </div>
+  )
+}
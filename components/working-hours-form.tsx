@@ -0,0 +1,327 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Loader } from '@/components/ui/loader'
+import { Plus, Trash2 } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import { minutesToTime, timeToMinutes, type WorkingSchedule } from '@/lib/scheduling/availability'
+
+// Monday first, as the week is shown in the calendar
+const WEEKDAYS: Array<{ weekday: number; label: string }> = [
+  { weekday: 1, label: 'Monday' },
+  { weekday: 2, label: 'Tuesday' },
+  { weekday: 3, label: 'Wednesday' },
+  { weekday: 4, label: 'Thursday' },
+  { weekday: 5, label: 'Friday' },
+  { weekday: 6, label: 'Saturday' },
+  { weekday: 0, label: 'Sunday' },
+]
+
+interface BreakRow {
+  key: string
+  start: string
+  end: string
+}
+
+interface DayRow {
+  weekday: number
+  open: boolean
+  openTime: string
+  closeTime: string
+  breaks: BreakRow[]
+}
+
+interface DayOffRow {
+  key: string
+  date: string
+  note: string
+}
+
+interface WorkingHoursFormProps {
+  initialSchedule: WorkingSchedule
+}
+
+function toInputTime(time: string): string {
+  return minutesToTime(timeToMinutes(time))
+}
+
+function buildDayRows(schedule: WorkingSchedule): DayRow[] {
+  return WEEKDAYS.map(({ weekday }) => {
+    const hours = schedule.hours.find((h) => h.weekday === weekday)
+    return {
+      weekday,
+      open: Boolean(hours),
+      openTime: hours ? toInputTime(hours.open_time) : '10:00',
+      closeTime: hours ? toInputTime(hours.close_time) : '18:00',
+      breaks: schedule.breaks
+        .filter((b) => b.weekday === weekday)
+        .map((b) => ({ key: b.id, start: toInputTime(b.start_time), end: toInputTime(b.end_time) })),
+    }
+  })
+}
+
+/** Returns the first problem with the schedule, or null when it can be saved. */
+function validateDays(days: DayRow[]): string | null {
+  for (const day of days) {
+    if (!day.open) continue
+    const label = WEEKDAYS.find((w) => w.weekday === day.weekday)?.label
+    const open = timeToMinutes(day.openTime)
+    const close = timeToMinutes(day.closeTime)
+    if (close <= open) {
+      return `${label}: closing time must be after opening time`
+    }
+    for (const row of day.breaks) {
+      const start = timeToMinutes(row.start)
+      const end = timeToMinutes(row.end)
+      if (end <= start || start < open || end > close) {
+        return `${label}: breaks must end after they start and fit inside working hours`
+      }
+    }
+  }
+  return null
+}
+
+export function WorkingHoursForm({ initialSchedule }: WorkingHoursFormProps) {
+  const [days, setDays] = useState<DayRow[]>(() => buildDayRows(initialSchedule))
+  const [daysOff, setDaysOff] = useState<DayOffRow[]>(() =>
+    initialSchedule.daysOff.map((d) => ({ key: d.id, date: d.date, note: d.note || '' }))
+  )
+  const [loading, setLoading] = useState(false)
+  const router = useRouter()
+  const supabase = createClient()
+
+  const updateDay = (weekday: number, patch: Partial<DayRow>) => {
+    setDays((prev) => prev.map((day) => (day.weekday === weekday ? { ...day, ...patch } : day)))
+  }
+
+  const updateBreak = (weekday: number, key: string, patch: Partial<BreakRow>) => {
+    setDays((prev) =>
+      prev.map((day) =>
+        day.weekday === weekday
+          ? { ...day, breaks: day.breaks.map((b) => (b.key === key ? { ...b, ...patch } : b)) }
+          : day
+      )
+    )
+  }
+
+  const handleSave = async () => {
+    const problem = validateDays(days)
+    if (problem) {
+      alert(problem)
+      return
+    }
+
+    setLoading(true)
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        throw new Error('You must be logged in to update working hours')
+      }
+
+      // Replace the whole schedule, like booking line items
+      for (const table of ['working_hours', 'working_breaks', 'days_off']) {
+        const { error } = await supabase.from(table).delete().eq('user_id', user.id)
+        if (error) throw error
+      }
+
+      const openDays = days.filter((day) => day.open)
+      if (openDays.length > 0) {
+        const { error } = await supabase
+          .from('working_hours')
+          // @ts-expect-error - Supabase types issue
+          .insert(openDays.map((day) => ({
+            user_id: user.id,
+            weekday: day.weekday,
+            open_time: day.openTime,
+            close_time: day.closeTime,
+          })))
+        if (error) throw error
+      }
+
+      const breaks = openDays.flatMap((day) =>
+        day.breaks.map((b) => ({
+          user_id: user.id,
+          weekday: day.weekday,
+          start_time: b.start,
+          end_time: b.end,
+        }))
+      )
+      if (breaks.length > 0) {
+        const { error } = await supabase
+          .from('working_breaks')
+          // @ts-expect-error - Supabase types issue
+          .insert(breaks)
+        if (error) throw error
+      }
+
+      // One row per date; the last entry for a duplicated date wins
+      const uniqueDaysOff = new Map(
+        daysOff.filter((d) => d.date).map((d) => [d.date, d])
+      )
+      if (uniqueDaysOff.size > 0) {
+        const { error } = await supabase
+          .from('days_off')
+          // @ts-expect-error - Supabase types issue
+          .insert(Array.from(uniqueDaysOff.values()).map((d) => ({
+            user_id: user.id,
+            date: d.date,
+            note: d.note.trim() || null,
+          })))
+        if (error) throw error
+      }
+
+      alert('Working hours updated successfully!')
+      router.refresh()
+    } catch (error) {
+      console.error('Error updating working hours:', error)
+      alert(error instanceof Error ? error.message : 'Failed to update working hours')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        {days.map((day) => {
+          const label = WEEKDAYS.find((w) => w.weekday === day.weekday)?.label
+          return (
+            <div key={day.weekday} className="p-3 border rounded-lg space-y-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="flex items-center gap-3 w-36">
+                  <Switch
+                    checked={day.open}
+                    onCheckedChange={(checked) => updateDay(day.weekday, { open: checked })}
+                  />
+                  <span className="text-sm font-medium">{label}</span>
+                </div>
+                {day.open ? (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      value={day.openTime}
+                      onChange={(e) => updateDay(day.weekday, { openTime: e.target.value })}
+                      className="h-9 w-28"
+                    />
+                    <span className="text-sm text-muted-foreground">–</span>
+                    <Input
+                      type="time"
+                      value={day.closeTime}
+                      onChange={(e) => updateDay(day.weekday, { closeTime: e.target.value })}
+                      className="h-9 w-28"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        updateDay(day.weekday, {
+                          breaks: [...day.breaks, { key: crypto.randomUUID(), start: '13:00', end: '14:00' }],
+                        })
+                      }
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Break
+                    </Button>
+                  </div>
+                ) : (
+                  <span className="text-sm text-muted-foreground">Closed</span>
+                )}
+              </div>
+              {day.open && day.breaks.map((row) => (
+                <div key={row.key} className="flex items-center gap-2 sm:pl-36">
+                  <span className="text-xs text-muted-foreground w-10">Break</span>
+                  <Input
+                    type="time"
+                    value={row.start}
+                    onChange={(e) => updateBreak(day.weekday, row.key, { start: e.target.value })}
+                    className="h-9 w-28"
+                  />
+                  <span className="text-sm text-muted-foreground">–</span>
+                  <Input
+                    type="time"
+                    value={row.end}
+                    onChange={(e) => updateBreak(day.weekday, row.key, { end: e.target.value })}
+                    className="h-9 w-28"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() =>
+                      updateDay(day.weekday, { breaks: day.breaks.filter((b) => b.key !== row.key) })
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Days off</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setDaysOff((prev) => [...prev, { key: crypto.randomUUID(), date: '', note: '' }])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Day Off
+          </Button>
+        </div>
+        {daysOff.length === 0 && (
+          <p className="text-sm text-muted-foreground">No days off planned.</p>
+        )}
+        {daysOff.map((row) => (
+          <div key={row.key} className="flex items-center gap-2">
+            <Input
+              type="date"
+              value={row.date}
+              onChange={(e) =>
+                setDaysOff((prev) => prev.map((d) => (d.key === row.key ? { ...d, date: e.target.value } : d)))
+              }
+              className="h-9 w-40"
+            />
+            <Input
+              value={row.note}
+              placeholder="Holiday, vacation…"
+              onChange={(e) =>
+                setDaysOff((prev) => prev.map((d) => (d.key === row.key ? { ...d, note: e.target.value } : d)))
+              }
+              className="h-9"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => setDaysOff((prev) => prev.filter((d) => d.key !== row.key))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <Button type="button" onClick={handleSave} disabled={loading}>
+        {loading ? (
+          <>
+            <Loader size="sm" className="mr-2" />
+            Saving...
+          </>
+        ) : (
+          'Save Working Hours'
+        )}
+      </Button>
+    </div>
+  )
+}
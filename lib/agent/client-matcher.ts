@@ -0,0 +1,124 @@
+import type { ParsedClient, ResolvedClient } from '@/lib/agent/schemas'
+import { nameSimilarity, normalizeName } from '@/lib/clients/duplicates'
+import { normalizeInstagramHandle } from '@/lib/clients/instagram'
+import { normalizePhone } from '@/lib/clients/phone'
+
+export interface CatalogClient {
+  id: string
+  name: string
+  phone: string | null
+  instagram: string | null
+}
+
+/** Existing client offered for a booking, shown when editing the draft */
+export interface ClientCandidate {
+  client_id: string
+  name: string
+  phone: string | null
+}
+
+// A name this similar is attached without asking, if no other client comes close
+const AUTO_MATCH_SIMILARITY = 0.85
+// A first name alone ("Anna" → "Anna Nowak") is only offered, never attached
+const FIRST_NAME_SCORE = 0.75
+const CANDIDATE_SIMILARITY = 0.5
+const MAX_CLIENT_CANDIDATES = 4
+
+const INSTAGRAM_PATTERN = /(?:^|\s)@([A-Za-z0-9._]{1,30})/
+// "+48 600 100 200", "600-100-200" or "600100200"; prices never look like this
+const PHONE_PATTERN = /(?:\+|00)\d[\d -]{7,14}\d|\b\d{3}-\d{3}-\d{3}\b|\b\d{9}\b/
+
+function clientNameScore(hint: string, name: string): number {
+  const hintWords = normalizeName(hint).split(' ').filter(Boolean)
+  const nameWords = normalizeName(name).split(' ')
+  const similarity = nameSimilarity(hint, name)
+  const byWords =
+    hintWords.length > 0 &&
+    hintWords.every((word) => nameWords.some((n) => n.startsWith(word)))
+  return byWords ? Math.max(similarity, FIRST_NAME_SCORE) : similarity
+}
+
+function toCandidate(client: CatalogClient): ClientCandidate {
+  return { client_id: client.id, name: client.name, phone: client.phone }
+}
+
+/** Phone or @handle written in the booking block, for when the model missed them */
+export function mergeClientHint(
+  parsed: ParsedClient | undefined,
+  blockText: string
+): ParsedClient | undefined {
+  const hint: ParsedClient = {
+    name: parsed?.name,
+    phone: parsed?.phone ?? blockText.match(PHONE_PATTERN)?.[0],
+    instagram: parsed?.instagram ?? blockText.match(INSTAGRAM_PATTERN)?.[1],
+  }
+  return hint.name || hint.phone || hint.instagram ? hint : undefined
+}
+
+/** Drops client details from the block so phone digits are not read as prices */
+export function stripClientDetails(blockText: string, client?: ParsedClient): string {
+  const phone = normalizePhone(client?.phone)?.slice(-9)
+  return blockText
+    .split('\n')
+    .filter((line) => !phone || !line.replace(/\D/g, '').includes(phone))
+    .map((line) =>
+      line
+        .replace(new RegExp(PHONE_PATTERN.source, 'g'), ' ')
+        .replace(new RegExp(INSTAGRAM_PATTERN.source, 'g'), ' ')
+    )
+    .join('\n')
+}
+
+/** Name for a client created from the message */
+export function newClientName(client: ParsedClient): string {
+  const instagram = normalizeInstagramHandle(client.instagram)
+  return client.name ?? (instagram ? `@${instagram}` : client.phone ?? 'Клиент')
+}
+
+export function matchClient(clients: CatalogClient[], hint: ParsedClient): ResolvedClient {
+  const phone = normalizePhone(hint.phone)
+  const instagram = normalizeInstagramHandle(hint.instagram)
+
+  const exact = clients.find(
+    (c) =>
+      (phone !== null && normalizePhone(c.phone) === phone) ||
+      (instagram !== null && c.instagram === instagram)
+  )
+  if (exact) {
+    return {
+      ...hint,
+      client_id: exact.id,
+      resolved_name: exact.name,
+      match_confidence: 'high',
+      candidates: [toCandidate(exact)],
+    }
+  }
+
+  const scored = hint.name
+    ? clients
+        .map((c) => ({ c, score: clientNameScore(hint.name!, c.name) }))
+        .filter((x) => x.score >= CANDIDATE_SIMILARITY)
+        .sort((a, b) => b.score - a.score)
+    : []
+  const candidates = scored.slice(0, MAX_CLIENT_CANDIDATES).map((x) => toCandidate(x.c))
+
+  const best = scored[0]
+  const runnerUp = scored[1]?.score ?? 0
+  // A different phone on file means a namesake, not the same person
+  const phoneConflict = phone !== null && best?.c.phone && normalizePhone(best.c.phone) !== phone
+  if (best && best.score >= AUTO_MATCH_SIMILARITY && runnerUp < AUTO_MATCH_SIMILARITY && !phoneConflict) {
+    return {
+      ...hint,
+      client_id: best.c.id,
+      resolved_name: best.c.name,
+      match_confidence: 'high',
+      candidates,
+    }
+  }
+
+  return {
+    ...hint,
+    match_confidence: candidates.length > 0 ? 'low' : 'none',
+    candidates,
+  }
+}
@@ -0,0 +1,134 @@
+import { resolveBookingDateString } from '@/lib/agent/booking-date'
+import { addDaysToCalendarDate, getTodayInTimezone } from '@/lib/date-utils'
+import type { DirectPaymentMethod } from '@/lib/types'
+
+/** One additional cost from a chat line such as "-120 аренда" or "расход 45 такси" */
+export interface ParsedExpense {
+  type: string
+  amount: number
+  date: string // YYYY-MM-DD
+  description?: string
+  payment_method: DirectPaymentMethod | null
+}
+
+const FALLBACK_CATEGORY = 'other'
+
+// JS \b only knows Latin letters, so keywords end with a lookahead instead
+const EXPENSE_KEYWORD = /^(?:расходы?|траты?|затраты?|wydatki?|koszty?|expense)(?=[\s:]|$)[:\s]*/i
+const EXPENSE_KEYWORD_LINE = /^(?:расходы?|траты?|затраты?|wydatki?|koszty?|expense)(?=[\s:]|$)/i
+
+const AMOUNT_TOKEN = /^\d+(?:[.,]\d{1,2})?$/
+const DATE_TOKEN = /^\d{1,2}\.\d{1,2}(?:\.\d{2,4})?$/
+const CURRENCY_TOKEN = /^(?:zł|zl|pln|зл|злотых|злотый)$/i
+
+const PAYMENT_METHOD_WORDS: Array<[DirectPaymentMethod, RegExp]> = [
+  ['cash', /^(?:налич|нал$|кэш|cash|gotówk|gotowk)/i],
+  ['card', /^(?:карт|card|kart)/i],
+  ['blik', /^(?:блик|blik)/i],
+]
+
+/** Words that point to the default categories when the user has no own category for them */
+const CATEGORY_WORDS: Record<string, RegExp> = {
+  rent: /^(?:аренд|czynsz|najem|rent)/i,
+  ads: /^(?:реклам|таргет|reklam|ads?$|promo)/i,
+  print: /^(?:печат|распечат|визитк|druk|ulotk|print)/i,
+  consumables: /^(?:расходник|материал|перчатк|салфетк|антисептик|игл|rękawiczk|materiał|consumable)/i,
+}
+
+/**
+ * "-120 аренда": the minus is written on the amount and no other number
+ * follows (dates aside). A bulleted sale line such as "- 2 серьги 150 blik"
+ * has a space after the minus or a second number and stays a sale.
+ */
+function isMinusAmountLine(line: string): boolean {
+  if (!/^-\d/.test(line)) return false
+  const [amount, ...rest] = line.slice(1).split(/\s+/)
+  return AMOUNT_TOKEN.test(amount) && !rest.some((token) => /\d/.test(token) && !DATE_TOKEN.test(token))
+}
+
+/** All non-empty lines are a minus amount or start with an expense keyword */
+export function isExpenseMessage(text: string): boolean {
+  const lines = text.split('\n').map((l) => l.trim()).filter(Boolean)
+  return lines.length > 0 && lines.every((line) => EXPENSE_KEYWORD_LINE.test(line) || isMinusAmountLine(line))
+}
+
+function parseDateToken(token: string, timezone: string): string | undefined {
+  const today = getTodayInTimezone(timezone)
+  if (/^(?:сегодня|dziś|dzis|today)$/i.test(token)) return today
+  if (/^(?:вчера|wczoraj|yesterday)$/i.test(token)) return addDaysToCalendarDate(today, -1)
+  return DATE_TOKEN.test(token) ? resolveBookingDateString(token, timezone) : undefined
+}
+
+/**
+ * The user's own category named in the words wins ("такси" → "такси"),
+ * then the default category the words point to, then "other".
+ */
+export function matchCostCategory(words: string[], categories: string[]): string {
+  const phrase = ` ${words.join(' ').toLowerCase()} `
+  const own = categories.find((category) => phrase.includes(` ${category.toLowerCase()} `))
+  if (own) return own
+
+  for (const [category, pattern] of Object.entries(CATEGORY_WORDS)) {
+    if (words.some((w) => pattern.test(w))) return category
+  }
+  return FALLBACK_CATEGORY
+}
+
+function parseExpenseLine(
+  line: string,
+  categories: string[],
+  timezone: string
+): ParsedExpense | null {
+  const rest = line.trim().replace(EXPENSE_KEYWORD, '').replace(/^-\s*/, '')
+
+  let amount: number | undefined
+  let date: string | undefined
+  let paymentMethod: DirectPaymentMethod | null = null
+  const words: string[] = []
+
+  for (const token of rest.split(/\s+/).filter(Boolean)) {
+    if (amount === undefined && AMOUNT_TOKEN.test(token)) {
+      amount = Number(token.replace(',', '.'))
+      continue
+    }
+    const tokenDate = date === undefined ? parseDateToken(token, timezone) : undefined
+    if (tokenDate) {
+      date = tokenDate
+      continue
+    }
+    const method = PAYMENT_METHOD_WORDS.find(([, pattern]) => pattern.test(token))
+    if (method && !paymentMethod) {
+      paymentMethod = method[0]
+      continue
+    }
+    if (CURRENCY_TOKEN.test(token)) continue
+    words.push(token)
+  }
+
+  if (!amount || amount <= 0) return null
+
+  return {
+    type: matchCostCategory(words, categories),
+    amount,
+    date: date ?? getTodayInTimezone(timezone),
+    description: words.length > 0 ? words.join(' ') : undefined,
+    payment_method: paymentMethod,
+  }
+}
+
+/** Null unless every line is an expense with an amount */
+export function parseExpenseMessage(
+  text: string,
+  categories: string[],
+  timezone: string
+): ParsedExpense[] | null {
+  if (!isExpenseMessage(text)) return null
+
+  const expenses: ParsedExpense[] = []
+  for (const line of text.split('\n').map((l) => l.trim()).filter(Boolean)) {
+    const expense = parseExpenseLine(line, categories, timezone)
+    if (!expense) return null
+    expenses.push(expense)
+  }
+  return expenses
+}
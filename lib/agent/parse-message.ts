@@ -1,5 +1,11 @@
 import OpenAI from 'openai'
 import { buildSystemPrompt } from '@/lib/agent/prompts'
+import {
+  type CatalogClient,
+  matchClient,
+  mergeClientHint,
+  stripClientDetails,
+} from '@/lib/agent/client-matcher'
 import {
   dedupeResolvedBookings,
   reconcileBookingDraft,
@@ -21,6 +27,8 @@ import { looksLikeServiceLabel } from '@/lib/agent/service-utils'
 import {
   type ParseSaleResult,
   type ParsedBookingDraft,
+  type ParsedClient,
+  type ParsedProductVariant,
   type ResolvedBookingDraft,
   type ResolvedParseSaleResult,
   parseSaleResultSchema,
@@ -37,18 +45,21 @@ type BookingDraftInput = {
     sku_hint?: string
     name_hint?: string
     qty?: number
+    variant?: ParsedProductVariant
   }[]
   total_paid?: number
   payment_method?: ParsedBookingDraft['payment_method']
   booksy_fee_enabled?: boolean
   notes?: string
   booking_date?: string
+  client?: ParsedClient
 }
 
 function resolveBooking(
   draft: BookingDraftInput,
   products: CatalogProduct[],
   services: CatalogService[],
+  clients: CatalogClient[],
   _timezone: string
 ): ResolvedBookingDraft {
   const resolvedServices: ResolvedBookingDraft['services'] = []
@@ -59,12 +70,14 @@ function resolveBooking(
       sku_hint: p.sku_hint,
       name_hint: p.name_hint,
       price: p.price,
+      variant: p.variant,
     })
     resolvedProducts.push({
       price: p.price,
       sku_hint: p.sku_hint,
       name_hint: p.name_hint,
       qty: p.qty ?? 1,
+      variant: p.variant,
       ...m,
     })
   }
@@ -102,6 +115,7 @@ function resolveBooking(
         sku_hint: s.label,
         name_hint: undefined,
         qty: 1,
+        variant: undefined,
         ...asProduct,
       })
       continue
@@ -113,6 +127,7 @@ function resolveBooking(
         sku_hint: undefined,
         name_hint: undefined,
         qty: 1,
+        variant: undefined,
         ...byPrice,
       })
       continue
@@ -141,6 +156,7 @@ function resolveBooking(
     payment_method: draft.payment_method ?? 'cash',
     booksy_fee_enabled: draft.booksy_fee_enabled ?? false,
     notes: draft.notes,
+    client: draft.client ? matchClient(clients, draft.client) : undefined,
   }
 }
 
@@ -166,7 +182,7 @@ function recoverUnmatchedLines(
       services: parsed.services,
       products: parsed.products,
     }
-    const resolved = resolveBooking(draft, products, services, timezone)
+    const resolved = resolveBooking(draft, products, services, [], timezone)
     const hasSavable =
       resolved.services.some((s) => s.service_id) ||
       resolved.products.some((p) => p.product_id)
@@ -185,6 +201,7 @@ export async function parseSaleMessage(
   catalog: {
     services: CatalogService[]
     products: CatalogProduct[]
+    clients: CatalogClient[]
     timezone: string
   },
   messageSentAt: Date
@@ -215,6 +232,12 @@ export async function parseSaleMessage(
               name: p.name,
               sku: p.sku,
               sale_price: p.sale_price,
+              parent_id: p.parent_id,
+              sold_as: p.sold_as,
+              material: p.material,
+              gauge: p.gauge,
+              length: p.length,
+              colour: p.colour,
             })),
             timezone: catalog.timezone,
           }) +
@@ -248,16 +271,24 @@ export async function parseSaleMessage(
       blocks.length === parsed.bookings.length
         ? (blocks[i] ?? cleaned)
         : (blocks[i] ?? blocks[0] ?? cleaned)
-    return reconcileBookingDraft(
+    const client = mergeClientHint(b.client, block)
+    const reconciled = reconcileBookingDraft(
       b,
-      block,
+      stripClientDetails(block, client),
       cleaned,
       catalog.services
     )
+    return { ...reconciled, client }
   })
 
   let bookings = reconciledDrafts.map((b) =>
-    resolveBooking(b, catalog.products, catalog.services, catalog.timezone)
+    resolveBooking(
+      b,
+      catalog.products,
+      catalog.services,
+      catalog.clients,
+      catalog.timezone
+    )
   )
 
   const unmatched = parsed.unmatched_lines ?? []
@@ -1,9 +1,17 @@
+import type { JewelleryMaterial, ProductSoldAs } from '@/lib/types'
+
 export interface CatalogProduct {
   id: string
   name: string
   sku: string | null
   sale_price: number
   cost: number | null
+  parent_id: string | null
+  sold_as: ProductSoldAs | null
+  material: JewelleryMaterial | null
+  gauge: number | null
+  length: number | null
+  colour: string | null
 }
 
 import {
@@ -11,6 +19,9 @@ import {
   productNamesMatch,
 } from '@/lib/agent/product-name-match'
 import { normalizeServiceLabel, serviceNameScore } from '@/lib/agent/service-utils'
+import type { ParsedProductVariant } from '@/lib/agent/schemas'
+import { materialsForHint, parseMillimetres } from '@/lib/products/attributes'
+import { getVariantGroupId } from '@/lib/products/variants'
 
 export interface CatalogService {
   id: string
@@ -98,17 +109,56 @@ function skuCandidates(hint: string): string[] {
   return [...out]
 }
 
-/** Catalog singles are named "Single - …"; pairs use the same SKU without that prefix */
-export function isSingleProductName(name: string): boolean {
-  return /^single\s*-/i.test(name.trim())
+/** Every product in the variant groups of the given matches */
+function expandToVariantGroups(
+  products: CatalogProduct[],
+  matches: CatalogProduct[]
+): CatalogProduct[] {
+  const groupIds = new Set(matches.map(getVariantGroupId))
+  return products.filter((p) => groupIds.has(getVariantGroupId(p)))
+}
+
+/** Keep variants with the attributes the operator stated; an attribute nobody has is ignored */
+function filterByVariantHint(
+  candidates: CatalogProduct[],
+  hint?: ParsedProductVariant
+): CatalogProduct[] {
+  if (!hint) return candidates
+  let out = candidates
+  const narrow = (keep: (p: CatalogProduct) => boolean) => {
+    const kept = out.filter(keep)
+    if (kept.length > 0) out = kept
+  }
+  if (hint.sold_as) narrow((p) => p.sold_as === hint.sold_as)
+  if (hint.material) {
+    const materials = materialsForHint(hint.material)
+    if (materials.length > 0) narrow((p) => !!p.material && materials.includes(p.material))
+  }
+  for (const key of ['gauge', 'length'] as const) {
+    const mm = hint[key] ? parseMillimetres(hint[key]) : null
+    if (mm !== null) narrow((p) => p[key] !== null && Math.abs(p[key] - mm) < 0.01)
+  }
+  const colour = hint.colour?.toLowerCase().trim()
+  if (colour) {
+    narrow((p) => {
+      const value = p.colour?.toLowerCase().trim()
+      return !!value && (value.includes(colour) || colour.includes(value))
+    })
+  }
+  return out
 }
 
-/** Same SKU often maps to a pair and a single — use operator price to pick variant */
-export function pickAmongSkuVariants(
+/**
+ * Pick a variant from a group: stated attributes first, then single vs pair by
+ * operator price when the message does not say which.
+ */
+export function pickVariant(
   candidates: CatalogProduct[],
-  operatorPrice: number
+  operatorPrice: number,
+  hint?: ParsedProductVariant
 ): CatalogProduct {
-  if (candidates.length === 1) return candidates[0]
+  const narrowed = filterByVariantHint(candidates, hint)
+  if (narrowed.length === 1) return narrowed[0]
 
   const closest = (list: CatalogProduct[]) =>
     [...list].sort(
@@ -117,11 +167,11 @@ export function pickAmongSkuVariants(
         Math.abs(b.sale_price - operatorPrice)
     )[0]
 
-  const singles = candidates.filter((p) => isSingleProductName(p.name))
-  const pairs = candidates.filter((p) => !isSingleProductName(p.name))
+  const singles = narrowed.filter((p) => p.sold_as === 'single')
+  const pairs = narrowed.filter((p) => p.sold_as !== 'single')
 
-  if (singles.length === 0) return closest(candidates)
-  if (pairs.length === 0) return closest(candidates)
+  if (singles.length === 0) return closest(narrowed)
+  if (pairs.length === 0) return closest(narrowed)
 
   const single = closest(singles)
   const pair = closest(pairs)
@@ -137,16 +187,50 @@ export function pickAmongSkuVariants(
   return dSingle <= dPair ? single : pair
 }
 
-export function matchProduct(
-  products: CatalogProduct[],
-  opts: { sku_hint?: string; name_hint?: string; price: number }
-): {
+/** Alternative catalog product for a parsed line, offered when editing a draft */
+export interface ProductCandidate {
+  product_id: string
+  name: string
+  sku: string | null
+}
+
+export interface ProductMatch {
   product_id?: string
   resolved_name?: string
   resolved_sku?: string | null
   match_confidence: 'high' | 'low' | 'none'
-} {
-  const { sku_hint, name_hint, price } = opts
+  /** Best match first */
+  candidates: ProductCandidate[]
+}
+
+const MAX_PRODUCT_CANDIDATES = 4
+
+function byPriceCloseness(list: CatalogProduct[], price: number): CatalogProduct[] {
+  return [...list].sort(
+    (a, b) => Math.abs(a.sale_price - price) - Math.abs(b.sale_price - price)
+  )
+}
+
+function toCandidates(
+  best: CatalogProduct | null,
+  ranked: CatalogProduct[]
+): ProductCandidate[] {
+  const rest = ranked.filter((p) => p.id !== best?.id)
+  return [...(best ? [best] : []), ...rest]
+    .slice(0, MAX_PRODUCT_CANDIDATES)
+    .map((p) => ({ product_id: p.id, name: p.name, sku: p.sku }))
+}
+
+export function matchProduct(
+  products: CatalogProduct[],
+  opts: {
+    sku_hint?: string
+    name_hint?: string
+    price: number
+    variant?: ParsedProductVariant
+  }
+): ProductMatch {
+  const { sku_hint, name_hint, price, variant } = opts
 
   if (sku_hint) {
     const variants = skuCandidates(sku_hint)
@@ -162,12 +246,18 @@ export function matchProduct(
       )
     })
     if (bySku.length > 0) {
-      const best = pickAmongSkuVariants(bySku, price)
+      // A variant's own SKU names that variant; a parent's SKU names its whole group
+      const candidates =
+        bySku.length === 1 && bySku[0].parent_id
+          ? bySku
+          : expandToVariantGroups(products, bySku)
+      const best = pickVariant(candidates, price, variant)
       return {
         product_id: best.id,
         resolved_name: best.name,
         resolved_sku: best.sku,
         match_confidence: 'high',
+        candidates: toCandidates(best, byPriceCloseness(candidates, price)),
       }
     }
   }
@@ -194,17 +284,24 @@ export function matchProduct(
           Math.abs(b.sale_price - price) / 100
         return scoreB - scoreA
       })
-      const best = sorted[0]
+      const best = variant
+        ? pickVariant(expandToVariantGroups(products, [sorted[0]]), price, variant)
+        : sorted[0]
       return {
         product_id: best.id,
         resolved_name: best.name,
         resolved_sku: best.sku,
         match_confidence: 'high',
+        candidates: toCandidates(best, sorted),
       }
     }
   }
 
-  return { match_confidence: 'none' }
+  // Nothing matched — offer the products closest in price
+  return {
+    match_confidence: 'none',
+    candidates: toCandidates(null, byPriceCloseness(products, price)),
+  }
 }
 
 export function matchService(
@@ -293,7 +390,7 @@ export function matchProductByPrice(
   products: CatalogProduct[],
   services: CatalogService[],
   price: number
-): ReturnType<typeof matchProduct> | null {
+): ProductMatch | null {
   const exactService = services.some(
     (s) => Math.abs(s.base_price - price) < 0.01
   )
@@ -308,6 +405,7 @@ export function matchProductByPrice(
       resolved_name: p.name,
       resolved_sku: p.sku,
       match_confidence: 'low',
+      candidates: toCandidates(p, []),
     }
   }
   return null
@@ -1,4 +1,5 @@
 import { getTodayInTimezone } from '@/lib/date-utils'
+import { formatProductVariant, type ProductVariantAttributes } from '@/lib/products/variants'
 
 export const OPERATOR_REFERENCE_TRANSCRIPT = `
 150
@@ -20,18 +21,29 @@ export const OPERATOR_REFERENCE_TRANSCRIPT = `
 
 export function buildSystemPrompt(catalog: {
   services: { id: string; name: string; base_price: number }[]
-  products: { id: string; name: string; sku: string | null; sale_price: number }[]
+  products: ({
+    id: string
+    name: string
+    sku: string | null
+    sale_price: number
+    parent_id: string | null
+  } & ProductVariantAttributes)[]
   timezone: string
 }): string {
   const servicesList = catalog.services
     .map((s) => `- ${s.name}: ${s.base_price} PLN`)
     .join('\n')
 
+  const parentNames = new Map(catalog.products.map((p) => [p.id, p.name]))
   const productsList = catalog.products
-    .map(
-      (p) =>
-        `- ${p.name}${p.sku ? ` [${p.sku}]` : ''}: ${p.sale_price} PLN`
-    )
+    .map((p) => {
+      const variant = formatProductVariant(p)
+      const parent = p.parent_id ? parentNames.get(p.parent_id) : undefined
+      const details = [parent ? `variant of ${parent}` : null, variant]
+        .filter(Boolean)
+        .join('; ')
+      return `- ${p.name}${p.sku ? ` [${p.sku}]` : ''}${details ? ` (${details})` : ''}: ${p.sale_price} PLN`
+    })
     .join('\n')
 
   const today = getTodayInTimezone(catalog.timezone)
@@ -46,7 +58,8 @@ Rules:
 - Match items to catalog names and SKUs (Cyrillic SKU ok). Line price may differ from catalog (operator override).
 - Lone number: service if it matches a service base_price in catalog, else product if it matches a product sale_price, else use nearby words as label/name_hint.
 - "PRICE (SKU)" or "PRICE SKU" → product with sku_hint. "PRICE words" / "words PRICE" → product or service by meaning vs catalog.
-- Same SKU may exist as Pair vs "Single - …" — pick variant using line price vs catalog sale_price.
+- Products can be variants of one parent (single/pair, material, gauge and length in mm, colour). Give the SKU or name of the model and put only what the message states in variant { sold_as: "single" | "pair", material, gauge, length, colour }, words as written: "одна"/"1 шт"/"single" → single, "пара" → pair; material "титан"; gauge "1.2" or "16G". Leave variant out when nothing is said — the price picks it.
+- Client details in a booking (name, phone, @instagram) go to client { name, phone, instagram } exactly as written — never as prices or items. Leave client out when no client is mentioned.
 - Put only truly unclear lines in unmatched_lines (e.g. "70*4").
 - booksy_fee_enabled if booksy/букси. payment_method: blik / card / cash.
 
@@ -1,6 +1,7 @@
 import { parseUnmatchedLine, type LineProduct } from '@/lib/agent/unmatched-line-parser'
 import type { CatalogService } from '@/lib/agent/product-matcher'
 import { isExactServicePrice } from '@/lib/agent/service-utils'
+import type { ParsedProductVariant } from '@/lib/agent/schemas'
 
 export type DraftLine = {
   price: number
@@ -8,6 +9,7 @@ export type DraftLine = {
   name_hint?: string
   qty?: number
   label?: string
+  variant?: ParsedProductVariant
 }
 
 export type ReconcileableDraft = {
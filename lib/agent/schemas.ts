@@ -1,4 +1,6 @@
 import { z } from 'zod'
+import type { ClientCandidate } from '@/lib/agent/client-matcher'
+import type { ProductCandidate } from '@/lib/agent/product-matcher'
 
 /** OpenAI often returns null for omitted optional fields — coerce to undefined */
 const optionalString = z
@@ -33,6 +35,18 @@ const requiredPrice = z
     return n
   })
 
+/** Variant attributes the operator stated for a product line (e.g. "одна" → single) */
+export const parsedProductVariantSchema = z.object({
+  sold_as: z
+    .union([z.enum(['single', 'pair']), z.null()])
+    .optional()
+    .transform((v) => (v == null ? undefined : v)),
+  material: optionalString,
+  gauge: optionalString,
+  length: optionalString,
+  colour: optionalString,
+})
+
 export const parsedProductSchema = z.object({
   sku_hint: optionalString,
   name_hint: optionalString,
@@ -45,6 +59,10 @@ export const parsedProductSchema = z.object({
       return Number.isNaN(n) || n < 1 ? 1 : Math.floor(n)
     }),
   price: requiredPrice,
+  variant: z
+    .union([parsedProductVariantSchema, z.null()])
+    .optional()
+    .transform((v) => (v == null ? undefined : v)),
 })
 
 export const parsedServiceSchema = z.object({
@@ -53,6 +71,13 @@ export const parsedServiceSchema = z.object({
   label: optionalString,
 })
 
+/** Client details written in the message; matched against clients after parsing */
+export const parsedClientSchema = z.object({
+  name: optionalString,
+  phone: optionalString,
+  instagram: optionalString,
+})
+
 export const parsedBookingDraftSchema = z.object({
   booking_date: optionalString,
   services: z.array(parsedServiceSchema).default([]),
@@ -64,6 +89,10 @@ export const parsedBookingDraftSchema = z.object({
     .transform((v) => (v == null ? undefined : v)),
   booksy_fee_enabled: optionalBoolean,
   notes: optionalString,
+  client: z
+    .union([parsedClientSchema, z.null()])
+    .optional()
+    .transform((v) => (v == null ? undefined : v)),
 })
 
 export const parseSaleResultSchema = z.object({
@@ -76,8 +105,10 @@ export const parseSaleResultSchema = z.object({
     ),
 })
 
+export type ParsedProductVariant = z.infer<typeof parsedProductVariantSchema>
 export type ParsedProduct = z.infer<typeof parsedProductSchema>
 export type ParsedService = z.infer<typeof parsedServiceSchema>
+export type ParsedClient = z.infer<typeof parsedClientSchema>
 export type ParsedBookingDraft = z.infer<typeof parsedBookingDraftSchema>
 export type ParseSaleResult = z.infer<typeof parseSaleResultSchema>
 
@@ -86,6 +117,8 @@ export interface ResolvedProduct extends ParsedProduct {
   resolved_name?: string
   resolved_sku?: string | null
   match_confidence?: 'high' | 'low' | 'none'
+  /** Top catalog matches, best first; offered when editing the draft in Telegram */
+  candidates?: ProductCandidate[]
 }
 
 export interface ResolvedService extends ParsedService {
@@ -94,6 +127,16 @@ export interface ResolvedService extends ParsedService {
   match_confidence?: 'high' | 'low' | 'none'
 }
 
+export interface ResolvedClient extends ParsedClient {
+  client_id?: string
+  resolved_name?: string
+  match_confidence: 'high' | 'low' | 'none'
+  /** Closest existing clients, best first */
+  candidates: ClientCandidate[]
+  /** Create a client from the parsed details when saving */
+  create_new?: boolean
+}
+
 export interface ResolvedBookingDraft {
   booking_date?: string
   services: ResolvedService[]
@@ -102,6 +145,7 @@ export interface ResolvedBookingDraft {
   payment_method: 'cash' | 'blik' | 'card'
   booksy_fee_enabled: boolean
   notes?: string
+  client?: ResolvedClient
 }
 
 export interface ResolvedParseSaleResult {
@@ -1,10 +1,13 @@
 import { getISOWeek, getISOWeekYear } from 'date-fns'
 import { extractCalendarDateInTimezone } from '@/lib/date-utils'
+import { isCompletedBooking } from '@/lib/bookings/booking-status'
+import type { BookingPaymentType, BookingStatus, PaymentMethod } from '@/lib/types'
 
 type GroupBy = 'daily' | 'weekly' | 'monthly'
 
 export interface DashboardBookingRow {
   start_time: string
+  status?: BookingStatus | null
   total_paid: number | null
   profit: number | null
   earring_cost: number | null
@@ -12,6 +15,11 @@ export interface DashboardBookingRow {
   booksy_fee: number | null
   broken_earring_loss: number | null
   tax_amount: number | null
+  tax_enabled?: boolean | null
+  tax_rate?: number | null
+  payment_method?: PaymentMethod | null
+  custom_discount?: number | null
+  promotion_id?: string | null
   service_id?: string | null
   service_price?: number | null
   service?: { id: string; name: string } | { id: string; name: string }[] | null
@@ -28,6 +36,11 @@ export interface DashboardBookingRow {
     price: number | null
     service?: { id: string; name: string } | { id: string; name: string }[] | null
   }>
+  booking_payments?: Array<{
+    type: BookingPaymentType
+    amount: number
+    method: PaymentMethod
+  }>
 }
 
 export interface DashboardAdditionalCostRow {
@@ -111,10 +124,12 @@ export function getPeriodKey(
   }
 }
 
+/** Appointments that are not completed yet (or never will be) are not sales. */
 export function calculateDashboardMetrics(
-  bookings: DashboardBookingRow[],
+  allBookings: DashboardBookingRow[],
   additionalCosts: DashboardAdditionalCostRow[]
 ): DashboardMetrics {
+  const bookings = allBookings.filter(isCompletedBooking)
   const additionalCostsByCategory: Record<string, number> = {}
 
   additionalCosts.forEach((cost) => {
@@ -254,11 +269,12 @@ export function calculateDashboardMetrics(
 }
 
 export function buildChartData(
-  bookings: DashboardBookingRow[],
+  allBookings: DashboardBookingRow[],
   additionalCosts: DashboardAdditionalCostRow[],
   groupBy: GroupBy,
   timezone: string
 ): ChartPoint[] {
+  const bookings = allBookings.filter(isCompletedBooking)
   const periodMap = new Map<
     string,
     {
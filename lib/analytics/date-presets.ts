@@ -1,5 +1,7 @@
+import { resolveBookingDateString } from '@/lib/agent/booking-date'
 import {
   addDaysToCalendarDate,
+  extractCalendarDate,
   getTodayInTimezone,
   getUTCDayOfWeekForCalendarDate,
 } from '@/lib/date-utils'
@@ -27,6 +29,28 @@ export const RELATIVE_DASHBOARD_PRESETS: DashboardPreset[] = [
   'thisYear',
 ]
 
+export const DASHBOARD_PRESET_LABELS: Record<DashboardPreset, string> = {
+  today: 'Сегодня',
+  yesterday: 'Вчера',
+  thisWeek: 'Эта неделя',
+  lastWeek: 'Прошлая неделя',
+  last7days: 'Последние 7 дней',
+  last30days: 'Последние 30 дней',
+  thisMonth: 'Этот месяц',
+  lastMonth: 'Прошлый месяц',
+  thisYear: 'Этот год',
+}
+
+/** Inclusive range of calendar dates (YYYY-MM-DD) */
+export interface CalendarRange {
+  from: string
+  to: string
+}
+
+export function isDashboardPreset(value: string): value is DashboardPreset {
+  return (RELATIVE_DASHBOARD_PRESETS as string[]).includes(value)
+}
+
 function toPresetRange(fromDateStr: string, toDateStr: string): { from: string; to: string } {
   return {
     from: `${fromDateStr}T00:00:00.000Z`,
@@ -95,13 +119,101 @@ export function resolveDatesForPreset(
   }
 }
 
-export function periodLabel(preset: AnalyticsPeriod): string {
-  switch (preset) {
-    case 'today':
-      return 'Сегодня'
-    case 'thisWeek':
-      return 'Эта неделя'
-    case 'thisMonth':
-      return 'Этот месяц'
+export function periodLabel(preset: DashboardPreset): string {
+  return DASHBOARD_PRESET_LABELS[preset]
+}
+
+export function resolveCalendarRangeForPreset(
+  preset: DashboardPreset,
+  timezone: string = 'Europe/Warsaw'
+): CalendarRange | null {
+  const resolved = resolveDatesForPreset(preset, timezone)
+  if (!resolved) return null
+  return { from: extractCalendarDate(resolved.from), to: extractCalendarDate(resolved.to) }
+}
+
+function isCalendarDate(dateStr: string): boolean {
+  return addDaysToCalendarDate(dateStr, 0) === dateStr
+}
+
+function withYear(dateStr: string, year: number): string {
+  return `${year}${dateStr.slice(4)}`
+}
+
+const CUSTOM_RANGE_PATTERN =
+  /^(\d{1,2}\.\d{1,2}(?:\.\d{2,4})?)(?:\s*[-–—]\s*(\d{1,2}\.\d{1,2}(?:\.\d{2,4})?))?$/
+
+/**
+ * "01.05-15.05", "20.12.2025-10.01.2026" or a single day "12.05". Without a
+ * year the latest such range that has already started is meant.
+ */
+export function parseCustomRange(raw: string, timezone: string = 'Europe/Warsaw'): CalendarRange | null {
+  const match = raw.trim().match(CUSTOM_RANGE_PATTERN)
+  if (!match) return null
+  const [, fromRaw, toRaw = fromRaw] = match
+
+  let from = resolveBookingDateString(fromRaw, timezone)
+  let to = resolveBookingDateString(toRaw, timezone)
+  if (!from || !to) return null
+
+  const hasYear = (value: string) => value.split('.').length === 3
+  if (!hasYear(fromRaw) && from > getTodayInTimezone(timezone)) {
+    from = withYear(from, Number(from.slice(0, 4)) - 1)
+  }
+  if (!hasYear(toRaw)) {
+    to = withYear(to, Number(from.slice(0, 4)))
+    if (to < from) to = withYear(to, Number(to.slice(0, 4)) + 1)
+  }
+
+  if (!isCalendarDate(from) || !isCalendarDate(to) || from > to) return null
+  return { from, to }
+}
+
+function shiftMonths(dateStr: string, months: number): string {
+  const [year, month, day] = dateStr.split('-').map(Number)
+  const index = year * 12 + (month - 1) + months
+  const targetYear = Math.floor(index / 12)
+  const targetMonth = (index % 12) + 1
+  return formatCalendarDate(targetYear, targetMonth, Math.min(day, getDaysInCalendarMonth(targetYear, targetMonth)))
+}
+
+function isLastDayOfMonth(dateStr: string): boolean {
+  return addDaysToCalendarDate(dateStr, 1).endsWith('-01')
+}
+
+function daysInRange(range: CalendarRange): number {
+  return Math.round(
+    (Date.parse(`${range.to}T00:00:00Z`) - Date.parse(`${range.from}T00:00:00Z`)) / 86_400_000
+  ) + 1
+}
+
+/**
+ * Period to compare with. A whole month, or a month to date (more than one
+ * day, ending today), compares with the same days of the previous month; a
+ * range from 1 January across months with the same days a year earlier.
+ * Anything else, days and weeks included, with as many days right before.
+ */
+export function previousPeriodRange(
+  range: CalendarRange,
+  today: string = getTodayInTimezone('Europe/Warsaw')
+): CalendarRange {
+  const days = daysInRange(range)
+  const sameMonth = range.from.slice(0, 7) === range.to.slice(0, 7)
+  const startsMonth = range.from.endsWith('-01')
+  const isWeek = days === 7 && getUTCDayOfWeekForCalendarDate(range.from) === 1
+
+  if (startsMonth && sameMonth && isLastDayOfMonth(range.to)) {
+    return { from: shiftMonths(range.from, -1), to: addDaysToCalendarDate(range.from, -1) }
+  }
+  if (startsMonth && sameMonth && range.to === today && days > 1 && !isWeek) {
+    return { from: shiftMonths(range.from, -1), to: shiftMonths(range.to, -1) }
+  }
+  if (range.from.endsWith('-01-01') && !sameMonth) {
+    return { from: shiftMonths(range.from, -12), to: shiftMonths(range.to, -12) }
+  }
+
+  return {
+    from: addDaysToCalendarDate(range.from, -days),
+    to: addDaysToCalendarDate(range.from, -1),
   }
 }
@@ -2,15 +2,25 @@ import { createAdminClient } from '@/lib/supabase/admin'
 import {
   createAdditionalCostDateFilter,
   createBookingDateFilter,
+  getTodayInTimezone,
 } from '@/lib/date-utils'
 import {
-  type AnalyticsPeriod,
+  type CalendarRange,
+  type DashboardPreset,
   periodLabel,
-  resolveDatesForPreset,
+  previousPeriodRange,
+  resolveCalendarRangeForPreset,
 } from '@/lib/analytics/date-presets'
+import {
+  calculateDashboardMetrics,
+  type DashboardAdditionalCostRow,
+  type DashboardBookingRow,
+  type DashboardMetrics,
+} from '@/lib/analytics/dashboard-metrics'
+import { fetchDashboardBookings } from '@/lib/bookings/fetch-dashboard-bookings'
 
 export interface FinancialSummary {
-  period: AnalyticsPeriod
+  period: DashboardPreset
   label: string
   timezone: string
   revenue: number
@@ -18,45 +28,36 @@ export interface FinancialSummary {
   bookingCount: number
 }
 
-export async function getFinancialSummary(
+/** A period next to the one before it, for the bot's /analytics */
+export interface AnalyticsReport {
+  label: string
+  timezone: string
+  range: CalendarRange
+  previousRange: CalendarRange
+  metrics: DashboardMetrics
+  previous: DashboardMetrics
+}
+
+/** Same rows and formulas as the web dashboard, limited to one user */
+export async function getPeriodMetrics(
   userId: string,
-  period: AnalyticsPeriod,
+  range: CalendarRange,
   timezone: string = 'Europe/Warsaw'
-): Promise<FinancialSummary> {
-  const resolved = resolveDatesForPreset(period, timezone)
-  if (!resolved) {
-    throw new Error(`Unsupported analytics period: ${period}`)
-  }
-  const { from, to } = resolved
-  const bookingDateFilter = createBookingDateFilter(from, to, timezone)
-  const additionalCostDateFilter = createAdditionalCostDateFilter(from, to)
+): Promise<DashboardMetrics> {
+  const bookingDateFilter = createBookingDateFilter(range.from, range.to, timezone)
+  const additionalCostDateFilter = createAdditionalCostDateFilter(range.from, range.to)
 
   const supabase = createAdminClient()
 
-  let bookingsQuery = supabase
-    .from('bookings')
-    .select('id, total_paid, profit, travel_fee')
-    .eq('user_id', userId)
-
-  if (bookingDateFilter.from) {
-    bookingsQuery = bookingsQuery.gte(
-      'start_time',
-      bookingDateFilter.from.toISOString()
-    )
-  }
-  if (bookingDateFilter.to) {
-    bookingsQuery = bookingsQuery.lte(
-      'start_time',
-      bookingDateFilter.to.toISOString()
-    )
-  }
-
-  const { data: bookings, error: bookingsError } = await bookingsQuery
-  if (bookingsError) throw bookingsError
+  const bookings = (await fetchDashboardBookings(supabase, {
+    from: bookingDateFilter.from,
+    to: bookingDateFilter.to,
+    userId,
+  })) as DashboardBookingRow[]
 
   let additionalCostsQuery = supabase
     .from('additional_costs')
-    .select('amount')
+    .select('date, amount, type')
     .eq('user_id', userId)
 
   if (additionalCostDateFilter.fromDateStr) {
@@ -76,32 +77,45 @@ export async function getFinancialSummary(
     await additionalCostsQuery
   if (costsError) throw costsError
 
-  const rows = (bookings ?? []) as Array<{
-    total_paid: number | null
-    profit: number | null
-    travel_fee: number | null
-  }>
-  const revenue = rows.reduce((sum, b) => sum + (Number(b.total_paid) || 0), 0)
-  const totalTravelFees = rows.reduce(
-    (sum, b) => sum + (Number(b.travel_fee) || 0),
-    0
+  return calculateDashboardMetrics(
+    bookings,
+    (additionalCosts as DashboardAdditionalCostRow[] | null) || []
   )
-  const totalProfitFromBookings = rows.reduce(
-    (sum, b) => sum + (Number(b.profit) || 0),
-    0
-  )
-  const totalAdditionalCosts = (
-    (additionalCosts ?? []) as Array<{ amount: number | null }>
-  ).reduce((sum, c) => sum + (Number(c.amount) || 0), 0)
-  const profit = totalProfitFromBookings - totalTravelFees - totalAdditionalCosts
+}
+
+export async function getAnalyticsReport(
+  userId: string,
+  label: string,
+  range: CalendarRange,
+  timezone: string = 'Europe/Warsaw'
+): Promise<AnalyticsReport> {
+  const previousRange = previousPeriodRange(range, getTodayInTimezone(timezone))
+  const [metrics, previous] = await Promise.all([
+    getPeriodMetrics(userId, range, timezone),
+    getPeriodMetrics(userId, previousRange, timezone),
+  ])
+
+  return { label, timezone, range, previousRange, metrics, previous }
+}
+
+export async function getFinancialSummary(
+  userId: string,
+  period: DashboardPreset,
+  timezone: string = 'Europe/Warsaw'
+): Promise<FinancialSummary> {
+  const range = resolveCalendarRangeForPreset(period, timezone)
+  if (!range) {
+    throw new Error(`Unsupported analytics period: ${period}`)
+  }
+  const metrics = await getPeriodMetrics(userId, range, timezone)
 
   return {
     period,
     label: periodLabel(period),
     timezone,
-    revenue,
-    profit,
-    bookingCount: rows.length,
+    revenue: metrics.totalRevenue,
+    profit: metrics.totalProfit,
+    bookingCount: metrics.totalBookings,
   }
 }
 
@@ -112,15 +126,6 @@ export function formatPlnAmount(n: number): string {
   }).format(Math.round(n))
 }
 
-export function formatFinancialSummary(summary: FinancialSummary): string {
-  return [
-    `${summary.label} (${summary.timezone})`,
-    `Выручка: ${formatPlnAmount(summary.revenue)} PLN`,
-    `Прибыль: ${formatPlnAmount(summary.profit)} PLN`,
-    `Записей: ${summary.bookingCount}`,
-  ].join('\n')
-}
-
 /** Compact one-liner for post-save Telegram reply */
 export function formatTodaySnapshot(summary: FinancialSummary): string {
   return `📊 <b>Сегодня:</b> выручка ${formatPlnAmount(summary.revenue)} PLN, прибыль ${formatPlnAmount(summary.profit)} PLN (${summary.bookingCount} зап.)`
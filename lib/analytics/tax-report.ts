@@ -0,0 +1,263 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  addDaysToCalendarDate,
+  createAdditionalCostDateFilter,
+  createBookingDateFilter,
+  getTodayInTimezone,
+} from '@/lib/date-utils'
+import { isCompletedBooking } from '@/lib/bookings/booking-status'
+import { getSignedPaymentAmount } from '@/lib/bookings/payments'
+import { fetchDashboardBookings } from '@/lib/bookings/fetch-dashboard-bookings'
+import {
+  calculateDashboardMetrics,
+  type DashboardAdditionalCostRow,
+  type DashboardBookingRow,
+} from '@/lib/analytics/dashboard-metrics'
+import type { PaymentMethod } from '@/lib/types'
+
+export type TaxReportMethod = PaymentMethod | 'unknown'
+
+export const TAX_REPORT_METHOD_LABELS: Record<TaxReportMethod, string> = {
+  cash: 'Cash',
+  blik: 'BLIK',
+  card: 'Card',
+  voucher: 'Gift voucher',
+  unknown: 'Not recorded',
+}
+
+export interface TaxReportCostRow extends DashboardAdditionalCostRow {
+  description?: string | null
+}
+
+export interface TaxReportMethodRow {
+  method: TaxReportMethod
+  bookingCount: number
+  revenue: number
+  taxableRevenue: number
+  tax: number
+}
+
+export interface TaxReportReconciliationRow {
+  label: string
+  report: number
+  dashboard: number
+  isCount?: boolean
+}
+
+export interface TaxReport {
+  month: string // YYYY-MM
+  from: string
+  to: string
+  timezone: string
+  byPaymentMethod: TaxReportMethodRow[]
+  taxRates: number[]
+  costsByCategory: Array<{ category: string; amount: number }>
+  costs: TaxReportCostRow[]
+  totals: {
+    bookingCount: number
+    revenue: number
+    taxableRevenue: number
+    tax: number
+    deductibleCosts: number
+  }
+  // Same figures from calculateDashboardMetrics for the month; they must match
+  reconciliation: TaxReportReconciliationRow[]
+}
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/
+
+export function isValidReportMonth(month: string | null | undefined): month is string {
+  return Boolean(month && MONTH_PATTERN.test(month))
+}
+
+/** Requested month, or the current month in the user's timezone. */
+export function resolveReportMonth(month: string | null | undefined, timezone: string): string {
+  return isValidReportMonth(month) ? month : getTodayInTimezone(timezone).slice(0, 7)
+}
+
+/** First and last calendar day of a YYYY-MM month. */
+export function getMonthDateRange(month: string): { from: string; to: string } {
+  const from = `${month}-01`
+  const [year, monthNumber] = month.split('-').map(Number)
+  const nextMonth = monthNumber === 12 ? `${year + 1}-01-01` : `${year}-${String(monthNumber + 1).padStart(2, '0')}-01`
+  return { from, to: addDaysToCalendarDate(nextMonth, -1) }
+}
+
+export function shiftReportMonth(month: string, delta: number): string {
+  const [year, monthNumber] = month.split('-').map(Number)
+  const index = year * 12 + (monthNumber - 1) + delta
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`
+}
+
+export function formatReportMonth(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number)
+  return new Date(Date.UTC(year, monthNumber - 1, 1)).toLocaleDateString('en-GB', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+export function isReconciled(row: TaxReportReconciliationRow): boolean {
+  return Math.abs(row.report - row.dashboard) < 0.005
+}
+
+export function isTaxReportReconciled(report: TaxReport): boolean {
+  return report.reconciliation.every(isReconciled)
+}
+
+/**
+ * Signed ledger amount per method (refunds negative), so a split cash + BLIK
+ * booking is reported under both. Bookings without ledger rows fall back to
+ * their payment_method.
+ */
+function getPaidByMethod(booking: DashboardBookingRow): Array<[TaxReportMethod, number]> {
+  const byMethod = new Map<TaxReportMethod, number>()
+  for (const payment of booking.booking_payments ?? []) {
+    byMethod.set(payment.method, (byMethod.get(payment.method) || 0) + getSignedPaymentAmount(payment))
+  }
+  const entries = Array.from(byMethod).filter(([, amount]) => Math.abs(amount) >= 0.005)
+  return entries.length > 0 ? entries : [[booking.payment_method ?? 'unknown', Number(booking.total_paid) || 0]]
+}
+
+export function buildTaxReport(
+  month: string,
+  timezone: string,
+  bookings: DashboardBookingRow[],
+  costs: TaxReportCostRow[]
+): TaxReport {
+  const { from, to } = getMonthDateRange(month)
+  const completed = bookings.filter(isCompletedBooking)
+
+  const methodMap = new Map<TaxReportMethod, TaxReportMethodRow>()
+  const taxRates = new Set<number>()
+  for (const booking of completed) {
+    const paid = Number(booking.total_paid) || 0
+    const tax = Number(booking.tax_amount) || 0
+    if (booking.tax_enabled && booking.tax_rate !== null && booking.tax_rate !== undefined) {
+      taxRates.add(Number(booking.tax_rate))
+    }
+
+    // total_paid and tax are split across methods in proportion to the ledger
+    const paidByMethod = getPaidByMethod(booking)
+    const net = paidByMethod.reduce((sum, [, amount]) => sum + amount, 0)
+    for (const [method, amount] of paidByMethod) {
+      const share = Math.abs(net) >= 0.005 ? amount / net : 1 / paidByMethod.length
+      const row = methodMap.get(method) ?? { method, bookingCount: 0, revenue: 0, taxableRevenue: 0, tax: 0 }
+      row.bookingCount += 1
+      row.revenue += paid * share
+      if (booking.tax_enabled) {
+        row.taxableRevenue += paid * share
+      }
+      row.tax += tax * share
+      methodMap.set(method, row)
+    }
+  }
+  const methodOrder = Object.keys(TAX_REPORT_METHOD_LABELS) as TaxReportMethod[]
+  const byPaymentMethod = methodOrder
+    .map((method) => methodMap.get(method))
+    .filter((row): row is TaxReportMethodRow => Boolean(row))
+
+  const categoryMap = new Map<string, number>()
+  for (const cost of costs) {
+    const category = cost.type || 'other'
+    categoryMap.set(category, (categoryMap.get(category) || 0) + (Number(cost.amount) || 0))
+  }
+  const costsByCategory = Array.from(categoryMap, ([category, amount]) => ({ category, amount }))
+    .sort((a, b) => b.amount - a.amount)
+
+  const totals = {
+    bookingCount: completed.length,
+    revenue: byPaymentMethod.reduce((sum, row) => sum + row.revenue, 0),
+    taxableRevenue: byPaymentMethod.reduce((sum, row) => sum + row.taxableRevenue, 0),
+    tax: byPaymentMethod.reduce((sum, row) => sum + row.tax, 0),
+    deductibleCosts: costsByCategory.reduce((sum, row) => sum + row.amount, 0),
+  }
+
+  const metrics = calculateDashboardMetrics(bookings, costs)
+
+  return {
+    month,
+    from,
+    to,
+    timezone,
+    byPaymentMethod,
+    taxRates: Array.from(taxRates).sort((a, b) => a - b),
+    costsByCategory,
+    costs: [...costs].sort((a, b) => a.date.localeCompare(b.date)),
+    totals,
+    reconciliation: [
+      { label: 'Completed bookings', report: totals.bookingCount, dashboard: metrics.totalBookings, isCount: true },
+      { label: 'Revenue', report: totals.revenue, dashboard: metrics.totalRevenue },
+      { label: 'Tax', report: totals.tax, dashboard: metrics.totalTax },
+      { label: 'Additional costs', report: totals.deductibleCosts, dashboard: metrics.totalAdditionalCosts },
+    ],
+  }
+}
+
+/** Loads the month with the same queries and date filters as the dashboard. */
+export async function fetchTaxReport(
+  supabase: SupabaseClient,
+  month: string,
+  timezone: string
+): Promise<TaxReport> {
+  const { from, to } = getMonthDateRange(month)
+  const bookingDateFilter = createBookingDateFilter(from, to, timezone)
+  const additionalCostDateFilter = createAdditionalCostDateFilter(from, to)
+
+  const bookings = (await fetchDashboardBookings(supabase, {
+    from: bookingDateFilter.from,
+    to: bookingDateFilter.to,
+  })) as DashboardBookingRow[]
+
+  let costsQuery = supabase
+    .from('additional_costs')
+    .select('date, amount, type, description')
+  if (additionalCostDateFilter.fromDateStr) {
+    costsQuery = costsQuery.gte('date', additionalCostDateFilter.fromDateStr)
+  }
+  if (additionalCostDateFilter.toDateStr) {
+    costsQuery = costsQuery.lte('date', additionalCostDateFilter.toDateStr)
+  }
+  const { data: costs, error } = await costsQuery
+  if (error) throw error
+
+  return buildTaxReport(month, timezone, bookings, (costs as TaxReportCostRow[] | null) || [])
+}
+
+function csvField(value: string | number): string {
+  const text = typeof value === 'number' ? value.toFixed(2) : value
+  return /[",\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function csvRow(values: Array<string | number>): string {
+  return values.map(csvField).join(',')
+}
+
+/** CSV with one section per table, separated by blank lines. Amounts in PLN. */
+export function taxReportToCsv(report: TaxReport): string {
+  const lines: string[] = [
+    csvRow(['Tax report', report.month]),
+    csvRow(['Period', `${report.from} - ${report.to}`]),
+    csvRow(['Timezone', report.timezone]),
+    csvRow(['Tax rates (%)', report.taxRates.map((rate) => String(rate)).join(' / ') || '-']),
+    '',
+    csvRow(['Payment method', 'Bookings', 'Revenue', 'Taxable revenue', 'Tax']),
+    ...report.byPaymentMethod.map((row) =>
+      csvRow([TAX_REPORT_METHOD_LABELS[row.method], String(row.bookingCount), row.revenue, row.taxableRevenue, row.tax])
+    ),
+    csvRow(['Total', String(report.totals.bookingCount), report.totals.revenue, report.totals.taxableRevenue, report.totals.tax]),
+    '',
+    csvRow(['Date', 'Category', 'Description', 'Amount']),
+    ...report.costs.map((cost) =>
+      csvRow([cost.date, cost.type || 'other', cost.description || '', Number(cost.amount) || 0])
+    ),
+    csvRow(['Total deductible costs', '', '', report.totals.deductibleCosts]),
+    '',
+    csvRow(['Reconciliation', 'Report', 'Dashboard']),
+    ...report.reconciliation.map((row) =>
+      csvRow(row.isCount ? [row.label, String(row.report), String(row.dashboard)] : [row.label, row.report, row.dashboard])
+    ),
+  ]
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,30 @@
+import type { BookingStatus } from '@/lib/types'
+
+export const BOOKING_STATUSES: BookingStatus[] = [
+  'scheduled',
+  'confirmed',
+  'completed',
+  'cancelled',
+  'no_show',
+]
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  scheduled: 'Scheduled',
+  confirmed: 'Confirmed',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  no_show: 'No-show',
+}
+
+/** Appointments that still take a slot in the calendar. */
+export function isUpcomingStatus(status: BookingStatus): boolean {
+  return status === 'scheduled' || status === 'confirmed'
+}
+
+/**
+ * Only completed bookings are sales. Rows without a status predate
+ * appointments and were all sales.
+ */
+export function isCompletedBooking(booking: { status?: BookingStatus | null }): boolean {
+  return !booking.status || booking.status === 'completed'
+}
@@ -1,7 +1,9 @@
 import { createAdminClient } from '@/lib/supabase/admin'
-
-const TAX_RATE = 8.5
-const BOOKSY_FEE_RATE = 0.4305
+import { syncBookingFollowUps } from '@/lib/follow-ups/reminders'
+import { getDefaultPaidAt, settleBookingPayments } from '@/lib/bookings/payments'
+import { calculateTaxAmount, fetchTaxRules, getTaxRuleAt, isTaxedPaymentMethod } from '@/lib/tax/tax-rules'
+import { calculateMarketplaceFee, fetchMarketplaceFeeRules, getFeeBaseAmount, getFeeRuleAt } from '@/lib/fees/marketplace-fees'
+import type { BookingCreatedVia, BookingStatus } from '@/lib/types'
 
 export interface CreateBookingServiceItem {
   service_id: string
@@ -21,13 +23,19 @@ export interface CreateBookingInput {
   products: CreateBookingProductItem[]
   totalPaid: number
   paymentMethod?: 'cash' | 'blik' | 'card'
-  booksyFeeEnabled?: boolean
+  // Marketplace that referred the booking, e.g. 'booksy'; charged per its fee rule
+  feePlatform?: string | null
+  // Defaults to the user's tax rule for the payment method
   taxEnabled?: boolean
   isModel?: boolean
   notes?: string | null
   startTime: Date
   endTime?: Date | null
   productCosts: Map<string, number | null>
+  // Defaults to completed; appointments have no profit until they are
+  status?: BookingStatus
+  // Defaults to crm
+  createdVia?: BookingCreatedVia
 }
 
 export async function createBooking(
@@ -45,21 +53,28 @@ export async function createBooking(
     earringRevenue += item.price * item.qty
   }
 
-  const booksyFeeBase =
-    input.booksyFeeEnabled && input.services.length > 0
-      ? input.services[0].price
-      : 0
-  const booksyFee = input.booksyFeeEnabled
-    ? booksyFeeBase * BOOKSY_FEE_RATE
-    : 0
-
-  const taxAmount =
-    input.taxEnabled && input.totalPaid > 0
-      ? (input.totalPaid * TAX_RATE) / 100
-      : 0
+  const [taxRules, feeRules, profileRes] = await Promise.all([
+    fetchTaxRules(supabase, input.userId),
+    input.feePlatform ? fetchMarketplaceFeeRules(supabase, input.userId) : Promise.resolve([]),
+    supabase.from('user_profiles').select('timezone').eq('user_id', input.userId).maybeSingle(),
+  ])
+  const timezone = (profileRes.data as { timezone?: string } | null)?.timezone ?? 'Europe/Warsaw'
+
+  const feeRule = input.feePlatform
+    ? getFeeRuleAt(feeRules, input.feePlatform, input.startTime, timezone)
+    : null
+  const booksyFee = calculateMarketplaceFee(
+    getFeeBaseAmount(feeRule, input.services.map((s) => s.price), input.totalPaid),
+    feeRule
+  )
+  const taxRule = getTaxRuleAt(taxRules, input.startTime, timezone)
+  const paymentMethod = input.paymentMethod ?? 'cash'
+  const taxEnabled = input.taxEnabled ?? isTaxedPaymentMethod(taxRule, paymentMethod)
+  const taxAmount = taxEnabled ? calculateTaxAmount(input.totalPaid, taxRule) : 0
 
   const totalCosts = earringCost + booksyFee + taxAmount
-  const profit = input.totalPaid - totalCosts
+  const status = input.status ?? 'completed'
+  const profit = status === 'completed' ? input.totalPaid - totalCosts : null
 
   const bookingData = {
     client_id: input.clientId ?? null,
@@ -73,16 +88,19 @@ export async function createBooking(
     travel_fee: 0,
     location: null,
     booksy_fee: booksyFee,
+    fee_platform: input.feePlatform ?? null,
     broken_earring_loss: 0,
     total_paid: input.totalPaid,
-    payment_method: input.paymentMethod ?? 'cash',
-    tax_enabled: input.taxEnabled ?? false,
-    tax_rate: TAX_RATE,
+    payment_method: paymentMethod,
+    tax_enabled: taxEnabled,
+    tax_rate: taxRule?.rate ?? 0,
     tax_amount: taxAmount,
     notes: input.notes ?? null,
     start_time: input.startTime.toISOString(),
     end_time: input.endTime?.toISOString() ?? null,
     profit,
+    status,
+    created_via: input.createdVia ?? 'crm',
     user_id: input.userId,
   }
 
@@ -124,5 +142,23 @@ export async function createBooking(
     if (serviceError) throw serviceError
   }
 
+  // total_paid is derived from the payment ledger from here on
+  if (input.totalPaid > 0) {
+    await settleBookingPayments(supabase, {
+      userId: input.userId,
+      bookingId,
+      targetTotal: input.totalPaid,
+      method: paymentMethod,
+      paidAt: getDefaultPaidAt(input.startTime),
+      existingPayments: [],
+    })
+  }
+
+  try {
+    await syncBookingFollowUps(supabase, bookingId)
+  } catch (followUpError) {
+    console.error('Error generating follow-up reminders:', followUpError)
+  }
+
   return bookingId
 }
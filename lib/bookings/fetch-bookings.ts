@@ -24,6 +24,10 @@ const BOOKINGS_SELECT = `
     qty,
     cost,
     product:products(*)
+  ),
+  consent_forms(
+    id,
+    signed_at
   )
 `
 
@@ -11,7 +11,13 @@ const DASHBOARD_BOOKINGS_SELECT = `
   booksy_fee,
   broken_earring_loss,
   tax_amount,
+  tax_enabled,
+  tax_rate,
+  payment_method,
+  custom_discount,
+  promotion_id,
   start_time,
+  status,
   service_id,
   service_price,
   earring_id,
@@ -40,6 +46,11 @@ const DASHBOARD_BOOKINGS_SELECT = `
       id,
       name
     )
+  ),
+  booking_payments(
+    type,
+    amount,
+    method
   )
 `
 
@@ -47,7 +58,7 @@ const PAGE_SIZE = 1000
 
 export async function fetchDashboardBookings(
   supabase: SupabaseClient,
-  filters?: { from?: Date; to?: Date }
+  filters?: { from?: Date; to?: Date; userId?: string }
 ) {
   const allBookings: unknown[] = []
   let from = 0
@@ -59,6 +70,10 @@ export async function fetchDashboardBookings(
       .order('start_time', { ascending: true })
       .range(from, from + PAGE_SIZE - 1)
 
+    // Needed with the admin client, which is not limited by RLS
+    if (filters?.userId) {
+      query = query.eq('user_id', filters.userId)
+    }
     if (filters?.from) {
       query = query.gte('start_time', filters.from.toISOString())
     }
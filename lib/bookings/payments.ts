@@ -0,0 +1,117 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { BookingPayment, BookingPaymentType, PaymentMethod } from '@/lib/types'
+
+export const BOOKING_PAYMENT_TYPE_LABELS: Record<BookingPaymentType, string> = {
+  deposit: 'Deposit',
+  payment: 'Payment',
+  refund: 'Refund',
+}
+
+/** Differences below this are rounding, not a missing payment. */
+const PAYMENT_TOLERANCE = 0.005
+
+/** Signed amount: refunds count against the total. */
+export function getSignedPaymentAmount(payment: Pick<BookingPayment, 'type' | 'amount'>): number {
+  const amount = Number(payment.amount) || 0
+  return payment.type === 'refund' ? -amount : amount
+}
+
+/** Same sum the DB trigger writes to bookings.total_paid. */
+export function getNetPaid(payments: Array<Pick<BookingPayment, 'type' | 'amount'>>): number {
+  return Math.max(
+    Math.round(payments.reduce((sum, payment) => sum + getSignedPaymentAmount(payment), 0) * 100) / 100,
+    0
+  )
+}
+
+export async function fetchBookingPayments(
+  supabase: SupabaseClient,
+  bookingId: string
+): Promise<BookingPayment[]> {
+  const { data, error } = await supabase
+    .from('booking_payments')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('paid_at', { ascending: true })
+  if (error) throw error
+  return ((data as BookingPayment[] | null) || []).map((payment) => ({
+    ...payment,
+    amount: Number(payment.amount),
+  }))
+}
+
+export async function addBookingPayment(
+  supabase: SupabaseClient,
+  input: {
+    userId: string
+    bookingId: string
+    type: BookingPaymentType
+    amount: number
+    method: PaymentMethod
+    voucherId?: string | null
+    paidAt?: Date
+    notes?: string | null
+  }
+): Promise<void> {
+  if (input.method === 'voucher' && !input.voucherId) {
+    throw new Error('Choose the gift voucher being redeemed')
+  }
+  const { error } = await supabase.from('booking_payments').insert([
+    {
+      user_id: input.userId,
+      booking_id: input.bookingId,
+      type: input.type,
+      amount: Math.round(input.amount * 100) / 100,
+      method: input.method,
+      voucher_id: input.method === 'voucher' ? input.voucherId : null,
+      paid_at: (input.paidAt ?? new Date()).toISOString(),
+      notes: input.notes?.trim() || null,
+    },
+  ] as never)
+  if (error) throw error
+}
+
+export async function deleteBookingPayment(supabase: SupabaseClient, paymentId: string): Promise<void> {
+  const { error } = await supabase.from('booking_payments').delete().eq('id', paymentId)
+  if (error) throw error
+}
+
+/**
+ * Brings the ledger to a target total by recording the difference: a payment
+ * when more was paid, a refund when less. Used where a single "total paid"
+ * is entered (booking form, Telegram bot) so totals stay ledger-derived.
+ */
+export async function settleBookingPayments(
+  supabase: SupabaseClient,
+  input: {
+    userId: string
+    bookingId: string
+    targetTotal: number
+    method: PaymentMethod
+    voucherId?: string | null
+    paidAt?: Date
+    existingPayments?: BookingPayment[]
+  }
+): Promise<void> {
+  const existing = input.existingPayments ?? (await fetchBookingPayments(supabase, input.bookingId))
+  const difference = input.targetTotal - getNetPaid(existing)
+  if (Math.abs(difference) < PAYMENT_TOLERANCE) return
+
+  await addBookingPayment(supabase, {
+    userId: input.userId,
+    bookingId: input.bookingId,
+    type: difference > 0 ? 'payment' : 'refund',
+    amount: Math.abs(difference),
+    method: input.method,
+    voucherId: input.voucherId,
+    paidAt: input.paidAt,
+  })
+}
+
+/**
+ * The first payment for a past appointment is dated to the appointment, not to
+ * when it was entered. Later adjustments are dated to when they are made.
+ */
+export function getDefaultPaidAt(startTime: Date, now: Date = new Date()): Date {
+  return startTime < now ? startTime : now
+}
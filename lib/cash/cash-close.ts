@@ -0,0 +1,134 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { calendarDateToUTCRange } from '@/lib/date-utils'
+import { getSignedPaymentAmount } from '@/lib/bookings/payments'
+import type { BookingPayment, CashClose } from '@/lib/types'
+
+export interface CashDaySummary {
+  date: string // YYYY-MM-DD, in the user's timezone
+  cashBookingCount: number
+  cashBookingsTotal: number
+  cashVoucherSalesTotal: number
+  cashCostsTotal: number
+  expectedCash: number
+}
+
+/** Differences smaller than this are rounding, not a discrepancy. */
+export const CASH_DIFFERENCE_TOLERANCE = 0.005
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export function hasCashDiscrepancy(close: Pick<CashClose, 'difference'>): boolean {
+  return Math.abs(Number(close.difference)) >= CASH_DIFFERENCE_TOLERANCE
+}
+
+/**
+ * Expected drawer contents for a day: cash taken in on that day (deposits and
+ * payments, minus cash refunds, plus gift vouchers sold for cash) minus
+ * additional costs paid in cash. Pass userId when using the admin client.
+ */
+export async function getCashDaySummary(
+  supabase: SupabaseClient,
+  date: string,
+  timezone: string,
+  userId?: string
+): Promise<CashDaySummary> {
+  const range = calendarDateToUTCRange(date, timezone)
+
+  let paymentsQuery = supabase
+    .from('booking_payments')
+    .select('booking_id, type, amount')
+    .eq('method', 'cash')
+    .gte('paid_at', range.from.toISOString())
+    .lte('paid_at', range.to.toISOString())
+  let vouchersQuery = supabase
+    .from('gift_vouchers')
+    .select('value')
+    .eq('sale_method', 'cash')
+    .gte('sold_at', range.from.toISOString())
+    .lte('sold_at', range.to.toISOString())
+  let costsQuery = supabase
+    .from('additional_costs')
+    .select('amount')
+    .eq('payment_method', 'cash')
+    .eq('date', date)
+  if (userId) {
+    paymentsQuery = paymentsQuery.eq('user_id', userId)
+    vouchersQuery = vouchersQuery.eq('user_id', userId)
+    costsQuery = costsQuery.eq('user_id', userId)
+  }
+
+  const [paymentsRes, vouchersRes, costsRes] = await Promise.all([paymentsQuery, vouchersQuery, costsQuery])
+  if (paymentsRes.error) throw paymentsRes.error
+  if (vouchersRes.error) throw vouchersRes.error
+  if (costsRes.error) throw costsRes.error
+
+  const payments = (paymentsRes.data as Array<Pick<BookingPayment, 'booking_id' | 'type' | 'amount'>> | null) || []
+  const vouchers = (vouchersRes.data as Array<{ value: number | null }> | null) || []
+  const costs = (costsRes.data as Array<{ amount: number | null }> | null) || []
+  const cashBookingsTotal = roundMoney(payments.reduce((sum, p) => sum + getSignedPaymentAmount(p), 0))
+  const cashVoucherSalesTotal = roundMoney(vouchers.reduce((sum, v) => sum + (Number(v.value) || 0), 0))
+  const cashCostsTotal = roundMoney(costs.reduce((sum, c) => sum + (Number(c.amount) || 0), 0))
+
+  return {
+    date,
+    cashBookingCount: new Set(payments.map((p) => p.booking_id)).size,
+    cashBookingsTotal,
+    cashVoucherSalesTotal,
+    cashCostsTotal,
+    expectedCash: roundMoney(cashBookingsTotal + cashVoucherSalesTotal - cashCostsTotal),
+  }
+}
+
+export async function fetchCashClose(
+  supabase: SupabaseClient,
+  date: string,
+  userId?: string
+): Promise<CashClose | null> {
+  let query = supabase.from('cash_closes').select('*').eq('close_date', date)
+  if (userId) {
+    query = query.eq('user_id', userId)
+  }
+  const { data, error } = await query.maybeSingle()
+  if (error) throw error
+  return (data as CashClose | null) ?? null
+}
+
+/**
+ * Records the counted amount against the expected figures. Closing the same
+ * day again replaces the earlier close with fresh figures.
+ */
+export async function saveCashClose(
+  supabase: SupabaseClient,
+  input: {
+    userId: string
+    summary: CashDaySummary
+    countedCash: number
+    notes?: string | null
+  }
+): Promise<CashClose> {
+  const countedCash = roundMoney(input.countedCash)
+  const { data, error } = await supabase
+    .from('cash_closes')
+    .upsert(
+      [{
+        user_id: input.userId,
+        close_date: input.summary.date,
+        cash_booking_count: input.summary.cashBookingCount,
+        cash_bookings_total: input.summary.cashBookingsTotal,
+        cash_voucher_sales_total: input.summary.cashVoucherSalesTotal,
+        cash_costs_total: input.summary.cashCostsTotal,
+        expected_cash: input.summary.expectedCash,
+        counted_cash: countedCash,
+        difference: roundMoney(countedCash - input.summary.expectedCash),
+        notes: input.notes?.trim() || null,
+        closed_at: new Date().toISOString(),
+      }] as never,
+      { onConflict: 'user_id,close_date' }
+    )
+    .select('*')
+    .single()
+  if (error) throw error
+  return data as CashClose
+}
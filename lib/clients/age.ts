@@ -0,0 +1,50 @@
+import type { Client, Service } from '@/lib/types'
+
+export interface AgeCheckResult {
+  /** Underage for a service with no guardian on file: the booking must not be saved. */
+  blocked: string[]
+  warnings: string[]
+}
+
+/** Full years on `on`, from a YYYY-MM-DD date of birth. */
+export function getAgeOnDate(dateOfBirth: string, on: Date): number {
+  const [year, month, day] = dateOfBirth.split('-').map(Number)
+  let age = on.getFullYear() - year
+  const hadBirthday =
+    on.getMonth() + 1 > month || (on.getMonth() + 1 === month && on.getDate() >= day)
+  if (!hadBirthday) age--
+  return age
+}
+
+/** Checks every service with a minimum age against the client's age on the booking date. */
+export function checkServiceAges(
+  client: Pick<Client, 'date_of_birth' | 'guardian_name'> | null,
+  services: Array<Pick<Service, 'name' | 'min_age'>>,
+  on: Date
+): AgeCheckResult {
+  const result: AgeCheckResult = { blocked: [], warnings: [] }
+  const restricted = services.filter((service) => service.min_age !== null && service.min_age > 0)
+  if (restricted.length === 0) return result
+
+  if (!client?.date_of_birth) {
+    restricted.forEach((service) => {
+      result.warnings.push(`${service.name} is ${service.min_age}+ – client's date of birth is unknown`)
+    })
+    return result
+  }
+
+  const age = getAgeOnDate(client.date_of_birth, on)
+  restricted.forEach((service) => {
+    if (age >= (service.min_age as number)) return
+    if (client.guardian_name?.trim()) {
+      result.warnings.push(
+        `Client is ${age}, under ${service.min_age} for ${service.name} – guardian ${client.guardian_name} must consent`
+      )
+    } else {
+      result.blocked.push(
+        `Client is ${age}, under ${service.min_age} for ${service.name} – add a guardian to the client first`
+      )
+    }
+  })
+  return result
+}
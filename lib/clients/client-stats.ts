@@ -0,0 +1,230 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { isCompletedBooking, isUpcomingStatus } from '@/lib/bookings/booking-status'
+import type { BookingStatus, ProductImage } from '@/lib/types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// One-visit clients are expected back for a downsize/check-up around 8 weeks later
+export const DEFAULT_REVISIT_DAYS = 56
+const PREFERRED_SERVICES_LIMIT = 3
+
+type Relation<T> = T | T[] | null | undefined
+
+export interface ClientBookingRow {
+  id: string
+  client_id: string | null
+  start_time: string
+  status?: BookingStatus | null
+  profit: number | null
+  service_id?: string | null
+  service_price?: number | null
+  earring_revenue?: number | null
+  service?: Relation<{ id: string; name: string }>
+  booking_products?: Array<{
+    qty: number | null
+    price: number | null
+    product?: Relation<{
+      id: string
+      name: string
+      product_images?: Array<Pick<ProductImage, 'thumbnail_url' | 'position'>>
+    }>
+  }>
+  booking_services?: Array<{
+    price: number | null
+    service?: Relation<{ id: string; name: string }>
+  }>
+}
+
+export interface ClientStats {
+  clientId: string
+  visits: number
+  lifetimeValue: number
+  totalProfit: number
+  firstVisit: string | null
+  lastVisit: string | null
+  avgDaysBetweenVisits: number | null
+  preferredServices: Array<{ name: string; count: number }>
+  hasUpcoming: boolean
+  /** When the next visit is expected, from the client's own cadence. */
+  nextVisitDue: string | null
+}
+
+const CLIENT_BOOKINGS_SELECT = `
+  id,
+  client_id,
+  start_time,
+  status,
+  profit,
+  service_id,
+  service_price,
+  earring_revenue,
+  service:services(
+    id,
+    name
+  ),
+  booking_products(
+    qty,
+    price,
+    product:products(
+      id,
+      name,
+      product_images(
+        thumbnail_url,
+        position
+      )
+    )
+  ),
+  booking_services(
+    price,
+    service:services(
+      id,
+      name
+    )
+  )
+`
+
+const PAGE_SIZE = 1000
+
+/** Bookings with a client, optionally for a single client. */
+export async function fetchClientBookings(
+  supabase: SupabaseClient,
+  clientId?: string
+): Promise<ClientBookingRow[]> {
+  const allBookings: ClientBookingRow[] = []
+  let from = 0
+
+  while (true) {
+    let query = supabase
+      .from('bookings')
+      .select(CLIENT_BOOKINGS_SELECT)
+      .not('client_id', 'is', null)
+      .order('start_time', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (clientId) {
+      query = query.eq('client_id', clientId)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      throw error
+    }
+
+    const page = (data as ClientBookingRow[] | null) ?? []
+    allBookings.push(...page)
+
+    if (page.length < PAGE_SIZE) {
+      break
+    }
+
+    from += PAGE_SIZE
+  }
+
+  return allBookings
+}
+
+function unwrapRelation<T>(value: Relation<T>): T | null {
+  if (!value) return null
+  return Array.isArray(value) ? value[0] ?? null : value
+}
+
+/** Services and products sold; legacy single-service rows use their own columns. */
+export function getBookingValue(booking: ClientBookingRow): number {
+  const servicesValue = booking.booking_services?.length
+    ? booking.booking_services.reduce((sum, item) => sum + (item.price || 0), 0)
+    : booking.service_price || 0
+  const productsValue = booking.booking_products?.length
+    ? booking.booking_products.reduce((sum, item) => sum + (item.price || 0) * (item.qty || 0), 0)
+    : booking.earring_revenue || 0
+  return servicesValue + productsValue
+}
+
+function getBookingServiceNames(booking: ClientBookingRow): string[] {
+  if (booking.booking_services?.length) {
+    return booking.booking_services
+      .map((item) => unwrapRelation(item.service)?.name)
+      .filter((name): name is string => Boolean(name))
+  }
+  const service = unwrapRelation(booking.service)
+  return service ? [service.name] : []
+}
+
+export function calculateClientStats(
+  clientId: string,
+  bookings: ClientBookingRow[],
+  now: Date = new Date()
+): ClientStats {
+  const completed = bookings
+    .filter((booking) => isCompletedBooking(booking))
+    .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
+  const hasUpcoming = bookings.some(
+    (booking) =>
+      booking.status != null &&
+      isUpcomingStatus(booking.status) &&
+      new Date(booking.start_time).getTime() >= now.getTime()
+  )
+
+  const serviceCounts = new Map<string, number>()
+  completed.forEach((booking) => {
+    getBookingServiceNames(booking).forEach((name) => {
+      serviceCounts.set(name, (serviceCounts.get(name) ?? 0) + 1)
+    })
+  })
+
+  const first = completed[0] ?? null
+  const last = completed[completed.length - 1] ?? null
+  const avgDaysBetweenVisits =
+    first && last && completed.length > 1
+      ? (new Date(last.start_time).getTime() - new Date(first.start_time).getTime()) /
+        DAY_MS /
+        (completed.length - 1)
+      : null
+
+  const cadenceDays = Math.round(avgDaysBetweenVisits ?? DEFAULT_REVISIT_DAYS)
+  const nextVisitDue = last
+    ? new Date(new Date(last.start_time).getTime() + cadenceDays * DAY_MS).toISOString()
+    : null
+
+  return {
+    clientId,
+    visits: completed.length,
+    lifetimeValue: completed.reduce((sum, booking) => sum + getBookingValue(booking), 0),
+    totalProfit: completed.reduce((sum, booking) => sum + (booking.profit || 0), 0),
+    firstVisit: first?.start_time ?? null,
+    lastVisit: last?.start_time ?? null,
+    avgDaysBetweenVisits,
+    preferredServices: Array.from(serviceCounts.entries())
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, PREFERRED_SERVICES_LIMIT),
+    hasUpcoming,
+    nextVisitDue,
+  }
+}
+
+/**
+ * Clients past their expected next visit with nothing booked, most valuable
+ * first. Bookings may belong to any number of clients.
+ */
+export function getOverdueClients(bookings: ClientBookingRow[], now: Date = new Date()): ClientStats[] {
+  const byClient = new Map<string, ClientBookingRow[]>()
+  bookings.forEach((booking) => {
+    if (!booking.client_id) return
+    byClient.set(booking.client_id, [...(byClient.get(booking.client_id) ?? []), booking])
+  })
+
+  return Array.from(byClient.entries())
+    .map(([clientId, clientBookings]) => calculateClientStats(clientId, clientBookings, now))
+    .filter(
+      (stats) =>
+        !stats.hasUpcoming &&
+        stats.nextVisitDue !== null &&
+        new Date(stats.nextVisitDue).getTime() < now.getTime()
+    )
+    .sort((a, b) => b.lifetimeValue - a.lifetimeValue)
+}
+
+/** Whole days since the expected visit date. */
+export function getDaysOverdue(stats: ClientStats, now: Date = new Date()): number {
+  if (!stats.nextVisitDue) return 0
+  return Math.max(0, Math.floor((now.getTime() - new Date(stats.nextVisitDue).getTime()) / DAY_MS))
+}
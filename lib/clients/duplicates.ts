@@ -0,0 +1,119 @@
+import type { Client } from '@/lib/types'
+import { normalizePhone } from '@/lib/clients/phone'
+
+// Names at least this similar (0–1) are treated as the same person
+const NAME_SIMILARITY_THRESHOLD = 0.85
+// Very short names ("Ola", "Kasia") match too many unrelated clients
+const MIN_NAME_LENGTH = 5
+
+export type DuplicateReason = 'phone' | 'name'
+
+export interface DuplicateGroup {
+  clients: Client[]
+  reasons: DuplicateReason[]
+}
+
+/**
+ * Lowercase, without Polish diacritics and punctuation, words sorted so
+ * "Nowak Anna" and "anna  nowak" compare equal.
+ */
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/ł/g, 'l')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ')
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/** 1 for identical normalized names, 0 for nothing in common. */
+export function nameSimilarity(a: string, b: string): number {
+  const normalizedA = normalizeName(a)
+  const normalizedB = normalizeName(b)
+  const maxLength = Math.max(normalizedA.length, normalizedB.length)
+  if (maxLength === 0) return 0
+  return 1 - levenshtein(normalizedA, normalizedB) / maxLength
+}
+
+function namesMatch(a: string, b: string): boolean {
+  const normalizedA = normalizeName(a)
+  const normalizedB = normalizeName(b)
+  if (normalizedA.length < MIN_NAME_LENGTH || normalizedB.length < MIN_NAME_LENGTH) {
+    return normalizedA === normalizedB && normalizedA.includes(' ')
+  }
+  return nameSimilarity(a, b) >= NAME_SIMILARITY_THRESHOLD
+}
+
+/**
+ * Groups clients that share a phone number or have near-identical names.
+ * Matches are transitive: if A~B and B~C, all three end up in one group.
+ */
+export function findDuplicateGroups(clients: Client[]): DuplicateGroup[] {
+  const parent = clients.map((_, i) => i)
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]]
+      i = parent[i]
+    }
+    return i
+  }
+
+  const reasonsByRoot = new Map<number, Set<DuplicateReason>>()
+  const link = (i: number, j: number, reason: DuplicateReason) => {
+    const rootI = find(i)
+    const rootJ = find(j)
+    const reasons = new Set([
+      ...(reasonsByRoot.get(rootI) ?? []),
+      ...(reasonsByRoot.get(rootJ) ?? []),
+      reason,
+    ])
+    parent[rootJ] = rootI
+    reasonsByRoot.delete(rootJ)
+    reasonsByRoot.set(rootI, reasons)
+  }
+
+  const phones = clients.map((client) => normalizePhone(client.phone))
+  for (let i = 0; i < clients.length; i++) {
+    for (let j = i + 1; j < clients.length; j++) {
+      if (phones[i] !== null && phones[i] === phones[j]) {
+        link(i, j, 'phone')
+      } else if (namesMatch(clients[i].name, clients[j].name)) {
+        link(i, j, 'name')
+      }
+    }
+  }
+
+  const groups = new Map<number, Client[]>()
+  clients.forEach((client, i) => {
+    const root = find(i)
+    groups.set(root, [...(groups.get(root) ?? []), client])
+  })
+
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      clients: members,
+      reasons: Array.from(reasonsByRoot.get(root) ?? []),
+    }))
+}
@@ -0,0 +1,16 @@
+const HANDLE_PATTERN = /^[a-z0-9._]{1,30}$/
+
+/**
+ * Instagram handle as stored on clients: "@Anna.Nowak", "anna.nowak" and
+ * "instagram.com/anna.nowak/" all become "anna.nowak". Null when it is not a handle.
+ */
+export function normalizeInstagramHandle(value: string | null | undefined): string | null {
+  if (!value) return null
+  const handle = value
+    .trim()
+    .toLowerCase()
+    .replace(/^(?:https?:\/\/)?(?:www\.)?instagram\.com\//, '')
+    .replace(/^@/, '')
+    .replace(/[/?#].*$/, '')
+  return HANDLE_PATTERN.test(handle) ? handle : null
+}
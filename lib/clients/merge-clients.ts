@@ -0,0 +1,46 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Client } from '@/lib/types'
+
+/** Distinct non-empty notes, kept client's first, separated by blank lines. */
+export function combineNotes(notes: Array<string | null>): string | null {
+  const seen = new Set<string>()
+  const parts: string[] = []
+  for (const note of notes) {
+    const trimmed = note?.trim()
+    if (!trimmed || seen.has(trimmed)) continue
+    seen.add(trimmed)
+    parts.push(trimmed)
+  }
+  return parts.length > 0 ? parts.join('\n\n') : null
+}
+
+/**
+ * Moves every booking, follow-up reminder and consent form of `duplicates` to
+ * `keep`, fills the kept client's empty phone/instagram/source, date of birth
+ * and guardian details from the duplicates, combines notes and deletes the
+ * duplicates. The values are worked out here; the merge_clients function
+ * writes everything in one transaction.
+ */
+export async function mergeClients(
+  supabase: SupabaseClient,
+  keep: Client,
+  duplicates: Client[]
+): Promise<void> {
+  const duplicateIds = duplicates.map((client) => client.id).filter((id) => id !== keep.id)
+  if (duplicateIds.length === 0) return
+
+  const { error } = await supabase.rpc('merge_clients', {
+    p_keep_id: keep.id,
+    p_duplicate_ids: duplicateIds,
+    p_fields: {
+      phone: keep.phone || duplicates.find((client) => client.phone)?.phone || null,
+      instagram: keep.instagram || duplicates.find((client) => client.instagram)?.instagram || null,
+      source: keep.source || duplicates.find((client) => client.source)?.source || null,
+      date_of_birth: keep.date_of_birth || duplicates.find((client) => client.date_of_birth)?.date_of_birth || null,
+      guardian_name: keep.guardian_name || duplicates.find((client) => client.guardian_name)?.guardian_name || null,
+      guardian_phone: keep.guardian_phone || duplicates.find((client) => client.guardian_phone)?.guardian_phone || null,
+      notes: combineNotes([keep.notes, ...duplicates.map((client) => client.notes)]),
+    },
+  } as never)
+  if (error) throw error
+}
@@ -0,0 +1,23 @@
+const DEFAULT_COUNTRY_CODE = '48'
+
+/**
+ * Digits-only phone for matching clients: "+48 600-100-200", "0048600100200"
+ * and "600 100 200" all become "48600100200". Returns null for too-short input.
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  if (!phone) return null
+  let digits = phone.replace(/\D/g, '')
+  if (digits.startsWith('00')) {
+    digits = digits.slice(2)
+  }
+  // Local Polish mobile/landline numbers are 9 digits
+  if (digits.length === 9) {
+    digits = DEFAULT_COUNTRY_CODE + digits
+  }
+  return digits.length >= 7 ? digits : null
+}
+
+export function phonesMatch(a: string | null | undefined, b: string | null | undefined): boolean {
+  const normalizedA = normalizePhone(a)
+  return normalizedA !== null && normalizedA === normalizePhone(b)
+}
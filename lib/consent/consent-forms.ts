@@ -0,0 +1,53 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { BookingStatus, ConsentForm, ConsentQuestion, ConsentTemplate } from '@/lib/types'
+
+/** One health question per non-empty line. */
+export function parseConsentQuestions(text: string): ConsentQuestion[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((label, index) => ({ id: `q${index + 1}`, label }))
+}
+
+export function consentQuestionsToText(questions: ConsentQuestion[]): string {
+  return questions.map((question) => question.label).join('\n')
+}
+
+export function getConsentLink(token: string, origin: string): string {
+  return `${origin}/consent/${token}`
+}
+
+/**
+ * Cancelled and no-show bookings never happened, so they need no consent.
+ * Everything else needs at least one signed form.
+ */
+export function isConsentMissing(booking: {
+  status?: BookingStatus | null
+  consent_forms?: Array<Pick<ConsentForm, 'signed_at'>> | null
+}): boolean {
+  if (booking.status === 'cancelled' || booking.status === 'no_show') return false
+  return !booking.consent_forms?.some((form) => form.signed_at)
+}
+
+/** Snapshots the template so later template edits do not change what was signed. */
+export async function createConsentForm(
+  supabase: SupabaseClient,
+  input: { userId: string; bookingId: string; clientId: string | null; template: ConsentTemplate }
+): Promise<ConsentForm> {
+  const { data, error } = await supabase
+    .from('consent_forms')
+    .insert({
+      user_id: input.userId,
+      booking_id: input.bookingId,
+      client_id: input.clientId,
+      template_id: input.template.id,
+      template_name: input.template.name,
+      body: input.template.body,
+      questions: input.template.questions,
+    } as never)
+    .select('*')
+    .single()
+  if (error) throw error
+  return data as ConsentForm
+}
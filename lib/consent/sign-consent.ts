@@ -0,0 +1,84 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import type { ConsentAnswer, ConsentForm } from '@/lib/types'
+
+// A drawn signature PNG is typically 10–60 KB as a data URL
+const MAX_SIGNATURE_LENGTH = 500_000
+const SIGNATURE_PREFIX = 'data:image/png;base64,'
+
+export interface SignConsentInput {
+  signerName: string
+  signedByGuardian: boolean
+  guardianName?: string | null
+  answers: Array<{ question_id: string; answer: boolean; details?: string | null }>
+  signature: string
+}
+
+export type SignConsentResult = { ok: true } | { ok: false; error: string; status: number }
+
+/** Public lookup by link token; bypasses RLS, so only expose what the signer needs. */
+export async function loadConsentFormByToken(token: string): Promise<ConsentForm | null> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('consent_forms')
+    .select('*')
+    .eq('token', token)
+    .maybeSingle()
+  if (error) throw error
+  return data as ConsentForm | null
+}
+
+export async function signConsentForm(token: string, input: SignConsentInput): Promise<SignConsentResult> {
+  const form = await loadConsentFormByToken(token)
+  if (!form) {
+    return { ok: false, error: 'Consent form not found', status: 404 }
+  }
+  if (form.signed_at) {
+    return { ok: false, error: 'This form has already been signed', status: 409 }
+  }
+  if (!input.signature.startsWith(SIGNATURE_PREFIX) || input.signature.length > MAX_SIGNATURE_LENGTH) {
+    return { ok: false, error: 'Please sign the form', status: 400 }
+  }
+  if (input.signedByGuardian && !input.guardianName?.trim()) {
+    return { ok: false, error: "Please enter the guardian's name", status: 400 }
+  }
+
+  const answers: ConsentAnswer[] = []
+  for (const question of form.questions) {
+    const answer = input.answers.find((a) => a.question_id === question.id)
+    if (!answer) {
+      return { ok: false, error: 'Please answer every question', status: 400 }
+    }
+    answers.push({
+      question_id: question.id,
+      label: question.label,
+      answer: answer.answer,
+      details: answer.details?.trim() || null,
+    })
+  }
+
+  const supabase = createAdminClient()
+  const { data: signed, error } = await supabase
+    .from('consent_forms')
+    .update({
+      answers,
+      signer_name: input.signerName.trim(),
+      signed_by_guardian: input.signedByGuardian,
+      guardian_name: input.signedByGuardian ? input.guardianName?.trim() : null,
+      signature: input.signature,
+      signed_at: new Date().toISOString(),
+    } as never)
+    .eq('id', form.id)
+    // Two tabs submitting at once: only the first one wins
+    .is('signed_at', null)
+    .select('id')
+  if (error) throw error
+
+  if (!signed || signed.length === 0) {
+    const current = await loadConsentFormByToken(token)
+    return current
+      ? { ok: false, error: 'This form has already been signed', status: 409 }
+      : { ok: false, error: 'Consent form not found', status: 404 }
+  }
+
+  return { ok: true }
+}
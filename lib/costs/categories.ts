@@ -0,0 +1,9 @@
+// Offered even before the user has any costs of these types
+export const DEFAULT_COST_CATEGORIES = ['rent', 'ads', 'print', 'consumables', 'other']
+
+/** Defaults plus every type already used, unique and sorted */
+export function mergeCostCategories(types: Array<string | null | undefined>): string[] {
+  return Array.from(
+    new Set([...DEFAULT_COST_CATEGORIES, ...types.filter((type): type is string => !!type)])
+  ).sort()
+}
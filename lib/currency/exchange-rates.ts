@@ -51,3 +51,44 @@ export async function getPlnExchangeRates(): Promise<PlnExchangeRates> {
     return FALLBACK_RATES
   }
 }
+
+interface NbpSeriesResponse {
+  rates: Array<{ effectiveDate: string; mid: number }>
+}
+
+export interface DatedExchangeRate {
+  rate: number
+  effectiveDate: string
+}
+
+/**
+ * NBP mid rate (PLN per 1 unit) for a calendar date (YYYY-MM-DD).
+ * NBP publishes no table on weekends and holidays, so the last rate published
+ * on or before the date is used. Throws instead of falling back: purchase costs
+ * must not be booked at a guessed rate.
+ */
+export async function getPlnExchangeRateForDate(
+  currency: 'USD' | 'EUR',
+  date: string
+): Promise<DatedExchangeRate> {
+  const [year, month, day] = date.split('-').map(Number)
+  const from = new Date(Date.UTC(year, month - 1, day - 10)).toISOString().split('T')[0]
+
+  const response = await fetch(
+    `https://api.nbp.pl/api/exchangerates/rates/a/${currency.toLowerCase()}/${from}/${date}/?format=json`,
+    { next: { revalidate: 86400 } }
+  )
+
+  if (!response.ok) {
+    throw new Error(`NBP API responded with ${response.status} for ${currency} on ${date}`)
+  }
+
+  const data = (await response.json()) as NbpSeriesResponse
+  const latest = data.rates?.[data.rates.length - 1]
+
+  if (!latest?.mid) {
+    throw new Error(`NBP API returned no ${currency} rate for ${date}`)
+  }
+
+  return { rate: latest.mid, effectiveDate: latest.effectiveDate }
+}
@@ -0,0 +1,87 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { extractCalendarDateInTimezone } from '@/lib/date-utils'
+import type { MarketplaceFeeBase, MarketplaceFeeRule } from '@/lib/types'
+
+export const MARKETPLACE_FEE_BASE_LABELS: Record<MarketplaceFeeBase, string> = {
+  first_service: 'first service price',
+  all_services: 'all services',
+  total: 'total paid',
+}
+
+export function formatPlatformName(platform: string): string {
+  return platform.charAt(0).toUpperCase() + platform.slice(1)
+}
+
+/** Platforms that have at least one rule, in name order. */
+export function getFeePlatforms(rules: MarketplaceFeeRule[]): string[] {
+  return Array.from(new Set(rules.map((rule) => rule.platform))).sort()
+}
+
+/** Latest rule for the platform whose effective_from is on or before the date. */
+export function getFeeRuleForDate(
+  rules: MarketplaceFeeRule[],
+  platform: string,
+  dateStr: string
+): MarketplaceFeeRule | null {
+  let match: MarketplaceFeeRule | null = null
+  for (const rule of rules) {
+    if (rule.platform !== platform || rule.effective_from > dateStr) continue
+    if (!match || rule.effective_from > match.effective_from) {
+      match = rule
+    }
+  }
+  return match
+}
+
+export function getFeeRuleAt(
+  rules: MarketplaceFeeRule[],
+  platform: string,
+  at: Date,
+  timezone: string
+): MarketplaceFeeRule | null {
+  return getFeeRuleForDate(rules, platform, extractCalendarDateInTimezone(at, timezone))
+}
+
+/** Amount the commission is charged on, per the rule's fee_base. */
+export function getFeeBaseAmount(
+  rule: MarketplaceFeeRule | null,
+  servicePrices: number[],
+  totalPaid: number
+): number {
+  if (!rule) return 0
+  switch (rule.fee_base) {
+    case 'first_service':
+      return servicePrices[0] ?? 0
+    case 'all_services':
+      return servicePrices.reduce((sum, price) => sum + price, 0)
+    case 'total':
+      return totalPaid
+  }
+}
+
+/** Percentage of the base, raised to the minimum fee; nothing is charged on a zero base. */
+export function calculateMarketplaceFee(base: number, rule: MarketplaceFeeRule | null): number {
+  if (!rule || base <= 0) return 0
+  return Math.max((base * rule.rate) / 100, rule.min_fee)
+}
+
+export async function fetchMarketplaceFeeRules(
+  supabase: SupabaseClient,
+  userId?: string
+): Promise<MarketplaceFeeRule[]> {
+  let query = supabase
+    .from('marketplace_fee_rules')
+    .select('*')
+    .order('platform', { ascending: true })
+    .order('effective_from', { ascending: true })
+  if (userId) {
+    query = query.eq('user_id', userId)
+  }
+  const { data, error } = await query
+  if (error) throw error
+  return ((data as MarketplaceFeeRule[] | null) || []).map((rule) => ({
+    ...rule,
+    rate: Number(rule.rate),
+    min_fee: Number(rule.min_fee),
+  }))
+}
@@ -0,0 +1,218 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { isCompletedBooking } from '@/lib/bookings/booking-status'
+import { addDaysToCalendarDate, extractCalendarDateInTimezone } from '@/lib/date-utils'
+import type { BookingStatus, FollowUpReminder, ServiceFollowUpRule } from '@/lib/types'
+
+type Relation<T> = T | T[] | null | undefined
+
+interface FollowUpBookingRow {
+  id: string
+  user_id: string
+  client_id: string | null
+  start_time: string
+  status: BookingStatus | null
+  service_id: string | null
+  client?: Relation<{ name: string }>
+  service?: Relation<{ id: string; name: string }>
+  booking_services?: Array<{ service_id: string; service?: Relation<{ id: string; name: string }> }>
+}
+
+function unwrapRelation<T>(value: Relation<T>): T | null {
+  if (!value) return null
+  return Array.isArray(value) ? value[0] ?? null : value
+}
+
+/** Fills {client} and {service} in a rule's message template. */
+export function renderFollowUpMessage(
+  template: string,
+  values: { client: string; service: string }
+): string {
+  return template.replace(/\{client\}/g, values.client).replace(/\{service\}/g, values.service)
+}
+
+/**
+ * Brings the booking's pending reminders in line with its services' rules:
+ * creates missing ones, moves due dates after a reschedule and removes those
+ * whose rule no longer applies. Done reminders are never touched. Only
+ * completed bookings with a client get reminders.
+ */
+export async function syncBookingFollowUps(supabase: SupabaseClient, bookingId: string): Promise<void> {
+  const { data: bookingData, error: bookingError } = await supabase
+    .from('bookings')
+    .select(`
+      id,
+      user_id,
+      client_id,
+      start_time,
+      status,
+      service_id,
+      client:clients(name),
+      service:services(id, name),
+      booking_services(
+        service_id,
+        service:services(id, name)
+      )
+    `)
+    .eq('id', bookingId)
+    .single()
+  if (bookingError) throw bookingError
+  const booking = bookingData as FollowUpBookingRow
+
+  const { data: existingData, error: existingError } = await supabase
+    .from('follow_up_reminders')
+    .select('*')
+    .eq('booking_id', bookingId)
+  if (existingError) throw existingError
+  const existing = (existingData as FollowUpReminder[] | null) || []
+  const pending = existing.filter((reminder) => reminder.status === 'pending')
+
+  const serviceNames = new Map<string, string>()
+  if (booking.booking_services?.length) {
+    booking.booking_services.forEach((item) => {
+      serviceNames.set(item.service_id, unwrapRelation(item.service)?.name ?? '')
+    })
+  } else if (booking.service_id) {
+    serviceNames.set(booking.service_id, unwrapRelation(booking.service)?.name ?? '')
+  }
+
+  let rules: ServiceFollowUpRule[] = []
+  if (booking.client_id && isCompletedBooking(booking) && serviceNames.size > 0) {
+    const { data: rulesData, error: rulesError } = await supabase
+      .from('service_follow_up_rules')
+      .select('*')
+      .in('service_id', Array.from(serviceNames.keys()))
+    if (rulesError) throw rulesError
+    rules = (rulesData as ServiceFollowUpRule[] | null) || []
+  }
+
+  const ruleIds = new Set(rules.map((rule) => rule.id))
+  const staleIds = pending
+    .filter((reminder) => !reminder.rule_id || !ruleIds.has(reminder.rule_id))
+    .map((reminder) => reminder.id)
+  if (staleIds.length > 0) {
+    const { error } = await supabase.from('follow_up_reminders').delete().in('id', staleIds)
+    if (error) throw error
+  }
+
+  if (rules.length === 0 || !booking.client_id) return
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('timezone')
+    .eq('user_id', booking.user_id)
+    .maybeSingle()
+  const timezone = (profile as { timezone?: string } | null)?.timezone ?? 'Europe/Warsaw'
+  const visitDate = extractCalendarDateInTimezone(booking.start_time, timezone)
+  const clientName = unwrapRelation(booking.client)?.name ?? ''
+
+  const toInsert: Array<Record<string, unknown>> = []
+  for (const rule of rules) {
+    const dueDate = addDaysToCalendarDate(visitDate, rule.offset_days)
+    const message = renderFollowUpMessage(rule.message, {
+      client: clientName,
+      service: serviceNames.get(rule.service_id) ?? '',
+    })
+    const current = existing.find((reminder) => reminder.rule_id === rule.id)
+
+    if (!current) {
+      toInsert.push({
+        user_id: booking.user_id,
+        client_id: booking.client_id,
+        booking_id: booking.id,
+        rule_id: rule.id,
+        due_date: dueDate,
+        message,
+      })
+    } else if (
+      current.status === 'pending' &&
+      (current.client_id !== booking.client_id || current.due_date !== dueDate || current.message !== message)
+    ) {
+      const { error } = await supabase
+        .from('follow_up_reminders')
+        .update({ client_id: booking.client_id, due_date: dueDate, message } as never)
+        .eq('id', current.id)
+      if (error) throw error
+    }
+  }
+
+  if (toInsert.length > 0) {
+    const { error } = await supabase.from('follow_up_reminders').insert(toInsert as never)
+    if (error) throw error
+  }
+}
+
+export async function markReminderDone(supabase: SupabaseClient, reminderId: string): Promise<void> {
+  const { error } = await supabase
+    .from('follow_up_reminders')
+    .update({ status: 'done', completed_at: new Date().toISOString() } as never)
+    .eq('id', reminderId)
+  if (error) throw error
+}
+
+/** Moves the reminder `days` past today (or past its due date if that is later). */
+export async function snoozeReminder(
+  supabase: SupabaseClient,
+  reminder: Pick<FollowUpReminder, 'id' | 'due_date'>,
+  days: number,
+  today: string
+): Promise<void> {
+  const from = reminder.due_date > today ? reminder.due_date : today
+  const { error } = await supabase
+    .from('follow_up_reminders')
+    .update({ due_date: addDaysToCalendarDate(from, days) } as never)
+    .eq('id', reminder.id)
+  if (error) throw error
+}
+
+export interface FollowUpRuleDraft {
+  id?: string
+  offset_days: number
+  message: string
+}
+
+/**
+ * Replaces the service's rules with `drafts`. Existing rules are updated in
+ * place so reminders already generated from them keep their link.
+ */
+export async function saveServiceFollowUpRules(
+  supabase: SupabaseClient,
+  userId: string,
+  serviceId: string,
+  drafts: FollowUpRuleDraft[]
+): Promise<void> {
+  const { data: existingData, error: existingError } = await supabase
+    .from('service_follow_up_rules')
+    .select('id')
+    .eq('service_id', serviceId)
+  if (existingError) throw existingError
+
+  const keptIds = new Set(drafts.map((draft) => draft.id).filter(Boolean))
+  const removedIds = ((existingData as Array<{ id: string }> | null) || [])
+    .map((rule) => rule.id)
+    .filter((id) => !keptIds.has(id))
+  if (removedIds.length > 0) {
+    const { error } = await supabase.from('service_follow_up_rules').delete().in('id', removedIds)
+    if (error) throw error
+  }
+
+  for (const draft of drafts.filter((d) => d.id)) {
+    const { error } = await supabase
+      .from('service_follow_up_rules')
+      .update({ offset_days: draft.offset_days, message: draft.message } as never)
+      .eq('id', draft.id as string)
+    if (error) throw error
+  }
+
+  const newRules = drafts
+    .filter((draft) => !draft.id)
+    .map((draft) => ({
+      user_id: userId,
+      service_id: serviceId,
+      offset_days: draft.offset_days,
+      message: draft.message,
+    }))
+  if (newRules.length > 0) {
+    const { error } = await supabase.from('service_follow_up_rules').insert(newRules as never)
+    if (error) throw error
+  }
+}
@@ -0,0 +1,67 @@
+import type { JewelleryMaterial } from '@/lib/types'
+
+export const JEWELLERY_MATERIAL_LABELS: Record<JewelleryMaterial, string> = {
+  titanium_f136: 'Implant titanium (ASTM F136)',
+  gold_14k: 'Gold 14k',
+  gold_18k: 'Gold 18k',
+  surgical_steel: 'Surgical steel',
+  niobium: 'Niobium',
+  bioplast: 'Bioplast',
+}
+
+/** Short names for tables and Telegram; the full label is in the product form */
+export const JEWELLERY_MATERIAL_SHORT_LABELS: Record<JewelleryMaterial, string> = {
+  titanium_f136: 'Titanium',
+  gold_14k: 'Gold 14k',
+  gold_18k: 'Gold 18k',
+  surgical_steel: 'Steel',
+  niobium: 'Niobium',
+  bioplast: 'Bioplast',
+}
+
+// Words operators use for each material (RU / PL / EN)
+const MATERIAL_KEYWORDS: Array<[RegExp, JewelleryMaterial[]]> = [
+  [/titan|титан|tytan|f136/i, ['titanium_f136']],
+  [/14\s*k|585/i, ['gold_14k']],
+  [/18\s*k|750/i, ['gold_18k']],
+  // Plain gold is 14k, the usual implant grade; migration 039 maps it the same way
+  [/gold|золот|złot|zlot/i, ['gold_14k']],
+  [/steel|стал|stal|316/i, ['surgical_steel']],
+  [/niob|ниоб/i, ['niobium']],
+  [/bioplast|биопласт/i, ['bioplast']],
+]
+
+/** Materials a free-text hint can mean ("золото" → gold 14k); empty when unknown. */
+export function materialsForHint(hint: string): JewelleryMaterial[] {
+  for (const [pattern, materials] of MATERIAL_KEYWORDS) {
+    if (pattern.test(hint)) return materials
+  }
+  return []
+}
+
+// Piercing gauges as sold, not exact AWG
+const GAUGE_MM: Record<number, number> = {
+  20: 0.8,
+  18: 1,
+  16: 1.2,
+  14: 1.6,
+  12: 2,
+  10: 2.5,
+}
+
+/**
+ * "1.2mm", "1,2" or "16G" → millimetres; a gauge anywhere in the text wins
+ * ("16G (1.2mm)"), as in migration 039. Null when there is no number.
+ */
+export function parseMillimetres(text: string): number | null {
+  const gauge = text.match(/(?:^|[^\d.,])(\d{1,2})\s*g(?:auge)?(?![a-z])/i)
+  if (gauge) return GAUGE_MM[Number(gauge[1])] ?? null
+  const number = text.match(/\d+(?:[.,]\d+)?/)
+  if (!number) return null
+  const mm = Number(number[0].replace(',', '.'))
+  return mm > 0 ? mm : null
+}
+
+export function formatMillimetres(mm: number): string {
+  return `${Number(mm)}mm`
+}
@@ -0,0 +1,73 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export const PRODUCT_IMAGE_BUCKET = 'product-images'
+
+/** Where product photos are written; server only. */
+export interface ProductImageStorage {
+  /** Stores the file and returns the URL to show it from. */
+  put(filePath: string, data: ArrayBuffer, contentType: string): Promise<string>
+  remove(filePaths: string[]): Promise<void>
+}
+
+const LOCAL_ROOT = path.join(process.cwd(), '.uploads', PRODUCT_IMAGE_BUCKET)
+
+export function isLocalProductImageStorage(): boolean {
+  return process.env.PRODUCT_IMAGE_STORAGE === 'local'
+}
+
+/** Resolves a stored path inside the local root (or a subfolder of it); null for anything that escapes it. */
+function resolveLocalPath(filePath: string, folder = LOCAL_ROOT): string | null {
+  const resolved = path.resolve(LOCAL_ROOT, filePath)
+  return resolved.startsWith(folder + path.sep) ? resolved : null
+}
+
+// Development: files under .uploads/, served by /api/product-images/<path>
+const localFileStorage: ProductImageStorage = {
+  async put(filePath, data) {
+    const target = resolveLocalPath(filePath)
+    if (!target) throw new Error('Invalid image path')
+    await mkdir(path.dirname(target), { recursive: true })
+    await writeFile(target, Buffer.from(data))
+    return `/api/product-images/${filePath}`
+  },
+  async remove(filePaths) {
+    for (const filePath of filePaths) {
+      const target = resolveLocalPath(filePath)
+      if (target) await rm(target, { force: true })
+    }
+  },
+}
+
+function createSupabaseStorage(supabase: SupabaseClient): ProductImageStorage {
+  const bucket = supabase.storage.from(PRODUCT_IMAGE_BUCKET)
+  return {
+    async put(filePath, data, contentType) {
+      const { error } = await bucket.upload(filePath, data, { contentType, upsert: false })
+      if (error) throw error
+      return bucket.getPublicUrl(filePath).data.publicUrl
+    },
+    async remove(filePaths) {
+      if (filePaths.length === 0) return
+      const { error } = await bucket.remove(filePaths)
+      if (error) throw error
+    },
+  }
+}
+
+/** Picks the adapter from PRODUCT_IMAGE_STORAGE ("supabase" unless set to "local"). */
+export function getProductImageStorage(supabase: SupabaseClient): ProductImageStorage {
+  return isLocalProductImageStorage() ? localFileStorage : createSupabaseStorage(supabase)
+}
+
+/** Reads a locally stored image; null when missing or outside the user's upload folder. */
+export async function readLocalProductImage(filePath: string, userId: string): Promise<Buffer | null> {
+  const target = resolveLocalPath(filePath, path.join(LOCAL_ROOT, userId))
+  if (!target) return null
+  try {
+    return await readFile(target)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,83 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ProductImage } from '@/lib/types'
+
+export const PRODUCT_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+export const PRODUCT_IMAGE_MAX_BYTES = 5 * 1024 * 1024
+const THUMBNAIL_SIZE = 160
+
+/** The product's cover photo: the image with the lowest position. */
+export function getProductCover<T extends Pick<ProductImage, 'position'>>(
+  images: T[] | null | undefined
+): T | null {
+  if (!images || images.length === 0) return null
+  return [...images].sort((a, b) => a.position - b.position)[0]
+}
+
+export function sortProductImages(images: ProductImage[]): ProductImage[] {
+  return [...images].sort((a, b) => a.position - b.position)
+}
+
+/** Scales a photo down to a WebP thumbnail in the browser; browser only. */
+export async function createThumbnail(file: File): Promise<Blob> {
+  const bitmap = await createImageBitmap(file)
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(bitmap.width * scale)
+  canvas.height = Math.round(bitmap.height * scale)
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Could not create thumbnail')
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not create thumbnail'))),
+      'image/webp',
+      0.85
+    )
+  })
+}
+
+/** Uploads a photo and its thumbnail through /api/products/<id>/images. */
+export async function uploadProductImage(productId: string, file: File): Promise<ProductImage> {
+  if (!PRODUCT_IMAGE_TYPES.includes(file.type)) {
+    throw new Error('Use a JPEG, PNG or WebP photo')
+  }
+  if (file.size > PRODUCT_IMAGE_MAX_BYTES) {
+    throw new Error('Photo is larger than 5 MB')
+  }
+
+  const body = new FormData()
+  body.append('image', file)
+  body.append('thumbnail', await createThumbnail(file), 'thumbnail.webp')
+
+  const res = await fetch(`/api/products/${productId}/images`, { method: 'POST', body })
+  const data = await res.json()
+  if (!res.ok) {
+    throw new Error(data.error || 'Failed to upload photo')
+  }
+  return data as ProductImage
+}
+
+export async function deleteProductImage(productId: string, imageId: string): Promise<void> {
+  const res = await fetch(`/api/products/${productId}/images/${imageId}`, { method: 'DELETE' })
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}))
+    throw new Error(data.error || 'Failed to delete photo')
+  }
+}
+
+/** Moves an image in front of the others so it becomes the cover. */
+export async function setProductImageCover(
+  supabase: SupabaseClient,
+  images: ProductImage[],
+  imageId: string
+): Promise<number> {
+  const position = Math.min(...images.map((image) => image.position)) - 1
+  const { error } = await supabase
+    .from('product_images')
+    .update({ position } as never)
+    .eq('id', imageId)
+  if (error) throw error
+  return position
+}
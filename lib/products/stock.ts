@@ -0,0 +1,20 @@
+import type { Product } from '@/lib/types'
+
+/** On-hand quantity from the stock ledger (0 before migration 024 is applied). */
+export function getOnHandQty(product: Pick<Product, 'on_hand_qty'>): number {
+  return product.on_hand_qty ?? 0
+}
+
+/** True when the product has a reorder point and on-hand stock is at or below it. */
+export function isLowStock(product: Pick<Product, 'on_hand_qty' | 'reorder_point'>): boolean {
+  if (product.reorder_point === null || product.reorder_point === undefined) return false
+  return getOnHandQty(product) <= product.reorder_point
+}
+
+/**
+ * Signed ledger qty for a stock count: the difference between what was counted
+ * and what the ledger currently says is on hand.
+ */
+export function adjustmentQtyForCount(product: Pick<Product, 'on_hand_qty'>, countedQty: number): number {
+  return countedQty - getOnHandQty(product)
+}
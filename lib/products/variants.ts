@@ -0,0 +1,26 @@
+import { JEWELLERY_MATERIAL_SHORT_LABELS, formatMillimetres } from '@/lib/products/attributes'
+import type { Product, ProductSoldAs } from '@/lib/types'
+
+export const PRODUCT_SOLD_AS_LABELS: Record<ProductSoldAs, string> = {
+  single: 'Single',
+  pair: 'Pair',
+}
+
+export type ProductVariantAttributes = Pick<Product, 'sold_as' | 'material' | 'gauge' | 'length' | 'colour'>
+
+/** Id shared by every product in a variant group (the parent's id). */
+export function getVariantGroupId(product: Pick<Product, 'id' | 'parent_id'>): string {
+  return product.parent_id ?? product.id
+}
+
+/** "Pair · Titanium · 1.2mm gauge · 8mm long · Gold", or null when no attribute is set. */
+export function formatProductVariant(product: ProductVariantAttributes): string | null {
+  const parts = [
+    product.sold_as ? PRODUCT_SOLD_AS_LABELS[product.sold_as] : null,
+    product.material ? JEWELLERY_MATERIAL_SHORT_LABELS[product.material] : null,
+    product.gauge ? `${formatMillimetres(product.gauge)} gauge` : null,
+    product.length ? `${formatMillimetres(product.length)} long` : null,
+    product.colour,
+  ].filter((part): part is string => !!part)
+  return parts.length > 0 ? parts.join(' · ') : null
+}
@@ -0,0 +1,166 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { isCompletedBooking } from '@/lib/bookings/booking-status'
+import { formatPln } from '@/lib/currency/format-currency'
+import { getBookingProfit, type DashboardBookingRow } from '@/lib/analytics/dashboard-metrics'
+import type { Promotion, PromotionDiscountType, PromotionScope } from '@/lib/types'
+
+export const PROMOTION_DISCOUNT_TYPE_LABELS: Record<PromotionDiscountType, string> = {
+  percentage: 'Percentage',
+  fixed: 'Fixed amount',
+}
+
+export const PROMOTION_SCOPE_LABELS: Record<PromotionScope, string> = {
+  all: 'Services and products',
+  services: 'Services only',
+  products: 'Products only',
+}
+
+export interface PromotionLines {
+  services: Array<{ service_id: string; price: number }>
+  products: Array<{ category: string | null; amount: number }> // amount = unit price x qty
+}
+
+export function normalizePromotionCode(code: string): string | null {
+  const normalized = code.trim().toUpperCase().replace(/\s+/g, '')
+  return normalized || null
+}
+
+export function formatPromotionDiscount(promotion: Pick<Promotion, 'discount_type' | 'discount_value'>): string {
+  return promotion.discount_type === 'percentage'
+    ? `${Number(promotion.discount_value)}%`
+    : formatPln(Number(promotion.discount_value))
+}
+
+/**
+ * Why a promotion cannot be applied on a date (YYYY-MM-DD, user's timezone),
+ * or null when it can. usageCount should not include the booking being edited.
+ */
+export function getPromotionUnavailableReason(
+  promotion: Pick<Promotion, 'active' | 'starts_on' | 'ends_on' | 'usage_limit'>,
+  date: string,
+  usageCount: number
+): string | null {
+  if (!promotion.active) return 'Inactive'
+  if (date < promotion.starts_on) return 'Not started yet'
+  if (promotion.ends_on && date > promotion.ends_on) return 'Ended'
+  if (promotion.usage_limit !== null && usageCount >= promotion.usage_limit) return 'Usage limit reached'
+  return null
+}
+
+/** Part of the sale the promotion applies to. */
+export function getPromotionEligibleAmount(
+  promotion: Pick<Promotion, 'applies_to' | 'service_ids' | 'product_categories'>,
+  lines: PromotionLines
+): number {
+  let amount = 0
+  if (promotion.applies_to !== 'products') {
+    amount += lines.services
+      .filter((line) => promotion.service_ids.length === 0 || promotion.service_ids.includes(line.service_id))
+      .reduce((sum, line) => sum + (Number(line.price) || 0), 0)
+  }
+  if (promotion.applies_to !== 'services') {
+    amount += lines.products
+      .filter((line) =>
+        promotion.product_categories.length === 0 ||
+        (line.category !== null && promotion.product_categories.includes(line.category))
+      )
+      .reduce((sum, line) => sum + (Number(line.amount) || 0), 0)
+  }
+  return amount
+}
+
+/** A fixed discount never exceeds the eligible amount. */
+export function calculatePromotionDiscount(
+  promotion: Pick<Promotion, 'discount_type' | 'discount_value' | 'applies_to' | 'service_ids' | 'product_categories'>,
+  lines: PromotionLines
+): number {
+  const eligible = getPromotionEligibleAmount(promotion, lines)
+  if (eligible <= 0) return 0
+  const discount = promotion.discount_type === 'percentage'
+    ? eligible * (Number(promotion.discount_value) / 100)
+    : Math.min(Number(promotion.discount_value), eligible)
+  return Math.round(discount * 100) / 100
+}
+
+export async function fetchPromotions(supabase: SupabaseClient): Promise<Promotion[]> {
+  const { data, error } = await supabase
+    .from('promotions')
+    .select('*')
+    .order('starts_on', { ascending: false })
+  if (error) throw error
+  return ((data as Promotion[] | null) || []).map((promotion) => ({
+    ...promotion,
+    discount_value: Number(promotion.discount_value),
+  }))
+}
+
+/**
+ * Uses per promotion. Cancelled and no-show bookings give their use back;
+ * pass excludeBookingId when editing so the booking does not count against itself.
+ */
+export async function fetchPromotionUsage(
+  supabase: SupabaseClient,
+  excludeBookingId?: string
+): Promise<Record<string, number>> {
+  let query = supabase
+    .from('bookings')
+    .select('promotion_id')
+    .not('promotion_id', 'is', null)
+    .not('status', 'in', '(cancelled,no_show)')
+  if (excludeBookingId) {
+    query = query.neq('id', excludeBookingId)
+  }
+  const { data, error } = await query
+  if (error) throw error
+
+  const usage: Record<string, number> = {}
+  for (const row of (data as Array<{ promotion_id: string }> | null) || []) {
+    usage[row.promotion_id] = (usage[row.promotion_id] || 0) + 1
+  }
+  return usage
+}
+
+export interface PromotionReportRow {
+  promotionId: string | null // null: manual discounts
+  name: string
+  bookingCount: number
+  discountTotal: number
+  revenue: number
+  profit: number
+}
+
+/** Discount cost and takings per promotion for completed bookings; manual discounts last. */
+export function buildPromotionReport(
+  bookings: DashboardBookingRow[],
+  promotions: Array<Pick<Promotion, 'id' | 'name'>>
+): PromotionReportRow[] {
+  const names = new Map(promotions.map((promotion) => [promotion.id, promotion.name]))
+  const rows = new Map<string, PromotionReportRow>()
+
+  for (const booking of bookings) {
+    if (!isCompletedBooking(booking)) continue
+    const discount = Number(booking.custom_discount) || 0
+    const promotionId = booking.promotion_id ?? null
+    if (!promotionId && discount <= 0) continue
+
+    const key = promotionId ?? 'manual'
+    const row = rows.get(key) ?? {
+      promotionId,
+      name: promotionId ? names.get(promotionId) ?? 'Deleted promotion' : 'Manual discounts',
+      bookingCount: 0,
+      discountTotal: 0,
+      revenue: 0,
+      profit: 0,
+    }
+    row.bookingCount += 1
+    row.discountTotal += discount
+    row.revenue += Number(booking.total_paid) || 0
+    row.profit += getBookingProfit(booking)
+    rows.set(key, row)
+  }
+
+  return Array.from(rows.values()).sort((a, b) => {
+    if (!a.promotionId !== !b.promotionId) return a.promotionId ? -1 : 1
+    return b.discountTotal - a.discountTotal
+  })
+}
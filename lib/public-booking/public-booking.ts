@@ -0,0 +1,187 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getCrmUserId } from '@/lib/telegram/auth'
+import { createBooking } from '@/lib/bookings/create-booking'
+import { normalizePhone } from '@/lib/clients/phone'
+import {
+  addDaysToCalendarDate,
+  calendarDateToUTCRange,
+  extractCalendarDateInTimezone,
+  getTodayInTimezone,
+} from '@/lib/date-utils'
+import { getFreeSlots, getServicesDuration } from '@/lib/scheduling/availability'
+import { fetchBusyBookings, fetchWorkingSchedule } from '@/lib/scheduling/fetch-schedule'
+
+export const PUBLIC_BOOKING_DAYS_AHEAD = 30
+// Slots starting sooner than this are not offered online
+const MIN_LEAD_MINUTES = 60
+
+export interface PublicService {
+  id: string
+  name: string
+  duration_minutes: number
+  base_price: number
+}
+
+export interface PublicBookingContext {
+  userId: string
+  timezone: string
+  services: PublicService[]
+}
+
+export interface PublicBookingInput {
+  serviceIds: string[]
+  startTime: Date
+  name: string
+  phone: string
+  notes?: string
+}
+
+export type PublicBookingResult =
+  | { ok: true; bookingId: string }
+  | { ok: false; error: string }
+
+/** Online bookings go to the studio account, same as the Telegram bot. */
+export async function loadPublicBookingContext(): Promise<PublicBookingContext> {
+  const userId = await getCrmUserId()
+  const supabase = createAdminClient()
+
+  const [servicesRes, profileRes] = await Promise.all([
+    supabase
+      .from('services')
+      .select('id, name, duration_minutes, base_price')
+      .eq('user_id', userId)
+      .eq('active', true)
+      .order('name'),
+    supabase
+      .from('user_profiles')
+      .select('timezone')
+      .eq('user_id', userId)
+      .maybeSingle(),
+  ])
+
+  if (servicesRes.error) throw servicesRes.error
+
+  return {
+    userId,
+    timezone: (profileRes.data as { timezone?: string } | null)?.timezone ?? 'Europe/Warsaw',
+    services: (servicesRes.data as PublicService[] | null) || [],
+  }
+}
+
+function resolveServices(context: PublicBookingContext, serviceIds: string[]): PublicService[] | null {
+  const unique = Array.from(new Set(serviceIds))
+  const services = unique
+    .map((id) => context.services.find((s) => s.id === id))
+    .filter((s): s is PublicService => Boolean(s))
+  return services.length > 0 && services.length === unique.length ? services : null
+}
+
+/** Calendar dates clients may pick: today through PUBLIC_BOOKING_DAYS_AHEAD. */
+export function isBookableDate(context: PublicBookingContext, dateStr: string): boolean {
+  const today = getTodayInTimezone(context.timezone)
+  return dateStr >= today && dateStr <= addDaysToCalendarDate(today, PUBLIC_BOOKING_DAYS_AHEAD)
+}
+
+export async function getPublicSlots(
+  context: PublicBookingContext,
+  serviceIds: string[],
+  dateStr: string
+): Promise<Date[]> {
+  const services = resolveServices(context, serviceIds)
+  if (!services || !isBookableDate(context, dateStr)) {
+    return []
+  }
+
+  const supabase = createAdminClient()
+  const dayRange = calendarDateToUTCRange(dateStr, context.timezone)
+  // Look back a day so long bookings that started earlier still block their time
+  const [schedule, busy] = await Promise.all([
+    fetchWorkingSchedule(supabase, context.userId),
+    fetchBusyBookings(
+      supabase,
+      new Date(dayRange.from.getTime() - 24 * 60 * 60 * 1000),
+      dayRange.to,
+      context.userId
+    ),
+  ])
+
+  return getFreeSlots(schedule, busy, dateStr, getServicesDuration(services), context.timezone, {
+    notBefore: new Date(Date.now() + MIN_LEAD_MINUTES * 60 * 1000),
+  })
+}
+
+/** Reuse the client with the same phone number, otherwise create one. */
+async function findOrCreateClient(
+  supabase: SupabaseClient,
+  userId: string,
+  name: string,
+  phone: string
+): Promise<string> {
+  const normalized = normalizePhone(phone)
+
+  const { data: clients, error } = await supabase
+    .from('clients')
+    .select('id, phone')
+    .eq('user_id', userId)
+    .not('phone', 'is', null)
+  if (error) throw error
+
+  const existing = ((clients as Array<{ id: string; phone: string | null }> | null) || []).find(
+    (client) => normalized !== null && normalizePhone(client.phone) === normalized
+  )
+  if (existing) {
+    return existing.id
+  }
+
+  const { data: newClient, error: insertError } = await supabase
+    .from('clients')
+    .insert({
+      name,
+      phone: normalized ?? phone,
+      source: 'online',
+      user_id: userId,
+    } as never)
+    .select('id')
+    .single()
+  if (insertError) throw insertError
+
+  return (newClient as { id: string }).id
+}
+
+export async function createPublicBooking(
+  context: PublicBookingContext,
+  input: PublicBookingInput
+): Promise<PublicBookingResult> {
+  const services = resolveServices(context, input.serviceIds)
+  if (!services) {
+    return { ok: false, error: 'Please choose services from the list' }
+  }
+
+  // The slot is checked again here: it may have been taken since the list was loaded
+  const dateStr = extractCalendarDateInTimezone(input.startTime, context.timezone)
+  const slots = await getPublicSlots(context, input.serviceIds, dateStr)
+  if (!slots.some((slot) => slot.getTime() === input.startTime.getTime())) {
+    return { ok: false, error: 'This time is no longer available, please pick another one' }
+  }
+
+  const supabase = createAdminClient()
+  const clientId = await findOrCreateClient(supabase, context.userId, input.name, input.phone)
+  const duration = getServicesDuration(services)
+
+  const bookingId = await createBooking({
+    userId: context.userId,
+    clientId,
+    services: services.map((service) => ({ service_id: service.id, price: service.base_price })),
+    products: [],
+    totalPaid: 0,
+    notes: input.notes ? `Online booking: ${input.notes}` : 'Online booking',
+    startTime: input.startTime,
+    endTime: new Date(input.startTime.getTime() + duration * 60 * 1000),
+    productCosts: new Map(),
+    status: 'scheduled',
+    createdVia: 'online',
+  })
+
+  return { ok: true, bookingId }
+}
@@ -0,0 +1,79 @@
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+const WINDOW_MINUTES = 60
+const MAX_REQUESTS_PER_IP = 5
+const MAX_REQUESTS_PER_PHONE = 3
+
+/** Salted so the stored hash cannot be reversed with a lookup of all IPv4 addresses. */
+export function hashIp(ip: string): string {
+  const salt = process.env.PUBLIC_BOOKING_SALT ?? process.env.SUPABASE_SERVICE_ROLE_KEY ?? ''
+  return createHash('sha256').update(`${salt}:${ip}`).digest('hex')
+}
+
+/** Client address as seen by the proxy (Vercel sets x-forwarded-for). */
+export function getRequestIp(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for')
+  if (forwarded) {
+    return forwarded.split(',')[0].trim()
+  }
+  return request.headers.get('x-real-ip') ?? 'unknown'
+}
+
+async function countRecentRequests(
+  supabase: SupabaseClient,
+  column: 'ip_hash' | 'phone',
+  value: string
+): Promise<number> {
+  const since = new Date(Date.now() - WINDOW_MINUTES * 60 * 1000)
+  const { count, error } = await supabase
+    .from('booking_requests')
+    .select('id', { count: 'exact', head: true })
+    .eq(column, value)
+    .gte('created_at', since.toISOString())
+  if (error) throw error
+  return count ?? 0
+}
+
+export async function isRateLimited(
+  supabase: SupabaseClient,
+  ipHash: string,
+  phone: string | null
+): Promise<boolean> {
+  const [ipCount, phoneCount] = await Promise.all([
+    countRecentRequests(supabase, 'ip_hash', ipHash),
+    phone ? countRecentRequests(supabase, 'phone', phone) : Promise.resolve(0),
+  ])
+  return ipCount >= MAX_REQUESTS_PER_IP || phoneCount >= MAX_REQUESTS_PER_PHONE
+}
+
+/** Every attempt that passes form validation counts towards the limit, including ones rejected later (e.g. a taken slot). */
+export async function logBookingRequest(
+  supabase: SupabaseClient,
+  entry: { userId: string; ipHash: string; phone: string | null; bookingId?: string | null }
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('booking_requests')
+    .insert({
+      user_id: entry.userId,
+      ip_hash: entry.ipHash,
+      phone: entry.phone,
+      booking_id: entry.bookingId ?? null,
+    } as never)
+    .select('id')
+    .single()
+  if (error) throw error
+  return (data as { id: string }).id
+}
+
+export async function attachBookingToRequest(
+  supabase: SupabaseClient,
+  requestId: string,
+  bookingId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('booking_requests')
+    .update({ booking_id: bookingId } as never)
+    .eq('id', requestId)
+  if (error) throw error
+}
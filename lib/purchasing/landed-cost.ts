@@ -0,0 +1,82 @@
+import type { PurchaseOrder, PurchaseOrderItem } from '@/lib/types'
+
+type LandedCostOrder = Pick<PurchaseOrder, 'exchange_rate' | 'shipping' | 'customs_pln'>
+type LandedCostItem = Pick<PurchaseOrderItem, 'id' | 'qty' | 'unit_price'>
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/** Goods value of the order in PLN (excluding shipping and customs). */
+export function getOrderGoodsPln(order: LandedCostOrder, items: LandedCostItem[]): number {
+  return items.reduce((sum, item) => sum + item.qty * item.unit_price * order.exchange_rate, 0)
+}
+
+/** Everything the order cost in PLN: goods, shipping and customs. */
+export function getOrderTotalPln(order: LandedCostOrder, items: LandedCostItem[]): number {
+  return getOrderGoodsPln(order, items) + order.shipping * order.exchange_rate + order.customs_pln
+}
+
+/**
+ * Landed PLN cost per unit for each order line. Shipping and customs are
+ * spread across lines in proportion to line value, so a cheap single ring
+ * doesn't carry the same freight as a gold pair.
+ */
+export function calculateLandedUnitCosts(
+  order: LandedCostOrder,
+  items: LandedCostItem[]
+): Map<string, number> {
+  const goodsPln = getOrderGoodsPln(order, items)
+  const extrasPln = order.shipping * order.exchange_rate + order.customs_pln
+  const totalQty = items.reduce((sum, item) => sum + item.qty, 0)
+  const result = new Map<string, number>()
+
+  for (const item of items) {
+    if (item.qty <= 0) continue
+    const linePln = item.qty * item.unit_price * order.exchange_rate
+    // Free lines (samples) share extras by quantity instead of value
+    const share = goodsPln > 0 ? linePln / goodsPln : item.qty / totalQty
+    result.set(item.id, roundMoney((linePln + extrasPln * share) / item.qty))
+  }
+
+  return result
+}
+
+/**
+ * Weighted average cost after a receipt. Negative or zero stock on hand
+ * (sales recorded before opening stock) contributes nothing to the average.
+ */
+export function weightedAverageCost(
+  currentCost: number | null,
+  onHandBefore: number,
+  receivedQty: number,
+  receivedUnitCost: number
+): number {
+  const existingQty = currentCost === null ? 0 : Math.max(onHandBefore, 0)
+  const totalQty = existingQty + receivedQty
+  if (totalQty <= 0) return receivedUnitCost
+  return roundMoney(((currentCost ?? 0) * existingQty + receivedUnitCost * receivedQty) / totalQty)
+}
+
+/**
+ * FIFO cost of the next unit to sell. Under FIFO the units still on hand are
+ * the most recent receipts, so walk receipts newest-first until on-hand qty is
+ * covered; the oldest layer reached is the one sold next. Mirrored by
+ * fifo_unit_cost() in SQL, which refreshes the cost after sales and losses.
+ */
+export function fifoUnitCost(
+  receiptsNewestFirst: Array<{ qty: number; unit_cost: number | null }>,
+  onHand: number
+): number | null {
+  const layers = receiptsNewestFirst.filter((receipt) => receipt.qty > 0 && receipt.unit_cost !== null)
+  if (layers.length === 0) return null
+
+  let remaining = onHand
+  for (const layer of layers) {
+    if (remaining <= layer.qty) return layer.unit_cost
+    remaining -= layer.qty
+  }
+
+  // More stock than receipts explain (opening stock counted by adjustment)
+  return layers[layers.length - 1].unit_cost
+}
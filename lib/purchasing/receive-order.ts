@@ -0,0 +1,85 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CostMethod, PurchaseOrderWithItems } from '@/lib/types'
+import { calculateLandedUnitCosts, fifoUnitCost, weightedAverageCost } from '@/lib/purchasing/landed-cost'
+
+/**
+ * Receive a draft purchase order: store landed PLN costs on its lines, post
+ * receipts to the stock ledger and re-cost each product with the user's
+ * costing method (weighted average or FIFO). Costs are calculated here; the
+ * receive_purchase_order function writes everything in one transaction.
+ */
+export async function receivePurchaseOrder(
+  supabase: SupabaseClient,
+  orderId: string,
+  costMethod: CostMethod
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select('*, purchase_order_items(*, product:products(id, cost, on_hand_qty))')
+    .eq('id', orderId)
+    .single()
+
+  if (error) throw error
+
+  const order = data as PurchaseOrderWithItems
+  if (order.status === 'received') {
+    throw new Error('This purchase order has already been received')
+  }
+
+  const items = order.purchase_order_items ?? []
+  if (items.length === 0) {
+    throw new Error('Add at least one line before receiving the order')
+  }
+
+  const landedCosts = calculateLandedUnitCosts(order, items)
+  // Running stock per product, so two lines of the same SKU cost correctly
+  const productState = new Map<string, {
+    onHand: number
+    cost: number | null
+    receiptsNewestFirst: Array<{ qty: number; unit_cost: number | null }> | null
+  }>()
+  const lines: Array<{ item_id: string; landed_unit_cost: number; product_cost: number | null }> = []
+
+  for (const item of items) {
+    const landedUnitCost = landedCosts.get(item.id) ?? 0
+    const state = productState.get(item.product_id) ?? {
+      onHand: item.product?.on_hand_qty ?? 0,
+      cost: item.product?.cost ?? null,
+      receiptsNewestFirst: null,
+    }
+    const onHandBefore = state.onHand
+
+    let newCost: number | null
+    let receiptsNewestFirst = state.receiptsNewestFirst
+    if (costMethod === 'fifo') {
+      if (!receiptsNewestFirst) {
+        const { data: receipts, error: receiptsError } = await supabase
+          .from('stock_movements')
+          .select('qty, unit_cost')
+          .eq('product_id', item.product_id)
+          .eq('type', 'receipt')
+          .order('created_at', { ascending: false })
+        if (receiptsError) throw receiptsError
+        receiptsNewestFirst = (receipts ?? []) as Array<{ qty: number; unit_cost: number | null }>
+      }
+
+      receiptsNewestFirst = [{ qty: item.qty, unit_cost: landedUnitCost }, ...receiptsNewestFirst]
+      newCost = fifoUnitCost(receiptsNewestFirst, onHandBefore + item.qty)
+    } else {
+      newCost = weightedAverageCost(state.cost, onHandBefore, item.qty, landedUnitCost)
+    }
+
+    productState.set(item.product_id, {
+      onHand: onHandBefore + item.qty,
+      cost: newCost ?? state.cost,
+      receiptsNewestFirst,
+    })
+    lines.push({ item_id: item.id, landed_unit_cost: landedUnitCost, product_cost: newCost })
+  }
+
+  const { error: receiveError } = await supabase.rpc('receive_purchase_order', {
+    p_order_id: order.id,
+    p_lines: lines,
+  } as never)
+  if (receiveError) throw receiveError
+}
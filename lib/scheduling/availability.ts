@@ -0,0 +1,162 @@
+import {
+  calendarDateToUTCRange,
+  extractCalendarDateInTimezone,
+  getUTCDayOfWeekForCalendarDate,
+} from '@/lib/date-utils'
+import type { BookingStatus, DayOff, Service, WorkingBreak, WorkingHours } from '@/lib/types'
+
+// Length assumed for bookings without an end time
+export const DEFAULT_BOOKING_MINUTES = 30
+const DEFAULT_SLOT_STEP_MINUTES = 15
+
+export interface WorkingSchedule {
+  hours: WorkingHours[]
+  breaks: WorkingBreak[]
+  daysOff: DayOff[]
+}
+
+export interface TimeInterval {
+  start: Date
+  end: Date
+}
+
+export interface BusyBooking {
+  id: string
+  start_time: string
+  end_time: string | null
+  status?: BookingStatus | null
+}
+
+/** "HH:MM" or "HH:MM:SS" to minutes since midnight. */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return (hours || 0) * 60 + (minutes || 0)
+}
+
+/** Minutes since midnight to "HH:MM". */
+export function minutesToTime(minutes: number): string {
+  const h = Math.floor(minutes / 60)
+  const m = minutes % 60
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`
+}
+
+/** Total duration of a set of services; unknown durations count as nothing. */
+export function getServicesDuration(services: Array<Pick<Service, 'duration_minutes'> | undefined>): number {
+  return services.reduce((sum, service) => sum + (service?.duration_minutes ?? 0), 0)
+}
+
+/**
+ * Local wall-clock time on a calendar date as an instant. The offset is taken
+ * at noon, which is right for working hours even on DST change days.
+ */
+function localMinutesToInstant(dateStr: string, minutes: number, timezone: string): Date {
+  const dayStart = calendarDateToUTCRange(dateStr, timezone).from
+  return new Date(dayStart.getTime() + minutes * 60 * 1000)
+}
+
+/** Open intervals for a calendar date: working hours minus breaks, none on days off. */
+export function getOpenIntervals(
+  schedule: WorkingSchedule,
+  dateStr: string,
+  timezone: string
+): TimeInterval[] {
+  if (schedule.daysOff.some((day) => day.date === dateStr)) {
+    return []
+  }
+
+  const weekday = getUTCDayOfWeekForCalendarDate(dateStr)
+  const hours = schedule.hours.find((h) => h.weekday === weekday)
+  if (!hours) {
+    return []
+  }
+
+  let intervals: Array<[number, number]> = [[timeToMinutes(hours.open_time), timeToMinutes(hours.close_time)]]
+
+  const breaks = schedule.breaks
+    .filter((b) => b.weekday === weekday)
+    .map((b): [number, number] => [timeToMinutes(b.start_time), timeToMinutes(b.end_time)])
+
+  for (const [breakStart, breakEnd] of breaks) {
+    intervals = intervals.flatMap(([start, end]): Array<[number, number]> => {
+      if (breakEnd <= start || breakStart >= end) return [[start, end]]
+      const parts: Array<[number, number]> = []
+      if (breakStart > start) parts.push([start, breakStart])
+      if (breakEnd < end) parts.push([breakEnd, end])
+      return parts
+    })
+  }
+
+  return intervals.map(([start, end]) => ({
+    start: localMinutesToInstant(dateStr, start, timezone),
+    end: localMinutesToInstant(dateStr, end, timezone),
+  }))
+}
+
+/** True when the whole interval falls inside one open interval of its day. */
+export function isWithinWorkingHours(
+  schedule: WorkingSchedule,
+  start: Date,
+  end: Date,
+  timezone: string
+): boolean {
+  const dateStr = extractCalendarDateInTimezone(start, timezone)
+  return getOpenIntervals(schedule, dateStr, timezone).some(
+    (interval) => start >= interval.start && end <= interval.end
+  )
+}
+
+/** Cancelled and no-show appointments free their slot. */
+export function blocksTime(booking: BusyBooking): boolean {
+  return booking.status !== 'cancelled' && booking.status !== 'no_show'
+}
+
+export function getBookingInterval(booking: BusyBooking): TimeInterval {
+  const start = new Date(booking.start_time)
+  const end = booking.end_time ? new Date(booking.end_time) : null
+  return {
+    start,
+    end: end && end > start ? end : new Date(start.getTime() + DEFAULT_BOOKING_MINUTES * 60 * 1000),
+  }
+}
+
+export function findOverlappingBookings<T extends BusyBooking>(
+  bookings: T[],
+  start: Date,
+  end: Date,
+  excludeId?: string
+): T[] {
+  return bookings.filter((booking) => {
+    if (booking.id === excludeId || !blocksTime(booking)) return false
+    const interval = getBookingInterval(booking)
+    return interval.start < end && interval.end > start
+  })
+}
+
+/**
+ * Start times on a calendar date where an appointment of the given length fits
+ * inside working hours without overlapping other bookings.
+ */
+export function getFreeSlots(
+  schedule: WorkingSchedule,
+  bookings: BusyBooking[],
+  dateStr: string,
+  durationMinutes: number,
+  timezone: string,
+  options: { stepMinutes?: number; notBefore?: Date } = {}
+): Date[] {
+  const step = (options.stepMinutes ?? DEFAULT_SLOT_STEP_MINUTES) * 60 * 1000
+  const duration = Math.max(durationMinutes, 1) * 60 * 1000
+  const slots: Date[] = []
+
+  for (const interval of getOpenIntervals(schedule, dateStr, timezone)) {
+    for (let t = interval.start.getTime(); t + duration <= interval.end.getTime(); t += step) {
+      const start = new Date(t)
+      const end = new Date(t + duration)
+      if (options.notBefore && start < options.notBefore) continue
+      if (findOverlappingBookings(bookings, start, end).length > 0) continue
+      slots.push(start)
+    }
+  }
+
+  return slots
+}
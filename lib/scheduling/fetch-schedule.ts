@@ -0,0 +1,55 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { DayOff, WorkingBreak, WorkingHours } from '@/lib/types'
+import type { BusyBooking, WorkingSchedule } from '@/lib/scheduling/availability'
+
+/**
+ * Load working hours, breaks and days off. Pass userId when using the admin
+ * client; with a user session RLS already limits rows to that user.
+ */
+export async function fetchWorkingSchedule(
+  supabase: SupabaseClient,
+  userId?: string
+): Promise<WorkingSchedule> {
+  let hoursQuery = supabase.from('working_hours').select('*').order('weekday')
+  let breaksQuery = supabase.from('working_breaks').select('*').order('start_time')
+  let daysOffQuery = supabase.from('days_off').select('*').order('date')
+
+  if (userId) {
+    hoursQuery = hoursQuery.eq('user_id', userId)
+    breaksQuery = breaksQuery.eq('user_id', userId)
+    daysOffQuery = daysOffQuery.eq('user_id', userId)
+  }
+
+  const [hoursRes, breaksRes, daysOffRes] = await Promise.all([hoursQuery, breaksQuery, daysOffQuery])
+  if (hoursRes.error) throw hoursRes.error
+  if (breaksRes.error) throw breaksRes.error
+  if (daysOffRes.error) throw daysOffRes.error
+
+  return {
+    hours: (hoursRes.data as WorkingHours[] | null) || [],
+    breaks: (breaksRes.data as WorkingBreak[] | null) || [],
+    daysOff: (daysOffRes.data as DayOff[] | null) || [],
+  }
+}
+
+/** Bookings starting inside [from, to], for overlap and free-slot checks. */
+export async function fetchBusyBookings(
+  supabase: SupabaseClient,
+  from: Date,
+  to: Date,
+  userId?: string
+): Promise<BusyBooking[]> {
+  let query = supabase
+    .from('bookings')
+    .select('id, start_time, end_time, status')
+    .gte('start_time', from.toISOString())
+    .lte('start_time', to.toISOString())
+
+  if (userId) {
+    query = query.eq('user_id', userId)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data as BusyBooking[] | null) || []
+}
@@ -0,0 +1,41 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { extractCalendarDateInTimezone } from '@/lib/date-utils'
+import type { PaymentMethod, TaxRule } from '@/lib/types'
+
+/**
+ * Same lookup as the get_tax_rate() SQL function: the latest rule whose
+ * effective_from is on or before the booking's calendar date.
+ */
+export function getTaxRuleForDate(rules: TaxRule[], dateStr: string): TaxRule | null {
+  let match: TaxRule | null = null
+  for (const rule of rules) {
+    if (rule.effective_from <= dateStr && (!match || rule.effective_from > match.effective_from)) {
+      match = rule
+    }
+  }
+  return match
+}
+
+export function getTaxRuleAt(rules: TaxRule[], at: Date, timezone: string): TaxRule | null {
+  return getTaxRuleForDate(rules, extractCalendarDateInTimezone(at, timezone))
+}
+
+/** Whether tax is on by default for this payment method. */
+export function isTaxedPaymentMethod(rule: TaxRule | null, method: PaymentMethod | null | undefined): boolean {
+  return Boolean(rule && method && rule.payment_methods.includes(method))
+}
+
+export function calculateTaxAmount(totalPaid: number, rule: TaxRule | null): number {
+  if (!rule || totalPaid <= 0) return 0
+  return (totalPaid * rule.rate) / 100
+}
+
+export async function fetchTaxRules(supabase: SupabaseClient, userId?: string): Promise<TaxRule[]> {
+  let query = supabase.from('tax_rules').select('*').order('effective_from', { ascending: true })
+  if (userId) {
+    query = query.eq('user_id', userId)
+  }
+  const { data, error } = await query
+  if (error) throw error
+  return ((data as TaxRule[] | null) || []).map((rule) => ({ ...rule, rate: Number(rule.rate) }))
+}
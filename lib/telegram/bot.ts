@@ -1,3 +1,7 @@
+import {
+  DASHBOARD_PRESET_LABELS,
+  RELATIVE_DASHBOARD_PRESETS,
+} from '@/lib/analytics/date-presets'
 import {
   fitTelegramMessage,
   splitTelegramMessage,
@@ -102,15 +106,27 @@ export async function answerCallbackQuery(
 export async function editMessageText(
   target: TelegramReplyTarget,
   messageId: number,
-  text: string
+  text: string,
+  options?: {
+    reply_markup?: {
+      inline_keyboard: InlineKeyboardButton[][]
+    }
+  }
 ): Promise<void> {
-  await telegramRequest('editMessageText', {
-    chat_id: target.chatId,
-    message_id: messageId,
-    text: fitTelegramMessage(text),
-    parse_mode: 'HTML',
-    ...threadParams(target),
-  })
+  try {
+    await telegramRequest('editMessageText', {
+      chat_id: target.chatId,
+      message_id: messageId,
+      text: fitTelegramMessage(text),
+      parse_mode: 'HTML',
+      ...threadParams(target),
+      ...options,
+    })
+  } catch (err) {
+    // Re-tapping a button that changes nothing is not an error for the user
+    if (err instanceof Error && err.message.includes('message is not modified')) return
+    throw err
+  }
 }
 
 export function confirmCancelKeyboard(sessionToken: string) {
@@ -120,22 +136,53 @@ export function confirmCancelKeyboard(sessionToken: string) {
         { text: '✅ Подтвердить', callback_data: `confirm:${sessionToken}` },
         { text: '❌ Отмена', callback_data: `cancel:${sessionToken}` },
       ],
+      [{ text: '✏️ Изменить', callback_data: `draft:${sessionToken}:menu` }],
     ],
   }
 }
 
-export function analyticsPeriodKeyboard() {
+export function undoKeyboard(batchToken: string) {
+  return {
+    inline_keyboard: [[{ text: '↩️ Отменить', callback_data: `undo:${batchToken}` }]],
+  }
+}
+
+/** Edit/delete buttons for the /last list, numbered like the list */
+export function recentBookingsKeyboard(bookings: Array<{ id: string; editable: boolean }>) {
+  return {
+    inline_keyboard: bookings.map((b, i) => [
+      ...(b.editable
+        ? [{ text: `✏️ ${i + 1}`, callback_data: `last:edit:${b.id}` }]
+        : []),
+      { text: `🗑 ${i + 1}`, callback_data: `last:del:${b.id}` },
+    ]),
+  }
+}
+
+export function deleteBookingKeyboard(bookingId: string) {
   return {
     inline_keyboard: [
       [
-        { text: 'Сегодня', callback_data: 'analytics:today' },
-        { text: 'Эта неделя', callback_data: 'analytics:thisWeek' },
+        { text: '🗑 Да, удалить', callback_data: `last:delok:${bookingId}` },
+        { text: '⬅️ Назад', callback_data: 'last:list' },
       ],
-      [{ text: 'Этот месяц', callback_data: 'analytics:thisMonth' }],
     ],
   }
 }
 
+/** Every dashboard preset, two per row: `analytics:<preset>` */
+export function analyticsPeriodKeyboard() {
+  const buttons = RELATIVE_DASHBOARD_PRESETS.map((preset) => ({
+    text: DASHBOARD_PRESET_LABELS[preset],
+    callback_data: `analytics:${preset}`,
+  }))
+  const rows: InlineKeyboardButton[][] = []
+  for (let i = 0; i < buttons.length; i += 2) {
+    rows.push(buttons.slice(i, i + 2))
+  }
+  return { inline_keyboard: rows }
+}
+
 export function formatPln(amount: number): string {
   return new Intl.NumberFormat('pl-PL', {
     minimumFractionDigits: 0,
@@ -1,15 +1,18 @@
 import { createAdminClient } from '@/lib/supabase/admin'
+import type { CatalogClient } from '@/lib/agent/client-matcher'
 import type { CatalogProduct, CatalogService } from '@/lib/agent/product-matcher'
+import type { JewelleryMaterial, ProductSoldAs } from '@/lib/types'
 
 export async function loadCatalog(userId: string): Promise<{
   services: CatalogService[]
   products: CatalogProduct[]
+  clients: CatalogClient[]
   timezone: string
   productCostMap: Map<string, number | null>
 }> {
   const supabase = createAdminClient()
 
-  const [servicesRes, productsRes, profileRes] = await Promise.all([
+  const [servicesRes, productsRes, clientsRes, profileRes] = await Promise.all([
     supabase
       .from('services')
       .select('id, name, base_price, duration_minutes')
@@ -17,9 +20,13 @@ export async function loadCatalog(userId: string): Promise<{
       .eq('active', true),
     supabase
       .from('products')
-      .select('id, name, sku, sale_price, cost')
+      .select('id, name, sku, sale_price, cost, parent_id, sold_as, material, gauge, length, colour')
       .eq('user_id', userId)
       .eq('active', true),
+    supabase
+      .from('clients')
+      .select('id, name, phone, instagram')
+      .eq('user_id', userId),
     supabase
       .from('user_profiles')
       .select('timezone')
@@ -29,6 +36,7 @@ export async function loadCatalog(userId: string): Promise<{
 
   if (servicesRes.error) throw servicesRes.error
   if (productsRes.error) throw productsRes.error
+  if (clientsRes.error) throw clientsRes.error
 
   type ServiceRow = {
     id: string
@@ -42,6 +50,12 @@ export async function loadCatalog(userId: string): Promise<{
     sku: string | null
     sale_price: number
     cost: number | null
+    parent_id: string | null
+    sold_as: ProductSoldAs | null
+    material: JewelleryMaterial | null
+    gauge: number | null
+    length: number | null
+    colour: string | null
   }
 
   const services: CatalogService[] = (
@@ -61,8 +75,16 @@ export async function loadCatalog(userId: string): Promise<{
     sku: p.sku,
     sale_price: Number(p.sale_price),
     cost: p.cost != null ? Number(p.cost) : null,
+    parent_id: p.parent_id,
+    sold_as: p.sold_as,
+    material: p.material,
+    gauge: p.gauge != null ? Number(p.gauge) : null,
+    length: p.length != null ? Number(p.length) : null,
+    colour: p.colour,
   }))
 
+  const clients = (clientsRes.data ?? []) as CatalogClient[]
+
   const productCostMap = new Map<string, number | null>()
   for (const p of products) {
     productCostMap.set(p.id, p.cost)
@@ -72,5 +94,5 @@ export async function loadCatalog(userId: string): Promise<{
     (profileRes.data as { timezone?: string } | null)?.timezone ??
     'Europe/Warsaw'
 
-  return { services, products, timezone, productCostMap }
+  return { services, products, clients, timezone, productCostMap }
 }
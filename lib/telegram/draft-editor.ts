@@ -0,0 +1,417 @@
+import { newClientName } from '@/lib/agent/client-matcher'
+import type {
+  ResolvedBookingDraft,
+  ResolvedParseSaleResult,
+} from '@/lib/agent/schemas'
+import { formatPln, type InlineKeyboardButton } from '@/lib/telegram/bot'
+import { PAYMENT_METHOD_LABELS } from '@/lib/telegram/format-summary'
+
+/** Bookings beyond this are too many to list as buttons; they stay as parsed */
+const MAX_EDITABLE_BOOKINGS = 10
+const MAX_BUTTON_LABEL = 32
+
+export type DraftLineKind = 'service' | 'product'
+
+export interface DraftLineRef {
+  booking: number
+  kind: DraftLineKind
+  index: number
+}
+
+/** Pending draft as stored in telegram_sessions.pending_payload */
+export type PendingDraft = ResolvedParseSaleResult & {
+  /** Next text message in the chat is a new price for this line */
+  awaiting_price?: { ref: DraftLineRef; message_id: number }
+  /** Set when a saved bot booking is re-opened from /last; deleted once the draft is saved */
+  replaces_booking_ids?: string[]
+}
+
+type PaymentMethod = ResolvedBookingDraft['payment_method']
+
+/**
+ * Inline editing callbacks, all shaped `draft:<token>:<action>[:args]`
+ * to stay under Telegram's 64-byte callback_data limit.
+ */
+export type DraftEditAction =
+  | { action: 'menu' }
+  | { action: 'line'; ref: DraftLineRef }
+  | { action: 'pick'; ref: DraftLineRef; candidate: number }
+  | { action: 'qty'; ref: DraftLineRef; delta: number }
+  | { action: 'price'; ref: DraftLineRef }
+  | { action: 'drop'; ref: DraftLineRef }
+  | { action: 'pay'; booking: number }
+  | { action: 'method'; booking: number; method: PaymentMethod }
+  | { action: 'client'; booking: number }
+  | { action: 'cpick'; booking: number; candidate: number }
+  | { action: 'cnew'; booking: number }
+  | { action: 'cnone'; booking: number }
+  | { action: 'back' }
+
+const KIND_CODES: Record<DraftLineKind, string> = { service: 's', product: 'p' }
+
+function encodeRef(ref: DraftLineRef): string {
+  return `${ref.booking}:${KIND_CODES[ref.kind]}:${ref.index}`
+}
+
+function decodeRef(booking?: string, kind?: string, index?: string): DraftLineRef | null {
+  const b = Number(booking)
+  const i = Number(index)
+  if (!Number.isInteger(b) || !Number.isInteger(i) || b < 0 || i < 0) return null
+  if (kind === 's') return { booking: b, kind: 'service', index: i }
+  if (kind === 'p') return { booking: b, kind: 'product', index: i }
+  return null
+}
+
+export function draftCallback(token: string, action: string): string {
+  return `draft:${token}:${action}`
+}
+
+export function parseDraftCallback(
+  data: string
+): { token: string; edit: DraftEditAction } | null {
+  const [prefix, token, action, ...args] = data.split(':')
+  if (prefix !== 'draft' || !token) return null
+
+  const edit = ((): DraftEditAction | null => {
+    switch (action) {
+      case 'menu':
+      case 'back':
+        return { action }
+      case 'line':
+      case 'price':
+      case 'drop': {
+        const ref = decodeRef(args[0], args[1], args[2])
+        return ref ? { action, ref } : null
+      }
+      case 'pick': {
+        const ref = decodeRef(args[0], 'p', args[1])
+        const candidate = Number(args[2])
+        return ref && Number.isInteger(candidate) ? { action, ref, candidate } : null
+      }
+      case 'qty': {
+        const ref = decodeRef(args[0], 'p', args[1])
+        const delta = Number(args[2])
+        return ref && (delta === 1 || delta === -1) ? { action, ref, delta } : null
+      }
+      case 'pay':
+      case 'client':
+      case 'cnew':
+      case 'cnone': {
+        const booking = Number(args[0])
+        return Number.isInteger(booking) ? { action, booking } : null
+      }
+      case 'cpick': {
+        const booking = Number(args[0])
+        const candidate = Number(args[1])
+        return Number.isInteger(booking) && Number.isInteger(candidate)
+          ? { action, booking, candidate }
+          : null
+      }
+      case 'method': {
+        const booking = Number(args[0])
+        const method = args[1] as PaymentMethod
+        return Number.isInteger(booking) && Object.hasOwn(PAYMENT_METHOD_LABELS, method)
+          ? { action, booking, method }
+          : null
+      }
+      default:
+        return null
+    }
+  })()
+
+  return edit ? { token, edit } : null
+}
+
+function getLine(draft: ResolvedParseSaleResult, ref: DraftLineRef) {
+  const booking = draft.bookings[ref.booking]
+  if (!booking) return null
+  return ref.kind === 'service'
+    ? booking.services[ref.index] ?? null
+    : booking.products[ref.index] ?? null
+}
+
+export function hasDraftLine(draft: ResolvedParseSaleResult, ref: DraftLineRef): boolean {
+  return getLine(draft, ref) !== null
+}
+
+export function draftLineLabel(draft: ResolvedParseSaleResult, ref: DraftLineRef): string {
+  const booking = draft.bookings[ref.booking]
+  if (ref.kind === 'service') {
+    const s = booking?.services[ref.index]
+    return s?.resolved_name ?? s?.label ?? 'Услуга'
+  }
+  const p = booking?.products[ref.index]
+  return p?.resolved_name ?? p?.name_hint ?? (p?.sku_hint ? `SKU ${p.sku_hint}` : 'Товар')
+}
+
+/** Same rule as parsing: line sum when there are lines, otherwise the stated total */
+function recalculateTotal(booking: ResolvedBookingDraft): ResolvedBookingDraft {
+  const computed =
+    booking.services.reduce((sum, s) => sum + s.price, 0) +
+    booking.products.reduce((sum, p) => sum + p.price * (p.qty ?? 1), 0)
+  return { ...booking, total_paid: computed > 0 ? computed : booking.total_paid }
+}
+
+function updateBooking(
+  draft: PendingDraft,
+  index: number,
+  update: (booking: ResolvedBookingDraft) => ResolvedBookingDraft
+): PendingDraft {
+  return {
+    ...draft,
+    bookings: draft.bookings.map((b, i) => (i === index ? recalculateTotal(update(b)) : b)),
+  }
+}
+
+export function pickProductCandidate(
+  draft: PendingDraft,
+  ref: DraftLineRef,
+  candidateIndex: number
+): PendingDraft {
+  return updateBooking(draft, ref.booking, (b) => ({
+    ...b,
+    products: b.products.map((p, i) => {
+      const candidate = p.candidates?.[candidateIndex]
+      if (i !== ref.index || !candidate) return p
+      return {
+        ...p,
+        product_id: candidate.product_id,
+        resolved_name: candidate.name,
+        resolved_sku: candidate.sku,
+        match_confidence: 'high',
+      }
+    }),
+  }))
+}
+
+export function setDraftLinePrice(
+  draft: PendingDraft,
+  ref: DraftLineRef,
+  price: number
+): PendingDraft {
+  return updateBooking(draft, ref.booking, (b) =>
+    ref.kind === 'service'
+      ? { ...b, services: b.services.map((s, i) => (i === ref.index ? { ...s, price } : s)) }
+      : { ...b, products: b.products.map((p, i) => (i === ref.index ? { ...p, price } : p)) }
+  )
+}
+
+export function changeProductQty(
+  draft: PendingDraft,
+  ref: DraftLineRef,
+  delta: number
+): PendingDraft {
+  return updateBooking(draft, ref.booking, (b) => ({
+    ...b,
+    products: b.products.map((p, i) =>
+      i === ref.index ? { ...p, qty: Math.max(1, (p.qty ?? 1) + delta) } : p
+    ),
+  }))
+}
+
+/** Removes the line; a booking left without lines is dropped as well */
+export function removeDraftLine(draft: PendingDraft, ref: DraftLineRef): PendingDraft {
+  const updated = updateBooking(draft, ref.booking, (b) =>
+    ref.kind === 'service'
+      ? { ...b, services: b.services.filter((_, i) => i !== ref.index) }
+      : { ...b, products: b.products.filter((_, i) => i !== ref.index) }
+  )
+  return {
+    ...updated,
+    bookings: updated.bookings.filter((b) => b.services.length > 0 || b.products.length > 0),
+  }
+}
+
+export function setPaymentMethod(
+  draft: PendingDraft,
+  booking: number,
+  method: PaymentMethod
+): PendingDraft {
+  return {
+    ...draft,
+    bookings: draft.bookings.map((b, i) => (i === booking ? { ...b, payment_method: method } : b)),
+  }
+}
+
+export function pickClientCandidate(
+  draft: PendingDraft,
+  booking: number,
+  candidateIndex: number
+): PendingDraft {
+  return {
+    ...draft,
+    bookings: draft.bookings.map((b, i) => {
+      const candidate = b.client?.candidates[candidateIndex]
+      if (i !== booking || !b.client || !candidate) return b
+      return {
+        ...b,
+        client: {
+          ...b.client,
+          client_id: candidate.client_id,
+          resolved_name: candidate.name,
+          match_confidence: 'high',
+          create_new: false,
+        },
+      }
+    }),
+  }
+}
+
+/** Saves the booking with a new client made from the name, phone or @handle in the message */
+export function createDraftClient(draft: PendingDraft, booking: number): PendingDraft {
+  return {
+    ...draft,
+    bookings: draft.bookings.map((b, i) =>
+      i === booking && b.client
+        ? { ...b, client: { ...b.client, client_id: undefined, resolved_name: undefined, create_new: true } }
+        : b
+    ),
+  }
+}
+
+export function removeDraftClient(draft: PendingDraft, booking: number): PendingDraft {
+  return {
+    ...draft,
+    bookings: draft.bookings.map((b, i) => (i === booking ? { ...b, client: undefined } : b)),
+  }
+}
+
+function buttonLabel(text: string): string {
+  return text.length > MAX_BUTTON_LABEL ? `${text.slice(0, MAX_BUTTON_LABEL - 1)}…` : text
+}
+
+/** One button per line plus the payment method of each booking */
+export function draftEditKeyboard(token: string, draft: ResolvedParseSaleResult) {
+  const rows: InlineKeyboardButton[][] = []
+  const multiple = draft.bookings.length > 1
+
+  draft.bookings.slice(0, MAX_EDITABLE_BOOKINGS).forEach((b, booking) => {
+    const prefix = multiple ? `${booking + 1}. ` : ''
+    const lines = [
+      ...b.services.map((s, index) => ({ kind: 'service' as const, index, price: s.price, matched: !!s.service_id })),
+      ...b.products.map((p, index) => ({ kind: 'product' as const, index, price: p.price, matched: !!p.product_id })),
+    ]
+    for (const { kind, index, price, matched } of lines) {
+      const ref: DraftLineRef = { booking, kind, index }
+      const warn = matched ? '' : ' ⚠️'
+      rows.push([
+        {
+          text: `${prefix}${buttonLabel(draftLineLabel(draft, ref))} — ${formatPln(price)}${warn}`,
+          callback_data: draftCallback(token, `line:${encodeRef(ref)}`),
+        },
+      ])
+    }
+    rows.push([
+      {
+        text: `${prefix}💳 ${PAYMENT_METHOD_LABELS[b.payment_method]}`,
+        callback_data: draftCallback(token, `pay:${booking}`),
+      },
+    ])
+    if (b.client) {
+      const name = b.client.resolved_name ?? newClientName(b.client)
+      const warn = b.client.client_id || b.client.create_new ? '' : ' ⚠️'
+      rows.push([
+        {
+          text: `${prefix}👤 ${buttonLabel(name)}${warn}`,
+          callback_data: draftCallback(token, `client:${booking}`),
+        },
+      ])
+    }
+  })
+
+  rows.push([{ text: '⬅️ Готово', callback_data: draftCallback(token, 'back') }])
+  return { inline_keyboard: rows }
+}
+
+/** Candidates to swap the product, quantity, price and removal for one line */
+export function draftLineKeyboard(
+  token: string,
+  draft: ResolvedParseSaleResult,
+  ref: DraftLineRef
+) {
+  const rows: InlineKeyboardButton[][] = []
+  const encoded = encodeRef(ref)
+
+  if (ref.kind === 'product') {
+    const product = draft.bookings[ref.booking]?.products[ref.index]
+    product?.candidates?.forEach((candidate, i) => {
+      const current = candidate.product_id === product.product_id ? '✓ ' : ''
+      const sku = candidate.sku ? ` [${candidate.sku}]` : ''
+      rows.push([
+        {
+          text: buttonLabel(`${current}${candidate.name}${sku}`),
+          callback_data: draftCallback(token, `pick:${ref.booking}:${ref.index}:${i}`),
+        },
+      ])
+    })
+    rows.push([
+      { text: '➖ Кол-во', callback_data: draftCallback(token, `qty:${ref.booking}:${ref.index}:-1`) },
+      { text: '➕ Кол-во', callback_data: draftCallback(token, `qty:${ref.booking}:${ref.index}:1`) },
+    ])
+  }
+
+  rows.push([
+    { text: '✏️ Цена', callback_data: draftCallback(token, `price:${encoded}`) },
+    { text: '🗑 Удалить', callback_data: draftCallback(token, `drop:${encoded}`) },
+  ])
+  rows.push([{ text: '⬅️ Назад', callback_data: draftCallback(token, 'menu') }])
+  return { inline_keyboard: rows }
+}
+
+export function paymentMethodKeyboard(
+  token: string,
+  draft: ResolvedParseSaleResult,
+  booking: number
+) {
+  const current = draft.bookings[booking]?.payment_method
+  const methods = Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]
+  return {
+    inline_keyboard: [
+      methods.map((method) => ({
+        text: `${method === current ? '✓ ' : ''}${PAYMENT_METHOD_LABELS[method]}`,
+        callback_data: draftCallback(token, `method:${booking}:${method}`),
+      })),
+      [{ text: '⬅️ Назад', callback_data: draftCallback(token, 'menu') }],
+    ],
+  }
+}
+
+export function cancelPriceInputKeyboard(token: string) {
+  return {
+    inline_keyboard: [[{ text: '⬅️ Назад', callback_data: draftCallback(token, 'menu') }]],
+  }
+}
+
+/** Similar existing clients, a new client from the message, or no client */
+export function clientKeyboard(
+  token: string,
+  draft: ResolvedParseSaleResult,
+  booking: number
+) {
+  const client = draft.bookings[booking]?.client
+  const rows: InlineKeyboardButton[][] = (client?.candidates ?? []).map((candidate, i) => {
+    const current = candidate.client_id === client?.client_id ? '✓ ' : ''
+    const phone = candidate.phone ? ` · ${candidate.phone}` : ''
+    return [
+      {
+        text: buttonLabel(`${current}${candidate.name}${phone}`),
+        callback_data: draftCallback(token, `cpick:${booking}:${i}`),
+      },
+    ]
+  })
+
+  if (client) {
+    const current = client.create_new ? '✓ ' : ''
+    rows.push([
+      {
+        text: buttonLabel(`${current}➕ Новый: ${newClientName(client)}`),
+        callback_data: draftCallback(token, `cnew:${booking}`),
+      },
+    ])
+  }
+  rows.push([
+    { text: '🚫 Без клиента', callback_data: draftCallback(token, `cnone:${booking}`) },
+    { text: '⬅️ Назад', callback_data: draftCallback(token, 'menu') },
+  ])
+  return { inline_keyboard: rows }
+}
@@ -0,0 +1,116 @@
+import type { ParsedExpense } from '@/lib/agent/parse-expense'
+import { mergeCostCategories } from '@/lib/costs/categories'
+import { createAdminClient } from '@/lib/supabase/admin'
+import type { InlineKeyboardButton } from '@/lib/telegram/bot'
+
+const CATEGORY_PAGE_SIZE = 12
+
+/** Expense message waiting for confirmation, stored like a sale draft */
+export interface PendingExpenses {
+  kind: 'expenses'
+  expenses: ParsedExpense[]
+  /** Category list offered by «Категория»; callbacks refer to it by index */
+  categories: string[]
+  raw_message: string
+}
+
+export function isPendingExpenses(pending: object): pending is PendingExpenses {
+  return 'kind' in pending && pending.kind === 'expenses'
+}
+
+export async function loadCostCategories(userId: string): Promise<string[]> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('additional_costs')
+    .select('type')
+    .eq('user_id', userId)
+
+  if (error) throw error
+  return mergeCostCategories(((data as Array<{ type: string }> | null) || []).map((c) => c.type))
+}
+
+export async function saveExpenses(userId: string, expenses: ParsedExpense[]): Promise<number> {
+  const supabase = createAdminClient()
+  const rows = expenses.map((e) => ({
+    type: e.type,
+    amount: e.amount,
+    date: e.date,
+    description: e.description ?? null,
+    payment_method: e.payment_method,
+    user_id: userId,
+  }))
+  const { error } = await supabase.from('additional_costs').insert(rows as never)
+
+  if (error) throw error
+  return rows.length
+}
+
+export function setExpenseCategory(
+  pending: PendingExpenses,
+  index: number,
+  categoryIndex: number
+): PendingExpenses {
+  const category = pending.categories[categoryIndex]
+  if (!category) return pending
+  return {
+    ...pending,
+    expenses: pending.expenses.map((e, i) => (i === index ? { ...e, type: category } : e)),
+  }
+}
+
+/** Confirm/cancel plus a category button per expense: `exp:<token>:cat:<i>` */
+export function expenseConfirmKeyboard(token: string, pending: PendingExpenses) {
+  const multiple = pending.expenses.length > 1
+  return {
+    inline_keyboard: [
+      [
+        { text: '✅ Подтвердить', callback_data: `confirm:${token}` },
+        { text: '❌ Отмена', callback_data: `cancel:${token}` },
+      ],
+      ...pending.expenses.map((e, i) => [
+        {
+          text: `📂 ${multiple ? `${i + 1}. ` : ''}${e.type}`,
+          callback_data: `exp:${token}:cat:${i}`,
+        },
+      ]),
+    ],
+  }
+}
+
+/**
+ * `exp:<token>:set:<i>:<category index>`, pages with `exp:<token>:cat:<i>:<page>`,
+ * back with `exp:<token>:back`
+ */
+export function expenseCategoryKeyboard(
+  token: string,
+  pending: PendingExpenses,
+  index: number,
+  page = 0
+) {
+  const current = pending.expenses[index]?.type
+  const pageCount = Math.max(1, Math.ceil(pending.categories.length / CATEGORY_PAGE_SIZE))
+  const safePage = Math.min(Math.max(page, 0), pageCount - 1)
+  const start = safePage * CATEGORY_PAGE_SIZE
+  const buttons = pending.categories
+    .slice(start, start + CATEGORY_PAGE_SIZE)
+    .map((category, offset) => ({
+      text: `${category === current ? '✓ ' : ''}${category}`,
+      callback_data: `exp:${token}:set:${index}:${start + offset}`,
+    }))
+  const rows: InlineKeyboardButton[][] = []
+  for (let i = 0; i < buttons.length; i += 3) {
+    rows.push(buttons.slice(i, i + 3))
+  }
+  if (pageCount > 1) {
+    const nav: InlineKeyboardButton[] = []
+    if (safePage > 0) {
+      nav.push({ text: '◀️', callback_data: `exp:${token}:cat:${index}:${safePage - 1}` })
+    }
+    if (safePage < pageCount - 1) {
+      nav.push({ text: '▶️', callback_data: `exp:${token}:cat:${index}:${safePage + 1}` })
+    }
+    rows.push(nav)
+  }
+  rows.push([{ text: '⬅️ Назад', callback_data: `exp:${token}:back` }])
+  return { inline_keyboard: rows }
+}
@@ -1,10 +1,19 @@
 import type {
   ResolvedBookingDraft,
+  ResolvedClient,
   ResolvedParseSaleResult,
 } from '@/lib/agent/schemas'
-import type { FinancialSummary } from '@/lib/analytics/financial-summary'
+import { newClientName } from '@/lib/agent/client-matcher'
+import type { AnalyticsReport, FinancialSummary } from '@/lib/analytics/financial-summary'
+import type { CalendarRange } from '@/lib/analytics/date-presets'
+import type { DashboardMetrics } from '@/lib/analytics/dashboard-metrics'
 import { formatTodaySnapshot } from '@/lib/analytics/financial-summary'
 import { formatPln } from '@/lib/telegram/bot'
+import { hasCashDiscrepancy, type CashDaySummary } from '@/lib/cash/cash-close'
+import type { BotBooking } from '@/lib/telegram/saved-bookings'
+import type { ParsedExpense } from '@/lib/agent/parse-expense'
+import type { PendingExpenses } from '@/lib/telegram/expenses'
+import type { CashClose } from '@/lib/types'
 import {
   escapeTelegramHtml,
   fitTelegramMessage,
@@ -16,6 +25,12 @@ const MAX_BOOKINGS_COMPACT = 6
 const MAX_UNMATCHED_SHOWN = 8
 const MAX_SAVED_BOOKINGS_SHOWN = 12
 
+export const PAYMENT_METHOD_LABELS: Record<ResolvedBookingDraft['payment_method'], string> = {
+  cash: 'Наличные',
+  card: 'Карта',
+  blik: 'BLIK',
+}
+
 function lineProduct(p: {
   price: number
   qty?: number
@@ -46,6 +61,22 @@ function lineService(s: {
   return `  • ${label}: ${formatPln(s.price)} PLN${warn}`
 }
 
+function clientHint(c: ResolvedClient): string {
+  return escapeTelegramHtml(newClientName(c))
+}
+
+function lineClient(c: ResolvedClient): string {
+  if (c.client_id) {
+    return `  Клиент: ${escapeTelegramHtml(c.resolved_name ?? newClientName(c))}`
+  }
+  if (c.create_new) {
+    return `  Клиент: ${clientHint(c)} (новый)`
+  }
+  return c.match_confidence === 'low'
+    ? `  Клиент: ${clientHint(c)} ⚠️ несколько похожих — выберите в «Изменить»`
+    : `  Клиент: ${clientHint(c)} ⚠️ не найден — создайте в «Изменить»`
+}
+
 export function formatMessageSentAt(iso: string, timezone: string): string {
   return new Intl.DateTimeFormat('pl-PL', {
     timeZone: timezone,
@@ -88,6 +119,10 @@ function appendBookings(
       parts.push(lineProduct(p))
     }
     parts.push(`  <b>Итого:</b> ${formatPln(b.total_paid)} PLN`)
+    parts.push(`  Оплата: ${PAYMENT_METHOD_LABELS[b.payment_method]}`)
+    if (b.client) {
+      parts.push(lineClient(b.client))
+    }
     if (b.booksy_fee_enabled) {
       parts.push('  Booksy: да')
     }
@@ -243,6 +278,9 @@ export function formatSavedSummary(
       parts.push(savedLineProduct(p))
     }
     parts.push(`  <b>Итого:</b> ${formatPln(savedBookingTotal(b))} PLN`)
+    if (b.client?.client_id || b.client?.create_new) {
+      parts.push(lineClient(b.client))
+    }
     parts.push('')
   }
 
@@ -259,3 +297,213 @@ export function formatSavedSummary(
 
   return fitTelegramMessage(parts.join('\n').trimEnd(), TELEGRAM_SAFE_LIMIT)
 }
+
+function formatCashAmount(amount: number): string {
+  return `${new Intl.NumberFormat('pl-PL', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount)} PLN`
+}
+
+/** Daily cash close; without a close it shows only the expected amount. */
+export function formatCashCloseSummary(
+  summary: CashDaySummary,
+  close: CashClose | null
+): string {
+  const parts: string[] = [
+    `💵 <b>Касса за ${summary.date}</b>`,
+    '',
+    `Наличные по записям: ${formatCashAmount(summary.cashBookingsTotal)} (${summary.cashBookingCount} зап.)`,
+  ]
+  if (summary.cashVoucherSalesTotal > 0) {
+    parts.push(`Подарочные сертификаты: ${formatCashAmount(summary.cashVoucherSalesTotal)}`)
+  }
+  parts.push(
+    `Расходы наличными: −${formatCashAmount(summary.cashCostsTotal)}`,
+    `<b>Ожидается в кассе:</b> ${formatCashAmount(summary.expectedCash)}`,
+  )
+
+  if (!close) {
+    parts.push('', 'Касса не закрыта. Отправьте /close СУММА, чтобы записать пересчёт.')
+    return parts.join('\n')
+  }
+
+  parts.push(`<b>Пересчитано:</b> ${formatCashAmount(Number(close.counted_cash))}`)
+  if (hasCashDiscrepancy(close)) {
+    const difference = Number(close.difference)
+    parts.push(
+      difference < 0
+        ? `⚠️ <b>Недостача:</b> ${formatCashAmount(-difference)}`
+        : `⚠️ <b>Излишек:</b> ${formatCashAmount(difference)}`
+    )
+  } else {
+    parts.push('✅ Расхождений нет')
+  }
+  if (Math.abs(Number(close.expected_cash) - summary.expectedCash) >= 0.005) {
+    parts.push(`<i>После закрытия ожидание изменилось (было ${formatCashAmount(Number(close.expected_cash))})</i>`)
+  }
+  if (close.notes) {
+    parts.push(`Заметка: ${escapeTelegramHtml(close.notes)}`)
+  }
+  return parts.join('\n')
+}
+
+function formatBotBooking(b: BotBooking, timezone: string, index?: number): string {
+  const number = index !== undefined ? `<b>${index + 1}.</b> ` : ''
+  const method = b.payment_method && b.payment_method !== 'voucher'
+    ? `, ${PAYMENT_METHOD_LABELS[b.payment_method]}`
+    : ''
+  const parts = [
+    `${number}${formatMessageSentAt(b.start_time, timezone)} — ${formatPln(b.total_paid)} PLN${method}`,
+  ]
+  if (b.client) {
+    parts.push(`  Клиент: ${escapeTelegramHtml(b.client.name)}`)
+  }
+  for (const s of b.booking_services) {
+    parts.push(savedLineService({ price: s.price, resolved_name: s.service?.name }))
+  }
+  for (const p of b.booking_products) {
+    parts.push(
+      savedLineProduct({
+        price: p.price ?? 0,
+        qty: p.qty,
+        resolved_name: p.product?.name,
+        resolved_sku: p.product?.sku,
+      })
+    )
+  }
+  return parts.join('\n')
+}
+
+/** /last — bookings saved by the bot, newest first */
+export function formatRecentBotBookings(bookings: BotBooking[], timezone: string): string {
+  if (bookings.length === 0) {
+    return 'Записей из бота пока нет.'
+  }
+  const parts = [
+    '<b>Последние записи из бота:</b>',
+    '',
+    ...bookings.map((b, i) => formatBotBooking(b, timezone, i) + '\n'),
+    '✏️ — изменить, 🗑 — удалить',
+  ]
+  return fitTelegramMessage(parts.join('\n'), TELEGRAM_SAFE_LIMIT)
+}
+
+export function formatDeleteBookingPrompt(booking: BotBooking, timezone: string): string {
+  return `${formatBotBooking(booking, timezone)}\n\n<b>Удалить эту запись?</b>`
+}
+
+function lineExpense(e: ParsedExpense): string {
+  const description = e.description && e.description.toLowerCase() !== e.type.toLowerCase()
+    ? ` — ${escapeTelegramHtml(e.description)}`
+    : ''
+  const method = e.payment_method ? `, ${PAYMENT_METHOD_LABELS[e.payment_method]}` : ''
+  return `  • ${escapeTelegramHtml(e.type)}${description}: ${formatPln(e.amount)} PLN (${e.date}${method})`
+}
+
+/** Expense message before saving; category can be changed with the 📂 buttons */
+export function formatExpenseSummary(pending: PendingExpenses): string {
+  const total = pending.expenses.reduce((sum, e) => sum + e.amount, 0)
+  const parts = [
+    '<b>Расходы — проверьте перед сохранением:</b>',
+    '',
+    ...pending.expenses.map(lineExpense),
+  ]
+  if (pending.expenses.length > 1) {
+    parts.push(`  <b>Итого:</b> ${formatPln(total)} PLN`)
+  }
+  if (pending.expenses.some((e) => e.payment_method === 'cash')) {
+    parts.push('', '<i>Наличные расходы уменьшат ожидаемую сумму в кассе.</i>')
+  }
+  parts.push('', 'Нажмите кнопку ниже для сохранения.')
+  return fitTelegramMessage(parts.join('\n'), TELEGRAM_SAFE_LIMIT)
+}
+
+export function formatSavedExpenses(expenses: ParsedExpense[]): string {
+  const parts = [
+    expenses.length === 1
+      ? '✅ <b>Расход сохранён</b>'
+      : `✅ <b>Сохранено расходов: ${expenses.length}</b>`,
+    '',
+    ...expenses.map(lineExpense),
+  ]
+  return fitTelegramMessage(parts.join('\n'), TELEGRAM_SAFE_LIMIT)
+}
+
+function formatDay(dateStr: string, withYear: boolean): string {
+  const [year, month, day] = dateStr.split('-')
+  return withYear ? `${day}.${month}.${year}` : `${day}.${month}`
+}
+
+export function formatCalendarRange(range: CalendarRange): string {
+  if (range.from === range.to) return formatDay(range.from, true)
+  const sameYear = range.from.slice(0, 4) === range.to.slice(0, 4)
+  return `${formatDay(range.from, !sameYear)}–${formatDay(range.to, true)}`
+}
+
+/** "(▲ +1 300 PLN, +12%)" against the previous period */
+function formatChange(current: number, previous: number, unit = ''): string {
+  const diff = Math.round(current) - Math.round(previous)
+  if (diff === 0) return ' (=)'
+  const arrow = diff > 0 ? '▲' : '▼'
+  const sign = diff > 0 ? '+' : '−'
+  const percent = previous > 0
+    ? `, ${sign}${Math.round((Math.abs(diff) / previous) * 100)}%`
+    : ''
+  return ` (${arrow} ${sign}${formatPln(Math.abs(diff))}${unit}${percent})`
+}
+
+const BOOKING_COST_LABELS: Array<[keyof DashboardMetrics, string]> = [
+  ['totalEarringCosts', 'Себестоимость товаров'],
+  ['totalTravelFees', 'Дорога'],
+  ['totalBooksyFees', 'Комиссии площадок'],
+  ['totalBrokenEarringLosses', 'Сломанные товары'],
+  ['totalTax', 'Налог'],
+]
+
+/** /analytics answer: the dashboard figures for the period and the change against the one before */
+export function formatAnalyticsReport(report: AnalyticsReport): string {
+  const { metrics: m, previous: p } = report
+  const parts: string[] = [
+    `📊 <b>${escapeTelegramHtml(report.label)}</b> · ${formatCalendarRange(report.range)} (${report.timezone})`,
+    `<i>Сравнение с ${formatCalendarRange(report.previousRange)}</i>`,
+    '',
+    `Выручка: ${formatPln(m.totalRevenue)} PLN${formatChange(m.totalRevenue, p.totalRevenue, ' PLN')}`,
+    `Расходы: ${formatPln(m.totalCosts)} PLN${formatChange(m.totalCosts, p.totalCosts, ' PLN')}`,
+    `Прибыль: ${formatPln(m.totalProfit)} PLN${formatChange(m.totalProfit, p.totalProfit, ' PLN')}`,
+    `Записей: ${m.totalBookings}${formatChange(m.totalBookings, p.totalBookings)}`,
+  ]
+  if (m.totalBookings > 0) {
+    parts.push(`Средний чек: ${formatPln(m.avgRevenuePerBooking)} PLN`)
+  }
+
+  const costLines = [
+    ...BOOKING_COST_LABELS.map(([key, label]) => [label, m[key] as number] as const),
+    ...Object.entries(m.additionalCostsByCategory)
+      .sort(([, a], [, b]) => b - a)
+      .map(([category, amount]) => [escapeTelegramHtml(category), amount] as const),
+  ].filter(([, amount]) => Math.round(amount) !== 0)
+  if (costLines.length > 0) {
+    parts.push('', '<b>Расходы по статьям:</b>')
+    parts.push(...costLines.map(([label, amount]) => `  • ${label}: ${formatPln(amount)} PLN`))
+  }
+
+  if (m.topProducts.length > 0) {
+    parts.push('', '<b>Топ товаров:</b>')
+    parts.push(
+      ...m.topProducts.map(
+        (item, i) => `  ${i + 1}. ${escapeTelegramHtml(item.name)} — ${item.qty} шт., ${formatPln(item.revenue)} PLN`
+      )
+    )
+  }
+  if (m.topServices.length > 0) {
+    parts.push('', '<b>Топ услуг:</b>')
+    parts.push(
+      ...m.topServices.map(
+        (item, i) => `  ${i + 1}. ${escapeTelegramHtml(item.name)} — ${item.count}×, ${formatPln(item.revenue)} PLN`
+      )
+    )
+  }
+
+  return fitTelegramMessage(parts.join('\n'), TELEGRAM_SAFE_LIMIT)
+}
@@ -9,7 +9,9 @@ export async function registerBotMenu(): Promise<void> {
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
       commands: [
-        { command: 'analytics', description: 'Аналитика — выручка и прибыль' },
+        { command: 'analytics', description: 'Аналитика — выручка, расходы, топ продаж' },
+        { command: 'close', description: 'Закрытие кассы за сегодня' },
+        { command: 'last', description: 'Последние записи из бота' },
         { command: 'help', description: 'Помощь' },
       ],
     }),
@@ -26,9 +28,19 @@ export const HELP_TEXT = `Отправьте сообщение с продаж
 150
 160 (32)
 15 лосьон
+Анна Новак 600 100 200 (или @instagram) — клиент записи
 
 Бот покажет сводку — нажмите «Подтвердить», чтобы сохранить.
+«Изменить» — выбрать другой товар, поправить цену или количество, способ оплаты или убрать строку.
 
-/analytics — выручка и прибыль за период
+Расходы — с минусом или словом «расход», по одному на строку:
+-120 аренда
+расход 45 такси наличные вчера
+
+/analytics — выручка, расходы, прибыль и топ продаж за период; /analytics 01.05-15.05 — за свои даты
+/close — наличные в кассе за сегодня; /close 850 — записать пересчёт
+/last — последние записи из бота: изменить или удалить; /last 10 — показать больше
+
+После сохранения под сводкой есть кнопка «Отменить» — она удаляет только что сохранённые записи в течение 10 минут.
 
 Работает только в настроенном чате/топике. Сообщения в других топиках игнорируются.`
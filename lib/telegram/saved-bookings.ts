@@ -0,0 +1,240 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import type { ResolvedBookingDraft } from '@/lib/agent/schemas'
+import { normalizeThreadId } from '@/lib/telegram/auth'
+import { createSessionToken } from '@/lib/telegram/sessions'
+import type { BookingPaymentType, BookingStatus, PaymentMethod } from '@/lib/types'
+
+/** How long «Отменить» stays on the saved message */
+export const UNDO_WINDOW_MS = 10 * 60 * 1000
+
+export const DEFAULT_RECENT_BOOKINGS = 5
+export const MAX_RECENT_BOOKINGS = 10
+
+const BOT_BOOKING_SELECT = `
+  id,
+  client_id,
+  start_time,
+  total_paid,
+  payment_method,
+  fee_platform,
+  notes,
+  status,
+  promotion_id,
+  client:clients(id, name, phone),
+  booking_payments(type, method),
+  booking_services(
+    price,
+    service:services(id, name)
+  ),
+  booking_products(
+    qty,
+    price,
+    product:products(id, name, sku)
+  )
+`
+
+export type BotBooking = {
+  id: string
+  client_id: string | null
+  start_time: string
+  total_paid: number
+  payment_method: PaymentMethod | null
+  fee_platform: string | null
+  notes: string | null
+  status: BookingStatus
+  promotion_id: string | null
+  client: { id: string; name: string; phone: string | null } | null
+  booking_payments: Array<{ type: BookingPaymentType; method: PaymentMethod }>
+  booking_services: Array<{
+    price: number
+    service: { id: string; name: string } | null
+  }>
+  booking_products: Array<{
+    qty: number
+    price: number | null
+    product: { id: string; name: string; sku: string | null } | null
+  }>
+}
+
+type SavedBatchRow = {
+  user_id: string
+  booking_ids: string[]
+  undo_until: string
+}
+
+/** Remembers the ids saved by one confirmation; returns the token for «Отменить» */
+export async function saveUndoBatch(
+  chatId: number,
+  messageThreadId: number,
+  userId: string,
+  bookingIds: string[]
+): Promise<string> {
+  const supabase = createAdminClient()
+  const token = createSessionToken()
+
+  // Expired batches are useless, clear them on the way
+  await supabase
+    .from('telegram_saved_batches')
+    .delete()
+    .lt('undo_until', new Date().toISOString())
+
+  const { error } = await supabase
+    .from('telegram_saved_batches')
+    .insert({
+      token,
+      chat_id: chatId,
+      message_thread_id: normalizeThreadId(messageThreadId),
+      user_id: userId,
+      booking_ids: bookingIds,
+      undo_until: new Date(Date.now() + UNDO_WINDOW_MS).toISOString(),
+    } as never)
+
+  if (error) throw error
+  return token
+}
+
+/** Deletes the bookings of a saved batch; null when the grace window has passed */
+export async function undoSavedBatch(
+  chatId: number,
+  messageThreadId: number,
+  token: string
+): Promise<number | null> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('telegram_saved_batches')
+    .select('user_id, booking_ids, undo_until')
+    .eq('token', token)
+    .eq('chat_id', chatId)
+    .eq('message_thread_id', normalizeThreadId(messageThreadId))
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  const batch = data as SavedBatchRow
+  await supabase.from('telegram_saved_batches').delete().eq('token', token)
+  if (new Date(batch.undo_until) < new Date()) return null
+
+  return deleteBotBookings(batch.user_id, batch.booking_ids)
+}
+
+export async function fetchRecentBotBookings(
+  userId: string,
+  limit: number
+): Promise<BotBooking[]> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('bookings')
+    .select(BOT_BOOKING_SELECT)
+    .eq('user_id', userId)
+    .eq('created_via', 'telegram')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data as BotBooking[] | null) || []
+}
+
+export async function fetchBotBooking(
+  userId: string,
+  bookingId: string
+): Promise<BotBooking | null> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('bookings')
+    .select(BOT_BOOKING_SELECT)
+    .eq('id', bookingId)
+    .eq('user_id', userId)
+    .eq('created_via', 'telegram')
+    .maybeSingle()
+
+  if (error) throw error
+  return data as BotBooking | null
+}
+
+/**
+ * Only bookings created by the bot are touched. Stock, payments and
+ * reminders go with the booking through ON DELETE CASCADE and triggers.
+ */
+export async function deleteBotBookings(
+  userId: string,
+  bookingIds: string[]
+): Promise<number> {
+  if (bookingIds.length === 0) return 0
+
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('bookings')
+    .delete()
+    .in('id', bookingIds)
+    .eq('user_id', userId)
+    .eq('created_via', 'telegram')
+    .select('id')
+
+  if (error) throw error
+  return data?.length ?? 0
+}
+
+/**
+ * Editing re-opens the booking as a draft, deletes it and saves it again, so it
+ * is limited to what a draft can hold: a completed booking without a promotion,
+ * paid with at most one plain payment. Deposits, refunds, split and voucher
+ * payments would be lost (and a voucher redemption given back) on the way.
+ */
+export function canEditInBot(booking: BotBooking): boolean {
+  if (booking.status !== 'completed' || booking.promotion_id) return false
+  const payments = booking.booking_payments
+  if (payments.length === 0) return booking.total_paid === 0
+  return payments.length === 1 && payments[0].type === 'payment' && payments[0].method !== 'voucher'
+}
+
+export function botBookingToDraft(booking: BotBooking): ResolvedBookingDraft {
+  const services: ResolvedBookingDraft['services'] = booking.booking_services
+    .filter((s) => s.service)
+    .map((s) => ({
+      price: s.price,
+      base_price_hint: undefined,
+      label: s.service!.name,
+      service_id: s.service!.id,
+      resolved_name: s.service!.name,
+      match_confidence: 'high',
+    }))
+  const products: ResolvedBookingDraft['products'] = booking.booking_products
+    .filter((p) => p.product)
+    .map((p) => ({
+      price: p.price ?? 0,
+      qty: p.qty,
+      sku_hint: p.product!.sku ?? undefined,
+      name_hint: p.product!.name,
+      variant: undefined,
+      product_id: p.product!.id,
+      resolved_name: p.product!.name,
+      resolved_sku: p.product!.sku,
+      match_confidence: 'high',
+    }))
+
+  return {
+    services,
+    products,
+    total_paid: booking.total_paid,
+    payment_method: booking.payment_method === 'voucher' || !booking.payment_method
+      ? 'cash'
+      : booking.payment_method,
+    booksy_fee_enabled: booking.fee_platform === 'booksy',
+    notes: booking.notes ?? undefined,
+    client: booking.client
+      ? {
+          name: booking.client.name,
+          phone: booking.client.phone ?? undefined,
+          instagram: undefined,
+          client_id: booking.client.id,
+          resolved_name: booking.client.name,
+          match_confidence: 'high',
+          candidates: [
+            { client_id: booking.client.id, name: booking.client.name, phone: booking.client.phone },
+          ],
+        }
+      : undefined,
+  }
+}
@@ -1,15 +1,24 @@
 import { randomBytes } from 'crypto'
 import { createAdminClient } from '@/lib/supabase/admin'
-import type { ResolvedParseSaleResult } from '@/lib/agent/schemas'
 import { normalizeThreadId } from '@/lib/telegram/auth'
+import type { PendingDraft } from '@/lib/telegram/draft-editor'
+import { isPendingExpenses, type PendingExpenses } from '@/lib/telegram/expenses'
 
 const SESSION_TTL_MS = 30 * 60 * 1000
 
+/** A sale draft or an expense message waiting for «Подтвердить» */
+export type PendingSession = PendingDraft | PendingExpenses
+
 type SessionRow = {
-  pending_payload: ResolvedParseSaleResult & { token?: string }
+  pending_payload: PendingSession & { token?: string }
   expires_at: string
 }
 
+/**
+ * Guards confirm/cancel and keys saved batches, so it must not be guessable.
+ * The longest callback with it (`draft:<token>:method:<n>:blik`) is ~53 bytes,
+ * within Telegram's 64-byte callback_data.
+ */
 export function createSessionToken(): string {
   return randomBytes(16).toString('hex')
 }
@@ -19,7 +28,7 @@ export async function savePendingSession(
   messageThreadId: number,
   userId: string,
   token: string,
-  payload: ResolvedParseSaleResult
+  payload: PendingSession
 ): Promise<void> {
   const supabase = createAdminClient()
   const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString()
@@ -39,11 +48,10 @@ export async function savePendingSession(
   if (error) throw error
 }
 
-export async function loadPendingSession(
+async function loadSessionPayload(
   chatId: number,
-  messageThreadId: number,
-  token: string
-): Promise<ResolvedParseSaleResult | null> {
+  messageThreadId: number
+): Promise<(PendingSession & { token?: string }) | null> {
   const supabase = createAdminClient()
   const threadId = normalizeThreadId(messageThreadId)
 
@@ -64,13 +72,33 @@ export async function loadPendingSession(
     return null
   }
 
-  const payload = row.pending_payload
-  if (payload.token !== token) return null
+  return row.pending_payload
+}
+
+export async function loadPendingSession(
+  chatId: number,
+  messageThreadId: number,
+  token: string
+): Promise<PendingSession | null> {
+  const payload = await loadSessionPayload(chatId, messageThreadId)
+  if (!payload || payload.token !== token) return null
 
   const { token: _t, ...rest } = payload
   return rest
 }
 
+/** Draft in this chat waiting for a typed price, if any */
+export async function loadAwaitingPriceSession(
+  chatId: number,
+  messageThreadId: number
+): Promise<{ token: string; draft: PendingDraft } | null> {
+  const payload = await loadSessionPayload(chatId, messageThreadId)
+  if (!payload || isPendingExpenses(payload) || !payload.awaiting_price) return null
+
+  const { token, ...draft } = payload
+  return token ? { token, draft } : null
+}
+
 export async function deletePendingSession(
   chatId: number,
   messageThreadId: number
@@ -1,6 +1,10 @@
-import type { ResolvedBookingDraft } from '@/lib/agent/schemas'
+import type { ResolvedBookingDraft, ResolvedClient } from '@/lib/agent/schemas'
 import { createBooking } from '@/lib/bookings/create-booking'
 import type { CatalogService } from '@/lib/agent/product-matcher'
+import { newClientName } from '@/lib/agent/client-matcher'
+import { normalizeInstagramHandle } from '@/lib/clients/instagram'
+import { normalizePhone } from '@/lib/clients/phone'
+import { createAdminClient } from '@/lib/supabase/admin'
 
 export function bookingEndTime(
   start: Date,
@@ -17,6 +21,45 @@ export function bookingEndTime(
   return end
 }
 
+/**
+ * Existing client id, or a new client for create_new. `created` keeps one
+ * new client per person when several bookings in a message name them.
+ */
+async function resolveClientId(
+  userId: string,
+  client: ResolvedClient | undefined,
+  created: Map<string, string>
+): Promise<string | null> {
+  if (!client) return null
+  if (client.client_id) return client.client_id
+  if (!client.create_new) return null
+
+  const instagram = normalizeInstagramHandle(client.instagram)
+  // Stored normalized, like public bookings, so the next message matches it in any format
+  const phone = normalizePhone(client.phone)
+  const key = phone ?? instagram ?? newClientName(client).toLowerCase()
+  const existing = created.get(key)
+  if (existing) return existing
+
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('clients')
+    .insert({
+      name: newClientName(client),
+      phone,
+      instagram,
+      source: instagram ? 'instagram' : null,
+      user_id: userId,
+    } as never)
+    .select('id')
+    .single()
+  if (error) throw error
+
+  const id = (data as { id: string }).id
+  created.set(key, id)
+  return id
+}
+
 export async function submitResolvedBookings(
   userId: string,
   bookings: ResolvedBookingDraft[],
@@ -25,6 +68,7 @@ export async function submitResolvedBookings(
   messageSentAt: Date
 ): Promise<string[]> {
   const ids: string[] = []
+  const createdClients = new Map<string, string>()
 
   for (const b of bookings) {
     const services = b.services
@@ -53,17 +97,17 @@ export async function submitResolvedBookings(
 
     const id = await createBooking({
       userId,
-      clientId: null,
+      clientId: await resolveClientId(userId, b.client, createdClients),
       services,
       products,
       totalPaid: b.total_paid,
       paymentMethod: b.payment_method,
-      booksyFeeEnabled: b.booksy_fee_enabled,
-      taxEnabled: false,
+      feePlatform: b.booksy_fee_enabled ? 'booksy' : null,
       notes: b.notes ?? null,
       startTime,
       endTime,
       productCosts: productCostMap,
+      createdVia: 'telegram',
     })
     ids.push(id)
   }
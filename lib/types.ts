@@ -1,12 +1,17 @@
-export type ClientSource = 'booksy' | 'instagram' | 'referral' | 'walk-in';
-export type PaymentMethod = 'cash' | 'blik' | 'card';
+export type ClientSource = 'booksy' | 'instagram' | 'referral' | 'walk-in' | 'online';
+export type PaymentMethod = 'cash' | 'blik' | 'card' | 'voucher';
+export type DirectPaymentMethod = Exclude<PaymentMethod, 'voucher'>; // Money actually changing hands
 
 export interface Client {
   id: string;
   name: string;
   phone: string | null;
+  instagram: string | null; // Lowercase handle without @
   source: ClientSource | null;
   notes: string | null;
+  date_of_birth: string | null; // YYYY-MM-DD
+  guardian_name: string | null;
+  guardian_phone: string | null;
   created_at: string;
 }
 
@@ -17,6 +22,7 @@ export interface AdditionalCost {
   amount: number;
   date: string;
   description: string | null;
+  payment_method: DirectPaymentMethod | null; // 'cash' is taken out of the cash drawer
   created_at: string;
 }
 
@@ -28,20 +34,284 @@ export interface Product {
   cost: number | null;
   sale_price: number;
   sold_qty: number;
+  on_hand_qty?: number;
+  reorder_point?: number | null;
   active: boolean;
   starred?: boolean;
+  parent_id?: string | null; // Variant of this product; NULL for standalone products and parents
+  sold_as?: ProductSoldAs | null;
+  material?: JewelleryMaterial | null;
+  gauge?: number | null; // Bar thickness in mm
+  length?: number | null; // Bar length or inner diameter in mm
+  colour?: string | null;
+  product_images?: ProductImage[];
   created_at: string;
 }
 
+export interface ProductImage {
+  id: string;
+  user_id: string;
+  product_id: string;
+  storage_path: string;
+  thumbnail_path: string;
+  url: string;
+  thumbnail_url: string;
+  position: number; // Lowest is the cover
+  created_at: string;
+}
+
+export type ProductSoldAs = 'single' | 'pair';
+
+export type JewelleryMaterial =
+  | 'titanium_f136'
+  | 'gold_14k'
+  | 'gold_18k'
+  | 'surgical_steel'
+  | 'niobium'
+  | 'bioplast';
+
+export type StockMovementType = 'receipt' | 'adjustment' | 'sale' | 'loss';
+
+export interface StockMovement {
+  id: string;
+  user_id: string;
+  product_id: string;
+  type: StockMovementType;
+  qty: number; // Signed: positive adds to stock, negative removes
+  unit_cost: number | null;
+  booking_id: string | null;
+  source_id: string | null;
+  purchase_order_item_id?: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+export type PurchaseCurrency = 'PLN' | 'USD' | 'EUR';
+export type PurchaseOrderStatus = 'draft' | 'received';
+export type CostMethod = 'weighted_average' | 'fifo';
+
+export interface PurchaseOrder {
+  id: string;
+  user_id: string;
+  supplier: string;
+  currency: PurchaseCurrency;
+  order_date: string;
+  exchange_rate: number; // PLN per 1 unit of currency (1 for PLN)
+  shipping: number; // In order currency
+  customs_pln: number;
+  status: PurchaseOrderStatus;
+  received_at: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface PurchaseOrderItem {
+  id: string;
+  purchase_order_id: string;
+  product_id: string;
+  qty: number;
+  unit_price: number; // In order currency
+  landed_unit_cost: number | null; // PLN, set on receipt
+  product?: Product;
+}
+
+export interface PurchaseOrderWithItems extends PurchaseOrder {
+  purchase_order_items?: PurchaseOrderItem[];
+}
+
 export interface Service {
   id: string;
   name: string;
   duration_minutes: number;
   base_price: number;
   active: boolean;
+  min_age: number | null; // Younger clients need a guardian on file
   created_at: string;
 }
 
+// Local times in the user's timezone, "HH:MM" or "HH:MM:SS" as returned by Postgres TIME
+export interface WorkingHours {
+  id: string;
+  user_id: string;
+  weekday: number; // 0 = Sunday … 6 = Saturday
+  open_time: string;
+  close_time: string;
+}
+
+export interface WorkingBreak {
+  id: string;
+  user_id: string;
+  weekday: number;
+  start_time: string;
+  end_time: string;
+}
+
+export interface DayOff {
+  id: string;
+  user_id: string;
+  date: string; // YYYY-MM-DD
+  note: string | null;
+}
+
+export interface ServiceFollowUpRule {
+  id: string;
+  user_id: string;
+  service_id: string;
+  offset_days: number;
+  message: string; // Placeholders: {client}, {service}
+  created_at: string;
+}
+
+export type FollowUpReminderStatus = 'pending' | 'done';
+
+export interface FollowUpReminder {
+  id: string;
+  user_id: string;
+  client_id: string;
+  booking_id: string;
+  rule_id: string | null;
+  due_date: string; // YYYY-MM-DD
+  message: string;
+  status: FollowUpReminderStatus;
+  completed_at: string | null;
+  created_at: string;
+  client?: Client | null;
+}
+
+export interface ConsentQuestion {
+  id: string;
+  label: string;
+}
+
+export interface ConsentTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  body: string;
+  questions: ConsentQuestion[];
+  active: boolean;
+  created_at: string;
+}
+
+export interface ConsentAnswer {
+  question_id: string;
+  label: string;
+  answer: boolean;
+  details?: string | null;
+}
+
+export interface ConsentForm {
+  id: string;
+  user_id: string;
+  booking_id: string;
+  client_id: string | null;
+  template_id: string | null;
+  token: string;
+  template_name: string;
+  body: string;
+  questions: ConsentQuestion[];
+  answers: ConsentAnswer[] | null;
+  signer_name: string | null;
+  signed_by_guardian: boolean;
+  guardian_name: string | null;
+  signature: string | null; // PNG data URL
+  signed_at: string | null;
+  created_at: string;
+}
+
+export interface TaxRule {
+  id: string;
+  user_id: string;
+  rate: number; // Percent of total_paid
+  payment_methods: PaymentMethod[]; // Taxed by default
+  effective_from: string; // YYYY-MM-DD, in the user's timezone
+  created_at: string;
+}
+
+export type MarketplaceFeeBase = 'first_service' | 'all_services' | 'total';
+
+export interface MarketplaceFeeRule {
+  id: string;
+  user_id: string;
+  platform: string; // Lowercase key, e.g. 'booksy'; matches clients.source where it can
+  rate: number; // Percent of the fee base
+  fee_base: MarketplaceFeeBase;
+  min_fee: number;
+  effective_from: string; // YYYY-MM-DD, in the user's timezone
+  created_at: string;
+}
+
+export type PromotionDiscountType = 'percentage' | 'fixed';
+export type PromotionScope = 'all' | 'services' | 'products';
+
+export interface Promotion {
+  id: string;
+  user_id: string;
+  name: string;
+  code: string | null;
+  discount_type: PromotionDiscountType;
+  discount_value: number; // Percent or amount, by discount_type
+  applies_to: PromotionScope;
+  service_ids: string[]; // Empty: every service
+  product_categories: string[]; // Empty: every product
+  starts_on: string; // YYYY-MM-DD
+  ends_on: string | null; // YYYY-MM-DD, last valid day
+  usage_limit: number | null;
+  active: boolean;
+  created_at: string;
+}
+
+export type BookingPaymentType = 'deposit' | 'payment' | 'refund';
+
+export interface BookingPayment {
+  id: string;
+  user_id: string;
+  booking_id: string;
+  type: BookingPaymentType;
+  amount: number; // Always positive; refunds are subtracted from total_paid
+  method: PaymentMethod;
+  voucher_id: string | null; // Set when method is 'voucher'
+  paid_at: string;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface GiftVoucher {
+  id: string;
+  user_id: string;
+  code: string;
+  value: number;
+  balance: number; // Value minus redemptions
+  sale_method: DirectPaymentMethod;
+  sold_at: string;
+  expires_on: string | null; // YYYY-MM-DD, last valid day
+  purchaser_name: string | null;
+  recipient_name: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface CashClose {
+  id: string;
+  user_id: string;
+  close_date: string; // YYYY-MM-DD, in the user's timezone
+  cash_booking_count: number;
+  cash_bookings_total: number;
+  cash_costs_total: number;
+  cash_voucher_sales_total: number;
+  expected_cash: number;
+  counted_cash: number;
+  difference: number; // counted - expected
+  notes: string | null;
+  closed_at: string;
+  created_at: string;
+}
+
+export type BookingStatus = 'scheduled' | 'confirmed' | 'completed' | 'cancelled' | 'no_show';
+
+// Where the booking was entered: the CRM itself, the Telegram bot or the public booking page
+export type BookingCreatedVia = 'crm' | 'telegram' | 'online';
+
 export interface Booking {
   id: string;
   client_id: string | null;
@@ -53,11 +323,13 @@ export interface Booking {
   service_price: number;
   is_model: boolean;
   travel_fee: number;
-  booksy_fee: number;
-  custom_discount: number;
+  booksy_fee: number; // Marketplace commission for fee_platform
+  fee_platform: string | null;
+  custom_discount: number; // Taken off the list prices
+  promotion_id: string | null; // Null for a manual discount
   broken_earring_loss: number;
-  total_paid: number;
-  payment_method: PaymentMethod | null;
+  total_paid: number; // Derived from booking_payments
+  payment_method: PaymentMethod | null; // Method that contributed the most
   tax_enabled: boolean;
   tax_rate: number;
   tax_amount: number;
@@ -65,7 +337,9 @@ export interface Booking {
   notes: string | null;
   start_time: string;
   end_time: string | null;
-  profit: number | null;
+  profit: number | null; // Null until the booking is completed
+  status: BookingStatus;
+  created_via: BookingCreatedVia;
   created_at: string;
 }
 
@@ -101,6 +375,7 @@ export interface BookingWithRelations extends Booking {
   service?: Service | null;
   booking_products?: BookingProduct[];
   booking_services?: BookingService[];
+  consent_forms?: Array<Pick<ConsentForm, 'id' | 'signed_at'>>;
   booking_broken_products?: BookingBrokenProduct[];
 }
 
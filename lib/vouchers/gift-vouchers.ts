@@ -0,0 +1,148 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { DirectPaymentMethod, GiftVoucher } from '@/lib/types'
+
+export type GiftVoucherStatus = 'active' | 'redeemed' | 'expired'
+
+export const GIFT_VOUCHER_STATUS_LABELS: Record<GiftVoucherStatus, string> = {
+  active: 'Active',
+  redeemed: 'Redeemed',
+  expired: 'Expired',
+}
+
+/** Balances below this are rounding, not money still owed. */
+const BALANCE_TOLERANCE = 0.005
+
+// No 0/O or 1/I so codes survive being read out over the phone
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+export function generateVoucherCode(): string {
+  const values = crypto.getRandomValues(new Uint32Array(6))
+  return `GIFT-${Array.from(values, (value) => CODE_ALPHABET[value % CODE_ALPHABET.length]).join('')}`
+}
+
+export function normalizeVoucherCode(code: string): string {
+  return code.trim().toUpperCase().replace(/\s+/g, '')
+}
+
+/** `today` is YYYY-MM-DD in the user's timezone; the expiry day itself is still valid. */
+export function getVoucherStatus(
+  voucher: Pick<GiftVoucher, 'balance' | 'expires_on'>,
+  today: string
+): GiftVoucherStatus {
+  if (Number(voucher.balance) < BALANCE_TOLERANCE) return 'redeemed'
+  if (voucher.expires_on && voucher.expires_on < today) return 'expired'
+  return 'active'
+}
+
+export function isVoucherRedeemable(voucher: Pick<GiftVoucher, 'balance' | 'expires_on'>, today: string): boolean {
+  return getVoucherStatus(voucher, today) === 'active'
+}
+
+export interface GiftVoucherLiabilityReport {
+  outstandingCount: number
+  outstandingTotal: number // Owed to clients on active vouchers
+  expiredCount: number
+  expiredTotal: number // Unused balance on expired vouchers
+  soldTotal: number
+  redeemedTotal: number
+}
+
+export function buildVoucherLiabilityReport(vouchers: GiftVoucher[], today: string): GiftVoucherLiabilityReport {
+  const report: GiftVoucherLiabilityReport = {
+    outstandingCount: 0,
+    outstandingTotal: 0,
+    expiredCount: 0,
+    expiredTotal: 0,
+    soldTotal: 0,
+    redeemedTotal: 0,
+  }
+  for (const voucher of vouchers) {
+    const value = Number(voucher.value) || 0
+    const balance = Number(voucher.balance) || 0
+    report.soldTotal += value
+    report.redeemedTotal += value - balance
+    const status = getVoucherStatus(voucher, today)
+    if (status === 'active') {
+      report.outstandingCount += 1
+      report.outstandingTotal += balance
+    } else if (status === 'expired') {
+      report.expiredCount += 1
+      report.expiredTotal += balance
+    }
+  }
+  return report
+}
+
+export async function fetchGiftVouchers(supabase: SupabaseClient): Promise<GiftVoucher[]> {
+  const { data, error } = await supabase
+    .from('gift_vouchers')
+    .select('*')
+    .order('sold_at', { ascending: false })
+  if (error) throw error
+  return ((data as GiftVoucher[] | null) || []).map((voucher) => ({
+    ...voucher,
+    value: Number(voucher.value),
+    balance: Number(voucher.balance),
+  }))
+}
+
+/** Vouchers with money left; filter by expiry with isVoucherRedeemable. */
+export async function fetchVouchersWithBalance(supabase: SupabaseClient): Promise<GiftVoucher[]> {
+  const { data, error } = await supabase
+    .from('gift_vouchers')
+    .select('*')
+    .gt('balance', 0)
+    .order('code')
+  if (error) throw error
+  return ((data as GiftVoucher[] | null) || []).map((voucher) => ({
+    ...voucher,
+    value: Number(voucher.value),
+    balance: Number(voucher.balance),
+  }))
+}
+
+export async function createGiftVoucher(
+  supabase: SupabaseClient,
+  input: {
+    userId: string
+    code: string
+    value: number
+    saleMethod: DirectPaymentMethod
+    soldAt?: Date
+    expiresOn?: string | null
+    purchaserName?: string | null
+    recipientName?: string | null
+    notes?: string | null
+  }
+): Promise<void> {
+  const { error } = await supabase.from('gift_vouchers').insert([
+    {
+      user_id: input.userId,
+      code: normalizeVoucherCode(input.code),
+      value: Math.round(input.value * 100) / 100,
+      sale_method: input.saleMethod,
+      sold_at: (input.soldAt ?? new Date()).toISOString(),
+      expires_on: input.expiresOn || null,
+      purchaser_name: input.purchaserName?.trim() || null,
+      recipient_name: input.recipientName?.trim() || null,
+      notes: input.notes?.trim() || null,
+    },
+  ] as never)
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(`Voucher code ${normalizeVoucherCode(input.code)} is already used`)
+    }
+    throw error
+  }
+}
+
+/** Vouchers with redemptions are kept: their payments reference them. */
+export async function deleteGiftVoucher(supabase: SupabaseClient, voucherId: string): Promise<void> {
+  const { error } = await supabase.from('gift_vouchers').delete().eq('id', voucherId)
+  if (error) {
+    if (error.code === '23503') {
+      throw new Error('This voucher has been redeemed and cannot be deleted')
+    }
+    throw error
+  }
+}
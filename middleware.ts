@@ -45,6 +45,13 @@ export async function middleware(request: NextRequest) {
     if (request.nextUrl.pathname.startsWith('/bookings') ||
         request.nextUrl.pathname.startsWith('/clients') ||
         request.nextUrl.pathname.startsWith('/products') ||
+        request.nextUrl.pathname.startsWith('/purchase-orders') ||
+        request.nextUrl.pathname.startsWith('/reminders') ||
+        request.nextUrl.pathname.startsWith('/consent-forms') ||
+        request.nextUrl.pathname.startsWith('/tax-report') ||
+        request.nextUrl.pathname.startsWith('/cash') ||
+        request.nextUrl.pathname.startsWith('/vouchers') ||
+        request.nextUrl.pathname.startsWith('/promotions') ||
         request.nextUrl.pathname.startsWith('/services') ||
         request.nextUrl.pathname === '/') {
       if (!user) {
@@ -0,0 +1,142 @@
+-- Migration: Stock ledger for products
+-- Every change to physical stock is a row in stock_movements:
+--   receipt    - purchased stock put in the case (positive qty)
+--   adjustment - manual correction after a stock count (signed qty)
+--   sale       - mirrored from booking_products (negative qty)
+--   loss       - mirrored from booking_broken_products (negative qty)
+-- products.on_hand_qty is a running total of the ledger kept in sync by trigger.
+
+-- Step 1: Product columns
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS on_hand_qty INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS reorder_point INTEGER CHECK (reorder_point IS NULL OR reorder_point >= 0);
+
+-- Step 2: Ledger table
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('receipt', 'adjustment', 'sale', 'loss')),
+  qty INTEGER NOT NULL,
+  unit_cost NUMERIC(10, 2),
+  booking_id UUID REFERENCES bookings(id) ON DELETE CASCADE,
+  -- Junction row (booking_products / booking_broken_products) a sale or loss mirrors
+  source_id UUID,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_user_id ON stock_movements(user_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product_id ON stock_movements(product_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_source_id ON stock_movements(source_id);
+
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own stock movements"
+  ON stock_movements
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own stock movements"
+  ON stock_movements
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own stock movements"
+  ON stock_movements
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own stock movements"
+  ON stock_movements
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Step 3: Keep products.on_hand_qty in sync with the ledger
+CREATE OR REPLACE FUNCTION apply_stock_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE products
+    SET on_hand_qty = on_hand_qty + NEW.qty
+    WHERE id = NEW.product_id;
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF OLD.product_id != NEW.product_id OR OLD.qty != NEW.qty THEN
+      UPDATE products
+      SET on_hand_qty = on_hand_qty - OLD.qty
+      WHERE id = OLD.product_id;
+
+      UPDATE products
+      SET on_hand_qty = on_hand_qty + NEW.qty
+      WHERE id = NEW.product_id;
+    END IF;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE products
+    SET on_hand_qty = on_hand_qty - OLD.qty
+    WHERE id = OLD.product_id;
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stock_movement_on_hand_trigger ON stock_movements;
+CREATE TRIGGER stock_movement_on_hand_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_stock_movement();
+
+-- Step 4: Mirror booking junction rows into the ledger
+-- TG_ARGV[0] is the movement type ('sale' or 'loss')
+CREATE OR REPLACE FUNCTION sync_stock_movement_from_booking()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO stock_movements (user_id, product_id, type, qty, booking_id, source_id)
+    VALUES (NEW.user_id, NEW.product_id, TG_ARGV[0], -NEW.qty, NEW.booking_id, NEW.id);
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF OLD.product_id != NEW.product_id OR OLD.qty != NEW.qty THEN
+      UPDATE stock_movements
+      SET product_id = NEW.product_id, qty = -NEW.qty
+      WHERE source_id = NEW.id;
+    END IF;
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    DELETE FROM stock_movements WHERE source_id = OLD.id;
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS booking_product_stock_movement_trigger ON booking_products;
+CREATE TRIGGER booking_product_stock_movement_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON booking_products
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_stock_movement_from_booking('sale');
+
+DROP TRIGGER IF EXISTS booking_broken_product_stock_movement_trigger ON booking_broken_products;
+CREATE TRIGGER booking_broken_product_stock_movement_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON booking_broken_products
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_stock_movement_from_booking('loss');
+
+-- Step 5: Backfill history from existing bookings
+-- On-hand starts negative until opening stock is recorded as an adjustment.
+INSERT INTO stock_movements (user_id, product_id, type, qty, booking_id, source_id, created_at)
+SELECT bp.user_id, bp.product_id, 'sale', -bp.qty, bp.booking_id, bp.id, b.start_time
+FROM booking_products bp
+JOIN bookings b ON b.id = bp.booking_id
+WHERE bp.qty > 0
+  AND NOT EXISTS (SELECT 1 FROM stock_movements sm WHERE sm.source_id = bp.id);
+
+INSERT INTO stock_movements (user_id, product_id, type, qty, booking_id, source_id, created_at)
+SELECT bbp.user_id, bbp.product_id, 'loss', -bbp.qty, bbp.booking_id, bbp.id, b.start_time
+FROM booking_broken_products bbp
+JOIN bookings b ON b.id = bbp.booking_id
+WHERE bbp.qty > 0
+  AND NOT EXISTS (SELECT 1 FROM stock_movements sm WHERE sm.source_id = bbp.id);
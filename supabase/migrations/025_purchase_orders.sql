@@ -0,0 +1,94 @@
+-- Migration: Supplier purchase orders with landed cost in PLN
+-- Orders are priced in the supplier's currency and converted at the NBP mid
+-- rate for the order date (stored on the order so receipts are reproducible).
+-- Shipping is in the order currency; customs are paid in PLN at the border.
+
+-- Step 1: Costing method used when a receipt updates products.cost
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS cost_method TEXT NOT NULL DEFAULT 'weighted_average'
+CHECK (cost_method IN ('weighted_average', 'fifo'));
+
+-- Step 2: Orders
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  supplier TEXT NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'PLN' CHECK (currency IN ('PLN', 'USD', 'EUR')),
+  order_date DATE NOT NULL,
+  exchange_rate NUMERIC(10, 4) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0),
+  shipping NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  customs_pln NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'received')),
+  received_at TIMESTAMP WITH TIME ZONE,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_user_id ON purchase_orders(user_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_order_date ON purchase_orders(order_date);
+
+-- Step 3: Order lines
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  qty INTEGER NOT NULL CHECK (qty > 0),
+  unit_price NUMERIC(10, 2) NOT NULL CHECK (unit_price >= 0),
+  -- Filled on receipt: unit price in PLN plus its share of shipping and customs
+  landed_unit_cost NUMERIC(10, 2),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_order_id ON purchase_order_items(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_product_id ON purchase_order_items(product_id);
+
+-- Link receipts in the stock ledger back to the order line they came from
+ALTER TABLE stock_movements
+ADD COLUMN IF NOT EXISTS purchase_order_item_id UUID REFERENCES purchase_order_items(id) ON DELETE SET NULL;
+
+-- Step 4: RLS
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own purchase orders"
+  ON purchase_orders
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own purchase orders"
+  ON purchase_orders
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own purchase orders"
+  ON purchase_orders
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own purchase orders"
+  ON purchase_orders
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own purchase order items"
+  ON purchase_order_items
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own purchase order items"
+  ON purchase_order_items
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own purchase order items"
+  ON purchase_order_items
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own purchase order items"
+  ON purchase_order_items
+  FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,118 @@
+-- Migration: Appointment statuses on bookings
+-- A booking can now be a future appointment instead of a finished sale:
+--   scheduled  - booked, not yet confirmed by the client
+--   confirmed  - client confirmed the appointment
+--   completed  - appointment took place and was paid (the only status counted as a sale)
+--   cancelled  - cancelled ahead of time
+--   no_show    - client did not come
+-- Existing rows were all sales, so they become completed.
+
+-- Step 1: Status column
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'completed'
+CHECK (status IN ('scheduled', 'confirmed', 'completed', 'cancelled', 'no_show'));
+
+-- Appointments are created before anything is paid
+ALTER TABLE bookings
+ALTER COLUMN total_paid SET DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_status ON bookings(status);
+
+-- Step 2: Profit only exists once the appointment is completed
+CREATE OR REPLACE FUNCTION calculate_profit()
+RETURNS TRIGGER AS $$
+DECLARE
+  total_product_cost NUMERIC(10, 2) := 0;
+BEGIN
+  -- Calculate total product cost from junction table (purchase cost × qty)
+  SELECT COALESCE(SUM(
+    COALESCE(p.cost, 0) * bp.qty
+  ), 0) INTO total_product_cost
+  FROM booking_products bp
+  JOIN products p ON p.id = bp.product_id
+  WHERE bp.booking_id = NEW.id;
+
+  -- Fallback to legacy field if no junction table entries
+  IF total_product_cost = 0 AND NEW.earring_cost IS NOT NULL THEN
+    total_product_cost = NEW.earring_cost;
+  END IF;
+
+  -- Keep earring_cost in sync so the dashboard can read it directly
+  NEW.earring_cost = total_product_cost;
+
+  IF NEW.status <> 'completed' THEN
+    NEW.profit = NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.profit = NEW.total_paid - (
+    total_product_cost +
+    COALESCE(NEW.booksy_fee, 0) +
+    COALESCE(NEW.broken_earring_loss, 0) +
+    COALESCE(NEW.tax_amount, 0)
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 3: Products planned for an appointment leave stock only when it is completed
+CREATE OR REPLACE FUNCTION sync_stock_movement_from_booking()
+RETURNS TRIGGER AS $$
+DECLARE
+  booking_status TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM stock_movements WHERE source_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  SELECT status INTO booking_status FROM bookings WHERE id = NEW.booking_id;
+
+  IF TG_OP = 'INSERT' THEN
+    IF booking_status = 'completed' THEN
+      INSERT INTO stock_movements (user_id, product_id, type, qty, booking_id, source_id)
+      VALUES (NEW.user_id, NEW.product_id, TG_ARGV[0], -NEW.qty, NEW.booking_id, NEW.id);
+    END IF;
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF OLD.product_id != NEW.product_id OR OLD.qty != NEW.qty THEN
+      UPDATE stock_movements
+      SET product_id = NEW.product_id, qty = -NEW.qty
+      WHERE source_id = NEW.id;
+    END IF;
+    RETURN NEW;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 4: Post or withdraw sale/loss movements when the status changes
+CREATE OR REPLACE FUNCTION sync_stock_movements_on_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status <> 'completed' THEN
+    INSERT INTO stock_movements (user_id, product_id, type, qty, booking_id, source_id)
+    SELECT bp.user_id, bp.product_id, 'sale', -bp.qty, bp.booking_id, bp.id
+    FROM booking_products bp
+    WHERE bp.booking_id = NEW.id
+      AND NOT EXISTS (SELECT 1 FROM stock_movements sm WHERE sm.source_id = bp.id);
+
+    INSERT INTO stock_movements (user_id, product_id, type, qty, booking_id, source_id)
+    SELECT bbp.user_id, bbp.product_id, 'loss', -bbp.qty, bbp.booking_id, bbp.id
+    FROM booking_broken_products bbp
+    WHERE bbp.booking_id = NEW.id
+      AND NOT EXISTS (SELECT 1 FROM stock_movements sm WHERE sm.source_id = bbp.id);
+  ELSIF OLD.status = 'completed' AND NEW.status <> 'completed' THEN
+    DELETE FROM stock_movements
+    WHERE booking_id = NEW.id
+      AND type IN ('sale', 'loss');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS booking_status_stock_movement_trigger ON bookings;
+CREATE TRIGGER booking_status_stock_movement_trigger
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_stock_movements_on_status_change();
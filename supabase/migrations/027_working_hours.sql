@@ -0,0 +1,111 @@
+-- Migration: Working hours, breaks and days off
+-- Times are local to the user's timezone (user_profiles.timezone).
+-- A weekday without a working_hours row is closed.
+-- Weekdays follow JavaScript: 0 = Sunday … 6 = Saturday.
+
+-- Step 1: Opening hours per weekday
+CREATE TABLE IF NOT EXISTS working_hours (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  open_time TIME NOT NULL,
+  close_time TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (close_time > open_time),
+  UNIQUE (user_id, weekday)
+);
+
+CREATE INDEX IF NOT EXISTS idx_working_hours_user_id ON working_hours(user_id);
+
+-- Step 2: Recurring breaks inside a working day (e.g. lunch)
+CREATE TABLE IF NOT EXISTS working_breaks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_working_breaks_user_id ON working_breaks(user_id);
+
+-- Step 3: One-off closed dates (holidays, vacation)
+CREATE TABLE IF NOT EXISTS days_off (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_days_off_user_id ON days_off(user_id);
+
+-- Step 4: RLS
+ALTER TABLE working_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE working_breaks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE days_off ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own working hours"
+  ON working_hours
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own working hours"
+  ON working_hours
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own working hours"
+  ON working_hours
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own working hours"
+  ON working_hours
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own working breaks"
+  ON working_breaks
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own working breaks"
+  ON working_breaks
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own working breaks"
+  ON working_breaks
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own working breaks"
+  ON working_breaks
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own days off"
+  ON days_off
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own days off"
+  ON days_off
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own days off"
+  ON days_off
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own days off"
+  ON days_off
+  FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,31 @@
+-- Migration: Public online booking
+-- Clients book themselves from /book; requests are logged for rate limiting.
+
+-- Step 1: 'online' client source
+ALTER TABLE clients
+DROP CONSTRAINT IF EXISTS clients_source_check;
+
+ALTER TABLE clients
+ADD CONSTRAINT clients_source_check
+CHECK (source IN ('booksy', 'instagram', 'referral', 'walk-in', 'online'));
+
+-- Step 2: Log of public booking attempts (written by the server with the service role)
+CREATE TABLE IF NOT EXISTS booking_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Salted hash, the raw address is never stored
+  ip_hash TEXT NOT NULL,
+  phone TEXT,
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_requests_ip_hash ON booking_requests(ip_hash, created_at);
+CREATE INDEX IF NOT EXISTS idx_booking_requests_phone ON booking_requests(phone, created_at);
+
+ALTER TABLE booking_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own booking requests"
+  ON booking_requests
+  FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,81 @@
+-- Migration: Aftercare follow-up rules and reminders
+-- A service can define follow-ups (e.g. downsize after 42 days). Completing a
+-- booking with that service schedules one reminder per rule for its client.
+
+-- Step 1: Follow-up rules per service
+CREATE TABLE IF NOT EXISTS service_follow_up_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  offset_days INTEGER NOT NULL CHECK (offset_days > 0),
+  -- Placeholders: {client}, {service}
+  message TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_follow_up_rules_service_id ON service_follow_up_rules(service_id);
+
+-- Step 2: Reminders generated from bookings
+CREATE TABLE IF NOT EXISTS follow_up_reminders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  rule_id UUID REFERENCES service_follow_up_rules(id) ON DELETE SET NULL,
+  -- Calendar date in the user's timezone; snoozing moves it forward
+  due_date DATE NOT NULL,
+  message TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'done')),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (booking_id, rule_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follow_up_reminders_user_due ON follow_up_reminders(user_id, status, due_date);
+CREATE INDEX IF NOT EXISTS idx_follow_up_reminders_client_id ON follow_up_reminders(client_id);
+
+-- Step 3: RLS
+ALTER TABLE service_follow_up_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE follow_up_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own follow-up rules"
+  ON service_follow_up_rules
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own follow-up rules"
+  ON service_follow_up_rules
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own follow-up rules"
+  ON service_follow_up_rules
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own follow-up rules"
+  ON service_follow_up_rules
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own follow-up reminders"
+  ON follow_up_reminders
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own follow-up reminders"
+  ON follow_up_reminders
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own follow-up reminders"
+  ON follow_up_reminders
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own follow-up reminders"
+  ON follow_up_reminders
+  FOR DELETE
+  USING (auth.uid() = user_id);
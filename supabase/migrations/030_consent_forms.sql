@@ -0,0 +1,91 @@
+-- Migration: Consent templates and signed consent forms
+-- A consent form is a snapshot of a template attached to a booking. The client
+-- opens it through its token (public link), answers the health questions and
+-- signs on a canvas. Once signed_at is set the form is read-only.
+
+-- Step 1: Templates
+CREATE TABLE IF NOT EXISTS consent_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  body TEXT NOT NULL,
+  -- [{ "id": "q1", "label": "Do you have diabetes?" }]
+  questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_consent_templates_user_id ON consent_templates(user_id);
+
+-- Step 2: Forms attached to bookings
+CREATE TABLE IF NOT EXISTS consent_forms (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+  template_id UUID REFERENCES consent_templates(id) ON DELETE SET NULL,
+  -- Public link secret; the client signs at /consent/<token>
+  token UUID NOT NULL UNIQUE DEFAULT uuid_generate_v4(),
+  template_name TEXT NOT NULL,
+  body TEXT NOT NULL,
+  questions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- [{ "question_id": "q1", "label": "...", "answer": true, "details": "..." }]
+  answers JSONB,
+  signer_name TEXT,
+  -- Signed by a parent or legal guardian on behalf of a minor
+  signed_by_guardian BOOLEAN NOT NULL DEFAULT FALSE,
+  guardian_name TEXT,
+  -- PNG data URL drawn on the signature canvas
+  signature TEXT,
+  signed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_consent_forms_booking_id ON consent_forms(booking_id);
+CREATE INDEX IF NOT EXISTS idx_consent_forms_client_id ON consent_forms(client_id);
+
+-- Step 3: RLS (signing by token goes through the service role)
+ALTER TABLE consent_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE consent_forms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own consent templates"
+  ON consent_templates
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own consent templates"
+  ON consent_templates
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own consent templates"
+  ON consent_templates
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own consent templates"
+  ON consent_templates
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own consent forms"
+  ON consent_forms
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own consent forms"
+  ON consent_forms
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own consent forms"
+  ON consent_forms
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own consent forms"
+  ON consent_forms
+  FOR DELETE
+  USING (auth.uid() = user_id);
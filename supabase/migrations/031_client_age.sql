@@ -0,0 +1,13 @@
+-- Migration: Client date of birth, guardian details and per-service minimum age
+-- A client younger than a service's min_age may only have it done with a
+-- guardian on file.
+
+-- Step 1: Client date of birth and guardian
+ALTER TABLE clients
+  ADD COLUMN IF NOT EXISTS date_of_birth DATE,
+  ADD COLUMN IF NOT EXISTS guardian_name TEXT,
+  ADD COLUMN IF NOT EXISTS guardian_phone TEXT;
+
+-- Step 2: Minimum age per service (NULL = no restriction)
+ALTER TABLE services
+  ADD COLUMN IF NOT EXISTS min_age SMALLINT CHECK (min_age IS NULL OR min_age BETWEEN 0 AND 120);
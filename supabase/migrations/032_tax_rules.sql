@@ -0,0 +1,101 @@
+-- Migration: Per-user tax rules with effective dates
+-- Replaces the hard-coded 8.5% rate. A rule applies to bookings whose start
+-- date (in the user's timezone) is on or after effective_from, until the next
+-- rule starts, so changing the rate never rewrites past bookings.
+-- payment_methods lists the methods that are taxed by default; the booking
+-- form and the Telegram bot turn tax on for them, and it can still be toggled
+-- per booking.
+
+-- Step 1: Rules table
+CREATE TABLE IF NOT EXISTS tax_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rate NUMERIC(5, 2) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  payment_methods TEXT[] NOT NULL DEFAULT ARRAY['blik', 'card']::TEXT[]
+    CHECK (payment_methods <@ ARRAY['cash', 'blik', 'card']::TEXT[]),
+  effective_from DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_rules_user_id ON tax_rules(user_id, effective_from);
+
+-- Step 2: RLS
+ALTER TABLE tax_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tax rules"
+  ON tax_rules
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own tax rules"
+  ON tax_rules
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tax rules"
+  ON tax_rules
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tax rules"
+  ON tax_rules
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Step 3: Keep the previous 8.5% rate for existing users from the start of time
+INSERT INTO tax_rules (user_id, rate, payment_methods, effective_from)
+SELECT user_id, 8.5, ARRAY['blik', 'card']::TEXT[], DATE '2000-01-01'
+FROM (
+  SELECT user_id FROM user_profiles
+  UNION
+  SELECT user_id FROM bookings WHERE user_id IS NOT NULL
+) AS users
+ON CONFLICT (user_id, effective_from) DO NOTHING;
+
+-- Without a rule there is no tax rate to fall back on
+ALTER TABLE bookings
+ALTER COLUMN tax_rate SET DEFAULT 0;
+
+-- Step 4: Rule in effect for a user at a moment in time
+CREATE OR REPLACE FUNCTION get_tax_rate(p_user_id UUID, p_at TIMESTAMP WITH TIME ZONE)
+RETURNS NUMERIC AS $$
+DECLARE
+  user_timezone TEXT;
+  rule_rate NUMERIC;
+BEGIN
+  SELECT COALESCE(timezone, 'Europe/Warsaw') INTO user_timezone
+  FROM user_profiles
+  WHERE user_id = p_user_id;
+
+  SELECT rate INTO rule_rate
+  FROM tax_rules
+  WHERE user_id = p_user_id
+    AND effective_from <= (p_at AT TIME ZONE COALESCE(user_timezone, 'Europe/Warsaw'))::DATE
+  ORDER BY effective_from DESC
+  LIMIT 1;
+
+  RETURN rule_rate;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Step 5: Tax trigger reads the rate from the rule instead of trusting the client
+CREATE OR REPLACE FUNCTION calculate_tax()
+RETURNS TRIGGER AS $$
+DECLARE
+  rule_rate NUMERIC;
+BEGIN
+  rule_rate := get_tax_rate(NEW.user_id, NEW.start_time);
+  IF rule_rate IS NOT NULL THEN
+    NEW.tax_rate = rule_rate;
+  END IF;
+
+  IF NEW.tax_enabled THEN
+    NEW.tax_amount = (NEW.total_paid * COALESCE(NEW.tax_rate, 0) / 100);
+  ELSE
+    NEW.tax_amount = 0;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
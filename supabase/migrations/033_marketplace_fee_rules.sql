@@ -0,0 +1,73 @@
+-- Migration: Configurable marketplace commission rules
+-- Replaces the hard-coded Booksy 43.05% of the first service price. Each
+-- referral platform (booksy, treatwell, ...) carries its own rules; a booking
+-- uses the rule for its platform in effect on its start date (user's timezone).
+-- The fee is still stored in bookings.booksy_fee, now for any platform, and
+-- bookings.fee_platform records which platform charged it.
+
+-- Step 1: Rules table
+CREATE TABLE IF NOT EXISTS marketplace_fee_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL CHECK (platform = LOWER(TRIM(platform)) AND platform <> ''),
+  rate NUMERIC(6, 3) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  fee_base TEXT NOT NULL DEFAULT 'first_service'
+    CHECK (fee_base IN ('first_service', 'all_services', 'total')),
+  min_fee NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (min_fee >= 0),
+  effective_from DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, platform, effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketplace_fee_rules_user_id
+  ON marketplace_fee_rules(user_id, platform, effective_from);
+
+-- Step 2: RLS
+ALTER TABLE marketplace_fee_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own marketplace fee rules"
+  ON marketplace_fee_rules
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own marketplace fee rules"
+  ON marketplace_fee_rules
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own marketplace fee rules"
+  ON marketplace_fee_rules
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own marketplace fee rules"
+  ON marketplace_fee_rules
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Step 3: Keep the previous Booksy commission for existing users
+INSERT INTO marketplace_fee_rules (user_id, platform, rate, fee_base, min_fee, effective_from)
+SELECT user_id, 'booksy', 43.05, 'first_service', 0, DATE '2000-01-01'
+FROM (
+  SELECT user_id FROM user_profiles
+  UNION
+  SELECT user_id FROM bookings WHERE user_id IS NOT NULL
+) AS users
+ON CONFLICT (user_id, platform, effective_from) DO NOTHING;
+
+-- Step 4: Platform that charged the booking's fee
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS fee_platform TEXT;
+
+-- Booking triggers stay off for the backfill: the profit trigger would re-price
+-- earring_cost and profit of historical bookings at today's product costs
+ALTER TABLE bookings DISABLE TRIGGER USER;
+
+UPDATE bookings
+SET fee_platform = 'booksy'
+WHERE fee_platform IS NULL AND COALESCE(booksy_fee, 0) > 0;
+
+ALTER TABLE bookings ENABLE TRIGGER USER;
+
+COMMENT ON COLUMN bookings.booksy_fee IS 'Marketplace commission for fee_platform (historically Booksy only)';
@@ -0,0 +1,51 @@
+-- Migration: Cash drawer and daily close-out
+-- Expected cash for a day = completed cash bookings - additional costs paid in
+-- cash that day. The operator counts the drawer at the end of the day; the
+-- close stores the figures as they were at that moment plus the difference.
+
+-- Step 1: How an additional cost was paid (NULL = not recorded, not from the drawer)
+ALTER TABLE additional_costs
+ADD COLUMN IF NOT EXISTS payment_method TEXT CHECK (payment_method IN ('cash', 'blik', 'card'));
+
+-- Step 2: Daily closes
+CREATE TABLE IF NOT EXISTS cash_closes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  close_date DATE NOT NULL,
+  cash_booking_count INTEGER NOT NULL DEFAULT 0,
+  cash_bookings_total NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  cash_costs_total NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  expected_cash NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  counted_cash NUMERIC(10, 2) NOT NULL,
+  difference NUMERIC(10, 2) NOT NULL, -- counted - expected; negative means cash is missing
+  notes TEXT,
+  closed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, close_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cash_closes_user_date ON cash_closes(user_id, close_date DESC);
+
+-- Step 3: RLS
+ALTER TABLE cash_closes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own cash closes"
+  ON cash_closes
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own cash closes"
+  ON cash_closes
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own cash closes"
+  ON cash_closes
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own cash closes"
+  ON cash_closes
+  FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,123 @@
+-- Migration: Payment ledger per booking
+-- Deposits, payments (including split cash + BLIK) and refunds are stored as
+-- separate rows. bookings.total_paid is derived from the ledger
+-- (deposits + payments - refunds); the bookings BEFORE UPDATE triggers then
+-- recompute tax_amount and profit from it, tax first (see Step 3).
+-- bookings.payment_method becomes the method that contributed the most.
+
+-- Step 1: Ledger table
+CREATE TABLE IF NOT EXISTS booking_payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  type TEXT NOT NULL DEFAULT 'payment' CHECK (type IN ('deposit', 'payment', 'refund')),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0), -- always positive; refunds are subtracted
+  method TEXT NOT NULL CHECK (method IN ('cash', 'blik', 'card')),
+  paid_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_payments_booking_id ON booking_payments(booking_id);
+CREATE INDEX IF NOT EXISTS idx_booking_payments_user_paid_at ON booking_payments(user_id, paid_at);
+
+-- Step 2: RLS
+ALTER TABLE booking_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own booking payments"
+  ON booking_payments
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own booking payments"
+  ON booking_payments
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own booking payments"
+  ON booking_payments
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own booking payments"
+  ON booking_payments
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Step 3: Tax must be known before profit is calculated. BEFORE triggers fire
+-- in name order, and booking_profit_trigger sorted before booking_tax_trigger,
+-- so profit used the previous tax_amount. The new name sorts first.
+DROP TRIGGER IF EXISTS booking_tax_trigger ON bookings;
+DROP TRIGGER IF EXISTS booking_calculate_tax_trigger ON bookings;
+CREATE TRIGGER booking_calculate_tax_trigger
+  BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION calculate_tax();
+
+-- Step 4: Derive total_paid and payment_method from the ledger
+CREATE OR REPLACE FUNCTION sync_booking_total_paid()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_booking_id UUID;
+  net_paid NUMERIC;
+  main_method TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_booking_id := OLD.booking_id;
+  ELSE
+    target_booking_id := NEW.booking_id;
+  END IF;
+
+  SELECT COALESCE(SUM(CASE WHEN type = 'refund' THEN -amount ELSE amount END), 0)
+  INTO net_paid
+  FROM booking_payments
+  WHERE booking_id = target_booking_id;
+
+  SELECT method INTO main_method
+  FROM booking_payments
+  WHERE booking_id = target_booking_id
+  GROUP BY method
+  ORDER BY SUM(CASE WHEN type = 'refund' THEN -amount ELSE amount END) DESC, MAX(paid_at) DESC
+  LIMIT 1;
+
+  -- Fires booking_calculate_tax_trigger, then booking_profit_trigger
+  UPDATE bookings
+  SET total_paid = GREATEST(net_paid, 0),
+      payment_method = COALESCE(main_method, payment_method)
+  WHERE id = target_booking_id;
+
+  IF TG_OP = 'UPDATE' AND OLD.booking_id <> NEW.booking_id THEN
+    UPDATE bookings
+    SET total_paid = GREATEST((
+      SELECT COALESCE(SUM(CASE WHEN type = 'refund' THEN -amount ELSE amount END), 0)
+      FROM booking_payments
+      WHERE booking_id = OLD.booking_id
+    ), 0)
+    WHERE id = OLD.booking_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS booking_payments_total_trigger ON booking_payments;
+CREATE TRIGGER booking_payments_total_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON booking_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_booking_total_paid();
+
+-- Step 5: Existing paid bookings get a single payment at the appointment time.
+-- The ledger trigger is off for the backfill: the payment equals total_paid
+-- already, and updating the bookings would re-run the profit and tax triggers
+-- with today's product costs and tax rules, rewriting historical profit.
+ALTER TABLE booking_payments DISABLE TRIGGER booking_payments_total_trigger;
+
+INSERT INTO booking_payments (user_id, booking_id, type, amount, method, paid_at)
+SELECT b.user_id, b.id, 'payment', b.total_paid, COALESCE(b.payment_method, 'cash'), b.start_time
+FROM bookings b
+WHERE b.total_paid > 0
+  AND b.user_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM booking_payments bp WHERE bp.booking_id = b.id);
+
+ALTER TABLE booking_payments ENABLE TRIGGER booking_payments_total_trigger;
@@ -0,0 +1,127 @@
+-- Migration: Gift vouchers
+-- A sold voucher is a liability: the money is in, the service is still owed.
+-- Revenue is recognised when the voucher is redeemed as a booking payment
+-- (booking_payments.method = 'voucher'). The remaining balance is derived
+-- from those redemptions, so it cannot go below zero.
+
+-- Step 1: Allow 'voucher' as a booking payment method
+ALTER TABLE bookings
+DROP CONSTRAINT IF EXISTS bookings_payment_method_check;
+
+ALTER TABLE bookings
+ADD CONSTRAINT bookings_payment_method_check
+CHECK (payment_method IN ('cash', 'blik', 'card', 'voucher'));
+
+ALTER TABLE booking_payments
+DROP CONSTRAINT IF EXISTS booking_payments_method_check;
+
+ALTER TABLE booking_payments
+ADD CONSTRAINT booking_payments_method_check
+CHECK (method IN ('cash', 'blik', 'card', 'voucher'));
+
+ALTER TABLE tax_rules
+DROP CONSTRAINT IF EXISTS tax_rules_payment_methods_check;
+
+ALTER TABLE tax_rules
+ADD CONSTRAINT tax_rules_payment_methods_check
+CHECK (payment_methods <@ ARRAY['cash', 'blik', 'card', 'voucher']::TEXT[]);
+
+-- Step 2: Vouchers
+CREATE TABLE IF NOT EXISTS gift_vouchers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  value NUMERIC(10, 2) NOT NULL CHECK (value > 0),
+  balance NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (balance >= 0), -- value minus redemptions
+  sale_method TEXT NOT NULL CHECK (sale_method IN ('cash', 'blik', 'card')),
+  sold_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_on DATE, -- last valid day; NULL never expires
+  purchaser_name TEXT,
+  recipient_name TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gift_vouchers_user_sold_at ON gift_vouchers(user_id, sold_at);
+
+-- Step 3: RLS
+ALTER TABLE gift_vouchers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own gift vouchers"
+  ON gift_vouchers
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own gift vouchers"
+  ON gift_vouchers
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own gift vouchers"
+  ON gift_vouchers
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own gift vouchers"
+  ON gift_vouchers
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Step 4: Link voucher redemptions to the voucher
+ALTER TABLE booking_payments
+ADD COLUMN IF NOT EXISTS voucher_id UUID REFERENCES gift_vouchers(id) ON DELETE RESTRICT;
+
+ALTER TABLE booking_payments
+ADD CONSTRAINT booking_payments_voucher_check
+CHECK ((method = 'voucher') = (voucher_id IS NOT NULL));
+
+CREATE INDEX IF NOT EXISTS idx_booking_payments_voucher_id ON booking_payments(voucher_id);
+
+-- Step 5: Derive the balance from redemptions (refunds go back on the voucher)
+CREATE OR REPLACE FUNCTION gift_voucher_redeemed(target_voucher_id UUID)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(SUM(CASE WHEN type = 'refund' THEN -amount ELSE amount END), 0)
+  FROM booking_payments
+  WHERE voucher_id = target_voucher_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION calculate_gift_voucher_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.balance := NEW.value - gift_voucher_redeemed(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS gift_vouchers_balance_trigger ON gift_vouchers;
+CREATE TRIGGER gift_vouchers_balance_trigger
+  BEFORE INSERT OR UPDATE ON gift_vouchers
+  FOR EACH ROW
+  EXECUTE FUNCTION calculate_gift_voucher_balance();
+
+CREATE OR REPLACE FUNCTION sync_gift_voucher_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Touching the row re-runs calculate_gift_voucher_balance; the balance
+  -- CHECK then rejects redeeming more than is left
+  IF TG_OP <> 'INSERT' AND OLD.voucher_id IS NOT NULL THEN
+    UPDATE gift_vouchers SET balance = balance WHERE id = OLD.voucher_id;
+  END IF;
+  IF TG_OP <> 'DELETE' AND NEW.voucher_id IS NOT NULL THEN
+    UPDATE gift_vouchers SET balance = balance WHERE id = NEW.voucher_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS booking_payments_voucher_trigger ON booking_payments;
+CREATE TRIGGER booking_payments_voucher_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON booking_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_gift_voucher_balance();
+
+-- Step 6: Vouchers sold for cash go into the drawer
+ALTER TABLE cash_closes
+ADD COLUMN IF NOT EXISTS cash_voucher_sales_total NUMERIC(10, 2) NOT NULL DEFAULT 0;
@@ -0,0 +1,109 @@
+-- Migration: Named promotions
+-- bookings.custom_discount stays the amount taken off the list prices;
+-- bookings.promotion_id records which promotion gave it (NULL for a manual
+-- discount). A promotion is a percentage or fixed amount, optionally limited
+-- to services or products (and to specific services / product categories),
+-- valid between starts_on and ends_on, with an optional cap on uses that the
+-- database enforces. A promotion with bookings cannot be deleted, only
+-- deactivated, so its discounts never turn into manual ones.
+
+-- Step 1: Promotions table
+CREATE TABLE IF NOT EXISTS promotions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  code TEXT CHECK (code IS NULL OR (code = UPPER(TRIM(code)) AND code <> '')),
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value NUMERIC(10, 2) NOT NULL CHECK (discount_value > 0),
+  applies_to TEXT NOT NULL DEFAULT 'all' CHECK (applies_to IN ('all', 'services', 'products')),
+  service_ids UUID[] NOT NULL DEFAULT '{}', -- empty: every service
+  product_categories TEXT[] NOT NULL DEFAULT '{}', -- empty: every product
+  starts_on DATE NOT NULL,
+  ends_on DATE, -- last valid day; NULL runs until deactivated
+  usage_limit INTEGER CHECK (usage_limit IS NULL OR usage_limit > 0),
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+  CHECK (ends_on IS NULL OR ends_on >= starts_on),
+  UNIQUE (user_id, code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotions_user_id ON promotions(user_id, starts_on);
+
+-- Step 2: RLS
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own promotions"
+  ON promotions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own promotions"
+  ON promotions
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own promotions"
+  ON promotions
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own promotions"
+  ON promotions
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Step 3: Link bookings to the promotion that discounted them
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS promotion_id UUID REFERENCES promotions(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_promotion_id ON bookings(promotion_id);
+
+-- Step 4: Usage limit. Cancelled and no-show bookings give their use back;
+-- only a booking that starts using the promotion is checked, so lowering the
+-- limit later does not block editing bookings that already have it.
+CREATE OR REPLACE FUNCTION check_promotion_usage_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  promotion_limit INTEGER;
+  used INTEGER;
+BEGIN
+  IF NEW.promotion_id IS NULL OR NEW.status IN ('cancelled', 'no_show') THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE'
+    AND OLD.promotion_id IS NOT DISTINCT FROM NEW.promotion_id
+    AND OLD.status NOT IN ('cancelled', 'no_show') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Locking the promotion makes concurrent bookings take turns on the last use
+  SELECT usage_limit INTO promotion_limit
+  FROM promotions
+  WHERE id = NEW.promotion_id
+  FOR UPDATE;
+
+  IF promotion_limit IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO used
+  FROM bookings
+  WHERE promotion_id = NEW.promotion_id
+    AND id <> NEW.id
+    AND status NOT IN ('cancelled', 'no_show');
+
+  IF used >= promotion_limit THEN
+    RAISE EXCEPTION 'Usage limit reached for this promotion';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS booking_promotion_usage_trigger ON bookings;
+CREATE TRIGGER booking_promotion_usage_trigger
+  BEFORE INSERT OR UPDATE OF promotion_id, status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION check_promotion_usage_limit();
@@ -0,0 +1,77 @@
+-- Migration: Product variants
+-- A product with parent_id NULL is a standalone product or the parent of a
+-- variant group; variants point at the parent. Every row in a group is still
+-- a sellable product with its own SKU, price, cost and stock. The attributes
+-- (sold_as, material, gauge, length, colour) tell the variants apart, so the
+-- Telegram parser no longer relies on the "Single - …" naming convention.
+
+-- Step 1: Variant columns
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES products(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS sold_as TEXT CHECK (sold_as IN ('single', 'pair')),
+ADD COLUMN IF NOT EXISTS material TEXT,
+ADD COLUMN IF NOT EXISTS gauge TEXT,
+ADD COLUMN IF NOT EXISTS length TEXT,
+ADD COLUMN IF NOT EXISTS colour TEXT;
+
+ALTER TABLE products
+ADD CONSTRAINT products_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_products_parent_id ON products(parent_id);
+
+-- Step 2: Groups are one level deep — a parent cannot itself be a variant
+CREATE OR REPLACE FUNCTION check_product_variant_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM products
+    WHERE id = NEW.parent_id
+      AND (parent_id IS NOT NULL OR user_id <> NEW.user_id)
+  ) THEN
+    RAISE EXCEPTION 'Product % cannot be a variant parent', NEW.parent_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM products WHERE parent_id = NEW.id) THEN
+    RAISE EXCEPTION 'Product % has variants and cannot become a variant itself', NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_product_variant_parent_trigger ON products;
+CREATE TRIGGER check_product_variant_parent_trigger
+  BEFORE INSERT OR UPDATE OF parent_id ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION check_product_variant_parent();
+
+-- Step 3: Backfill from the old naming convention. Singles were named
+-- "Single - …" and shared their SKU with the pair; the pair becomes the parent
+-- and the single gets its own SKU.
+UPDATE products
+SET sold_as = CASE WHEN name ~* '^\s*single\s*-' THEN 'single' ELSE 'pair' END
+WHERE sku IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM products other
+    WHERE other.user_id = products.user_id
+      AND other.sku = products.sku
+      AND other.id <> products.id
+  );
+
+UPDATE products AS single
+SET
+  parent_id = pair.id,
+  sku = single.sku || '-S'
+FROM (
+  SELECT DISTINCT ON (user_id, sku) id, user_id, sku
+  FROM products
+  WHERE sold_as = 'pair'
+  ORDER BY user_id, sku, active DESC, created_at
+) AS pair
+WHERE single.sold_as = 'single'
+  AND single.user_id = pair.user_id
+  AND single.sku = pair.sku;
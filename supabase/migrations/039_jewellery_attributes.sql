@@ -0,0 +1,66 @@
+-- Migration: Structured jewellery attributes
+-- material becomes one of a fixed list so stock can be filtered by it;
+-- gauge (bar thickness) and length (bar length / inner diameter) become
+-- millimetres. Both columns were free text in 038.
+
+-- Step 1: Map free-text materials onto the fixed list (unrecognised values are cleared).
+-- Plain "gold" is 14k, as in materialsForHint (lib/products/attributes.ts).
+UPDATE products
+SET material = CASE
+  WHEN material ~* '(titan|титан|tytan|f136)' THEN 'titanium_f136'
+  WHEN material ~* '(14\s*k|585)' THEN 'gold_14k'
+  WHEN material ~* '(18\s*k|750)' THEN 'gold_18k'
+  WHEN material ~* '(gold|золот|złot|zlot)' THEN 'gold_14k'
+  WHEN material ~* '(steel|стал|stal|316)' THEN 'surgical_steel'
+  WHEN material ~* '(niob|ниоб)' THEN 'niobium'
+  WHEN material ~* '(bioplast|биопласт)' THEN 'bioplast'
+  ELSE NULL
+END
+WHERE material IS NOT NULL;
+
+ALTER TABLE products
+ADD CONSTRAINT products_material_check CHECK (
+  material IN ('titanium_f136', 'gold_14k', 'gold_18k', 'surgical_steel', 'niobium', 'bioplast')
+);
+
+-- Step 2: Gauge and length in millimetres. A "16G" token anywhere in the text
+-- is converted ("16G (1.2mm)", "16g 8mm"), as parseMillimetres does; otherwise the first number is taken
+-- as millimetres. Zero or out-of-range values are cleared instead of failing
+-- the checks or the column precision.
+CREATE OR REPLACE FUNCTION pg_temp.parse_millimetres(raw TEXT, max_mm NUMERIC)
+RETURNS NUMERIC AS $$
+DECLARE
+  gauge_token TEXT;
+  mm NUMERIC;
+BEGIN
+  gauge_token := SUBSTRING(raw FROM '(?i)(?:^|[^\d.,])(\d{1,2})\s*g(?:auge)?(?![a-z])');
+  IF gauge_token IS NOT NULL THEN
+    mm := CASE gauge_token::INTEGER
+      WHEN 20 THEN 0.8
+      WHEN 18 THEN 1.0
+      WHEN 16 THEN 1.2
+      WHEN 14 THEN 1.6
+      WHEN 12 THEN 2.0
+      WHEN 10 THEN 2.5
+    END;
+  ELSE
+    mm := NULLIF(REPLACE(SUBSTRING(raw FROM '\d+(?:[.,]\d+)?'), ',', '.'), '')::NUMERIC;
+  END IF;
+
+  IF mm IS NULL OR mm <= 0 OR mm >= max_mm THEN
+    RETURN NULL;
+  END IF;
+  RETURN ROUND(mm, 2);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+ALTER TABLE products
+ALTER COLUMN gauge TYPE NUMERIC(4, 2) USING pg_temp.parse_millimetres(gauge, 100),
+ALTER COLUMN length TYPE NUMERIC(5, 2) USING pg_temp.parse_millimetres(length, 1000);
+
+ALTER TABLE products
+ADD CONSTRAINT products_gauge_check CHECK (gauge IS NULL OR gauge > 0),
+ADD CONSTRAINT products_length_check CHECK (length IS NULL OR length > 0);
+
+-- Step 3: Indexes for stock lookups by material and size
+CREATE INDEX IF NOT EXISTS idx_products_material ON products(user_id, material, gauge, length);
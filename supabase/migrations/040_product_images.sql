@@ -0,0 +1,61 @@
+-- Migration: Product photo gallery
+-- Files live in the public "product-images" storage bucket under
+-- <user_id>/<product_id>/ (or in .uploads/ when PRODUCT_IMAGE_STORAGE=local);
+-- product_images keeps their paths and URLs. The image with the lowest
+-- position is the product's cover. Thumbnails are made in the browser before
+-- upload, so both files are stored side by side.
+
+-- Step 1: Product images table
+CREATE TABLE IF NOT EXISTS product_images (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  thumbnail_path TEXT NOT NULL,
+  url TEXT NOT NULL,
+  thumbnail_url TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_images_product_id ON product_images(product_id, position);
+CREATE INDEX IF NOT EXISTS idx_product_images_user_id ON product_images(user_id);
+
+-- Step 2: RLS
+ALTER TABLE product_images ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own product_images"
+  ON product_images
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own product_images"
+  ON product_images
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own product_images"
+  ON product_images
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own product_images"
+  ON product_images
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Step 3: Public bucket; users write only inside their own folder
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('product-images', 'product-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own product images"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (bucket_id = 'product-images' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own product images"
+  ON storage.objects
+  FOR DELETE
+  USING (bucket_id = 'product-images' AND (storage.foldername(name))[1] = auth.uid()::text);
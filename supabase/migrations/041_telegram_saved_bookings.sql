@@ -0,0 +1,34 @@
+-- Migration: Undo and /last for bookings saved by the Telegram bot
+-- bookings.created_via records where a booking came from, so the bot can list
+-- the ones it created. telegram_saved_batches keeps the ids saved by one
+-- confirmation so «Отменить» deletes exactly those within the grace window.
+
+-- Step 1: Booking origin (existing rows cannot be told apart and stay 'crm')
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS created_via TEXT NOT NULL DEFAULT 'crm'
+  CHECK (created_via IN ('crm', 'telegram', 'online'));
+
+-- Booking triggers stay off so the profit trigger does not re-price history
+ALTER TABLE bookings DISABLE TRIGGER USER;
+
+UPDATE bookings SET created_via = 'online' WHERE notes LIKE 'Online booking%';
+
+ALTER TABLE bookings ENABLE TRIGGER USER;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_created_via
+  ON bookings(user_id, created_via, created_at DESC);
+
+-- Step 2: Bookings saved by one bot confirmation (service role only)
+CREATE TABLE IF NOT EXISTS telegram_saved_batches (
+  token TEXT PRIMARY KEY,
+  chat_id BIGINT NOT NULL,
+  message_thread_id BIGINT NOT NULL DEFAULT 0,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  booking_ids UUID[] NOT NULL,
+  undo_until TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_telegram_saved_batches_undo_until ON telegram_saved_batches(undo_until);
+
+ALTER TABLE telegram_saved_batches ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,12 @@
+-- Migration: Instagram handle on clients
+-- Stored lowercase without the leading @, so the Telegram bot can find a
+-- client by the handle written in a sale message.
+
+-- Step 1: Column
+ALTER TABLE clients
+  ADD COLUMN IF NOT EXISTS instagram TEXT
+  CHECK (instagram ~ '^[a-z0-9._]{1,30}$');
+
+-- Step 2: Lookup by handle
+CREATE INDEX IF NOT EXISTS idx_clients_instagram ON clients(user_id, instagram)
+  WHERE instagram IS NOT NULL;
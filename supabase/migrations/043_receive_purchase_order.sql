@@ -0,0 +1,69 @@
+-- Migration: Receive a purchase order in one transaction
+-- Landed and product costs are calculated in the app (weighted average or
+-- FIFO); this function writes them together with the stock receipts and the
+-- status change, so a failure leaves the order untouched and a second
+-- attempt cannot post the same lines twice.
+
+CREATE OR REPLACE FUNCTION receive_purchase_order(p_order_id UUID, p_lines JSONB)
+RETURNS VOID AS $$
+DECLARE
+  target_order purchase_orders%ROWTYPE;
+  line JSONB;
+  target_item purchase_order_items%ROWTYPE;
+BEGIN
+  -- Locks the order so two concurrent receipts cannot both pass the status check
+  SELECT * INTO target_order
+  FROM purchase_orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+  IF target_order.status = 'received' THEN
+    RAISE EXCEPTION 'This purchase order has already been received';
+  END IF;
+  IF jsonb_array_length(p_lines) <> (
+    SELECT COUNT(*) FROM purchase_order_items WHERE purchase_order_id = p_order_id
+  ) THEN
+    RAISE EXCEPTION 'The order lines have changed, reload the page and try again';
+  END IF;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    SELECT * INTO target_item
+    FROM purchase_order_items
+    WHERE id = (line->>'item_id')::UUID
+      AND purchase_order_id = p_order_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The order lines have changed, reload the page and try again';
+    END IF;
+
+    UPDATE purchase_order_items
+    SET landed_unit_cost = (line->>'landed_unit_cost')::NUMERIC
+    WHERE id = target_item.id;
+
+    INSERT INTO stock_movements (user_id, product_id, type, qty, unit_cost, purchase_order_item_id, note)
+    VALUES (
+      target_order.user_id,
+      target_item.product_id,
+      'receipt',
+      target_item.qty,
+      (line->>'landed_unit_cost')::NUMERIC,
+      target_item.id,
+      'PO ' || target_order.supplier || ' ' || target_order.order_date
+    );
+
+    IF line->>'product_cost' IS NOT NULL THEN
+      UPDATE products
+      SET cost = (line->>'product_cost')::NUMERIC
+      WHERE id = target_item.product_id;
+    END IF;
+  END LOOP;
+
+  UPDATE purchase_orders
+  SET status = 'received',
+      received_at = NOW()
+  WHERE id = p_order_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,39 @@
+-- Migration: Merge duplicate clients in one transaction
+-- The merged field values are worked out in the app (lib/clients/merge-clients.ts);
+-- this function moves the duplicates' bookings, follow-up reminders and
+-- consent forms, writes the fields and deletes the duplicates together, so a
+-- failure never leaves a half-merged client.
+
+CREATE OR REPLACE FUNCTION merge_clients(
+  p_keep_id UUID,
+  p_duplicate_ids UUID[],
+  p_fields JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM 1 FROM clients WHERE id = p_keep_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client not found';
+  END IF;
+
+  p_duplicate_ids := array_remove(p_duplicate_ids, p_keep_id);
+
+  -- Rows are moved first so neither ON DELETE SET NULL (bookings, consent
+  -- forms) nor ON DELETE CASCADE (reminders) fires
+  UPDATE bookings SET client_id = p_keep_id WHERE client_id = ANY(p_duplicate_ids);
+  UPDATE follow_up_reminders SET client_id = p_keep_id WHERE client_id = ANY(p_duplicate_ids);
+  UPDATE consent_forms SET client_id = p_keep_id WHERE client_id = ANY(p_duplicate_ids);
+
+  UPDATE clients
+  SET phone = p_fields->>'phone',
+      instagram = p_fields->>'instagram',
+      source = p_fields->>'source',
+      date_of_birth = (p_fields->>'date_of_birth')::DATE,
+      guardian_name = p_fields->>'guardian_name',
+      guardian_phone = p_fields->>'guardian_phone',
+      notes = p_fields->>'notes'
+  WHERE id = p_keep_id;
+
+  DELETE FROM clients WHERE id = ANY(p_duplicate_ids);
+END;
+$$ LANGUAGE plpgsql;
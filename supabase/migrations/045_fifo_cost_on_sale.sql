@@ -0,0 +1,91 @@
+-- Migration: Keep FIFO product cost current as stock leaves the case
+-- Under FIFO products.cost is the cost of the next unit to sell, so it moves
+-- every time a sale, loss or adjustment consumes a layer, not only on receipt.
+-- fifo_unit_cost() mirrors fifoUnitCost() in lib/purchasing/landed-cost.ts.
+
+-- Step 1: FIFO cost of the next unit for a product's current on-hand qty
+CREATE OR REPLACE FUNCTION fifo_unit_cost(p_product_id UUID)
+RETURNS NUMERIC AS $$
+DECLARE
+  remaining INTEGER;
+  layer RECORD;
+  oldest_cost NUMERIC;
+BEGIN
+  SELECT on_hand_qty INTO remaining
+  FROM products
+  WHERE id = p_product_id;
+
+  -- Units on hand are the newest receipts; the oldest layer reached sells next
+  FOR layer IN
+    SELECT qty, unit_cost
+    FROM stock_movements
+    WHERE product_id = p_product_id
+      AND type = 'receipt'
+      AND qty > 0
+      AND unit_cost IS NOT NULL
+    ORDER BY created_at DESC
+  LOOP
+    IF remaining <= layer.qty THEN
+      RETURN layer.unit_cost;
+    END IF;
+    remaining := remaining - layer.qty;
+    oldest_cost := layer.unit_cost;
+  END LOOP;
+
+  -- More stock than receipts explain (opening stock counted by adjustment)
+  RETURN oldest_cost;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 2: Refresh products.cost after non-receipt movements for FIFO users
+-- Receipts are skipped: receive_purchase_order() writes the cost itself.
+-- The trigger name sorts after stock_movement_on_hand_trigger, so on_hand_qty
+-- is already updated when the cost is recalculated.
+CREATE OR REPLACE FUNCTION refresh_fifo_product_cost()
+RETURNS TRIGGER AS $$
+DECLARE
+  movement stock_movements%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    movement := OLD;
+  ELSE
+    movement := NEW;
+  END IF;
+
+  IF movement.type = 'receipt' THEN
+    RETURN NULL;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_id = movement.user_id
+      AND cost_method = 'fifo'
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE products
+  SET cost = COALESCE(fifo_unit_cost(id), cost)
+  WHERE id = movement.product_id;
+
+  IF TG_OP = 'UPDATE' AND OLD.product_id != NEW.product_id THEN
+    UPDATE products
+    SET cost = COALESCE(fifo_unit_cost(id), cost)
+    WHERE id = OLD.product_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stock_movement_refresh_fifo_cost_trigger ON stock_movements;
+CREATE TRIGGER stock_movement_refresh_fifo_cost_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_fifo_product_cost();
+
+-- Step 3: Bring existing FIFO products up to date with stock already sold
+UPDATE products p
+SET cost = COALESCE(fifo_unit_cost(p.id), p.cost)
+FROM user_profiles up
+WHERE up.user_id = p.user_id
+  AND up.cost_method = 'fifo';